@@ -0,0 +1,38 @@
+import type { StripStatus, StripsWsMessage } from '../src/types.ts';
+import type { Engine } from './engine.ts';
+import type { Fleet } from './fleet.ts';
+import type { PlaylistPlayer } from './playlist.ts';
+import type { Scheduler } from './schedule.ts';
+import type { MockStore, SavedPatternRow } from './state.ts';
+
+/** Mirrors PreviewServer's CalibrationTarget: the one strip showing its end markers. */
+export interface MockCalibration {
+   stripId: number;
+   length: number;
+   expiresAt: number;
+}
+
+// Same colors and timeout as PreviewServer's companion object
+export const CALIBRATION_FIRST_COLOR: [number, number, number] = [0, 255, 0];
+export const CALIBRATION_LAST_COLOR: [number, number, number] = [255, 0, 0];
+export const CALIBRATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Everything a mock route or socket handler can reach — the mock's PreviewServer. */
+export interface MockContext {
+   store: MockStore;
+   engine: Engine;
+   fleet: Fleet;
+   player: PlaylistPlayer;
+   scheduler: Scheduler;
+   /** currentPresetName: only /api/saved-patterns/{id}/load changes it, like the real server. */
+   presetName: string | null;
+   /** Set by POST /api/calibration; while active, strip_leds shows only the end markers. */
+   calibration: MockCalibration | null;
+   /** Applies a preset without making it the startup default, like PreviewServer.showPreset. */
+   showPreset(preset: SavedPatternRow): void;
+   broadcastStrips(message: StripsWsMessage): void;
+   /** Discovered strips joined with their configured lengths, as GET /api/strips returns them. */
+   stripStatuses(): StripStatus[];
+   viewportClientCount(): number;
+   startScenario(name: string): boolean;
+}
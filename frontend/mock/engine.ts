@@ -0,0 +1,171 @@
+import type { Modulator, RenderStats, Timeline, Transition } from '../src/types.ts';
+import { isModulatable } from '../src/utils/modulators.ts';
+import { createModulation } from './modulation.ts';
+import { MOCK_PATTERNS, defaultParams, findPattern, type ParamValues, type PatternInstance } from './patterns.ts';
+import { createTimelinePlayback, type TimelinePlayback } from './timeline.ts';
+
+// Stand-in for FrameRenderer + Viewport. The mock only renders at the
+// broadcast rate (the real host renders at targetFPS and throttles the
+// broadcast to 20 FPS), so the reported stats reflect the mock's own loop.
+// Mock patterns can't take new parameters mid-animation, so while modulators
+// or a timeline run each frame rebuilds the pattern and fast-forwards it to the current time.
+
+export interface Engine {
+   readonly width: number;
+   readonly height: number;
+   /** Row-major RGB, 3 bytes per pixel — the same layout as Viewport.toByteArray(). */
+   readonly frame: Uint8Array;
+   readonly patternName: string;
+   readonly params: ParamValues;
+   readonly modulators: Record<string, Modulator>;
+   readonly timeline: Timeline | null;
+   /** Seconds into the timeline, or null if none is playing. */
+   readonly timelinePosition: number | null;
+   readonly outputEnabled: boolean;
+   setPattern(name: string, params: ParamValues): boolean;
+   /** Keeps the modulators on the pattern's numeric parameters and returns them. */
+   setModulators(modulators: Record<string, Modulator>): Record<string, Modulator>;
+   /** Plays a timeline from its start, or stops playback when null. */
+   setTimeline(timeline: Timeline | null): void;
+   /** Blends from the current frame into whatever is set next; a cut does nothing. */
+   beginTransition(transition: Transition): void;
+   /** While off, frames are black; setting a pattern turns output back on, like PreviewServer.setPattern. */
+   setOutputEnabled(enabled: boolean): void;
+   resize(width: number, height: number): void;
+   tick(): void;
+   getStatistics(): RenderStats;
+}
+
+export function createEngine(width: number, height: number): Engine {
+   let w = width;
+   let h = height;
+   let frame = new Uint8Array(w * h * 3);
+   let patternName = MOCK_PATTERNS[0].name;
+   let params: ParamValues = defaultParams(MOCK_PATTERNS[0]);
+   let instance: PatternInstance = MOCK_PATTERNS[0].create(params, w, h);
+   let modulators: Record<string, Modulator> = {};
+   const modulation = createModulation();
+   let timeline: Timeline | null = null;
+   let playback: TimelinePlayback | null = null;
+   // The outgoing frame while a transition runs, as TransitionBlend holds it
+   let transition: { from: Uint8Array; spec: Transition; progress: number } | null = null;
+   let outputEnabled = true;
+   // Animation time since the pattern was set, for rebuilding it mid-run
+   let elapsed = 0;
+   let lastTick = performance.now();
+   let fps = 0;
+   let frameTime = 0;
+
+   function instantiate(values: ParamValues = params) {
+      const pattern = findPattern(patternName)!;
+      instance = pattern.create(values, w, h);
+      if(elapsed > 0) instance.update(elapsed);
+   }
+
+   function blendTransition(dt: number) {
+      if(!transition) return;
+      const { from, spec } = transition;
+      transition.progress = Math.min(1, transition.progress + dt / spec.duration);
+      const { progress } = transition;
+      // The wipe's edge is soft over a tenth of the width
+      const feather = Math.max(1, w / 10);
+      const edge = progress * (w + feather);
+      for(let y = 0; y < h; y++) {
+         for(let x = 0; x < w; x++) {
+            const mix = spec.type === 'wipe' ? Math.max(0, Math.min(1, (edge - x) / feather)) : progress;
+            if(mix >= 1) continue;
+            const i = (y * w + x) * 3;
+            for(let c = 0; c < 3; c++) frame[i + c] = Math.round(from[i + c] * (1 - mix) + frame[i + c] * mix);
+         }
+      }
+      if(progress >= 1) transition = null;
+   }
+
+   return {
+      get width() { return w; },
+      get height() { return h; },
+      get frame() { return frame; },
+      get patternName() { return patternName; },
+      get params() { return params; },
+      get modulators() { return modulators; },
+      get timeline() { return timeline; },
+      get timelinePosition() { return playback?.position ?? null; },
+      get outputEnabled() { return outputEnabled; },
+
+      setPattern(name, newParams) {
+         if(!findPattern(name)) return false;
+         // Switching to another pattern drops its modulators and timeline
+         if(name !== patternName) {
+            modulators = {};
+            modulation.clear();
+            timeline = null;
+            playback = null;
+         }
+         patternName = name;
+         params = newParams;
+         elapsed = 0;
+         outputEnabled = true;
+         instantiate();
+         return true;
+      },
+
+      setModulators(next) {
+         const pattern = findPattern(patternName)!;
+         const numeric = new Set(pattern.parameters.filter(isModulatable).map((p) => p.name));
+         modulators = Object.fromEntries(Object.entries(next).filter(([name]) => numeric.has(name)));
+         const wasActive = modulation.active;
+         modulation.configure(pattern.parameters, modulators);
+         if(wasActive && !modulation.active && !playback) instantiate();
+         return modulators;
+      },
+
+      setTimeline(next) {
+         const wasPlaying = playback !== null;
+         timeline = next;
+         playback = next ? createTimelinePlayback(next, findPattern(patternName)!.parameters) : null;
+         if(wasPlaying && !playback && !modulation.active) instantiate();
+      },
+
+      beginTransition(next) {
+         transition = next.type !== 'cut' && next.duration > 0
+            ? { from: frame.slice(), spec: next, progress: 0 }
+            : null;
+      },
+
+      setOutputEnabled(enabled) {
+         outputEnabled = enabled;
+      },
+
+      resize(newWidth, newHeight) {
+         if(newWidth === w && newHeight === h) return;
+         transition = null;
+         w = newWidth;
+         h = newHeight;
+         frame = new Uint8Array(w * h * 3);
+         instantiate();
+      },
+
+      tick() {
+         const start = performance.now();
+         const dt = (start - lastTick) / 1000;
+         lastTick = start;
+         elapsed += dt;
+         if(playback || modulation.active) {
+            let values = playback ? playback.advance(dt, params) : params;
+            if(modulation.active) values = modulation.advance(dt, values);
+            instantiate(values);
+         }
+         else instance.update(dt);
+         if(outputEnabled) instance.render(frame, w, h);
+         else frame.fill(0);
+         blendTransition(dt);
+         frameTime = performance.now() - start;
+         // Exponential moving average keeps the number readable in the UI
+         if(dt > 0) fps = fps === 0 ? 1 / dt : fps * 0.9 + (1 / dt) * 0.1;
+      },
+
+      getStatistics() {
+         return { fps, frameTime };
+      },
+   };
+}
@@ -0,0 +1,306 @@
+import type { StripTelemetryMessage } from '../src/types.ts';
+import type { MockStore } from './state.ts';
+
+// Simulated BluetoothHost. Devices behave like the real strip controllers:
+// background scans run every scanIntervalSeconds, dropped strips are
+// auto-reconnected unless they were disconnected by hand, and connected strips
+// answer telemetry polls every telemetryIntervalSeconds. Faults are injected
+// through the functions at the bottom of Fleet (see scenarios.ts and the
+// /__mock control routes).
+
+const HISTORY_SIZE = 150; // matches TelemetryStore
+const SCAN_DURATION_MS = 1500;
+const CONNECT_DURATION_MS = 400;
+const AMBIENT_TEMP_C = 36;
+const OVERHEAT_TEMP_C = 82;
+const MA_PER_LED_FULL_WHITE = 60;
+
+interface SimDevice {
+   id: number;
+   name: string;
+   address: string;
+   discovered: boolean;
+   inRange: boolean;
+   connected: boolean;
+   manuallyDisconnected: boolean;
+   overheating: boolean;
+   temperature: number;
+   load: number;
+   bootedAt: number;
+   frames: number;
+   history: { temperature: number[]; current: number[] };
+}
+
+export interface FleetStripInfo {
+   id: number;
+   name: string;
+   address: string;
+   connected: boolean;
+}
+
+export interface FleetListener {
+   /** A discovery_event line; `refresh` means the strip list changed and should be re-broadcast. */
+   discovery(message: string, refresh: boolean): void;
+   telemetry(message: StripTelemetryMessage): void;
+}
+
+export interface Fleet {
+   start(): void;
+   stop(): void;
+   getStripInfos(): FleetStripInfo[];
+   isConnected(id: number): boolean;
+   connectStrip(id: number): Promise<boolean>;
+   disconnectStrip(id: number): void;
+   recordFrame(id: number, load: number): void;
+
+   scanNow(): void;
+   addDevice(): FleetStripInfo;
+   dropConnection(id: number): boolean;
+   setInRange(id: number, inRange: boolean): boolean;
+   overheat(id: number): boolean;
+   recover(id: number): boolean;
+   failScans(count: number, message: string): void;
+}
+
+function macFor(id: number): string {
+   const hex = id.toString(16).padStart(2, '0').toUpperCase();
+   return `D4:3B:04:7A:11:${hex}`;
+}
+
+function sleep(ms: number): Promise<void> {
+   return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function pushCapped(list: number[], value: number) {
+   list.push(value);
+   if(list.length > HISTORY_SIZE) list.shift();
+}
+
+export function createFleet(store: MockStore, listener: FleetListener): Fleet {
+   const devices = new Map<number, SimDevice>();
+   let scanTimer: ReturnType<typeof setTimeout> | null = null;
+   let telemetryTimer: ReturnType<typeof setTimeout> | null = null;
+   let scanning = false;
+   let failingScans = 0;
+   let scanFailureMessage = '';
+   let running = false;
+
+   function makeDevice(id: number, name: string): SimDevice {
+      return {
+         id,
+         name,
+         address: macFor(id),
+         discovered: false,
+         inRange: true,
+         connected: false,
+         manuallyDisconnected: false,
+         overheating: false,
+         temperature: AMBIENT_TEMP_C + Math.random() * 3,
+         load: 0,
+         bootedAt: Date.now() - Math.floor(Math.random() * 3_600_000),
+         frames: 0,
+         history: { temperature: [], current: [] },
+      };
+   }
+
+   // Every configured strip has a controller in range; like scanAndConnect()
+   // at startup, they are all discovered and connected straight away.
+   for(const strip of store.strips) {
+      const device = makeDevice(strip.id, strip.btName);
+      device.discovered = true;
+      device.connected = true;
+      devices.set(strip.id, device);
+   }
+
+   function stripLength(id: number): number {
+      return store.strips.find((s) => s.id === id)?.length ?? 0;
+   }
+
+   async function runScan() {
+      if(scanning) return;
+      scanning = true;
+      try {
+         listener.discovery('Scanning for strip controllers...', false);
+         await sleep(SCAN_DURATION_MS);
+
+         if(failingScans > 0) {
+            failingScans--;
+            listener.discovery(`Scan error: ${scanFailureMessage}`, false);
+            return;
+         }
+
+         let newFound = 0;
+         for(const device of [...devices.values()].sort((a, b) => a.id - b.id)) {
+            if(device.discovered || !device.inRange) continue;
+            device.discovered = true;
+            newFound++;
+            listener.discovery(`Found ${device.name} (${device.address})`, true);
+         }
+         listener.discovery(`Scan complete — ${newFound} new device(s) found`, true);
+
+         for(const device of devices.values()) {
+            if(!device.discovered || device.manuallyDisconnected || device.connected) continue;
+            listener.discovery(`Reconnecting to ${device.name} (strip ${device.id})...`, false);
+            if(await connectStrip(device.id)) {
+               listener.discovery(`Reconnected to ${device.name} (strip ${device.id})`, true);
+            }
+            else {
+               listener.discovery(
+                  `Failed to reconnect to ${device.name} (strip ${device.id}): Connection attempt failed`,
+                  true,
+               );
+            }
+         }
+      }
+      finally {
+         scanning = false;
+      }
+   }
+
+   function pollTelemetry() {
+      for(const device of devices.values()) {
+         if(!device.connected) continue;
+
+         const target = device.overheating ? OVERHEAT_TEMP_C : AMBIENT_TEMP_C + device.load * 8;
+         device.temperature += (target - device.temperature) * (device.overheating ? 0.25 : 0.15) +
+            (Math.random() - 0.5) * 0.4;
+
+         const length = stripLength(device.id);
+         const throttle = device.overheating && device.temperature > 70 ? 0.3 : 1;
+         const current = (20 + length * MA_PER_LED_FULL_WHITE * device.load * throttle) / 1000 +
+            (Math.random() - 0.5) * 0.02;
+
+         pushCapped(device.history.temperature, device.temperature);
+         pushCapped(device.history.current, current);
+
+         listener.telemetry({
+            type: 'strip_telemetry',
+            stripId: device.id,
+            // Firmware status codes are not interpreted by the UI; non-zero flags a fault.
+            status: device.overheating ? 1 : 0,
+            temperature: device.temperature,
+            current,
+            uptimeMs: Date.now() - device.bootedAt,
+            frames: device.frames,
+            history: {
+               temperature: [...device.history.temperature],
+               current: [...device.history.current],
+            },
+         });
+      }
+   }
+
+   function scheduleScan() {
+      scanTimer = setTimeout(() => {
+         void runScan().finally(() => { if(running) scheduleScan(); });
+      }, store.settings.scanIntervalSeconds * 1000);
+   }
+
+   function scheduleTelemetry() {
+      telemetryTimer = setTimeout(() => {
+         pollTelemetry();
+         if(running) scheduleTelemetry();
+      }, store.settings.telemetryIntervalSeconds * 1000);
+   }
+
+   async function connectStrip(id: number): Promise<boolean> {
+      const device = devices.get(id);
+      if(!device || !device.discovered) return false;
+      if(device.connected) return true;
+      device.manuallyDisconnected = false;
+      await sleep(CONNECT_DURATION_MS);
+      if(!device.inRange) return false;
+      device.connected = true;
+      return true;
+   }
+
+   return {
+      start() {
+         if(running) return;
+         running = true;
+         scheduleScan();
+         scheduleTelemetry();
+      },
+
+      stop() {
+         running = false;
+         if(scanTimer) clearTimeout(scanTimer);
+         if(telemetryTimer) clearTimeout(telemetryTimer);
+      },
+
+      getStripInfos() {
+         return [...devices.values()]
+            .filter((d) => d.discovered)
+            .sort((a, b) => a.id - b.id)
+            .map((d) => ({ id: d.id, name: d.name, address: d.address, connected: d.connected }));
+      },
+
+      isConnected(id) {
+         return devices.get(id)?.connected === true;
+      },
+
+      connectStrip,
+
+      disconnectStrip(id) {
+         const device = devices.get(id);
+         if(!device) return;
+         device.manuallyDisconnected = true;
+         device.connected = false;
+      },
+
+      recordFrame(id, load) {
+         const device = devices.get(id);
+         if(!device || !device.connected) return;
+         device.frames++;
+         device.load = load;
+      },
+
+      // ── Fault injection ────────────────────────────────────────────────────
+
+      scanNow() {
+         void runScan();
+      },
+
+      addDevice() {
+         const id = Math.max(0, ...devices.keys(), ...store.strips.map((s) => s.id)) + 1;
+         const device = makeDevice(id, `strip${id}`);
+         devices.set(id, device);
+         return { id, name: device.name, address: device.address, connected: false };
+      },
+
+      dropConnection(id) {
+         const device = devices.get(id);
+         if(!device) return false;
+         device.connected = false;
+         return true;
+      },
+
+      setInRange(id, inRange) {
+         const device = devices.get(id);
+         if(!device) return false;
+         device.inRange = inRange;
+         if(!inRange) device.connected = false;
+         return true;
+      },
+
+      overheat(id) {
+         const device = devices.get(id);
+         if(!device) return false;
+         device.overheating = true;
+         return true;
+      },
+
+      recover(id) {
+         const device = devices.get(id);
+         if(!device) return false;
+         device.overheating = false;
+         device.inRange = true;
+         return true;
+      },
+
+      failScans(count, message) {
+         failingScans = count;
+         scanFailureMessage = message;
+      },
+   };
+}
@@ -0,0 +1,80 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// Small request/response helpers shared by the mock routes, so the handlers
+// read like the Ktor routes in PreviewServer.kt.
+
+export function readBody(req: IncomingMessage): Promise<Buffer> {
+   return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+   });
+}
+
+/** Parses a JSON body, returning undefined when it is empty or malformed. */
+export async function readJson(req: IncomingMessage): Promise<unknown> {
+   const body = await readBody(req);
+   if(body.length === 0) return undefined;
+   try {
+      return JSON.parse(body.toString('utf8'));
+   }
+   catch {
+      return undefined;
+   }
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+   return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function respondJson(res: ServerResponse, status: number, body: unknown) {
+   res.statusCode = status;
+   res.setHeader('Content-Type', 'application/json');
+   res.end(JSON.stringify(body));
+}
+
+export function respondText(res: ServerResponse, status: number, text: string) {
+   res.statusCode = status;
+   res.setHeader('Content-Type', 'text/plain; charset=UTF-8');
+   res.end(text);
+}
+
+export function respondStatus(res: ServerResponse, status: number) {
+   res.statusCode = status;
+   res.end();
+}
+
+export interface FilePart {
+   contentType: string;
+   data: Buffer;
+}
+
+/**
+ * Extracts the first file part from a multipart/form-data body. Enough for the
+ * single-file upload the Settings tab sends; not a general-purpose parser.
+ */
+export function firstFilePart(contentType: string | undefined, body: Buffer): FilePart | null {
+   const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType ?? '');
+   if(!match) return null;
+   const delimiter = Buffer.from(`--${match[1] ?? match[2]}`);
+
+   let start = body.indexOf(delimiter);
+   while(start !== -1) {
+      const next = body.indexOf(delimiter, start + delimiter.length);
+      if(next === -1) break;
+      const part = body.subarray(start + delimiter.length, next);
+      const headerEnd = part.indexOf('\r\n\r\n');
+      if(headerEnd !== -1) {
+         const headers = part.subarray(0, headerEnd).toString('utf8');
+         if(/filename=/i.test(headers)) {
+            const type = /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1]?.trim() ?? 'image/jpeg';
+            // Strip the CRLF that precedes the next delimiter
+            const data = part.subarray(headerEnd + 4, part.length - 2);
+            return { contentType: type, data };
+         }
+      }
+      start = next;
+   }
+   return null;
+}
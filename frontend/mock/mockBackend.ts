@@ -0,0 +1,191 @@
+import type { Plugin } from 'vite';
+import { ledPositions } from '../src/utils/stripGeometry.ts';
+import { CALIBRATION_FIRST_COLOR, CALIBRATION_LAST_COLOR, type MockContext } from './context.ts';
+import { createEngine } from './engine.ts';
+import { createFleet } from './fleet.ts';
+import { findPattern } from './patterns.ts';
+import { createPlaylistPlayer } from './playlist.ts';
+import { createScheduler } from './schedule.ts';
+import { handleRequest } from './routes.ts';
+import { SCENARIOS, runScenario } from './scenarios.ts';
+import { createSocketHub, type LedFrameStrip } from './sockets.ts';
+import { createStore } from './state.ts';
+
+// Same throttle as Application.kt: viewport and strip_leds broadcasts at 20 FPS
+const WEBSOCKET_FPS = 20;
+// Same as Application.kt's SCHEDULE_TRANSITION
+const SCHEDULE_TRANSITION = { type: 'crossfade', duration: 2 } as const;
+
+export interface MockBackendOptions {
+   /** Scenario from scenarios.ts to start with the server. */
+   scenario?: string;
+   /** Deflate viewport frames (flags 0x01) like the real host; false sends raw RGB (flags 0x00). */
+   compress?: boolean;
+}
+
+/**
+ * Vite plugin that serves the host's REST API and WebSockets from the dev
+ * server, backed by in-memory state, mock patterns and simulated strips.
+ * Enabled by `npm run dev:mock`; see vite.config.ts.
+ */
+export function mockBackend(options: MockBackendOptions = {}): Plugin {
+   return {
+      name: 'led-strip-mock-backend',
+      apply: 'serve',
+
+      configureServer(server) {
+         const logger = server.config.logger;
+         const store = createStore();
+         const engine = createEngine(store.settings.viewportWidth, store.settings.viewportHeight);
+
+         // Startup restore: the active preset if there is one, else the first pattern
+         const startupPreset = store.presets.find((p) => p.presetName === store.activePresetName);
+         if(startupPreset && findPattern(startupPreset.patternName)) {
+            engine.setPattern(startupPreset.patternName, startupPreset.params);
+         }
+
+         let cancelScenario: (() => void) | null = null;
+
+         const ctx: MockContext = {
+            store,
+            engine,
+            fleet: createFleet(store, {
+               discovery(message, refresh) {
+                  hub.broadcastStrips({ type: 'discovery_event', message });
+                  if(refresh) hub.broadcastStrips({ type: 'strips_update', strips: ctx.stripStatuses() });
+               },
+               telemetry(message) {
+                  hub.broadcastStrips(message);
+               },
+            }),
+            // Playlist items are shown through showPreset, like the host's player
+            player: createPlaylistPlayer(
+               (id) => store.presets.find((p) => p.id === id),
+               (preset, transition) => {
+                  engine.beginTransition(transition);
+                  ctx.showPreset(preset);
+               }
+            ),
+            // A rule coming into effect takes over from any playlist, like the host's scheduler
+            scheduler: createScheduler(
+               store.schedule,
+               (id) => store.presets.find((p) => p.id === id),
+               (preset) => {
+                  ctx.player.stop();
+                  engine.beginTransition(SCHEDULE_TRANSITION);
+                  if(preset) ctx.showPreset(preset);
+                  else engine.setOutputEnabled(false);
+               },
+               // When an override ends outside every rule, the playlist or look it replaced comes back
+               () => {
+                  const playing = ctx.player.status();
+                  const { patternName, params, modulators, timeline, outputEnabled } = engine;
+                  const presetName = ctx.presetName;
+                  return () => {
+                     const playlist = playing && store.playlists.find((p) => p.id === playing.playlistId);
+                     if(playlist && ctx.player.play(playlist)) return;
+                     engine.beginTransition(SCHEDULE_TRANSITION);
+                     engine.setPattern(patternName, params);
+                     engine.setModulators(modulators);
+                     engine.setTimeline(timeline);
+                     if(!outputEnabled) engine.setOutputEnabled(false);
+                     ctx.presetName = presetName;
+                  };
+               }
+            ),
+            presetName: startupPreset?.presetName ?? null,
+            calibration: null,
+            showPreset(preset) {
+               engine.setPattern(preset.patternName, preset.params);
+               engine.setModulators(preset.modulators);
+               engine.setTimeline(preset.timeline);
+            },
+            broadcastStrips: (message) => hub.broadcastStrips(message),
+            stripStatuses() {
+               return ctx.fleet.getStripInfos().map((info) => ({
+                  ...info,
+                  length: store.strips.find((s) => s.id === info.id)?.length ?? 0,
+               }));
+            },
+            viewportClientCount: () => hub.viewportClientCount(),
+            startScenario(name) {
+               if(!SCENARIOS[name]) return false;
+               cancelScenario?.();
+               cancelScenario = runScenario(name, ctx.fleet);
+               logger.info(`[mock] scenario "${name}": ${SCENARIOS[name].description}`);
+               return true;
+            },
+         };
+
+         const hub = createSocketHub(ctx, options.compress ?? true);
+
+         server.middlewares.use((req, res, next) => {
+            handleRequest(req, res, ctx)
+               .then((handled) => { if(!handled) next(); })
+               .catch(next);
+         });
+
+         server.httpServer?.on('upgrade', (req, socket, head) => {
+            hub.handleUpgrade(req, socket, head);
+         });
+
+         function renderFrame() {
+            engine.tick();
+            hub.broadcastViewport();
+
+            // During calibration every strip is dark except the target's end markers
+            if(ctx.calibration && ctx.calibration.expiresAt < Date.now()) ctx.calibration = null;
+            const calibration = ctx.calibration;
+            const ledFrame: LedFrameStrip[] = [];
+
+            // strip_leds for every configured strip, like buildStripFrames()
+            for(const strip of [...store.strips].sort((a, b) => a.id - b.id)) {
+               const length = strip.length ?? 0;
+               if(length <= 0) continue;
+               const leds = new Uint8Array(length * 3);
+               // Like the host's mapper, LEDs outside the viewport have no position
+               const positions = ledPositions(strip)?.map((p) =>
+                  (p.x < 0 || p.x >= engine.width || p.y < 0 || p.y >= engine.height ? { x: -1, y: -1 } : p)) ?? null;
+               if(calibration) {
+                  if(strip.id === calibration.stripId) {
+                     leds.set(CALIBRATION_FIRST_COLOR, 0);
+                     leds.set(CALIBRATION_LAST_COLOR, (length - 1) * 3);
+                  }
+               }
+               else {
+                  let total = 0;
+                  positions?.forEach((p, index) => {
+                     if(p.x < 0) return;
+                     const src = (p.y * engine.width + p.x) * 3;
+                     leds.set(engine.frame.subarray(src, src + 3), index * 3);
+                     total += engine.frame[src] + engine.frame[src + 1] + engine.frame[src + 2];
+                  });
+                  ctx.fleet.recordFrame(strip.id, total / (length * 3 * 255));
+               }
+               hub.broadcastStrips({ type: 'strip_leds', stripId: strip.id, rgb: Buffer.from(leds).toString('hex') });
+               ledFrame.push({ id: strip.id, positions, rgb: leds });
+            }
+            hub.broadcastLedFrame(ledFrame);
+         }
+
+         const frameTimer = setInterval(renderFrame, 1000 / WEBSOCKET_FPS);
+         ctx.fleet.start();
+         ctx.scheduler.start();
+
+         const scenario = options.scenario ?? process.env.MOCK_SCENARIO;
+         if(scenario && !ctx.startScenario(scenario)) {
+            logger.warn(`[mock] unknown scenario "${scenario}"; available: ${Object.keys(SCENARIOS).join(', ')}`);
+         }
+         logger.info('[mock] serving mock backend; fault controls at /__mock');
+
+         server.httpServer?.on('close', () => {
+            clearInterval(frameTimer);
+            ctx.player.stop();
+            ctx.scheduler.stop();
+            cancelScenario?.();
+            ctx.fleet.stop();
+            hub.close();
+         });
+      },
+   };
+}
@@ -0,0 +1,112 @@
+import type { Modulator, ModulatorShape, ParameterDef } from '../src/types.ts';
+import { MAX_RATE, MIN_RATE, isModulatable, type ModulatableParamDef } from '../src/utils/modulators.ts';
+import { isObject } from './http.ts';
+import type { ParamValues } from './patterns.ts';
+
+// Stand-in for ParameterModulation: the same waves, clamping and snapping, so a
+// modulated parameter moves the way it does on the host.
+
+const SHAPES: ModulatorShape[] = ['sine', 'triangle', 'square', 'random-walk', 'sample-hold'];
+
+/**
+ * Mirrors decoding Map<String, Modulator>: null if any entry is malformed or
+ * out of range, as the host answers 400 then.
+ */
+export function parseModulators(body: unknown): Record<string, Modulator> | null {
+   if(!isObject(body)) return null;
+   const result: Record<string, Modulator> = {};
+   for(const [name, value] of Object.entries(body)) {
+      if(!isObject(value)) return null;
+      const { shape, rate, depth, center } = value;
+      if(typeof shape !== 'string' || !SHAPES.includes(shape as ModulatorShape)) return null;
+      if(typeof rate !== 'number' || rate < MIN_RATE || rate > MAX_RATE) return null;
+      if(typeof depth !== 'number' || !isFinite(depth) || depth < 0) return null;
+      if(typeof center !== 'number' || !isFinite(center)) return null;
+      result[name] = { shape: shape as ModulatorShape, rate, depth, center };
+   }
+   return result;
+}
+
+interface Voice {
+   def: ModulatableParamDef;
+   modulator: Modulator;
+   phase: number;
+   held: number;
+   walk: number;
+}
+
+export interface Modulation {
+   readonly active: boolean;
+   configure(parameters: ParameterDef[], modulators: Record<string, Modulator>): void;
+   clear(): void;
+   advance(deltaTime: number, base: ParamValues): ParamValues;
+}
+
+function snap(value: number, origin: number, step: number): number {
+   return step > 0 ? origin + Math.round((value - origin) / step) * step : value;
+}
+
+function constrain(def: ModulatableParamDef, value: number): number {
+   if(def.type === 'angle') return ((snap(value, 0, def.step) % 360) + 360) % 360;
+   const snapped = snap(value, def.min, def.step);
+   return Math.max(def.min, Math.min(def.max, def.type === 'int' ? Math.round(snapped) : snapped));
+}
+
+function reflect(value: number): number {
+   if(value > 1) return Math.max(-1, 2 - value);
+   if(value < -1) return Math.min(1, -2 - value);
+   return value;
+}
+
+function step(voice: Voice, deltaTime: number): number {
+   const { shape, rate } = voice.modulator;
+   const cycles = voice.phase + rate * deltaTime;
+   voice.phase = cycles % 1;
+   const p = voice.phase;
+   switch(shape) {
+      case 'sine': return Math.sin(2 * Math.PI * p);
+      case 'triangle': return 1 - 4 * Math.abs(((p + 0.25) % 1) - 0.5);
+      case 'square': return p < 0.5 ? 1 : -1;
+      case 'sample-hold':
+         if(cycles >= 1) voice.held = Math.random() * 2 - 1;
+         return voice.held;
+      case 'random-walk':
+         voice.walk = reflect(voice.walk + (Math.random() * 2 - 1) * Math.sqrt(3 * rate * deltaTime));
+         return voice.walk;
+   }
+}
+
+export function createModulation(): Modulation {
+   const voices = new Map<string, Voice>();
+
+   return {
+      get active() { return voices.size > 0; },
+
+      configure(parameters, modulators) {
+         const defs = new Map(parameters.filter(isModulatable).map((p) => [p.name, p]));
+         for(const name of [...voices.keys()]) {
+            if(!(name in modulators) || !defs.has(name)) voices.delete(name);
+         }
+         for(const [name, modulator] of Object.entries(modulators)) {
+            const def = defs.get(name);
+            if(!def) continue;
+            const voice = voices.get(name);
+            if(voice && voice.def === def) voice.modulator = modulator;
+            else voices.set(name, { def, modulator, phase: 0, held: Math.random() * 2 - 1, walk: 0 });
+         }
+      },
+
+      clear() {
+         voices.clear();
+      },
+
+      advance(deltaTime, base) {
+         const params = { ...base };
+         for(const [name, voice] of voices) {
+            const { center, depth } = voice.modulator;
+            params[name] = constrain(voice.def, center + depth * step(voice, deltaTime));
+         }
+         return params;
+      },
+   };
+}
@@ -0,0 +1,300 @@
+import type { ParameterDef } from '../src/types.ts';
+import { isObject } from './http.ts';
+
+// Mock counterparts of the Kotlin patterns in pattern/patterns/. Parameter
+// definitions match the backend exactly so the controls render the same; the
+// rendering math is a close approximation, good enough to see motion and color.
+
+export type ParamValues = Record<string, unknown>;
+
+export interface PatternInstance {
+   update(deltaTime: number): void;
+   render(rgb: Uint8Array, width: number, height: number): void;
+}
+
+export interface MockPattern {
+   name: string;
+   description: string;
+   parameters: ParameterDef[];
+   create(params: ParamValues, width: number, height: number): PatternInstance;
+}
+
+interface Rgb {
+   r: number;
+   g: number;
+   b: number;
+}
+
+function num(params: ParamValues, key: string, fallback: number): number {
+   const v = params[key];
+   return typeof v === 'number' && !isNaN(v) ? v : fallback;
+}
+
+function str(params: ParamValues, key: string, fallback: string): string {
+   const v = params[key];
+   return typeof v === 'string' ? v : fallback;
+}
+
+function point(params: ParamValues, key: string, fallback: [number, number]): [number, number] {
+   const v = params[key];
+   return Array.isArray(v) && v.length === 2 && v.every((n) => typeof n === 'number') ? [v[0], v[1]] : fallback;
+}
+
+function clamp(n: number, lo: number, hi: number): number {
+   return Math.max(lo, Math.min(hi, n));
+}
+
+/** Parses a #RRGGBBbb wire color, ignoring the APA102 brightness suffix. */
+export function parseColor(value: unknown, fallback: Rgb): Rgb {
+   if(typeof value !== 'string' || value.length < 7 || value[0] !== '#') return fallback;
+   const r = parseInt(value.substring(1, 3), 16);
+   const g = parseInt(value.substring(3, 5), 16);
+   const b = parseInt(value.substring(5, 7), 16);
+   if(isNaN(r) || isNaN(g) || isNaN(b)) return fallback;
+   return { r, g, b };
+}
+
+export function hsvToRgb(h: number, s: number, v: number): Rgb {
+   const hn = ((h % 360) + 360) % 360;
+   const c = v * s;
+   const x = c * (1 - Math.abs(((hn / 60) % 2) - 1));
+   const m = v - c;
+   let rp = 0, gp = 0, bp = 0;
+   if     (hn < 60)  { rp = c; gp = x; }
+   else if(hn < 120) { rp = x; gp = c; }
+   else if(hn < 180) { gp = c; bp = x; }
+   else if(hn < 240) { gp = x; bp = c; }
+   else if(hn < 300) { rp = x; bp = c; }
+   else              { rp = c; bp = x; }
+   return {
+      r: Math.round((rp + m) * 255),
+      g: Math.round((gp + m) * 255),
+      b: Math.round((bp + m) * 255),
+   };
+}
+
+function blend(a: Rgb, b: Rgb, t: number): Rgb {
+   const r = clamp(t, 0, 1);
+   return {
+      r: Math.round(a.r * (1 - r) + b.r * r),
+      g: Math.round(a.g * (1 - r) + b.g * r),
+      b: Math.round(a.b * (1 - r) + b.b * r),
+   };
+}
+
+/**
+ * Samples a palette parameter's stops, skipping malformed ones, as the host's
+ * Palette does. Null when the value holds no usable stop.
+ */
+function paletteSampler(value: unknown): ((t: number) => Rgb) | null {
+   if(!Array.isArray(value)) return null;
+   const stops = value
+      .filter((s): s is { position: number; color: string } =>
+         isObject(s) && typeof s.position === 'number' && typeof s.color === 'string' && /^#[0-9a-f]{6}/i.test(s.color))
+      .map((s) => ({ position: clamp(s.position, 0, 1), rgb: parseColor(s.color, { r: 0, g: 0, b: 0 }) }))
+      .sort((a, b) => a.position - b.position);
+   if(stops.length === 0) return null;
+   return (t) => {
+      if(t <= stops[0].position) return stops[0].rgb;
+      const last = stops[stops.length - 1];
+      if(t >= last.position) return last.rgb;
+      let i = 1;
+      while(stops[i].position < t) i++;
+      const span = stops[i].position - stops[i - 1].position;
+      return blend(stops[i - 1].rgb, stops[i].rgb, span > 0 ? (t - stops[i - 1].position) / span : 1);
+   };
+}
+
+function put(rgb: Uint8Array, i: number, c: Rgb) {
+   rgb[i] = c.r;
+   rgb[i + 1] = c.g;
+   rgb[i + 2] = c.b;
+}
+
+// ── Patterns ───────────────────────────────────────────────────────────────
+
+const alternatingBars: MockPattern = {
+   name: 'Alternating Bars',
+   description: 'Alternating solid color bars that scroll at configurable speed and angle',
+   parameters: [
+      { type: 'color', name: 'colorA', label: 'Color A', default: '#ff00001f' },
+      { type: 'color', name: 'colorB', label: 'Color B', default: '#0000ff1f' },
+      { type: 'float', name: 'barWidth', label: 'Bar Width (mm)', min: 10, max: 1000, step: 1, default: 80 },
+      { type: 'float', name: 'speed', label: 'Speed (mm/s)', min: -500, max: 500, step: 1, default: 50 },
+      { type: 'angle', name: 'angle', label: 'Angle (°)', step: 1, default: 0 },
+   ],
+   create(params) {
+      const MM_PER_LED = 16;
+      const colorA = parseColor(params.colorA, { r: 255, g: 0, b: 0 });
+      const colorB = parseColor(params.colorB, { r: 0, g: 0, b: 255 });
+      const barWidth = clamp(num(params, 'barWidth', 80), 10, 1000) / MM_PER_LED;
+      const speed = clamp(num(params, 'speed', 50), -500, 500) / MM_PER_LED;
+      const angle = num(params, 'angle', 0) * Math.PI / 180;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      let offset = 0;
+      return {
+         update(dt) { offset += speed * dt; },
+         render(rgb, width, height) {
+            for(let y = 0; y < height; y++) {
+               for(let x = 0; x < width; x++) {
+                  const t = (x * cos + y * sin + offset) / barWidth;
+                  const bar = Math.floor(t);
+                  put(rgb, (y * width + x) * 3, bar % 2 === 0 ? colorA : colorB);
+               }
+            }
+         },
+      };
+   },
+};
+
+const plasma: MockPattern = {
+   name: 'Plasma',
+   description: 'Animated plasma effect with colorful interference patterns',
+   parameters: [
+      { type: 'float', name: 'speed', label: 'Speed', min: 0.1, max: 5, step: 0.1, default: 1 },
+      { type: 'float', name: 'value', label: 'Value', min: 0, max: 1, step: 0.05, default: 1 },
+      { type: 'float', name: 'saturation', label: 'Saturation', min: 0, max: 1, step: 0.05, default: 1 },
+      { type: 'float', name: 'scale', label: 'Scale', min: 0.1, max: 5, step: 0.1, default: 1 },
+      { type: 'float', name: 'hueMin', label: 'Hue Min', min: 0, max: 360, step: 1, default: 0 },
+      { type: 'float', name: 'hueMax', label: 'Hue Max', min: 0, max: 360, step: 1, default: 360 },
+   ],
+   create(params, width, height) {
+      const speed = num(params, 'speed', 1);
+      const value = clamp(num(params, 'value', 1), 0, 1);
+      const saturation = clamp(num(params, 'saturation', 1), 0, 1);
+      const scaleBase = 8 * clamp(num(params, 'scale', 1), 0.1, 5);
+      const hueMin = clamp(num(params, 'hueMin', 0), 0, 360);
+      const hueMax = clamp(num(params, 'hueMax', 360), 0, 360);
+      const cx = width / 2 / scaleBase;
+      const cy = height / 2 / scaleBase;
+      let time = 0;
+      return {
+         update(dt) { time += dt * speed; },
+         render(rgb, w, h) {
+            for(let y = 0; y < h; y++) {
+               for(let x = 0; x < w; x++) {
+                  const nx = x / scaleBase;
+                  const ny = y / scaleBase;
+                  const dist = Math.hypot(nx - cx, ny - cy);
+                  const v = (Math.sin(nx + time) + Math.sin(ny + time * 0.7) +
+                     Math.sin(nx + ny + time * 1.3) + Math.sin(dist + time * 0.5)) / 4;
+                  const hue = (((v + 1) / 2) * (hueMax - hueMin) + hueMin + time * 20) % 360;
+                  put(rgb, (y * w + x) * 3, hsvToRgb(hue, saturation, value));
+               }
+            }
+         },
+      };
+   },
+};
+
+const plasmaInterference: MockPattern = {
+   name: 'Plasma (Interference)',
+   description: 'Animated plasma using multiplicative wave interference with a palette gradient',
+   parameters: [
+      {
+         type: 'palette', name: 'palette', label: 'Palette', default: [
+            { position: 0, color: '#0000ff1f' },
+            { position: 1, color: '#ff00ff1f' },
+         ],
+      },
+      { type: 'float', name: 'speed', label: 'Speed', min: 0.1, max: 2, step: 0.1, default: 1 },
+      { type: 'float', name: 'scale', label: 'Scale', min: 0.1, max: 4, step: 0.1, default: 1 },
+      { type: 'point', name: 'center', label: 'Center', default: null },
+   ],
+   create(params, width, height) {
+      const speed = clamp(num(params, 'speed', 1), 0.1, 2);
+      const scale = clamp(num(params, 'scale', 1), 0.1, 4);
+      // Presets saved before the palette parameter keep their two colors
+      const start = parseColor(params.colorStart, { r: 0, g: 0, b: 255 });
+      const end = parseColor(params.colorEnd, { r: 255, g: 0, b: 255 });
+      const palette = paletteSampler(params.palette) ?? ((t: number) => blend(start, end, t));
+      const [cx, cy] = point(params, 'center', [width / 2, height / 2]);
+      let t = 0;
+      return {
+         update(dt) { t += dt * speed; },
+         render(rgb, w, h) {
+            for(let y = 0; y < h; y++) {
+               for(let x = 0; x < w; x++) {
+                  const uvX = ((x - cx) / w) * scale;
+                  const uvY = ((y - cy) / h) * scale;
+                  const phaseV = Math.cos(uvY + Math.sin(0.148 - t)) + 2.4 * t;
+                  const phaseH = Math.sin(uvX + Math.cos(0.628 + t)) - 0.7 * t;
+                  const plasmaValue = 7 * Math.cos(Math.hypot(uvX, uvY) + phaseH) * Math.sin(phaseV + phaseH);
+                  put(rgb, (y * w + x) * 3, palette(0.5 + 0.5 * Math.cos(plasmaValue)));
+               }
+            }
+         },
+      };
+   },
+};
+
+const rainbow: MockPattern = {
+   name: 'Rainbow',
+   description: 'Scrolling rainbow effect with smooth color transitions',
+   parameters: [
+      { type: 'float', name: 'speed', label: 'Speed', min: 0.1, max: 5, step: 0.1, default: 1 },
+      { type: 'float', name: 'value', label: 'Value', min: 0, max: 1, step: 0.05, default: 1 },
+      { type: 'float', name: 'saturation', label: 'Saturation', min: 0, max: 1, step: 0.05, default: 1 },
+      { type: 'select', name: 'direction', label: 'Direction', options: ['horizontal', 'vertical', 'diagonal'], default: 'horizontal' },
+   ],
+   create(params) {
+      const speed = num(params, 'speed', 1);
+      const value = clamp(num(params, 'value', 1), 0, 1);
+      const saturation = clamp(num(params, 'saturation', 1), 0, 1);
+      const direction = str(params, 'direction', 'horizontal');
+      let hueOffset = 0;
+      return {
+         update(dt) { hueOffset = (hueOffset + speed * dt * 60) % 360; },
+         render(rgb, w, h) {
+            const maxDim = Math.max(w, h);
+            for(let y = 0; y < h; y++) {
+               for(let x = 0; x < w; x++) {
+                  const spread = direction === 'vertical' ? y * 360 / h
+                     : direction === 'diagonal' ? (x + y) * 360 / (maxDim * 2)
+                     : x * 360 / w;
+                  put(rgb, (y * w + x) * 3, hsvToRgb(hueOffset + spread, saturation, value));
+               }
+            }
+         },
+      };
+   },
+};
+
+const solidColor: MockPattern = {
+   name: 'Solid Color',
+   description: 'A solid color fill',
+   parameters: [
+      { type: 'color', name: 'color', label: 'Color', default: '#ff00001f' },
+   ],
+   create(params) {
+      const color = parseColor(params.color, { r: 255, g: 0, b: 0 });
+      return {
+         update() {},
+         render(rgb, w, h) {
+            for(let i = 0; i < w * h; i++) put(rgb, i * 3, color);
+         },
+      };
+   },
+};
+
+/** All mock patterns, sorted by name like DefaultPatternRegistry.listPatterns(). */
+export const MOCK_PATTERNS: MockPattern[] = [
+   alternatingBars,
+   plasma,
+   plasmaInterference,
+   rainbow,
+   solidColor,
+].sort((a, b) => a.name.localeCompare(b.name));
+
+export function findPattern(name: string): MockPattern | undefined {
+   return MOCK_PATTERNS.find((p) => p.name === name);
+}
+
+export function defaultParams(pattern: MockPattern): ParamValues {
+   const params: ParamValues = {};
+   for(const def of pattern.parameters) {
+      if(def.default !== null) params[def.name] = def.default;
+   }
+   return params;
+}
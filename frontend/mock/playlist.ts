@@ -0,0 +1,194 @@
+import type { Playlist, PlaylistItem, PlaylistStatus, Transition } from '../src/types.ts';
+import {
+   MAX_ITEM_DURATION,
+   MAX_TRANSITION_DURATION,
+   MIN_ITEM_DURATION,
+   TRANSITIONS,
+} from '../src/utils/playlists.ts';
+import { isObject } from './http.ts';
+import type { SavedPatternRow } from './state.ts';
+
+// Stand-in for PlaylistPlayer: the same stepping, skipping, shuffle and
+// countdown, on setTimeout instead of coroutines.
+
+const TRANSITION_TYPES = TRANSITIONS.map((t) => t.type);
+const MAX_HISTORY = 100;
+
+function parseTransition(value: unknown): Transition | null {
+   if(value === undefined) return { type: 'cut', duration: 0 };
+   if(!isObject(value)) return null;
+   const { type = 'cut', duration = 0 } = value;
+   if(typeof type !== 'string' || !TRANSITION_TYPES.includes(type as Transition['type'])) return null;
+   if(typeof duration !== 'number' || duration < 0 || duration > MAX_TRANSITION_DURATION) return null;
+   return { type: type as Transition['type'], duration };
+}
+
+/** Mirrors decoding a list of PlaylistItem: null if any item is malformed, as the host answers 400 then. */
+export function parsePlaylistItems(body: unknown): PlaylistItem[] | null {
+   if(!Array.isArray(body)) return null;
+   const items: PlaylistItem[] = [];
+   for(const item of body) {
+      if(!isObject(item)) return null;
+      const { presetId, duration } = item;
+      if(typeof presetId !== 'number' || !Number.isInteger(presetId)) return null;
+      if(typeof duration !== 'number' || duration < MIN_ITEM_DURATION || duration > MAX_ITEM_DURATION) return null;
+      const transition = parseTransition(item.transition);
+      if(!transition) return null;
+      items.push({ presetId, duration, transition });
+   }
+   return items;
+}
+
+export interface PlaylistPlayer {
+   /** False if none of the playlist's items has a preset to show. */
+   play(playlist: Playlist): boolean;
+   pause(): void;
+   resume(): void;
+   next(): void;
+   previous(): void;
+   stop(): void;
+   setShuffle(shuffle: boolean): void;
+   /** Picks up changes to the playlist if it is the one playing. */
+   refresh(playlist: Playlist): void;
+   /** Stops if the playlist is the one playing. */
+   remove(playlistId: number): void;
+   status(): PlaylistStatus | null;
+}
+
+export function createPlaylistPlayer(
+   findPreset: (id: number) => SavedPatternRow | undefined,
+   show: (preset: SavedPatternRow, transition: Transition) => void
+): PlaylistPlayer {
+   let playlist: Playlist | null = null;
+   let index = 0;
+   let nextIndex = 0;
+   let currentName = '';
+   const history: number[] = [];
+   let shuffle = false;
+   let paused = false;
+   let endsAt = 0;
+   let pausedRemaining = 0;
+   let timer: ReturnType<typeof setTimeout> | null = null;
+
+   function clearTimer() {
+      if(timer) clearTimeout(timer);
+      timer = null;
+   }
+
+   function stop() {
+      clearTimer();
+      playlist = null;
+      paused = false;
+      history.length = 0;
+   }
+
+   function pickNext(from: number): number {
+      const size = playlist?.items.length ?? 0;
+      if(size <= 1) return 0;
+      return shuffle ? (from + 1 + Math.floor(Math.random() * (size - 1))) % size : (from + 1) % size;
+   }
+
+   function schedule(delayMs: number) {
+      clearTimer();
+      endsAt = Date.now() + delayMs;
+      timer = setTimeout(() => {
+         timer = null;
+         advance();
+      }, delayMs);
+   }
+
+   // Shows the item at start, or the first one after it whose preset still exists
+   function go(start: number): boolean {
+      const items = playlist?.items ?? [];
+      for(let offset = 0; offset < items.length; offset++) {
+         const candidate = (start + offset) % items.length;
+         const item = items[candidate];
+         const preset = findPreset(item.presetId);
+         if(!preset) continue;
+         show(preset, item.transition);
+         index = candidate;
+         currentName = preset.presetName;
+         nextIndex = pickNext(candidate);
+         if(paused) pausedRemaining = item.duration * 1000;
+         else schedule(item.duration * 1000);
+         return true;
+      }
+      stop();
+      return false;
+   }
+
+   function advance() {
+      history.push(index);
+      if(history.length > MAX_HISTORY) history.shift();
+      go(nextIndex);
+   }
+
+   return {
+      play(next) {
+         stop();
+         if(next.items.length === 0) return false;
+         playlist = next;
+         return go(0);
+      },
+
+      pause() {
+         if(!playlist || paused) return;
+         pausedRemaining = Math.max(0, endsAt - Date.now());
+         clearTimer();
+         paused = true;
+      },
+
+      resume() {
+         if(!playlist || !paused) return;
+         paused = false;
+         schedule(pausedRemaining);
+      },
+
+      next() {
+         if(playlist) advance();
+      },
+
+      previous() {
+         if(!playlist) return;
+         go(history.pop() ?? (index - 1 + playlist.items.length) % playlist.items.length);
+      },
+
+      stop,
+
+      setShuffle(enabled) {
+         shuffle = enabled;
+         if(playlist) nextIndex = pickNext(index);
+      },
+
+      refresh(updated) {
+         if(playlist?.id !== updated.id) return;
+         if(updated.items.length === 0) return stop();
+         playlist = updated;
+         index = Math.min(index, updated.items.length - 1);
+         for(let i = history.length - 1; i >= 0; i--) {
+            if(history[i] >= updated.items.length) history.splice(i, 1);
+         }
+         nextIndex = pickNext(index);
+      },
+
+      remove(playlistId) {
+         if(playlist?.id === playlistId) stop();
+      },
+
+      status() {
+         if(!playlist) return null;
+         const remaining = paused ? pausedRemaining : Math.max(0, endsAt - Date.now());
+         return {
+            playlistId: playlist.id,
+            playlistName: playlist.name,
+            index,
+            nextIndex,
+            current: currentName,
+            next: findPreset(playlist.items[nextIndex].presetId)?.presetName ?? null,
+            remaining: remaining / 1000,
+            paused,
+            shuffle,
+         };
+      },
+   };
+}
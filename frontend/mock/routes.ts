@@ -0,0 +1,784 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { LEDStripData, Playlist, StripSetting } from '../src/types.ts';
+import { ledPositions } from '../src/utils/stripGeometry.ts';
+import { hasKeyframes } from '../src/utils/timeline.ts';
+import {
+   CALIBRATION_FIRST_COLOR,
+   CALIBRATION_LAST_COLOR,
+   CALIBRATION_TIMEOUT_MS,
+   type MockContext,
+} from './context.ts';
+import { parseModulators } from './modulation.ts';
+import { parsePlaylistItems } from './playlist.ts';
+import { parseSchedule } from './schedule.ts';
+import { MOCK_PATTERNS, type ParamValues } from './patterns.ts';
+import { SCENARIOS } from './scenarios.ts';
+import type { SavedPatternRow } from './state.ts';
+import { parseTimeline } from './timeline.ts';
+import {
+   firstFilePart,
+   isObject,
+   readBody,
+   readJson,
+   respondJson,
+   respondStatus,
+   respondText,
+} from './http.ts';
+
+// REST routes of PreviewServer.kt, in the same order and with the same status
+// codes and error bodies, plus the /__mock control routes for fault injection.
+
+interface RouteCall {
+   req: IncomingMessage;
+   res: ServerResponse;
+   params: string[];
+   url: URL;
+   ctx: MockContext;
+}
+
+interface Route {
+   method: string;
+   path: RegExp;
+   handler: (call: RouteCall) => void | Promise<void>;
+}
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+function toId(raw: string): number | null {
+   const id = Number(raw);
+   return Number.isInteger(id) ? id : null;
+}
+
+/** Mirrors toParamValues: keeps strings, booleans, numbers, ranges and palettes, drops everything else. */
+function parseParams(body: unknown): ParamValues {
+   const result: ParamValues = {};
+   if(!isObject(body)) return result;
+   for(const [key, value] of Object.entries(body)) {
+      if(typeof value === 'string' || typeof value === 'boolean' || typeof value === 'number') {
+         result[key] = value;
+      }
+      else if(Array.isArray(value) && value.every((v) => typeof v === 'number')) {
+         result[key] = value;
+      }
+      else if(Array.isArray(value) && value.length > 0 && value.every(isPaletteStop)) {
+         result[key] = value;
+      }
+   }
+   return result;
+}
+
+function isPaletteStop(value: unknown): boolean {
+   return isObject(value) && typeof value.position === 'number' && typeof value.color === 'string';
+}
+
+function optionalInt(value: unknown): number | null {
+   return typeof value === 'number' && Number.isInteger(value) ? value : null;
+}
+
+function positiveInt(value: unknown): number | null {
+   const v = typeof value === 'string' ? Number(value) : value;
+   return typeof v === 'number' && Number.isInteger(v) && v > 0 ? v : null;
+}
+
+function numberInRange(value: unknown, min: number, max: number, integer: boolean): number | null {
+   const v = typeof value === 'string' ? Number(value) : value;
+   if(typeof v !== 'number' || isNaN(v) || v < min || v > max) return null;
+   return !integer || Number.isInteger(v) ? v : null;
+}
+
+function strictBoolean(value: unknown): boolean | null {
+   if(typeof value === 'boolean') return value;
+   if(value === 'true') return true;
+   if(value === 'false') return false;
+   return null;
+}
+
+function toHex([r, g, b]: [number, number, number]): string {
+   return '#' + [r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('');
+}
+
+function sortedPresets(rows: SavedPatternRow[]): SavedPatternRow[] {
+   return [...rows].sort((a, b) => a.presetName.localeCompare(b.presetName));
+}
+
+function nameTaken(ctx: MockContext, presetName: string, exceptId?: number): boolean {
+   return ctx.store.presets.some((p) => p.presetName === presetName && p.id !== exceptId);
+}
+
+/** The first preset ID with no saved preset, if any. */
+function missingPresetId(ctx: MockContext, ids: number[]): number | undefined {
+   return ids.find((id) => !ctx.store.presets.some((p) => p.id === id));
+}
+
+function playerState(ctx: MockContext) {
+   return { status: ctx.player.status(), startupPlaylistId: ctx.store.startupPlaylistId };
+}
+
+function buildLedStrips(ctx: MockContext): LEDStripData[] {
+   const { engine } = ctx;
+   return [...ctx.store.strips]
+      .sort((a, b) => a.id - b.id)
+      .flatMap((strip) => {
+         const positions = ledPositions(strip);
+         if(!positions) return [];
+         const leds = positions
+            .filter((p) => p.x >= 0 && p.x < engine.width && p.y >= 0 && p.y < engine.height)
+            .map((p) => {
+               const i = (p.y * engine.width + p.x) * 3;
+               return { x: p.x, y: p.y, r: engine.frame[i], g: engine.frame[i + 1], b: engine.frame[i + 2] };
+            });
+         return [{ id: strip.id, leds }];
+      });
+}
+
+const routes: Route[] = [
+   // ── Patterns ──────────────────────────────────────────────────────────────
+
+   {
+      method: 'GET', path: /^\/api\/patterns$/,
+      handler: ({ res }) => {
+         respondJson(res, 200, MOCK_PATTERNS.map((p) => ({
+            name: p.name,
+            description: p.description,
+            parameters: p.parameters,
+         })));
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/pattern\/([^/]+)$/,
+      handler: async ({ req, res, params, ctx }) => {
+         const name = decodeURIComponent(params[0]);
+         const values = parseParams(await readJson(req));
+         ctx.player.stop();
+         ctx.engine.setPattern(name, values);
+         respondStatus(res, 200);
+      },
+   },
+   {
+      method: 'GET', path: /^\/api\/config$/,
+      handler: ({ res, ctx }) => {
+         const { viewportWidth, viewportHeight, targetFPS } = ctx.store.settings;
+         respondJson(res, 200, { viewport: { width: viewportWidth, height: viewportHeight }, targetFPS });
+      },
+   },
+   {
+      method: 'GET', path: /^\/api\/stats$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, { ...ctx.engine.getStatistics(), droppedFrames: 0 });
+      },
+   },
+   {
+      method: 'GET', path: /^\/api\/clients$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, { count: ctx.viewportClientCount() });
+      },
+   },
+   {
+      method: 'GET', path: /^\/api\/led-strips$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, buildLedStrips(ctx));
+      },
+   },
+
+   // ── Strip connections ─────────────────────────────────────────────────────
+
+   {
+      method: 'GET', path: /^\/api\/strips$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, ctx.stripStatuses());
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/strips\/([^/]+)\/connect$/,
+      handler: async ({ res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid strip ID');
+         if(await ctx.fleet.connectStrip(id)) respondStatus(res, 200);
+         else respondText(res, 503, `Failed to connect to strip ${id}`);
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/strips\/([^/]+)\/disconnect$/,
+      handler: ({ res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid strip ID');
+         ctx.fleet.disconnectStrip(id);
+         respondStatus(res, 200);
+      },
+   },
+   {
+      method: 'GET', path: /^\/api\/background-image$/,
+      handler: ({ req, res, ctx }) => {
+         const image = ctx.store.backgroundImage;
+         if(!image) return respondText(res, 404, 'No background image stored');
+         res.statusCode = 200;
+         res.setHeader('Content-Type', image.mimeType);
+         res.setHeader('Content-Length', image.bytes.length);
+         res.end(req.method === 'HEAD' ? undefined : image.bytes);
+      },
+   },
+
+   // ── Active pattern ────────────────────────────────────────────────────────
+
+   {
+      method: 'GET', path: /^\/api\/active-pattern$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, {
+            patternName: ctx.engine.patternName,
+            params: ctx.engine.params,
+            presetName: ctx.presetName,
+            modulators: ctx.engine.modulators,
+            timeline: ctx.engine.timeline,
+            timelinePosition: ctx.engine.timelinePosition,
+            outputEnabled: ctx.engine.outputEnabled,
+         });
+      },
+   },
+   {
+      method: 'PUT', path: /^\/api\/modulators$/,
+      handler: async ({ req, res, ctx }) => {
+         const modulators = parseModulators(await readJson(req));
+         if(!modulators) return respondText(res, 400, 'Invalid modulators');
+         respondJson(res, 200, ctx.engine.setModulators(modulators));
+      },
+   },
+   {
+      method: 'PUT', path: /^\/api\/timeline$/,
+      handler: async ({ req, res, ctx }) => {
+         const timeline = parseTimeline(await readJson(req));
+         if(!timeline) return respondText(res, 400, 'Invalid timeline');
+         ctx.engine.setTimeline(timeline);
+         respondJson(res, 200, timeline);
+      },
+   },
+   {
+      method: 'DELETE', path: /^\/api\/timeline$/,
+      handler: ({ res, ctx }) => {
+         ctx.engine.setTimeline(null);
+         respondStatus(res, 204);
+      },
+   },
+
+   // ── Calibration ───────────────────────────────────────────────────────────
+
+   {
+      method: 'POST', path: /^\/api\/calibration$/,
+      handler: async ({ req, res, ctx }) => {
+         const body = await readJson(req);
+         const stripId = isObject(body) ? optionalInt(body.stripId) : null;
+         if(stripId === null) return respondText(res, 400, 'Invalid request body');
+         const strip = ctx.store.strips.find((s) => s.id === stripId);
+         if(!strip) return respondText(res, 404, `Strip ${stripId} not found`);
+         const length = strip.length ?? 0;
+         if(length <= 0) return respondText(res, 400, `Strip ${stripId} has no length`);
+         ctx.calibration = { stripId, length, expiresAt: Date.now() + CALIBRATION_TIMEOUT_MS };
+         respondJson(res, 200, {
+            stripId,
+            length,
+            firstColor: toHex(CALIBRATION_FIRST_COLOR),
+            lastColor: toHex(CALIBRATION_LAST_COLOR),
+         });
+      },
+   },
+   {
+      method: 'DELETE', path: /^\/api\/calibration$/,
+      handler: ({ res, ctx }) => {
+         ctx.calibration = null;
+         respondStatus(res, 204);
+      },
+   },
+
+   // ── Saved patterns ────────────────────────────────────────────────────────
+
+   {
+      method: 'GET', path: /^\/api\/saved-patterns$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, sortedPresets(ctx.store.presets));
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/saved-patterns$/,
+      handler: async ({ req, res, ctx }) => {
+         const body = await readJson(req);
+         if(!isObject(body)) return respondText(res, 400, 'Invalid request body');
+         const presetName = typeof body.presetName === 'string' ? body.presetName : '';
+         const patternName = typeof body.patternName === 'string' ? body.patternName : '';
+         if(!presetName.trim()) return respondText(res, 400, 'presetName is required');
+         if(!patternName.trim()) return respondText(res, 400, 'patternName is required');
+         const modulators = body.modulators === undefined ? {} : parseModulators(body.modulators);
+         if(!modulators) return respondText(res, 400, 'Invalid request body');
+         const timeline = body.timeline == null ? null : parseTimeline(body.timeline);
+         if(body.timeline != null && !timeline) return respondText(res, 400, 'Invalid request body');
+         if(nameTaken(ctx, presetName)) {
+            return respondJson(res, 409, { error: `A preset named '${presetName}' already exists` });
+         }
+         const row: SavedPatternRow = {
+            id: ctx.store.nextPresetId++,
+            presetName,
+            patternName,
+            params: isObject(body.params) ? body.params : {},
+            modulators,
+            timeline: timeline && hasKeyframes(timeline) ? timeline : null,
+            updatedAt: Date.now(),
+         };
+         ctx.store.presets.push(row);
+         respondJson(res, 201, row);
+      },
+   },
+   {
+      method: 'PUT', path: /^\/api\/saved-patterns\/([^/]+)$/,
+      handler: async ({ req, res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid preset ID');
+         const body = await readJson(req);
+         if(!isObject(body)) return respondText(res, 400, 'Invalid request body');
+         const modulators = body.modulators == null ? null : parseModulators(body.modulators);
+         if(body.modulators != null && !modulators) return respondText(res, 400, 'Invalid request body');
+         const timeline = body.timeline == null ? null : parseTimeline(body.timeline);
+         if(body.timeline != null && !timeline) return respondText(res, 400, 'Invalid request body');
+         const row = ctx.store.presets.find((p) => p.id === id);
+         if(!row) return respondText(res, 404, `Preset ${id} not found`);
+         if(typeof body.presetName === 'string' && nameTaken(ctx, body.presetName, id)) {
+            return respondJson(res, 409, { error: 'A preset with that name already exists' });
+         }
+         if(typeof body.presetName === 'string') row.presetName = body.presetName;
+         if(typeof body.patternName === 'string') row.patternName = body.patternName;
+         if(isObject(body.params)) row.params = body.params;
+         if(modulators) row.modulators = modulators;
+         // A timeline without keyframes removes the preset's timeline
+         if(timeline) row.timeline = hasKeyframes(timeline) ? timeline : null;
+         row.updatedAt = Date.now();
+         respondJson(res, 200, row);
+      },
+   },
+   {
+      method: 'DELETE', path: /^\/api\/saved-patterns\/([^/]+)$/,
+      handler: ({ res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid preset ID');
+         const index = ctx.store.presets.findIndex((p) => p.id === id);
+         if(index === -1) return respondText(res, 404, `Preset ${id} not found`);
+         ctx.store.presets.splice(index, 1);
+         respondStatus(res, 204);
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/saved-patterns\/([^/]+)\/load$/,
+      handler: ({ res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid preset ID');
+         const preset = ctx.store.presets.find((p) => p.id === id);
+         if(!preset) return respondText(res, 404, `Preset ${id} not found`);
+         ctx.player.stop();
+         ctx.engine.setPattern(preset.patternName, parseParams(preset.params));
+         ctx.engine.setModulators(preset.modulators);
+         ctx.engine.setTimeline(preset.timeline);
+         ctx.presetName = preset.presetName;
+         ctx.store.activePresetName = preset.presetName;
+         ctx.store.startupPlaylistId = null;
+         respondJson(res, 200, preset);
+      },
+   },
+
+   // ── Playlists ─────────────────────────────────────────────────────────────
+
+   {
+      method: 'GET', path: /^\/api\/playlists$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, [...ctx.store.playlists].sort((a, b) => a.name.localeCompare(b.name)));
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/playlists$/,
+      handler: async ({ req, res, ctx }) => {
+         const body = await readJson(req);
+         if(!isObject(body)) return respondText(res, 400, 'Invalid request body');
+         const name = typeof body.name === 'string' ? body.name : '';
+         const items = body.items === undefined ? [] : parsePlaylistItems(body.items);
+         if(!items) return respondText(res, 400, 'Invalid request body');
+         const missing = missingPresetId(ctx, items.map((i) => i.presetId));
+         if(missing !== undefined) return respondText(res, 400, `Preset ${missing} not found`);
+         if(!name.trim()) return respondJson(res, 409, { error: 'Playlist name cannot be blank' });
+         if(ctx.store.playlists.some((p) => p.name === name)) {
+            return respondJson(res, 409, { error: `A playlist named '${name}' already exists` });
+         }
+         const row: Playlist = { id: ctx.store.nextPlaylistId++, name, items, updatedAt: Date.now() };
+         ctx.store.playlists.push(row);
+         respondJson(res, 201, row);
+      },
+   },
+   {
+      method: 'PUT', path: /^\/api\/playlists\/([^/]+)$/,
+      handler: async ({ req, res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid playlist ID');
+         const body = await readJson(req);
+         if(!isObject(body)) return respondText(res, 400, 'Invalid request body');
+         const items = body.items == null ? null : parsePlaylistItems(body.items);
+         if(body.items != null && !items) return respondText(res, 400, 'Invalid request body');
+         const missing = missingPresetId(ctx, (items ?? []).map((i) => i.presetId));
+         if(missing !== undefined) return respondText(res, 400, `Preset ${missing} not found`);
+         if(typeof body.name === 'string' && !body.name.trim()) {
+            return respondJson(res, 409, { error: 'Playlist name cannot be blank' });
+         }
+         const row = ctx.store.playlists.find((p) => p.id === id);
+         if(!row) return respondText(res, 404, `Playlist ${id} not found`);
+         if(typeof body.name === 'string' && ctx.store.playlists.some((p) => p.name === body.name && p.id !== id)) {
+            return respondJson(res, 409, { error: 'A playlist with that name already exists' });
+         }
+         if(typeof body.name === 'string') row.name = body.name;
+         if(items) row.items = items;
+         row.updatedAt = Date.now();
+         ctx.player.refresh(row);
+         respondJson(res, 200, row);
+      },
+   },
+   {
+      method: 'DELETE', path: /^\/api\/playlists\/([^/]+)$/,
+      handler: ({ res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid playlist ID');
+         const index = ctx.store.playlists.findIndex((p) => p.id === id);
+         if(index === -1) return respondText(res, 404, `Playlist ${id} not found`);
+         ctx.store.playlists.splice(index, 1);
+         ctx.player.remove(id);
+         if(ctx.store.startupPlaylistId === id) ctx.store.startupPlaylistId = null;
+         respondStatus(res, 204);
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/playlists\/([^/]+)\/(play|startup)$/,
+      handler: ({ res, params, ctx }) => {
+         const id = toId(params[0]);
+         const playlist = ctx.store.playlists.find((p) => p.id === id);
+         if(!playlist) return respondText(res, 404, 'Playlist not found');
+         if(!ctx.player.play(playlist)) return respondText(res, 400, `Playlist '${playlist.name}' has nothing to play`);
+         ctx.presetName = null;
+         // The startup playlist takes the place of the active preset on the next start
+         if(params[1] === 'startup') ctx.store.startupPlaylistId = playlist.id;
+         respondJson(res, 200, playerState(ctx));
+      },
+   },
+   {
+      method: 'GET', path: /^\/api\/playlist-player$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, playerState(ctx));
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/playlist-player\/([^/]+)$/,
+      handler: ({ res, params, ctx }) => {
+         const { player } = ctx;
+         switch(params[0]) {
+            case 'pause': player.pause(); break;
+            case 'resume': player.resume(); break;
+            case 'next': player.next(); break;
+            case 'previous': player.previous(); break;
+            case 'stop': player.stop(); break;
+            default: return respondText(res, 404, 'Unknown player action');
+         }
+         respondJson(res, 200, playerState(ctx));
+      },
+   },
+   {
+      method: 'PUT', path: /^\/api\/playlist-player\/shuffle$/,
+      handler: async ({ req, res, ctx }) => {
+         const body = await readJson(req);
+         if(!isObject(body) || typeof body.shuffle !== 'boolean') return respondText(res, 400, 'Invalid request body');
+         ctx.player.setShuffle(body.shuffle);
+         respondJson(res, 200, playerState(ctx));
+      },
+   },
+
+   // ── Schedule ──────────────────────────────────────────────────────────────
+
+   {
+      method: 'GET', path: /^\/api\/schedule$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, ctx.scheduler.state());
+      },
+   },
+   {
+      method: 'PUT', path: /^\/api\/schedule$/,
+      handler: async ({ req, res, ctx }) => {
+         const schedule = parseSchedule(await readJson(req));
+         if(!schedule) return respondText(res, 400, 'Invalid request body');
+         const missing = schedule.rules
+            .map((rule) => rule.presetId)
+            .find((id) => id !== null && !ctx.store.presets.some((p) => p.id === id));
+         if(missing !== undefined) return respondText(res, 400, `Preset ${missing} not found`);
+         ctx.store.schedule = schedule;
+         ctx.scheduler.setSchedule(schedule);
+         respondJson(res, 200, ctx.scheduler.state());
+      },
+   },
+   {
+      method: 'PUT', path: /^\/api\/schedule\/override$/,
+      handler: async ({ req, res, ctx }) => {
+         const body = await readJson(req);
+         if(!isObject(body)) return respondText(res, 400, 'Invalid request body');
+         const { action, presetId = null, minutes } = body;
+         if(action !== 'preset' && action !== 'off') return respondText(res, 400, 'Invalid request body');
+         if(typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 1 || minutes > 24 * 60) {
+            return respondText(res, 400, 'Invalid request body');
+         }
+         if(presetId !== null && (typeof presetId !== 'number' || !Number.isInteger(presetId))) {
+            return respondText(res, 400, 'Invalid request body');
+         }
+         if(action === 'preset') {
+            if(presetId === null) return respondText(res, 400, 'Invalid request body');
+            if(!ctx.store.presets.some((p) => p.id === presetId)) return respondText(res, 400, `Preset ${presetId} not found`);
+         }
+         ctx.scheduler.setOverride({
+            action,
+            presetId: action === 'preset' ? presetId : null,
+            until: Date.now() + minutes * 60_000,
+         });
+         respondJson(res, 200, ctx.scheduler.state());
+      },
+   },
+   {
+      method: 'DELETE', path: /^\/api\/schedule\/override$/,
+      handler: ({ res, ctx }) => {
+         ctx.scheduler.setOverride(null);
+         respondJson(res, 200, ctx.scheduler.state());
+      },
+   },
+
+   // ── Settings ──────────────────────────────────────────────────────────────
+
+   {
+      method: 'GET', path: /^\/api\/settings$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, ctx.store.settings);
+      },
+   },
+   {
+      method: 'PUT', path: /^\/api\/settings$/,
+      handler: async ({ req, res, ctx }) => {
+         const body = await readJson(req);
+         if(!isObject(body)) return respondText(res, 400, 'Invalid request body');
+         const { settings } = ctx.store;
+         const errors: string[] = [];
+
+         for(const key of ['viewportWidth', 'viewportHeight', 'targetFPS', 'scanIntervalSeconds', 'telemetryIntervalSeconds', 'annotationTickInterval'] as const) {
+            if(body[key] === undefined) continue;
+            const v = positiveInt(body[key]);
+            if(v === null) errors.push(`${key} must be a positive integer`);
+            else settings[key] = v;
+         }
+
+         const floatRanges = {
+            outputGamma: [1, 3],
+            glowRadius: [0.5, 10],
+            glowIntensity: [0.2, 3],
+            glowSoftness: [0, 1],
+            backgroundScale: [0.1, 10],
+            backgroundOffsetX: [-10000, 10000],
+            backgroundOffsetY: [-10000, 10000],
+            backgroundRotation: [-180, 180],
+            backgroundTopLeftX: [-10000, 10000],
+            backgroundTopLeftY: [-10000, 10000],
+            backgroundTopRightX: [-10000, 10000],
+            backgroundTopRightY: [-10000, 10000],
+            backgroundBottomRightX: [-10000, 10000],
+            backgroundBottomRightY: [-10000, 10000],
+            backgroundBottomLeftX: [-10000, 10000],
+            backgroundBottomLeftY: [-10000, 10000],
+         } as const;
+         for(const key of Object.keys(floatRanges) as (keyof typeof floatRanges)[]) {
+            if(body[key] === undefined) continue;
+            const [min, max] = floatRanges[key];
+            const v = numberInRange(body[key], min, max, false);
+            if(v === null) errors.push(`${key} must be a number between ${min} and ${max}`);
+            else settings[key] = v;
+         }
+
+         for(const key of ['whiteBalanceRed', 'whiteBalanceGreen', 'whiteBalanceBlue', 'backgroundOpacity'] as const) {
+            if(body[key] === undefined) continue;
+            const v = numberInRange(body[key], 0, 100, true);
+            if(v === null) errors.push(`${key} must be an integer between 0 and 100`);
+            else settings[key] = v;
+         }
+
+         for(const key of ['showViewport', 'showStrips', 'showBackground', 'showAnnotations', 'outputPreview', 'ledGlow'] as const) {
+            if(body[key] === undefined) continue;
+            const v = strictBoolean(body[key]);
+            if(v === null) errors.push(`${key} must be a boolean`);
+            else settings[key] = v;
+         }
+
+         // The real host only picks up a new resolution on restart; the mock applies it live.
+         ctx.engine.resize(settings.viewportWidth, settings.viewportHeight);
+
+         if(errors.length > 0) respondJson(res, 400, { errors });
+         else respondStatus(res, 200);
+      },
+   },
+   {
+      method: 'GET', path: /^\/api\/settings\/strips$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, [...ctx.store.strips].sort((a, b) => a.id - b.id));
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/settings\/strips$/,
+      handler: async ({ req, res, ctx }) => {
+         const body = await readJson(req);
+         if(!isObject(body)) return respondText(res, 400, 'Invalid request body');
+         const btName = typeof body.btName === 'string' ? body.btName : '';
+         if(!btName.trim()) return respondText(res, 400, 'btName is required');
+         const length = optionalInt(body.length);
+         if(length === null || length <= 0) return respondText(res, 400, 'length must be a positive integer');
+         const strip: StripSetting = {
+            id: ctx.store.nextStripId++,
+            btName,
+            length,
+            startX: optionalInt(body.startX),
+            startY: optionalInt(body.startY),
+            endX: optionalInt(body.endX),
+            endY: optionalInt(body.endY),
+            reverse: body.reverse === true,
+         };
+         ctx.store.strips.push(strip);
+         respondJson(res, 201, strip);
+      },
+   },
+   {
+      method: 'PUT', path: /^\/api\/settings\/strips\/([^/]+)$/,
+      handler: async ({ req, res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid strip ID');
+         const body = await readJson(req);
+         if(!isObject(body)) return respondText(res, 400, 'Invalid request body');
+         const strip = ctx.store.strips.find((s) => s.id === id);
+         if(!strip) return respondText(res, 404, `Strip ${id} not found`);
+         // Null or missing fields are left unchanged, like SettingsRepository.updateStrip
+         if(typeof body.btName === 'string') strip.btName = body.btName;
+         for(const key of ['length', 'startX', 'startY', 'endX', 'endY'] as const) {
+            const v = optionalInt(body[key]);
+            if(v !== null) strip[key] = v;
+         }
+         if(typeof body.reverse === 'boolean') strip.reverse = body.reverse;
+         respondStatus(res, 200);
+      },
+   },
+   {
+      method: 'DELETE', path: /^\/api\/settings\/strips\/([^/]+)$/,
+      handler: ({ res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid strip ID');
+         ctx.fleet.disconnectStrip(id);
+         const index = ctx.store.strips.findIndex((s) => s.id === id);
+         if(index === -1) return respondText(res, 404, `Strip ${id} not found`);
+         ctx.store.strips.splice(index, 1);
+         respondStatus(res, 204);
+      },
+   },
+   {
+      method: 'POST', path: /^\/api\/settings\/background-image$/,
+      handler: async ({ req, res, ctx }) => {
+         const part = firstFilePart(req.headers['content-type'], await readBody(req));
+         if(!part || part.data.length > MAX_IMAGE_BYTES) {
+            return respondText(res, 400, 'Image required and must be under 10 MB');
+         }
+         ctx.store.backgroundImage = { bytes: part.data, mimeType: part.contentType };
+         respondStatus(res, 200);
+      },
+   },
+   {
+      method: 'DELETE', path: /^\/api\/settings\/background-image$/,
+      handler: ({ res, ctx }) => {
+         if(!ctx.store.backgroundImage) return respondText(res, 404, 'No background image stored');
+         ctx.store.backgroundImage = null;
+         respondStatus(res, 204);
+      },
+   },
+
+   // ── Mock control (not part of the real API) ───────────────────────────────
+
+   {
+      method: 'GET', path: /^\/__mock$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 200, {
+            strips: ctx.fleet.getStripInfos(),
+            scenarios: Object.fromEntries(Object.entries(SCENARIOS).map(([name, s]) => [name, s.description])),
+            routes: [
+               'POST /__mock/scan',
+               'POST /__mock/scan/fail?count=N&message=TEXT',
+               'POST /__mock/strips/add',
+               'POST /__mock/strips/{id}/drop',
+               'POST /__mock/strips/{id}/out-of-range',
+               'POST /__mock/strips/{id}/overheat',
+               'POST /__mock/strips/{id}/recover',
+               'POST /__mock/scenarios/{name}',
+            ],
+         });
+      },
+   },
+   {
+      method: 'POST', path: /^\/__mock\/scan$/,
+      handler: ({ res, ctx }) => {
+         ctx.fleet.scanNow();
+         respondStatus(res, 202);
+      },
+   },
+   {
+      method: 'POST', path: /^\/__mock\/scan\/fail$/,
+      handler: ({ res, url, ctx }) => {
+         const count = positiveInt(url.searchParams.get('count') ?? '1') ?? 1;
+         ctx.fleet.failScans(count, url.searchParams.get('message') ?? 'Bluetooth adapter not available');
+         respondStatus(res, 200);
+      },
+   },
+   {
+      method: 'POST', path: /^\/__mock\/strips\/add$/,
+      handler: ({ res, ctx }) => {
+         respondJson(res, 201, ctx.fleet.addDevice());
+      },
+   },
+   {
+      method: 'POST', path: /^\/__mock\/strips\/([^/]+)\/(drop|out-of-range|overheat|recover)$/,
+      handler: ({ res, params, ctx }) => {
+         const id = toId(params[0]);
+         if(id === null) return respondText(res, 400, 'Invalid strip ID');
+         const { fleet } = ctx;
+         const found = params[1] === 'drop' ? fleet.dropConnection(id)
+            : params[1] === 'out-of-range' ? fleet.setInRange(id, false)
+            : params[1] === 'overheat' ? fleet.overheat(id)
+            : fleet.recover(id);
+         if(found) respondStatus(res, 200);
+         else respondText(res, 404, `Strip ${id} not found`);
+      },
+   },
+   {
+      method: 'POST', path: /^\/__mock\/scenarios\/([^/]+)$/,
+      handler: ({ res, params, ctx }) => {
+         const name = decodeURIComponent(params[0]);
+         if(ctx.startScenario(name)) respondStatus(res, 200);
+         else respondText(res, 404, `Unknown scenario ${name}`);
+      },
+   },
+];
+
+/**
+ * Dispatches a request to the matching mock route. Returns false when no route
+ * matches so the caller can hand the request on to Vite.
+ */
+export async function handleRequest(req: IncomingMessage, res: ServerResponse, ctx: MockContext): Promise<boolean> {
+   const url = new URL(req.url ?? '/', 'http://localhost');
+   const method = req.method === 'HEAD' ? 'GET' : req.method;
+   for(const route of routes) {
+      if(route.method !== method) continue;
+      const match = route.path.exec(url.pathname);
+      if(!match) continue;
+      try {
+         await route.handler({ req, res, params: match.slice(1), url, ctx });
+      }
+      catch(e) {
+         respondText(res, 500, e instanceof Error ? e.message : 'Internal error');
+      }
+      return true;
+   }
+   return false;
+}
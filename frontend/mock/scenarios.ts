@@ -0,0 +1,92 @@
+import type { Fleet } from './fleet.ts';
+
+// Named, timed fault scripts for the simulated strips. Pick one at startup with
+// MOCK_SCENARIO=<name> npm run dev:mock, or start one later with
+// POST /__mock/scenarios/<name>. Steps run once, in order, at their offset
+// from the scenario start; `repeatSeconds` loops the whole script.
+
+export interface ScenarioStep {
+   at: number; // seconds after the scenario starts
+   run: (fleet: Fleet) => void;
+}
+
+export interface Scenario {
+   description: string;
+   repeatSeconds?: number;
+   steps: ScenarioStep[];
+}
+
+export const SCENARIOS: Record<string, Scenario> = {
+   'flaky-link': {
+      description: 'strip2 drops its connection every 30 s and comes back on the next scan',
+      repeatSeconds: 30,
+      steps: [
+         { at: 5, run: (f) => { f.dropConnection(2); } },
+      ],
+   },
+   'out-of-range': {
+      description: 'strip4 goes out of range so reconnects fail, then returns after a minute',
+      steps: [
+         { at: 5, run: (f) => { f.setInRange(4, false); } },
+         { at: 65, run: (f) => { f.setInRange(4, true); } },
+      ],
+   },
+   'overheat': {
+      description: 'strip3 heats up and throttles its current, then cools down after 90 s',
+      steps: [
+         { at: 5, run: (f) => { f.overheat(3); } },
+         { at: 95, run: (f) => { f.recover(3); } },
+      ],
+   },
+   'scan-failure': {
+      description: 'The Bluetooth adapter fails the next three background scans',
+      steps: [
+         { at: 0, run: (f) => { f.failScans(3, 'Bluetooth adapter not available'); } },
+         { at: 1, run: (f) => { f.scanNow(); } },
+      ],
+   },
+   'new-device': {
+      description: 'An unconfigured controller appears and is found by the next scan',
+      steps: [
+         { at: 5, run: (f) => { f.addDevice(); f.scanNow(); } },
+      ],
+   },
+   'chaos': {
+      description: 'All of the above, staggered',
+      steps: [
+         { at: 5, run: (f) => { f.dropConnection(2); } },
+         { at: 10, run: (f) => { f.overheat(3); } },
+         { at: 20, run: (f) => { f.failScans(2, 'org.bluez.Error.InProgress'); f.scanNow(); } },
+         { at: 40, run: (f) => { f.setInRange(4, false); } },
+         { at: 60, run: (f) => { f.addDevice(); f.scanNow(); } },
+         { at: 90, run: (f) => { f.recover(3); f.recover(4); } },
+      ],
+   },
+};
+
+/**
+ * Starts the named scenario. Returns a function that cancels any steps that
+ * have not run yet, or null if there is no such scenario.
+ */
+export function runScenario(name: string, fleet: Fleet): (() => void) | null {
+   const scenario = SCENARIOS[name];
+   if(!scenario) return null;
+
+   const timers: ReturnType<typeof setTimeout>[] = [];
+   let cancelled = false;
+
+   function schedule() {
+      for(const step of scenario.steps) {
+         timers.push(setTimeout(() => step.run(fleet), step.at * 1000));
+      }
+      if(scenario.repeatSeconds) {
+         timers.push(setTimeout(() => { if(!cancelled) schedule(); }, scenario.repeatSeconds * 1000));
+      }
+   }
+
+   schedule();
+   return () => {
+      cancelled = true;
+      timers.forEach(clearTimeout);
+   };
+}
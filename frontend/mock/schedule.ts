@@ -0,0 +1,324 @@
+import type {
+   CalendarBlock,
+   Schedule,
+   ScheduleAction,
+   ScheduleOverride,
+   ScheduleRule,
+   ScheduleState,
+   TimeAnchor,
+   TimeOfDay,
+} from '../src/types.ts';
+import { MAX_SUN_OFFSET, MINUTES_PER_DAY } from '../src/utils/schedule.ts';
+import { isObject } from './http.ts';
+import type { SavedPatternRow } from './state.ts';
+
+// Stand-in for Sun, ScheduleCalendar and Scheduler, in the dev server's time
+// zone. Dates are handled as epoch days of the local date, so stepping through
+// them isn't thrown by daylight saving.
+
+const DAY_MS = 86_400_000;
+const ANCHORS: TimeAnchor[] = ['clock', 'sunrise', 'sunset'];
+const MIN_CHECK_MS = 1000;
+const MAX_CHECK_MS = 60_000;
+
+interface RuleWindow {
+   rule: number;
+   start: number;
+   end: number;
+}
+
+interface Segment {
+   start: number;
+   end: number;
+   rule: number | null;
+}
+
+function epochDayOf(date: string): number {
+   return Date.parse(date) / DAY_MS;
+}
+
+function localEpochDay(ms: number): number {
+   const d = new Date(ms);
+   return Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / DAY_MS;
+}
+
+// A local wall-clock time on an epoch day; Date rolls minutes past a DST gap the way ZonedDateTime does
+function localTime(epochDay: number, minutes: number): number {
+   const d = new Date(epochDay * DAY_MS);
+   return new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 0, minutes).getTime();
+}
+
+function isoWeekday(epochDay: number): number {
+   return ((new Date(epochDay * DAY_MS).getUTCDay() + 6) % 7) + 1;
+}
+
+function dateString(epochDay: number): string {
+   return new Date(epochDay * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Mirrors Sun.times: sunrise and sunset in epoch ms, or null while the sun stays up or down. */
+export function sunTimes(epochDay: number, latitude: number, longitude: number): [number, number] | null {
+   const J2000 = 2451545;
+   const UNIX_EPOCH_JULIAN = 2440587.5;
+   const rad = Math.PI / 180;
+   const meanNoon = epochDay + UNIX_EPOCH_JULIAN + 0.5 - J2000 - longitude / 360;
+   const anomaly = (((357.5291 + 0.98560028 * meanNoon) % 360) + 360) % 360 * rad;
+   const center = 1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly);
+   const eclipticLongitude = ((anomaly / rad + center + 180 + 102.9372) % 360) * rad;
+   const transit = J2000 + meanNoon + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * eclipticLongitude);
+   const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(23.4397 * rad));
+   const lat = latitude * rad;
+   const cosHourAngle = (Math.sin(-0.833 * rad) - Math.sin(lat) * Math.sin(declination)) / (Math.cos(lat) * Math.cos(declination));
+   if(Math.abs(cosHourAngle) > 1) return null;
+   const halfDay = Math.acos(cosHourAngle) / rad / 360;
+   const toMs = (julian: number) => Math.round((julian - UNIX_EPOCH_JULIAN) * DAY_MS);
+   return [toMs(transit - halfDay), toMs(transit + halfDay)];
+}
+
+function appliesOn(rule: ScheduleRule, epochDay: number): boolean {
+   return (rule.days.length === 0 || rule.days.includes(isoWeekday(epochDay))) &&
+      (rule.from === null || epochDay >= epochDayOf(rule.from)) &&
+      (rule.until === null || epochDay <= epochDayOf(rule.until));
+}
+
+function usesSun(rule: ScheduleRule): boolean {
+   return rule.start.anchor !== 'clock' || rule.end.anchor !== 'clock';
+}
+
+/** Mirrors ScheduleCalendar. */
+function createCalendar(schedule: Schedule) {
+   function resolve(time: TimeOfDay, epochDay: number, sun: [number, number] | null): number {
+      if(time.anchor === 'clock') return localTime(epochDay, time.minutes);
+      return (time.anchor === 'sunrise' ? sun![0] : sun![1]) + time.minutes * 60_000;
+   }
+
+   function windows(first: number, last: number): RuleWindow[] {
+      if(!schedule.enabled) return [];
+      const result: RuleWindow[] = [];
+      const { latitude, longitude } = schedule;
+      for(let day = first; day <= last; day++) {
+         const sun = latitude !== null && longitude !== null ? sunTimes(day, latitude, longitude) : null;
+         schedule.rules.forEach((rule, index) => {
+            if(!rule.enabled || !appliesOn(rule, day)) return;
+            if(usesSun(rule) && !sun) return;
+            const start = resolve(rule.start, day, sun);
+            let end = resolve(rule.end, day, sun);
+            if(end <= start) end = rule.end.anchor === 'clock' ? localTime(day + 1, rule.end.minutes) : end + DAY_MS;
+            result.push({ rule: index, start, end });
+         });
+      }
+      return result;
+   }
+
+   const contains = (w: RuleWindow, time: number) => time >= w.start && time < w.end;
+   const firstRule = (covering: RuleWindow[]) => (covering.length ? Math.min(...covering.map((w) => w.rule)) : null);
+
+   function ruleAt(time: number): number | null {
+      const day = localEpochDay(time);
+      return firstRule(windows(day - 1, day).filter((w) => contains(w, time)));
+   }
+
+   function segments(from: number, to: number): Segment[] {
+      const all = windows(localEpochDay(from) - 1, localEpochDay(to));
+      const boundaries = [...new Set([from, to, ...all.flatMap((w) => [w.start, w.end])])]
+         .filter((t) => t >= from && t <= to)
+         .sort((a, b) => a - b);
+      const result: Segment[] = [];
+      for(let i = 0; i < boundaries.length - 1; i++) {
+         const rule = firstRule(all.filter((w) => contains(w, boundaries[i])));
+         const last = result[result.length - 1];
+         if(last && last.rule === rule) last.end = boundaries[i + 1];
+         else result.push({ start: boundaries[i], end: boundaries[i + 1], rule });
+      }
+      return result;
+   }
+
+   function nextChange(now: number): number | null {
+      const horizon = now + 7 * DAY_MS;
+      const end = segments(now, horizon)[0]?.end;
+      return end !== undefined && end < horizon ? end : null;
+   }
+
+   function weekStart(now: number): number {
+      const day = localEpochDay(now);
+      return day - (isoWeekday(day) - 1);
+   }
+
+   function week(now: number): CalendarBlock[] {
+      const monday = weekStart(now);
+      const blocks: CalendarBlock[] = [];
+      for(let day = 0; day < 7; day++) {
+         const dayStart = localTime(monday + day, 0);
+         for(const segment of segments(dayStart, localTime(monday + day + 1, 0))) {
+            if(segment.rule === null) continue;
+            blocks.push({
+               day,
+               start: Math.floor((segment.start - dayStart) / 60_000),
+               end: Math.min(MINUTES_PER_DAY, Math.floor((segment.end - dayStart) / 60_000)),
+               rule: segment.rule,
+            });
+         }
+      }
+      return blocks;
+   }
+
+   return { ruleAt, nextChange, weekStart, week };
+}
+
+function parseTimeOfDay(value: unknown): TimeOfDay | null {
+   if(value === undefined) return { anchor: 'clock', minutes: 0 };
+   if(!isObject(value)) return null;
+   const { anchor = 'clock', minutes = 0 } = value;
+   if(typeof anchor !== 'string' || !ANCHORS.includes(anchor as TimeAnchor)) return null;
+   if(typeof minutes !== 'number' || !Number.isInteger(minutes)) return null;
+   const valid = anchor === 'clock' ? minutes >= 0 && minutes < MINUTES_PER_DAY : Math.abs(minutes) <= MAX_SUN_OFFSET;
+   return valid ? { anchor: anchor as TimeAnchor, minutes } : null;
+}
+
+function parseDate(value: unknown): string | null | undefined {
+   if(value === undefined || value === null) return null;
+   return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) ? value : undefined;
+}
+
+function parseRule(value: unknown): ScheduleRule | null {
+   if(!isObject(value)) return null;
+   const { name = '', enabled = true, action = 'preset', presetId = null, days = [] } = value;
+   if(typeof name !== 'string' || typeof enabled !== 'boolean') return null;
+   if(action !== 'preset' && action !== 'off') return null;
+   if(presetId !== null && (typeof presetId !== 'number' || !Number.isInteger(presetId))) return null;
+   if(action === 'preset' && presetId === null) return null;
+   if(!Array.isArray(days) || !days.every((d) => Number.isInteger(d) && d >= 1 && d <= 7)) return null;
+   const start = parseTimeOfDay(value.start);
+   const end = parseTimeOfDay(value.end);
+   const from = parseDate(value.from);
+   const until = parseDate(value.until);
+   if(!start || !end || from === undefined || until === undefined) return null;
+   return { name, enabled, action, presetId, start, end, days: [...new Set(days as number[])], from, until };
+}
+
+/** Mirrors decoding a Schedule: null if anything is malformed or out of range, as the host answers 400 then. */
+export function parseSchedule(body: unknown): Schedule | null {
+   if(!isObject(body)) return null;
+   const { enabled = true, latitude = null, longitude = null, rules = [] } = body;
+   if(typeof enabled !== 'boolean' || !Array.isArray(rules)) return null;
+   if(latitude !== null && (typeof latitude !== 'number' || latitude < -90 || latitude > 90)) return null;
+   if(longitude !== null && (typeof longitude !== 'number' || longitude < -180 || longitude > 180)) return null;
+   if((latitude === null) !== (longitude === null)) return null;
+   const parsed = rules.map(parseRule);
+   if(parsed.some((rule) => rule === null)) return null;
+   return { enabled, latitude, longitude, rules: parsed as ScheduleRule[] };
+}
+
+export interface Scheduler {
+   setSchedule(schedule: Schedule): void;
+   /**
+    * Sets the override, or clears it when null. When it ends the rule in effect takes
+    * over, or if there is none, what was showing before it comes back.
+    */
+   setOverride(override: ScheduleOverride | null): void;
+   start(): void;
+   stop(): void;
+   state(): ScheduleState;
+}
+
+/** Mirrors Scheduler: applies the rule in effect as it changes, on setTimeout instead of coroutines. */
+export function createScheduler(
+   initial: Schedule,
+   findPreset: (id: number) => SavedPatternRow | undefined,
+   apply: (preset: SavedPatternRow | null) => void,
+   capture: () => () => void
+): Scheduler {
+   let schedule = initial;
+   let override: ScheduleOverride | null = null;
+   // What the schedule last asked for, or null where no rule was in effect
+   let applied: { action: ScheduleAction; presetId: number | null } | null = null;
+   // Brings back what was showing before the override, until the override has ended
+   let restore: (() => void) | null = null;
+   let timer: ReturnType<typeof setTimeout> | null = null;
+   let running = false;
+
+   function evaluate() {
+      const now = Date.now();
+      if(override && now >= override.until) override = null;
+      const index = createCalendar(schedule).ruleAt(now);
+      const rule = index !== null ? schedule.rules[index] : null;
+      const ruleTarget: typeof applied = rule ? { action: rule.action, presetId: rule.presetId } : null;
+
+      // The override has ended: the rule in effect takes over, or failing that what it replaced
+      if(!override && restore) {
+         const back = restore;
+         restore = null;
+         applied = ruleTarget;
+         if(ruleTarget) show(ruleTarget);
+         else back();
+         return;
+      }
+
+      const target: typeof applied = override ? { action: override.action, presetId: override.presetId } : ruleTarget;
+      if(target?.action === applied?.action && target?.presetId === applied?.presetId) return;
+      applied = target;
+      if(target) show(target);
+   }
+
+   function show(target: { action: ScheduleAction; presetId: number | null }) {
+      if(target.action === 'off') return apply(null);
+      const preset = target.presetId !== null ? findPreset(target.presetId) : undefined;
+      if(preset) apply(preset);
+   }
+
+   function loop() {
+      evaluate();
+      const now = Date.now();
+      const next = [override?.until, createCalendar(schedule).nextChange(now)]
+         .filter((t): t is number => typeof t === 'number');
+      const wait = next.length ? Math.min(...next) - now : MAX_CHECK_MS;
+      timer = setTimeout(loop, Math.min(MAX_CHECK_MS, Math.max(MIN_CHECK_MS, wait)));
+   }
+
+   function wake() {
+      if(!running) return;
+      if(timer) clearTimeout(timer);
+      loop();
+   }
+
+   return {
+      setSchedule(next) {
+         schedule = next;
+         wake();
+      },
+
+      setOverride(next) {
+         // Replacing an override keeps what was showing before the first one
+         if(next && !restore) restore = capture();
+         override = next;
+         wake();
+      },
+
+      start() {
+         running = true;
+         wake();
+      },
+
+      stop() {
+         running = false;
+         if(timer) clearTimeout(timer);
+         timer = null;
+      },
+
+      state() {
+         const now = Date.now();
+         const calendar = createCalendar(schedule);
+         const active = override && now < override.until ? override : null;
+         return {
+            schedule,
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            now,
+            activeRule: calendar.ruleAt(now),
+            override: active,
+            nextChange: active?.until ?? calendar.nextChange(now),
+            weekStart: dateString(calendar.weekStart(now)),
+            week: calendar.week(now),
+         };
+      },
+   };
+}
@@ -0,0 +1,331 @@
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { deflateSync, constants } from 'node:zlib';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { LEDLayoutMessage, StripsWsMessage } from '../src/types.ts';
+import type { Point } from '../src/utils/stripGeometry.ts';
+import type { MockContext } from './context.ts';
+
+// WebSocket endpoints of PreviewServer.kt:
+//   /viewport   — binary viewport frames, same wire formats (v1, and v2 with ?v=2) as WebSocketBroadcaster
+//   /ws/strips  — JSON strip status, discovery, telemetry and per-LED messages
+//   /ws/led-strips — layout text message, then binary per-LED colors (LedStripsBroadcaster)
+
+/** One strip's share of a /ws/led-strips frame. */
+export interface LedFrameStrip {
+   id: number;
+   positions: Point[] | null;
+   rgb: Uint8Array;
+}
+
+// Same cutoff as LedStripsBroadcaster.DEFLATE_THRESHOLD
+const LED_DEFLATE_THRESHOLD = 512;
+
+// Same values as WebSocketBroadcaster
+const FLAG_DEFLATE = 0x01;
+const FLAG_KEYFRAME = 0x02;
+const FLAG_DELTA = 0x04;
+const FLAG_SCALED = 0x08;
+const FLAG_EXTENDED = 0x80;
+const V2_HEADER_SIZE = 18;
+const KEYFRAME_INTERVAL = 100;
+const MAX_SCALE = 8;
+
+interface ViewportClient {
+   version: number;
+   needsKeyframe: boolean;
+   maxFps: number;
+   scale: number;
+   paused: boolean;
+   lastSentAt: number;
+}
+
+/** Same 10% slack as WebSocketBroadcaster.tooSoon. */
+function tooSoon(client: ViewportClient, renderedAt: number): boolean {
+   if(client.maxFps <= 0) return false;
+   const interval = Math.floor(1000 / client.maxFps);
+   return renderedAt - client.lastSentAt < interval - Math.floor(interval / 10);
+}
+
+/** [scale:1B] then the frame reduced by scale, each pixel the average of its block. */
+function downscale(rgb: Uint8Array, width: number, height: number, scale: number): Uint8Array {
+   const outWidth = Math.ceil(width / scale);
+   const outHeight = Math.ceil(height / scale);
+   const out = new Uint8Array(1 + outWidth * outHeight * 3);
+   out[0] = scale;
+   let o = 1;
+   for(let oy = 0; oy < outHeight; oy++) {
+      for(let ox = 0; ox < outWidth; ox++) {
+         let r = 0, g = 0, b = 0, count = 0;
+         for(let y = oy * scale; y < Math.min(height, (oy + 1) * scale); y++) {
+            for(let x = ox * scale; x < Math.min(width, (ox + 1) * scale); x++) {
+               const i = (y * width + x) * 3;
+               r += rgb[i];
+               g += rgb[i + 1];
+               b += rgb[i + 2];
+               count++;
+            }
+         }
+         out[o++] = Math.floor(r / count);
+         out[o++] = Math.floor(g / count);
+         out[o++] = Math.floor(b / count);
+      }
+   }
+   return out;
+}
+
+export interface SocketHub {
+   /** Takes over the upgrade if the path is one of ours; returns false otherwise. */
+   handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean;
+   broadcastViewport(): void;
+   broadcastStrips(message: StripsWsMessage): void;
+   /** Strips must be in id order; a changed layout is broadcast before the frame. */
+   broadcastLedFrame(strips: LedFrameStrip[]): void;
+   viewportClientCount(): number;
+   close(): void;
+}
+
+/**
+ * Encodes the frame as [flags:1B][width:2B BE][height:2B BE][RGB...], deflated
+ * at BEST_SPEED (flags 0x01) unless compression is turned off (flags 0x00).
+ */
+function encodeViewport(width: number, height: number, rgb: Uint8Array, compress: boolean): Buffer {
+   const payload = compress ? deflateSync(rgb, { level: constants.Z_BEST_SPEED }) : rgb;
+   const buffer = Buffer.alloc(5 + payload.length);
+   buffer[0] = compress ? 0x01 : 0x00;
+   buffer.writeUInt16BE(width, 1);
+   buffer.writeUInt16BE(height, 3);
+   buffer.set(payload, 5);
+   return buffer;
+}
+
+/**
+ * Encodes a v2 frame as [flags:1B][version:1B][width:2B BE][height:2B BE][seq:4B BE]
+ * [renderedAt:8B BE][payload...], deflating the payload when that makes it smaller.
+ */
+function encodeViewportV2(
+   kind: number, width: number, height: number, seq: number, renderedAt: number,
+   payload: Uint8Array, compress: boolean,
+): Buffer {
+   const deflated = compress ? deflateSync(payload, { level: constants.Z_BEST_SPEED }) : null;
+   const body = deflated && deflated.length < payload.length ? deflated : payload;
+   const buffer = Buffer.alloc(V2_HEADER_SIZE + body.length);
+   buffer[0] = FLAG_EXTENDED | kind | (body === payload ? 0 : FLAG_DEFLATE);
+   buffer[1] = 2;
+   buffer.writeUInt16BE(width, 2);
+   buffer.writeUInt16BE(height, 4);
+   buffer.writeUInt32BE(seq, 6);
+   buffer.writeBigInt64BE(BigInt(renderedAt), 10);
+   buffer.set(body, V2_HEADER_SIZE);
+   return buffer;
+}
+
+/** Lists the pixels that changed between two frames as runs of [offset:4B][count:2B][RGB...]. */
+function encodeDelta(previous: Uint8Array, current: Uint8Array): Buffer {
+   const pixelCount = current.length / 3;
+   const changed = (pixel: number) => {
+      const i = pixel * 3;
+      return previous[i] !== current[i] || previous[i + 1] !== current[i + 1] || previous[i + 2] !== current[i + 2];
+   };
+   const runs: Buffer[] = [];
+   let pixel = 0;
+   while(pixel < pixelCount) {
+      if(!changed(pixel)) {
+         pixel++;
+         continue;
+      }
+      const start = pixel;
+      while(pixel < pixelCount && pixel - start < 0xffff && changed(pixel)) pixel++;
+      const run = Buffer.alloc(6);
+      run.writeUInt32BE(start, 0);
+      run.writeUInt16BE(pixel - start, 4);
+      runs.push(run, Buffer.from(current.subarray(start * 3, pixel * 3)));
+   }
+   return Buffer.concat(runs);
+}
+
+/** Encodes a /ws/led-strips frame as [flags:1B][layoutVersion:2B BE][RGB...]. */
+function encodeLedFrame(version: number, rgb: Uint8Array, compress: boolean): Buffer {
+   const deflated = compress && rgb.length >= LED_DEFLATE_THRESHOLD
+      ? deflateSync(rgb, { level: constants.Z_BEST_SPEED })
+      : null;
+   const payload = deflated && deflated.length < rgb.length ? deflated : rgb;
+   const buffer = Buffer.alloc(3 + payload.length);
+   buffer[0] = payload === rgb ? 0x00 : 0x01;
+   buffer.writeUInt16BE(version, 1);
+   buffer.set(payload, 3);
+   return buffer;
+}
+
+function send(clients: Set<WebSocket>, data: Buffer | string) {
+   for(const client of clients) {
+      if(client.readyState === WebSocket.OPEN) client.send(data);
+   }
+}
+
+export function createSocketHub(ctx: MockContext, compress: boolean): SocketHub {
+   const wss = new WebSocketServer({ noServer: true });
+   const viewportClients = new Map<WebSocket, ViewportClient>();
+   const stripsClients = new Set<WebSocket>();
+   const ledClients = new Set<WebSocket>();
+   // Unlike the host, whose mapper is fixed at startup, the mock follows layout edits live
+   let layout: LEDLayoutMessage | null = null;
+   let layoutKey = '';
+   // Base for the next delta frame
+   let previousFrame: Uint8Array | null = null;
+   let previousWidth = 0;
+   let previousHeight = 0;
+   let sequence = 0;
+   let framesSinceKeyframe = 0;
+
+   function handleCommand(ws: WebSocket, client: ViewportClient, text: string) {
+      try {
+         const command = JSON.parse(text);
+         if(command.type === 'setPattern' && typeof command.pattern === 'string' && command.pattern) {
+            ctx.player.stop();
+            ctx.engine.setPattern(command.pattern, command.params ?? {});
+         }
+         else if(command.type === 'keyframe') {
+            client.needsKeyframe = true;
+         }
+         else if(command.type === 'quality') {
+            const scale = client.version < 2 ? 1 : Math.min(MAX_SCALE, Math.max(1, Math.floor(Number(command.scale) || 1)));
+            if(scale !== client.scale) client.needsKeyframe = true;
+            client.maxFps = Math.max(0, Math.floor(Number(command.maxFps) || 0));
+            client.scale = scale;
+            client.paused = command.paused === true;
+            ws.send(JSON.stringify({ type: 'quality', maxFps: client.maxFps, scale: client.scale, paused: client.paused }));
+         }
+      }
+      catch {
+         // Ignore malformed commands
+      }
+   }
+
+   return {
+      handleUpgrade(req, socket, head) {
+         const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+         if(path === '/viewport') {
+            const version = Number(new URL(req.url ?? '/', 'http://localhost').searchParams.get('v')) >= 2 ? 2 : 1;
+            wss.handleUpgrade(req, socket, head, (ws) => {
+               const client: ViewportClient = { version, needsKeyframe: true, maxFps: 0, scale: 1, paused: false, lastSentAt: 0 };
+               viewportClients.set(ws, client);
+               ws.on('message', (data, isBinary) => { if(!isBinary) handleCommand(ws, client, data.toString()); });
+               ws.on('close', () => viewportClients.delete(ws));
+            });
+            return true;
+         }
+         if(path === '/ws/strips') {
+            wss.handleUpgrade(req, socket, head, (ws) => {
+               stripsClients.add(ws);
+               // Send current strip list immediately on connect
+               ws.send(JSON.stringify({ type: 'strips_update', strips: ctx.stripStatuses() }));
+               ws.on('close', () => stripsClients.delete(ws));
+            });
+            return true;
+         }
+         if(path === '/ws/led-strips') {
+            wss.handleUpgrade(req, socket, head, (ws) => {
+               ledClients.add(ws);
+               if(layout) ws.send(JSON.stringify(layout));
+               ws.on('close', () => ledClients.delete(ws));
+            });
+            return true;
+         }
+         return false;
+      },
+
+      broadcastViewport() {
+         if(viewportClients.size === 0) return;
+         const { width, height } = ctx.engine;
+         const frame = Uint8Array.from(ctx.engine.frame);
+         const renderedAt = Date.now();
+
+         const delta = previousFrame && previousWidth === width && previousHeight === height
+            ? encodeDelta(previousFrame, frame)
+            : null;
+         sequence = (sequence + 1) >>> 0;
+         const forceKeyframe = ++framesSinceKeyframe >= KEYFRAME_INTERVAL;
+         if(forceKeyframe) framesSinceKeyframe = 0;
+         previousFrame = frame;
+         previousWidth = width;
+         previousHeight = height;
+
+         let v1: Buffer | null = null;
+         let keyframe: Buffer | null = null;
+         let deltaFrame: Buffer | null = null;
+         const scaledFrames = new Map<number, Buffer>();
+         for(const [ws, client] of viewportClients) {
+            if(ws.readyState !== WebSocket.OPEN) continue;
+            if(client.paused || tooSoon(client, renderedAt)) {
+               // The client won't have the previous frame for the next delta
+               client.needsKeyframe = true;
+               continue;
+            }
+            client.lastSentAt = renderedAt;
+            if(client.version < 2) {
+               ws.send(v1 ??= encodeViewport(width, height, frame, compress));
+            }
+            else if(client.scale > 1) {
+               let scaled = scaledFrames.get(client.scale);
+               if(!scaled) {
+                  const payload = downscale(frame, width, height, client.scale);
+                  scaled = encodeViewportV2(FLAG_KEYFRAME | FLAG_SCALED, width, height, sequence, renderedAt, payload, compress);
+                  scaledFrames.set(client.scale, scaled);
+               }
+               ws.send(scaled);
+            }
+            else {
+               keyframe ??= encodeViewportV2(FLAG_KEYFRAME, width, height, sequence, renderedAt, frame, compress);
+               if(delta && deltaFrame === null) {
+                  deltaFrame = encodeViewportV2(FLAG_DELTA, width, height, sequence, renderedAt, delta, compress);
+               }
+               // Fall back to a keyframe when the delta wouldn't be any smaller on the wire
+               const deltaOk = !client.needsKeyframe && client.maxFps === 0 && !forceKeyframe;
+               if(deltaOk && deltaFrame && deltaFrame.length < keyframe.length) {
+                  ws.send(deltaFrame);
+               }
+               else {
+                  ws.send(keyframe);
+                  client.needsKeyframe = false;
+               }
+            }
+         }
+      },
+
+      broadcastStrips(message) {
+         if(stripsClients.size === 0) return;
+         send(stripsClients, JSON.stringify(message));
+      },
+
+      broadcastLedFrame(strips) {
+         if(ledClients.size === 0) return;
+         const layoutStrips = strips.map((strip) => {
+            const length = strip.rgb.length / 3;
+            const positions: number[] = [];
+            for(let i = 0; i < length; i++) {
+               const p = strip.positions?.[i];
+               positions.push(p ? p.x : -1, p ? p.y : -1);
+            }
+            return { id: strip.id, length, positions };
+         });
+         const key = JSON.stringify(layoutStrips);
+         if(!layout || key !== layoutKey) {
+            layoutKey = key;
+            layout = { type: 'layout', version: ((layout?.version ?? 0) + 1) & 0xffff, strips: layoutStrips };
+            send(ledClients, JSON.stringify(layout));
+         }
+         const rgb = Buffer.concat(strips.map((strip) => strip.rgb));
+         send(ledClients, encodeLedFrame(layout.version, rgb, compress));
+      },
+
+      viewportClientCount() {
+         return viewportClients.size;
+      },
+
+      close() {
+         for(const client of [...viewportClients.keys(), ...stripsClients, ...ledClients]) client.terminate();
+         wss.close();
+      },
+   };
+}
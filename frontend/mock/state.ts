@@ -0,0 +1,125 @@
+import type { Modulator, Playlist, ScalarSettings, Schedule, StripSetting, Timeline } from '../src/types.ts';
+import { MOCK_PATTERNS, defaultParams, type ParamValues } from './patterns.ts';
+
+// In-memory stand-in for the Postgres-backed SettingsRepository and
+// SavedPatternsRepository and PlaylistsRepository. Everything resets when the dev server restarts.
+
+export interface SavedPatternRow {
+   id: number;
+   presetName: string;
+   patternName: string;
+   params: ParamValues;
+   modulators: Record<string, Modulator>;
+   timeline: Timeline | null;
+   updatedAt: number;
+}
+
+export interface BackgroundImage {
+   bytes: Buffer;
+   mimeType: string;
+}
+
+export interface MockStore {
+   settings: ScalarSettings;
+   strips: StripSetting[];
+   presets: SavedPatternRow[];
+   activePresetName: string | null;
+   playlists: Playlist[];
+   startupPlaylistId: number | null;
+   schedule: Schedule;
+   backgroundImage: BackgroundImage | null;
+   nextStripId: number;
+   nextPresetId: number;
+   nextPlaylistId: number;
+}
+
+// Four strips framing the default 240x135 viewport plus a diagonal, the way a
+// typical bench setup looks. Strip ids line up with the simulated stripN devices.
+const SEED_STRIPS: StripSetting[] = [
+   { id: 1, btName: 'strip1', length: 120, startX: 0, startY: 0, endX: 239, endY: 0, reverse: false },
+   { id: 2, btName: 'strip2', length: 68, startX: 239, startY: 0, endX: 239, endY: 134, reverse: false },
+   { id: 3, btName: 'strip3', length: 120, startX: 0, startY: 134, endX: 239, endY: 134, reverse: true },
+   { id: 4, btName: 'strip4', length: 68, startX: 0, startY: 0, endX: 0, endY: 134, reverse: true },
+   { id: 5, btName: 'strip5', length: 90, startX: 20, startY: 120, endX: 220, endY: 15, reverse: false },
+];
+
+export function createStore(): MockStore {
+   const now = Date.now();
+   const plasma = MOCK_PATTERNS.find((p) => p.name === 'Plasma')!;
+   const bars = MOCK_PATTERNS.find((p) => p.name === 'Alternating Bars')!;
+   return {
+      settings: {
+         viewportWidth: 240,
+         viewportHeight: 135,
+         targetFPS: 60,
+         scanIntervalSeconds: 15,
+         telemetryIntervalSeconds: 5,
+         showViewport: true,
+         showStrips: false,
+         showBackground: false,
+         showAnnotations: false,
+         annotationTickInterval: 10,
+         outputPreview: false,
+         outputGamma: 2.2,
+         whiteBalanceRed: 100,
+         whiteBalanceGreen: 100,
+         whiteBalanceBlue: 100,
+         ledGlow: false,
+         glowRadius: 3,
+         glowIntensity: 1,
+         glowSoftness: 0.7,
+         backgroundScale: 1,
+         backgroundOffsetX: 0,
+         backgroundOffsetY: 0,
+         backgroundRotation: 0,
+         backgroundOpacity: 100,
+         backgroundTopLeftX: 0,
+         backgroundTopLeftY: 0,
+         backgroundTopRightX: 0,
+         backgroundTopRightY: 0,
+         backgroundBottomRightX: 0,
+         backgroundBottomRightY: 0,
+         backgroundBottomLeftX: 0,
+         backgroundBottomLeftY: 0,
+      },
+      strips: SEED_STRIPS.map((s) => ({ ...s })),
+      presets: [
+         { id: 1, presetName: 'Warm Plasma', patternName: plasma.name, params: { ...defaultParams(plasma), hueMin: 0, hueMax: 60 }, modulators: {}, timeline: null, updatedAt: now },
+         { id: 2, presetName: 'Police', patternName: bars.name, params: { ...defaultParams(bars), speed: 200, angle: 45 }, modulators: {}, timeline: null, updatedAt: now },
+      ],
+      activePresetName: 'Warm Plasma',
+      playlists: [
+         {
+            id: 1,
+            name: 'Showcase',
+            items: [
+               { presetId: 1, duration: 20, transition: { type: 'crossfade', duration: 3 } },
+               { presetId: 2, duration: 10, transition: { type: 'wipe', duration: 1.5 } },
+            ],
+            updatedAt: now,
+         },
+      ],
+      startupPlaylistId: null,
+      schedule: {
+         enabled: true,
+         latitude: null,
+         longitude: null,
+         rules: [
+            {
+               name: 'Lunch', enabled: true, action: 'preset', presetId: 2,
+               start: { anchor: 'clock', minutes: 12 * 60 }, end: { anchor: 'clock', minutes: 13 * 60 },
+               days: [1, 2, 3, 4, 5], from: null, until: null,
+            },
+            {
+               name: 'Office hours', enabled: true, action: 'preset', presetId: 1,
+               start: { anchor: 'clock', minutes: 8 * 60 }, end: { anchor: 'clock', minutes: 18 * 60 },
+               days: [1, 2, 3, 4, 5], from: null, until: null,
+            },
+         ],
+      },
+      backgroundImage: null,
+      nextStripId: SEED_STRIPS.length + 1,
+      nextPresetId: 3,
+      nextPlaylistId: 2,
+   };
+}
@@ -0,0 +1,194 @@
+import type { Easing, Keyframe, ParameterDef, ParamValue, Timeline } from '../src/types.ts';
+import { EASINGS, MAX_DURATION } from '../src/utils/timeline.ts';
+import { isObject } from './http.ts';
+import type { ParamValues } from './patterns.ts';
+
+// Stand-in for TimelinePlayback: the same easings and interpolation, colors
+// through OKLab, so a timeline plays in the mock the way it does on the host.
+
+const EASING_NAMES = EASINGS.map((e) => e.easing);
+
+/** Mirrors decoding a Timeline: null if it is malformed, as the host answers 400 then. */
+export function parseTimeline(body: unknown): Timeline | null {
+   if(!isObject(body)) return null;
+   const { duration, loop = true, lanes = {} } = body;
+   if(typeof duration !== 'number' || !(duration > 0) || duration > MAX_DURATION) return null;
+   if(typeof loop !== 'boolean' || !isObject(lanes)) return null;
+   const result: Record<string, Keyframe[]> = {};
+   for(const [name, lane] of Object.entries(lanes)) {
+      if(!Array.isArray(lane)) return null;
+      const keys: Keyframe[] = [];
+      for(const key of lane) {
+         if(!isObject(key)) return null;
+         const { time, value, easing = 'linear' } = key;
+         if(typeof time !== 'number' || time < 0 || time > duration) return null;
+         if(value === undefined) return null;
+         if(typeof easing !== 'string' || !EASING_NAMES.includes(easing as Easing)) return null;
+         keys.push({ time, value: value as ParamValue, easing: easing as Easing });
+      }
+      result[name] = keys;
+   }
+   return { duration, loop, lanes: result };
+}
+
+function ease(easing: Easing, t: number): number {
+   switch(easing) {
+      case 'linear': return t;
+      case 'ease-in': return t * t * t;
+      case 'ease-out': return 1 - Math.pow(1 - t, 3);
+      case 'ease-in-out': return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+      case 'step': return 0;
+   }
+}
+
+// ── OKLab, as Color.blendOklab ──────────────────────────────────────────────
+
+function srgbToLinear(c: number): number {
+   return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(c: number): number {
+   const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+   return Math.round(Math.max(0, Math.min(1, v)) * 255);
+}
+
+function toOklab(r: number, g: number, b: number): [number, number, number] {
+   const lr = srgbToLinear(r / 255);
+   const lg = srgbToLinear(g / 255);
+   const lb = srgbToLinear(b / 255);
+   const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+   const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+   const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+   return [
+      0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+      1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+      0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+   ];
+}
+
+function parseHex(hex: string): number[] | null {
+   if(hex.length < 7 || hex[0] !== '#') return null;
+   const channels = [1, 3, 5].map((i) => parseInt(hex.substring(i, i + 2), 16));
+   const brightness = hex.length >= 9 ? parseInt(hex.substring(7, 9), 16) : 31;
+   return [...channels, brightness].some(isNaN) ? null : [...channels, brightness];
+}
+
+function blendHex(from: string, to: string, t: number): string {
+   const a = parseHex(from);
+   const b = parseHex(to);
+   if(!a || !b) return from;
+   const lab1 = toOklab(a[0], a[1], a[2]);
+   const lab2 = toOklab(b[0], b[1], b[2]);
+   const [lightness, la, lb] = lab1.map((v, i) => v + (lab2[i] - v) * t);
+   const l = Math.pow(lightness + 0.3963377774 * la + 0.2158037573 * lb, 3);
+   const m = Math.pow(lightness - 0.1055613458 * la - 0.0638541728 * lb, 3);
+   const s = Math.pow(lightness - 0.0894841775 * la - 1.2914855480 * lb, 3);
+   const channels = [
+      linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+      linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+      linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s),
+      Math.max(0, Math.min(31, Math.round(a[3] * (1 - t) + b[3] * t))),
+   ];
+   return '#' + channels.map((c) => c.toString(16).padStart(2, '0')).join('');
+}
+
+// ── Interpolation, as TimelinePlayback ──────────────────────────────────────
+
+function lerp(a: number, b: number, t: number): number {
+   return a + (b - a) * t;
+}
+
+function isPair(value: unknown): value is [number, number] {
+   return Array.isArray(value) && value.length === 2 && value.every((n) => typeof n === 'number');
+}
+
+function isStops(value: unknown): value is { position: number; color: string }[] {
+   return Array.isArray(value) && value.length > 0 &&
+      value.every((s) => isObject(s) && typeof s.position === 'number' && typeof s.color === 'string');
+}
+
+/** The value as the parameter reads it, or null if it doesn't fit. */
+function accept(def: ParameterDef, value: unknown): unknown {
+   switch(def.type) {
+      case 'float': case 'angle': return typeof value === 'number' ? value : null;
+      case 'int': return typeof value === 'number' ? Math.round(value) : null;
+      case 'color': case 'select': return typeof value === 'string' ? value : null;
+      case 'bool': return typeof value === 'boolean' ? value : null;
+      case 'range': case 'point': return isPair(value) ? value : null;
+      case 'palette': return isStops(value) ? value : null;
+   }
+}
+
+function interpolate(def: ParameterDef, from: unknown, to: unknown, t: number): unknown {
+   switch(def.type) {
+      case 'float': return Math.max(def.min, Math.min(def.max, lerp(from as number, to as number, t)));
+      case 'int': return Math.max(def.min, Math.min(def.max, Math.round(lerp(from as number, to as number, t))));
+      case 'angle': {
+         const start = from as number;
+         const turn = ((to as number) - start + 540) % 360 - 180;
+         return (((start + turn * t) % 360) + 360) % 360;
+      }
+      case 'color': return blendHex(from as string, to as string, t);
+      case 'range': case 'point': {
+         const [a0, a1] = from as [number, number];
+         const [b0, b1] = to as [number, number];
+         return [lerp(a0, b0, t), lerp(a1, b1, t)];
+      }
+      case 'palette': {
+         const a = from as { position: number; color: string }[];
+         const b = to as { position: number; color: string }[];
+         // Stops pair up by index; palettes of different sizes switch at the keyframe
+         if(a.length !== b.length) return from;
+         return a.map((s, i) => ({ position: lerp(s.position, b[i].position, t), color: blendHex(s.color, b[i].color, t) }));
+      }
+      default: return from;
+   }
+}
+
+interface Lane {
+   def: ParameterDef;
+   keys: { time: number; value: unknown; easing: Easing }[];
+}
+
+export interface TimelinePlayback {
+   /** Seconds into the timeline. */
+   readonly position: number;
+   advance(deltaTime: number, base: ParamValues): ParamValues;
+}
+
+export function createTimelinePlayback(timeline: Timeline, parameters: ParameterDef[]): TimelinePlayback {
+   const lanes: [string, Lane][] = [];
+   for(const [name, keyframes] of Object.entries(timeline.lanes)) {
+      const def = parameters.find((p) => p.name === name);
+      if(!def) continue;
+      const keys = [...keyframes]
+         .sort((a, b) => a.time - b.time)
+         .map((k) => ({ time: k.time, value: accept(def, k.value), easing: k.easing }))
+         .filter((k) => k.value !== null);
+      if(keys.length > 0) lanes.push([name, { def, keys }]);
+   }
+   let position = 0;
+
+   function valueAt({ def, keys }: Lane, time: number): unknown {
+      const next = keys.findIndex((k) => k.time > time);
+      if(next === 0) return keys[0].value;
+      if(next === -1) return keys[keys.length - 1].value;
+      const from = keys[next - 1];
+      const to = keys[next];
+      return interpolate(def, from.value, to.value, ease(from.easing, (time - from.time) / (to.time - from.time)));
+   }
+
+   return {
+      get position() { return position; },
+
+      advance(deltaTime, base) {
+         position += deltaTime;
+         if(position >= timeline.duration) {
+            position = timeline.loop ? position % timeline.duration : timeline.duration;
+         }
+         const params = { ...base };
+         for(const [name, lane] of lanes) params[name] = valueAt(lane, position);
+         return params;
+      },
+   };
+}
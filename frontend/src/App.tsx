@@ -1,30 +1,80 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import './App.css';
-import { useWebSocket } from './hooks/useWebSocket.ts';
+import { useViewportStream } from './hooks/useViewportStream.ts';
 import { usePatterns } from './hooks/usePatterns.ts';
 import { useStats } from './hooks/useStats.ts';
 import { useLEDStrips } from './hooks/useLEDStrips.ts';
 import { useBackgroundImage } from './hooks/useBackgroundImage.ts';
 import { useSavedPatterns } from './hooks/useSavedPatterns.ts';
 import { useSettings } from './hooks/useSettings.ts';
+import { useStripSettings } from './hooks/useStripSettings.ts';
 import { PreviewArea } from './components/PreviewArea.tsx';
 import { StatsDisplay } from './components/StatsDisplay.tsx';
 import { ControlsSidebar } from './components/ControlsSidebar.tsx';
 import { SavedPatternsPanel } from './components/SavedPatternsPanel.tsx';
+import { PlaylistsPanel } from './components/PlaylistsPanel.tsx';
 import { StripManagerTab } from './components/StripManagerTab.tsx';
 import { SettingsTab } from './components/SettingsTab.tsx';
-import type { PatternInfo } from './types.ts';
-
-type Tab = 'pattern' | 'strips' | 'settings';
-type RightTab = 'controls' | 'saved';
-
-const TABS: Tab[] = ['pattern', 'strips', 'settings'];
+import { ScheduleTab } from './components/ScheduleTab.tsx';
+import { PresentView } from './components/PresentView.tsx';
+import { TimelinePanel } from './components/TimelinePanel.tsx';
+import type { PointPickerTarget } from './components/PointPicker.tsx';
+import type {
+   Modulator,
+   ParamValue,
+   PatternInfo,
+   PointParamDef,
+   PreviewQuality,
+   PreviewQualityMode,
+   Timeline,
+} from './types.ts';
+import type { OutputSettings } from './utils/outputColor.ts';
+import { outputCalibration } from './utils/outputColor.ts';
+import { resolvePoint } from './utils/pointParam.ts';
+import type { GlowSettings } from './utils/ledGlow.ts';
+import { emptyTimeline, hasKeyframes } from './utils/timeline.ts';
+
+type Tab = 'pattern' | 'strips' | 'schedule' | 'settings';
+type RightTab = 'controls' | 'saved' | 'playlists';
+
+const TABS: Tab[] = ['pattern', 'strips', 'schedule', 'settings'];
 
 function tabFromPath(path: string): Tab {
    const segment = path.replace(/^\//, '').split('/')[0] as Tab;
    return TABS.includes(segment) ? segment : 'pattern';
 }
 
+// Kiosk display: the preview alone, full-screen, without the tabs
+function isPresentPath(path: string): boolean {
+   return path.replace(/^\//, '').split('/')[0] === 'present';
+}
+
+// The host drops modulators when the pattern changes, so send them after it
+function applyModulators(modulators: Record<string, Modulator>): Promise<void> {
+   return fetch('/api/modulators', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(modulators),
+   }).then((res) => {
+      if(!res.ok) throw new Error(`Failed to apply modulators: ${res.status}`);
+   });
+}
+
+// The host plays a timeline from its start; null stops it. Like modulators, it
+// is dropped when the pattern changes.
+function applyTimeline(timeline: Timeline | null): Promise<void> {
+   const request = timeline
+      ? fetch('/api/timeline', {
+         method: 'PUT',
+         headers: { 'Content-Type': 'application/json' },
+         body: JSON.stringify(timeline),
+      })
+      : fetch('/api/timeline', { method: 'DELETE' });
+   return request.then((res) => {
+      if(!res.ok) throw new Error(`Failed to apply timeline: ${res.status}`);
+   });
+}
+
 function App() {
    const [activeTab, setActiveTab] = useState<Tab>(() => tabFromPath(window.location.pathname));
    const [rightTab, setRightTab] = useState<RightTab>('controls');
@@ -46,15 +96,53 @@ function App() {
    // Connection state
    const [connected, setConnected] = useState(false);
 
+   // Preview stream quality: the mode chosen here, and what the server actually sends
+   const [qualityMode, setQualityMode] = useState<PreviewQualityMode>('auto');
+   const [previewQuality, setPreviewQuality] = useState<PreviewQuality | null>(null);
+
    // View toggles — initialized from DB settings, persisted on change
    const [showViewport, setShowViewport] = useState(true);
    const [showStrips, setShowStrips] = useState(false);
    const [showBackground, setShowBackground] = useState(false);
+   const [showAnnotations, setShowAnnotations] = useState(false);
+   const [annotationTickInterval, setAnnotationTickInterval] = useState(10);
    const viewToggleSettingsReady = useRef(false);
 
+   // "As output" LED preview — persisted like the view toggles
+   const [outputSettings, setOutputSettings] = useState<OutputSettings>({
+      outputPreview: false,
+      outputGamma: 2.2,
+      whiteBalanceRed: 100,
+      whiteBalanceGreen: 100,
+      whiteBalanceBlue: 100,
+   });
+   const output = useMemo(() => outputCalibration(outputSettings), [outputSettings]);
+
+   // Diffused-glow LED overlay — persisted like the view toggles
+   const [glowSettings, setGlowSettings] = useState<GlowSettings>({
+      ledGlow: false,
+      glowRadius: 3,
+      glowIntensity: 1,
+      glowSoftness: 0.7,
+   });
+   const glow = glowSettings.ledGlow ? glowSettings : null;
+
+   // The strip last hovered in the annotations overlay; highlighted on the Strips and Settings tabs
+   const [focusedStripId, setFocusedStripId] = useState<number | null>(null);
+
+   // Strip layout editing overlay (not persisted)
+   const [editLayout, setEditLayout] = useState(false);
+
    // Pattern controls — dynamic parameter values
    const [selectedPattern, setSelectedPattern] = useState('');
-   const [paramValues, setParamValues] = useState<Record<string, number | string>>({});
+   const [paramValues, setParamValues] = useState<Record<string, ParamValue>>({});
+   // LFOs the host runs on numeric parameters
+   const [modulators, setModulators] = useState<Record<string, Modulator>>({});
+   // Keyframed parameter values, and performance.now() when the host started playing them
+   const [timeline, setTimeline] = useState<Timeline>(emptyTimeline);
+   const [timelineStart, setTimelineStart] = useState<number | null>(null);
+   // The point parameter that clicks on the preview set, if any
+   const [pickingPoint, setPickingPoint] = useState<string | null>(null);
 
    // Resolution tracking (updated by ViewportCanvas)
    const [resolution, setResolution] = useState('');
@@ -64,12 +152,12 @@ function App() {
    const [viewportHeight, setViewportHeight] = useState(0);
 
    // Hooks
-   const viewportRef = useWebSocket(setConnected);
    const patterns = usePatterns();
    const stats = useStats(connected);
    const ledStripsRef = useLEDStrips(showStrips);
    const backgroundImageUrl = useBackgroundImage();
-   const { settings: dbSettings, loading: settingsLoading, saveSettings } = useSettings();
+   const { settings: dbSettings, loading: settingsLoading, saveSettings, refetch: refetchSettings } = useSettings();
+   const { strips: stripSettings, updateStrip } = useStripSettings();
    const { presets, loading: presetsLoading, error: presetsError, savePreset, updatePreset, deletePreset, renamePreset } = useSavedPatterns();
 
    // Seed view toggles from DB once settings load
@@ -79,13 +167,42 @@ function App() {
       setShowViewport(dbSettings.showViewport);
       setShowStrips(dbSettings.showStrips);
       setShowBackground(dbSettings.showBackground);
+      setShowAnnotations(dbSettings.showAnnotations);
+      setAnnotationTickInterval(dbSettings.annotationTickInterval);
+      setOutputSettings({
+         outputPreview: dbSettings.outputPreview,
+         outputGamma: dbSettings.outputGamma,
+         whiteBalanceRed: dbSettings.whiteBalanceRed,
+         whiteBalanceGreen: dbSettings.whiteBalanceGreen,
+         whiteBalanceBlue: dbSettings.whiteBalanceBlue,
+      });
+      setGlowSettings({
+         ledGlow: dbSettings.ledGlow,
+         glowRadius: dbSettings.glowRadius,
+         glowIntensity: dbSettings.glowIntensity,
+         glowSoftness: dbSettings.glowSoftness,
+      });
    }, [settingsLoading, dbSettings]);
 
    // Persist view toggle changes
    useEffect(() => {
       if(!viewToggleSettingsReady.current) return;
-      saveSettings({ showViewport, showStrips, showBackground });
-   }, [showViewport, showStrips, showBackground]); // eslint-disable-line react-hooks/exhaustive-deps
+      saveSettings({ showViewport, showStrips, showBackground, showAnnotations, annotationTickInterval });
+   }, [showViewport, showStrips, showBackground, showAnnotations, annotationTickInterval]); // eslint-disable-line react-hooks/exhaustive-deps
+
+   // Persist output preview and glow changes once a slider has settled
+   useEffect(() => {
+      if(!viewToggleSettingsReady.current) return;
+      const timeout = setTimeout(() => saveSettings({ ...outputSettings, ...glowSettings }), 300);
+      return () => clearTimeout(timeout);
+   }, [outputSettings, glowSettings]); // eslint-disable-line react-hooks/exhaustive-deps
+
+   // The background photo is aligned on the Settings tab; pick up its transform on the way back
+   const previousTab = useRef(activeTab);
+   useEffect(() => {
+      if(previousTab.current === 'settings' && activeTab === 'pattern') refetchSettings();
+      previousTab.current = activeTab;
+   }, [activeTab, refetchSettings]);
 
    const [activePresetName, setActivePresetName] = useState<string | null>(null);
    const [activePresetId, setActivePresetId] = useState<number | null>(null);
@@ -107,10 +224,20 @@ function App() {
          try {
             const response = await fetch('/api/active-pattern');
             if(!response.ok) return;
-            const data: { patternName: string; params: Record<string, unknown>; presetName?: string } = await response.json();
+            const data: {
+               patternName: string;
+               params: Record<string, unknown>;
+               presetName?: string;
+               modulators?: Record<string, Modulator>;
+               timeline?: Timeline | null;
+               timelinePosition?: number | null;
+            } = await response.json();
             if(isMount && data.patternName) {
                setSelectedPattern(data.patternName);
-               setParamValues(data.params as Record<string, number | string>);
+               setParamValues(data.params as Record<string, ParamValue>);
+               setModulators(data.modulators ?? {});
+               setTimeline(data.timeline ?? emptyTimeline());
+               setTimelineStart(data.timeline ? performance.now() - (data.timelinePosition ?? 0) * 1000 : null);
             }
             setActivePresetName(data.presetName ?? null);
          }
@@ -131,18 +258,27 @@ function App() {
       setViewportWidth(width);
       setViewportHeight(height);
    }, []);
+   const viewportStream = useViewportStream(setConnected, handleResolutionChange, setPreviewQuality);
+
+   useEffect(() => {
+      viewportStream.setQualityMode(qualityMode);
+   }, [viewportStream, qualityMode]);
 
    // Initialize parameter defaults when a pattern is selected
    const handlePatternSelect = useCallback((patternName: string) => {
       setSelectedPattern(patternName);
       setActivePresetId(null);
+      setPickingPoint(null);
+      setModulators({});
+      setTimeline(emptyTimeline());
+      setTimelineStart(null);
 
       // Build default values from the pattern's parameter definitions
       const patternInfo = patterns.find((p) => p.name === patternName);
       if (patternInfo) {
-         const defaults: Record<string, number | string> = {};
+         const defaults: Record<string, ParamValue> = {};
          for (const param of patternInfo.parameters) {
-            defaults[param.name] = param.default;
+            if (param.default !== null) defaults[param.name] = param.default;
          }
          setParamValues(defaults);
 
@@ -151,13 +287,18 @@ function App() {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(defaults),
-         }).catch((e) => console.error('Failed to apply pattern:', e));
+         })
+            .then(() => applyModulators({}))
+            .then(() => applyTimeline(null))
+            .catch((e) => console.error('Failed to apply pattern:', e));
       }
    }, [patterns]);
 
    const applyDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+   const modulatorDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+   const timelineDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-   const handleParamChange = useCallback((name: string, value: number | string) => {
+   const handleParamChange = useCallback((name: string, value: ParamValue) => {
       setParamValues((prev) => {
          const next = { ...prev, [name]: value };
 
@@ -175,48 +316,124 @@ function App() {
       });
    }, [selectedPattern]);
 
+   const handleModulatorChange = useCallback((name: string, modulator: Modulator | null) => {
+      setModulators((prev) => {
+         const next = { ...prev };
+         if(modulator) next[name] = modulator;
+         else delete next[name];
+
+         if(modulatorDebounceRef.current) clearTimeout(modulatorDebounceRef.current);
+         modulatorDebounceRef.current = setTimeout(() => {
+            applyModulators(next).catch((e) => console.error('Failed to apply modulators:', e));
+         }, 50);
+
+         return next;
+      });
+   }, []);
+
+   // Edits made while the host plays the timeline restart it with the changes
+   const handleTimelineChange = useCallback((next: Timeline) => {
+      setTimeline(next);
+      if(timelineStart === null) return;
+      if(timelineDebounceRef.current) clearTimeout(timelineDebounceRef.current);
+      timelineDebounceRef.current = setTimeout(() => {
+         const playing = hasKeyframes(next) ? next : null;
+         applyTimeline(playing)
+            .then(() => setTimelineStart(playing ? performance.now() : null))
+            .catch((e) => console.error('Failed to apply timeline:', e));
+      }, 300);
+   }, [timelineStart]);
+
+   const handleTimelinePlay = useCallback(() => {
+      applyTimeline(timeline)
+         .then(() => setTimelineStart(performance.now()))
+         .catch((e) => console.error('Failed to play timeline:', e));
+   }, [timeline]);
+
+   const handleTimelineStop = useCallback(() => {
+      if(timelineDebounceRef.current) clearTimeout(timelineDebounceRef.current);
+      applyTimeline(null)
+         .then(() => setTimelineStart(null))
+         .catch((e) => console.error('Failed to stop timeline:', e));
+   }, []);
+
+   // Clicks on the preview set the point parameter being picked
+   const pickingParam = selectedPatternInfo?.parameters
+      .find((p): p is PointParamDef => p.type === 'point' && p.name === pickingPoint);
+   const pointPicker: PointPickerTarget | null = pickingParam
+      ? {
+         label: pickingParam.label,
+         point: resolvePoint(pickingParam, paramValues[pickingParam.name], viewportWidth, viewportHeight),
+         onChange: (point) => handleParamChange(pickingParam.name, point),
+         onDone: () => setPickingPoint(null),
+      }
+      : null;
+
    const handleSave = useCallback(async () => {
       if(activePresetId === null || !selectedPattern) return;
       await updatePreset(activePresetId, {
          patternName: selectedPattern,
          params: paramValues as Record<string, unknown>,
+         modulators,
+         timeline,
       });
-   }, [activePresetId, selectedPattern, paramValues, updatePreset]);
+   }, [activePresetId, selectedPattern, paramValues, modulators, timeline, updatePreset]);
 
    const handleSaveAs = useCallback(async (name: string) => {
       if(!selectedPattern) return;
-      const created = await savePreset(name, selectedPattern, paramValues as Record<string, unknown>);
+      const created = await savePreset(name, selectedPattern, paramValues as Record<string, unknown>, modulators, timeline);
       setActivePresetId(created.id);
-   }, [selectedPattern, paramValues, savePreset]);
+   }, [selectedPattern, paramValues, modulators, timeline, savePreset]);
 
    const handleNew = useCallback(() => {
       if(patterns.length === 0) return;
       const firstPattern = patterns[0];
-      const defaults: Record<string, number | string> = {};
+      const defaults: Record<string, ParamValue> = {};
       for(const param of firstPattern.parameters) {
-         defaults[param.name] = param.default;
+         if(param.default !== null) defaults[param.name] = param.default;
       }
       setSelectedPattern(firstPattern.name);
       setParamValues(defaults);
+      setModulators({});
+      setTimeline(emptyTimeline());
+      setTimelineStart(null);
       setActivePresetId(null);
+      setPickingPoint(null);
       fetch(`/api/pattern/${firstPattern.name}`, {
          method: 'POST',
          headers: { 'Content-Type': 'application/json' },
          body: JSON.stringify(defaults),
-      }).catch((e) => console.error('Failed to apply pattern:', e));
+      })
+         .then(() => applyModulators({}))
+         .then(() => applyTimeline(null))
+         .catch((e) => console.error('Failed to apply pattern:', e));
    }, [patterns]);
 
    // Load a saved preset into the renderer (without changing the startup default)
-   const handleLoadPreset = useCallback((presetId: number, patternName: string, params: Record<string, unknown>) => {
-      const typedParams = params as Record<string, number | string>;
+   const handleLoadPreset = useCallback((
+      presetId: number,
+      patternName: string,
+      params: Record<string, unknown>,
+      presetModulators: Record<string, Modulator>,
+      presetTimeline: Timeline | null
+   ) => {
+      const typedParams = params as Record<string, ParamValue>;
       setSelectedPattern(patternName);
       setParamValues(typedParams);
+      setModulators(presetModulators);
+      setTimeline(presetTimeline ?? emptyTimeline());
+      setTimelineStart(null);
       setActivePresetId(presetId);
+      setPickingPoint(null);
       fetch(`/api/pattern/${patternName}`, {
          method: 'POST',
          headers: { 'Content-Type': 'application/json' },
          body: JSON.stringify(typedParams),
-      }).catch((e) => console.error('Failed to apply preset:', e));
+      })
+         .then(() => applyModulators(presetModulators))
+         .then(() => applyTimeline(presetTimeline))
+         .then(() => { if(presetTimeline) setTimelineStart(performance.now()); })
+         .catch((e) => console.error('Failed to apply preset:', e));
    }, []);
 
    // Set a preset as the startup default (and load it into the renderer)
@@ -231,9 +448,17 @@ function App() {
                return;
             }
             // Backend applied the preset; sync local pattern + param state
-            const data: { patternName?: string; params?: Record<string, unknown> } = await res.json().catch(() => ({}));
+            const data: {
+               patternName?: string;
+               params?: Record<string, unknown>;
+               modulators?: Record<string, Modulator>;
+               timeline?: Timeline | null;
+            } = await res.json().catch(() => ({}));
             if(data.patternName) setSelectedPattern(data.patternName);
-            if(data.params) setParamValues(data.params as Record<string, number | string>);
+            if(data.params) setParamValues(data.params as Record<string, ParamValue>);
+            setModulators(data.modulators ?? {});
+            setTimeline(data.timeline ?? emptyTimeline());
+            setTimelineStart(data.timeline ? performance.now() : null);
          })
          .catch((e) => { console.error('Failed to set default preset:', e); setActivePresetName(null); });
    }, []);
@@ -254,6 +479,11 @@ function App() {
                      onClick={() => navigateTo('strips')}>
                      Strips
                   </button>
+                  <button
+                     className={`tab ${activeTab === 'schedule' ? 'active' : ''}`}
+                     onClick={() => navigateTo('schedule')}>
+                     Schedule
+                  </button>
                   <button
                      className={`tab ${activeTab === 'settings' ? 'active' : ''}`}
                      onClick={() => navigateTo('settings')}>
@@ -270,12 +500,25 @@ function App() {
                   showViewport={showViewport}
                   showStrips={showStrips}
                   showBackground={showBackground}
+                  showAnnotations={showAnnotations}
+                  annotationTickInterval={annotationTickInterval}
+                  focusedStripId={focusedStripId}
+                  onStripHover={setFocusedStripId}
+                  onCropViewport={() => navigateTo('settings')}
                   backgroundImageUrl={backgroundImageUrl}
-                  viewportRef={viewportRef}
+                  backgroundTransform={dbSettings}
+                  viewportStream={viewportStream}
                   ledStripsRef={ledStripsRef}
                   viewportWidth={viewportWidth}
                   viewportHeight={viewportHeight}
-                  onResolutionChange={handleResolutionChange}
+                  editLayout={editLayout}
+                  stripSettings={stripSettings}
+                  onUpdateStrip={updateStrip}
+                  pattern={selectedPattern}
+                  params={paramValues}
+                  output={output}
+                  glow={glow}
+                  pointPicker={pointPicker}
                />
                <div id="right-panel">
                   <div className="right-tabs" role="tablist">
@@ -289,23 +532,48 @@ function App() {
                         onClick={() => setRightTab('saved')}>
                         Saved
                      </button>
+                     <button
+                        className={`right-tab${rightTab === 'playlists' ? ' active' : ''}`}
+                        onClick={() => setRightTab('playlists')}>
+                        Playlists
+                     </button>
                   </div>
                   {rightTab === 'controls' && (
                      <ControlsSidebar
                         connected={connected}
+                        previewQuality={previewQuality}
+                        qualityMode={qualityMode}
+                        onQualityModeChange={setQualityMode}
                         showViewport={showViewport}
                         showStrips={showStrips}
                         showBackground={showBackground}
+                        showAnnotations={showAnnotations}
+                        annotationTickInterval={annotationTickInterval}
                         hasBackgroundImage={backgroundImageUrl !== null}
+                        editLayout={editLayout}
                         onShowViewportChange={setShowViewport}
                         onShowStripsChange={setShowStrips}
                         onShowBackgroundChange={setShowBackground}
+                        onShowAnnotationsChange={setShowAnnotations}
+                        onAnnotationTickIntervalChange={setAnnotationTickInterval}
+                        onEditLayoutChange={setEditLayout}
+                        outputSettings={outputSettings}
+                        onOutputSettingsChange={setOutputSettings}
+                        glowSettings={glowSettings}
+                        onGlowSettingsChange={setGlowSettings}
+                        output={output}
                         patterns={patterns}
                         selectedPattern={selectedPattern}
                         onPatternSelect={handlePatternSelect}
                         parameters={selectedPatternInfo?.parameters ?? []}
                         paramValues={paramValues}
                         onParamChange={handleParamChange}
+                        modulators={modulators}
+                        onModulatorChange={handleModulatorChange}
+                        viewportWidth={viewportWidth}
+                        viewportHeight={viewportHeight}
+                        pickingPoint={pickingPoint}
+                        onPickPoint={setPickingPoint}
                         activePresetId={activePresetId}
                         onSave={handleSave}
                         onSaveAs={handleSaveAs}
@@ -328,16 +596,34 @@ function App() {
                         onRename={renamePreset}
                         currentPatternName={selectedPattern}
                         currentParams={paramValues}
+                        currentModulators={modulators}
+                        currentTimeline={timeline}
                      />
                   )}
+                  {rightTab === 'playlists' && <PlaylistsPanel presets={presets} />}
                </div>
+               <TimelinePanel
+                  parameters={selectedPatternInfo?.parameters ?? []}
+                  paramValues={paramValues}
+                  timeline={timeline}
+                  onTimelineChange={handleTimelineChange}
+                  playStart={timelineStart}
+                  onPlay={handleTimelinePlay}
+                  onStop={handleTimelineStop}
+                  onSaveAnimation={handleSaveAs}
+               />
             </div>
          )}
 
-         {activeTab === 'strips' && <StripManagerTab active={true} />}
-         {activeTab === 'settings' && <SettingsTab />}
+         {activeTab === 'strips' && <StripManagerTab active={true} focusedStripId={focusedStripId} />}
+         {activeTab === 'schedule' && <ScheduleTab />}
+         {activeTab === 'settings' && <SettingsTab focusedStripId={focusedStripId} />}
       </>
    );
 }
 
-export default App;
+function Root() {
+   return isPresentPath(window.location.pathname) ? <PresentView /> : <App />;
+}
+
+export default Root;
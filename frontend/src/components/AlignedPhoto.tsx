@@ -0,0 +1,70 @@
+import { useState, useEffect, useRef } from 'react';
+import type { BackgroundTransform } from '../utils/backgroundTransform.ts';
+import { backgroundQuad, containSize, quadMatrix3d } from '../utils/backgroundTransform.ts';
+
+interface AlignedPhotoProps {
+   src: string;
+   alt: string;
+   viewportWidth: number;
+   viewportHeight: number;
+   transform: BackgroundTransform;
+   id?: string;
+   className?: string;
+   /** Reports the photo's natural size once it has loaded. */
+   onPhotoSize?: (width: number, height: number) => void;
+}
+
+/**
+ * The background photo mapped onto viewport coordinates by its alignment
+ * settings. Fills its container, which must have the viewport's aspect ratio;
+ * the photo is laid out in viewport pixels and scaled to the container's width.
+ */
+export function AlignedPhoto({
+   src,
+   alt,
+   viewportWidth,
+   viewportHeight,
+   transform,
+   id,
+   className,
+   onPhotoSize,
+}: AlignedPhotoProps) {
+   const frameRef = useRef<HTMLDivElement>(null);
+   const [frameWidth, setFrameWidth] = useState(0);
+   const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+
+   useEffect(() => {
+      const frame = frameRef.current;
+      if(!frame) return;
+      const observer = new ResizeObserver(([entry]) => setFrameWidth(entry.contentRect.width));
+      observer.observe(frame);
+      return () => observer.disconnect();
+   }, []);
+
+   let style: React.CSSProperties = { visibility: 'hidden' };
+   if(natural && frameWidth > 0 && viewportWidth > 0 && viewportHeight > 0) {
+      const { width, height } = containSize(natural.width, natural.height, viewportWidth, viewportHeight);
+      const quad = backgroundQuad(width, height, viewportWidth, viewportHeight, transform);
+      style = {
+         width,
+         height,
+         opacity: transform.backgroundOpacity / 100,
+         transform: `scale(${frameWidth / viewportWidth}) ${quadMatrix3d(width, height, quad)}`,
+      };
+   }
+
+   return (
+      <div ref={frameRef} id={id} className={`aligned-photo${className ? ` ${className}` : ''}`}>
+         <img
+            src={src}
+            alt={alt}
+            style={style}
+            onLoad={(e) => {
+               const { naturalWidth, naturalHeight } = e.currentTarget;
+               setNatural({ width: naturalWidth, height: naturalHeight });
+               onPhotoSize?.(naturalWidth, naturalHeight);
+            }}
+         />
+      </div>
+   );
+}
@@ -1,16 +1,25 @@
+import type { BackgroundTransform } from '../utils/backgroundTransform.ts';
+import { AlignedPhoto } from './AlignedPhoto.tsx';
+
 interface BackgroundImageProps {
    visible: boolean;
    imageUrl: string;
+   viewportWidth: number;
+   viewportHeight: number;
+   transform: BackgroundTransform;
 }
 
-export function BackgroundImage({ visible, imageUrl }: BackgroundImageProps) {
+export function BackgroundImage({ visible, imageUrl, viewportWidth, viewportHeight, transform }: BackgroundImageProps) {
    if (!visible) return null;
 
    return (
-      <img
+      <AlignedPhoto
          id="background-image"
          src={imageUrl}
          alt="Background"
+         viewportWidth={viewportWidth}
+         viewportHeight={viewportHeight}
+         transform={transform}
       />
    );
 }
@@ -0,0 +1,288 @@
+import { useState, useEffect, useRef } from 'react';
+import type { CalibrationTarget, StripSetting, StripSettingInput } from '../types.ts';
+import type { Point } from '../utils/stripGeometry.ts';
+import type { BackgroundTransform } from '../utils/backgroundTransform.ts';
+import { clientToViewport } from '../utils/viewportCoords.ts';
+import { AlignedPhoto } from './AlignedPhoto.tsx';
+
+interface CalibrationWizardProps {
+   strips: StripSetting[];
+   backgroundImageUrl: string;
+   /** The photo's alignment, so clicks land where the preview shows the LEDs. */
+   backgroundTransform: BackgroundTransform;
+   viewportWidth: number;
+   viewportHeight: number;
+   onUpdateStrip: (id: number, input: Partial<StripSettingInput>) => Promise<{ ok: boolean; error?: string }>;
+   onClose: (message?: string) => void;
+}
+
+interface Capture {
+   first: Point | null;
+   last: Point | null;
+}
+
+type Geometry = Pick<StripSetting, 'startX' | 'startY' | 'endX' | 'endY'>;
+
+function formatGeometry(g: Geometry): string {
+   return `(${g.startX ?? '?'},${g.startY ?? '?'}) → (${g.endX ?? '?'},${g.endY ?? '?'})`;
+}
+
+// LED 0 sits at the start of a strip unless it is reversed, in which case it is at the end
+function proposedGeometry(strip: StripSetting, capture: Capture): Geometry {
+   const [start, end] = strip.reverse
+      ? [capture.last!, capture.first!]
+      : [capture.first!, capture.last!];
+   return { startX: start.x, startY: start.y, endX: end.x, endY: end.y };
+}
+
+function sameGeometry(a: Geometry, b: Geometry): boolean {
+   return a.startX === b.startX && a.startY === b.startY && a.endX === b.endX && a.endY === b.endY;
+}
+
+function clearCalibration() {
+   fetch('/api/calibration', { method: 'DELETE' }).catch(() => {});
+}
+
+/**
+ * Walks through every strip with a length: the host lights the strip's first and
+ * last LEDs, the user clicks where they appear on the background photo, and the
+ * clicks become the strip's start/end. Changes are reviewed before being saved.
+ */
+export function CalibrationWizard({
+   strips,
+   backgroundImageUrl,
+   backgroundTransform,
+   viewportWidth,
+   viewportHeight,
+   onUpdateStrip,
+   onClose,
+}: CalibrationWizardProps) {
+   // Fixed when the wizard opens so saving a strip doesn't reshuffle the walk
+   const [candidates] = useState(() => strips.filter((s) => (s.length ?? 0) > 0));
+   const [index, setIndex] = useState(0);
+   const [captures, setCaptures] = useState<Record<number, Capture>>({});
+   const [target, setTarget] = useState<CalibrationTarget | null>(null);
+   const [reviewing, setReviewing] = useState(false);
+   const [included, setIncluded] = useState<Record<number, boolean>>({});
+   const [applying, setApplying] = useState(false);
+   const [error, setError] = useState<string | null>(null);
+   const boxRef = useRef<HTMLDivElement>(null);
+
+   const strip = candidates[index] as StripSetting | undefined;
+   const capture: Capture = (strip && captures[strip.id]) || { first: null, last: null };
+
+   // Light up the current strip's calibration LEDs on the host
+   useEffect(() => {
+      if(reviewing || !strip) return;
+      let cancelled = false;
+      fetch('/api/calibration', {
+         method: 'POST',
+         headers: { 'Content-Type': 'application/json' },
+         body: JSON.stringify({ stripId: strip.id }),
+      })
+         .then(async (res) => {
+            if(cancelled) return;
+            if(res.ok) {
+               setTarget(await res.json());
+               setError(null);
+            } else {
+               setError(`Could not light strip ${strip.id}: ${await res.text()}`);
+            }
+         })
+         .catch((e) => { if(!cancelled) setError(String(e)); });
+      return () => { cancelled = true; };
+   }, [strip, reviewing]);
+
+   // Return the strips to the running pattern whenever the wizard goes away
+   useEffect(() => clearCalibration, []);
+
+   const handlePhotoClick = (e: React.MouseEvent) => {
+      if(!strip || !boxRef.current) return;
+      const p = clientToViewport(boxRef.current.getBoundingClientRect(), e.clientX, e.clientY, viewportWidth, viewportHeight);
+      const next: Capture = capture.first === null
+         ? { first: p, last: null }
+         : capture.last === null ? { ...capture, last: p } : capture;
+      setCaptures((prev) => ({ ...prev, [strip.id]: next }));
+   };
+
+   const handleRedo = () => {
+      if(!strip) return;
+      setCaptures((prev) => ({ ...prev, [strip.id]: { first: null, last: null } }));
+   };
+
+   const advance = () => {
+      setTarget(null);
+      if(index + 1 < candidates.length) {
+         setIndex(index + 1);
+      } else {
+         clearCalibration();
+         setReviewing(true);
+      }
+   };
+
+   const handleSkip = () => {
+      if(strip) setCaptures((prev) => ({ ...prev, [strip.id]: { first: null, last: null } }));
+      advance();
+   };
+
+   const completed = candidates.filter((s) => captures[s.id]?.first && captures[s.id]?.last);
+   const isIncluded = (id: number) => included[id] ?? true;
+
+   const handleApply = async () => {
+      setApplying(true);
+      const failures: string[] = [];
+      let saved = 0;
+      for(const s of completed) {
+         if(!isIncluded(s.id)) continue;
+         const after = proposedGeometry(s, captures[s.id]);
+         if(sameGeometry(s, after)) continue;
+         const result = await onUpdateStrip(s.id, after);
+         if(result.ok) saved++;
+         else failures.push(`#${s.id}: ${result.error ?? 'update failed'}`);
+      }
+      setApplying(false);
+      if(failures.length > 0) {
+         setError(`Some strips were not saved — ${failures.join('; ')}`);
+      } else {
+         onClose(`Calibration saved for ${saved} strip${saved === 1 ? '' : 's'}`);
+      }
+   };
+
+   if(candidates.length === 0) {
+      return (
+         <div className="calibration-wizard">
+            <p className="settings-empty">No strips with a length to calibrate.</p>
+            <button className="settings-save-btn settings-save-btn--neutral" onClick={() => onClose()}>Close</button>
+         </div>
+      );
+   }
+
+   if(reviewing) {
+      return (
+         <div className="calibration-wizard">
+            <h3 className="settings-strip-add-title">Review changes</h3>
+            {completed.length === 0 ? (
+               <p className="settings-empty">No strips were captured.</p>
+            ) : (
+               <table className="calibration-summary">
+                  <thead>
+                     <tr>
+                        <th></th>
+                        <th>Strip</th>
+                        <th>Before</th>
+                        <th>After</th>
+                     </tr>
+                  </thead>
+                  <tbody>
+                     {completed.map((s) => {
+                        const after = proposedGeometry(s, captures[s.id]);
+                        const unchanged = sameGeometry(s, after);
+                        return (
+                           <tr key={s.id} className={unchanged ? 'calibration-summary-unchanged' : undefined}>
+                              <td>
+                                 <input
+                                    type="checkbox"
+                                    checked={isIncluded(s.id) && !unchanged}
+                                    disabled={unchanged}
+                                    onChange={(e) => setIncluded((prev) => ({ ...prev, [s.id]: e.target.checked }))}
+                                 />
+                              </td>
+                              <td>#{s.id} — {s.btName}</td>
+                              <td>{formatGeometry(s)}</td>
+                              <td>{unchanged ? 'unchanged' : formatGeometry(after)}</td>
+                           </tr>
+                        );
+                     })}
+                  </tbody>
+               </table>
+            )}
+            {error && <div className="settings-feedback settings-feedback--error">{error}</div>}
+            <div className="settings-strip-edit-actions">
+               <button className="settings-save-btn" onClick={handleApply}
+                  disabled={applying || !completed.some((s) => isIncluded(s.id) && !sameGeometry(s, proposedGeometry(s, captures[s.id])))}>
+                  {applying ? 'Saving…' : 'Apply'}
+               </button>
+               <button className="settings-save-btn settings-save-btn--neutral"
+                  onClick={() => { setReviewing(false); setIndex(0); }}>
+                  Start Over
+               </button>
+               <button className="settings-save-btn settings-save-btn--neutral" onClick={() => onClose()}>
+                  Cancel
+               </button>
+            </div>
+         </div>
+      );
+   }
+
+   const firstColor = target?.firstColor ?? '#00ff00';
+   const lastColor = target?.lastColor ?? '#ff0000';
+   const prompt = capture.first === null
+      ? { color: firstColor, text: 'Click the first LED (LED 0)' }
+      : capture.last === null
+         ? { color: lastColor, text: `Click the last LED (LED ${strip!.length! - 1})` }
+         : null;
+
+   return (
+      <div className="calibration-wizard">
+         <div className="calibration-header">
+            <span className="settings-strip-name">
+               Strip {index + 1} of {candidates.length}: #{strip!.id} — {strip!.btName}
+            </span>
+            {prompt ? (
+               <span className="calibration-prompt">
+                  <span className="calibration-swatch" style={{ background: prompt.color }} />
+                  {prompt.text}
+               </span>
+            ) : (
+               <span className="calibration-prompt">Both ends captured</span>
+            )}
+         </div>
+         <div
+            ref={boxRef}
+            className="calibration-photo"
+            style={{ aspectRatio: `${viewportWidth} / ${viewportHeight}` }}
+            onClick={handlePhotoClick}
+         >
+            <AlignedPhoto
+               src={backgroundImageUrl}
+               alt="Installation photo"
+               viewportWidth={viewportWidth}
+               viewportHeight={viewportHeight}
+               transform={backgroundTransform}
+            />
+            {capture.first && (
+               <span className="calibration-marker"
+                  style={{
+                     left: `${((capture.first.x + 0.5) / viewportWidth) * 100}%`,
+                     top: `${((capture.first.y + 0.5) / viewportHeight) * 100}%`,
+                     borderColor: firstColor,
+                  }} />
+            )}
+            {capture.last && (
+               <span className="calibration-marker"
+                  style={{
+                     left: `${((capture.last.x + 0.5) / viewportWidth) * 100}%`,
+                     top: `${((capture.last.y + 0.5) / viewportHeight) * 100}%`,
+                     borderColor: lastColor,
+                  }} />
+            )}
+         </div>
+         {error && <div className="settings-feedback settings-feedback--error">{error}</div>}
+         <div className="settings-strip-edit-actions">
+            <button className="settings-save-btn" onClick={advance} disabled={prompt !== null}>
+               {index + 1 < candidates.length ? 'Next Strip' : 'Review'}
+            </button>
+            <button className="settings-save-btn settings-save-btn--neutral" onClick={handleRedo}
+               disabled={capture.first === null}>
+               Redo
+            </button>
+            <button className="settings-save-btn settings-save-btn--neutral" onClick={handleSkip}>
+               Skip
+            </button>
+            <button className="settings-save-btn settings-save-btn--neutral" onClick={() => onClose()}>
+               Cancel
+            </button>
+         </div>
+      </div>
+   );
+}
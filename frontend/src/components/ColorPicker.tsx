@@ -1,8 +1,12 @@
 import { useState } from 'react';
+import type { OutputCalibration } from '../utils/outputColor.ts';
+import { outputCss } from '../utils/outputColor.ts';
 
 interface ColorPickerProps {
    value: string;   // #RRGGBBbb wire format
    onChange: (value: string) => void;
+   /** When set, the swatches show the color as the LEDs would emit it. */
+   output?: OutputCalibration | null;
 }
 
 function toHex2(n: number): string {
@@ -106,13 +110,14 @@ function SliderRow({ label, min, max, value, gradient, onChange }: SliderRowProp
    );
 }
 
-export function ColorPicker({ value, onChange }: ColorPickerProps) {
+export function ColorPicker({ value, onChange, output = null }: ColorPickerProps) {
    const [open, setOpen] = useState(false);
    const [mode, setMode] = useState<'rgb' | 'hsv'>('rgb');
 
    const { r, g, b, brightness } = parseValue(value);
    const hsv = rgbToHsv(r, g, b);
    const hex = `#${toHex2(r)}${toHex2(g)}${toHex2(b)}`;
+   const swatch = output ? outputCss(r, g, b, brightness, output) : hex;
 
    // Pure hue color for HSV slider gradients
    const pureHue = hsvToRgb(hsv.h, 100, 100);
@@ -130,7 +135,7 @@ export function ColorPicker({ value, onChange }: ColorPickerProps) {
       <div className="color-picker-container">
          <div
             className="color-swatch"
-            style={{ background: hex }}
+            style={{ background: swatch }}
             onClick={() => setOpen(o => !o)}
          />
          {open && <>
@@ -138,7 +143,7 @@ export function ColorPicker({ value, onChange }: ColorPickerProps) {
             <div className="color-picker-popover">
 
                {/* Color preview */}
-               <div className="color-picker-preview-block" style={{ background: hex }} />
+               <div className="color-picker-preview-block" style={{ background: swatch }} />
 
                {/* Mode toggle */}
                <div className="color-picker-mode-toggle">
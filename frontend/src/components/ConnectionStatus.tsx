@@ -1,14 +1,50 @@
+import type { PreviewQuality, PreviewQualityMode } from '../types.ts';
+
 interface ConnectionStatusProps {
    connected: boolean;
+   quality: PreviewQuality | null;
+   mode: PreviewQualityMode;
+   onModeChange: (mode: PreviewQualityMode) => void;
+}
+
+const MODE_LABELS: Record<PreviewQualityMode, string> = {
+   auto: 'Auto',
+   full: 'Full',
+   reduced: 'Reduced (10 fps, 1/2 res)',
+   low: 'Low (5 fps, 1/4 res)',
+};
+
+function describeQuality(quality: PreviewQuality): string {
+   if(quality.paused) return 'Preview paused';
+   const fps = quality.maxFps > 0 ? `${quality.maxFps} fps` : 'full rate';
+   const resolution = quality.scale > 1 ? `1/${quality.scale} res` : 'full res';
+   return `${fps} · ${resolution}`;
 }
 
-export function ConnectionStatus({ connected }: ConnectionStatusProps) {
+export function ConnectionStatus({ connected, quality, mode, onModeChange }: ConnectionStatusProps) {
    return (
-      <div
-         id="connection-status"
-         className={connected ? 'connected' : 'disconnected'}
-      >
-         {connected ? 'Connected' : 'Disconnected'}
-      </div>
+      <>
+         <div
+            id="connection-status"
+            className={connected ? 'connected' : 'disconnected'}
+         >
+            {connected ? 'Connected' : 'Disconnected'}
+            {connected && quality && (
+               <div className="connection-quality">{describeQuality(quality)}</div>
+            )}
+         </div>
+         <div className="control-group">
+            <label htmlFor="preview-quality-select">Preview Quality</label>
+            <select
+               id="preview-quality-select"
+               value={mode}
+               onChange={(e) => onModeChange(e.target.value as PreviewQualityMode)}
+            >
+               {(Object.keys(MODE_LABELS) as PreviewQualityMode[]).map((m) => (
+                  <option key={m} value={m}>{MODE_LABELS[m]}</option>
+               ))}
+            </select>
+         </div>
+      </>
    );
 }
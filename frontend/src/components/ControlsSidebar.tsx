@@ -1,26 +1,51 @@
-import type { PatternInfo, ParameterDef } from '../types.ts';
+import type { Modulator, PatternInfo, ParameterDef, ParamValue, PreviewQuality, PreviewQualityMode } from '../types.ts';
 import type { SavedPreset } from '../hooks/useSavedPatterns.ts';
+import type { OutputCalibration, OutputSettings } from '../utils/outputColor.ts';
+import type { GlowSettings } from '../utils/ledGlow.ts';
 import { ConnectionStatus } from './ConnectionStatus.tsx';
 import { ViewToggles } from './ViewToggles.tsx';
+import { OutputPreviewControls } from './OutputPreviewControls.tsx';
+import { GlowControls } from './GlowControls.tsx';
 import { PatternSelector } from './PatternSelector.tsx';
 import { ParameterControl } from './ParameterControl.tsx';
 import { SavePatternButton } from './SavePatternButton.tsx';
 
 interface ControlsSidebarProps {
    connected: boolean;
+   previewQuality: PreviewQuality | null;
+   qualityMode: PreviewQualityMode;
+   onQualityModeChange: (mode: PreviewQualityMode) => void;
    showViewport: boolean;
    showStrips: boolean;
    showBackground: boolean;
+   showAnnotations: boolean;
+   annotationTickInterval: number;
    hasBackgroundImage: boolean;
+   editLayout: boolean;
    onShowViewportChange: (show: boolean) => void;
    onShowStripsChange: (show: boolean) => void;
    onShowBackgroundChange: (show: boolean) => void;
+   onShowAnnotationsChange: (show: boolean) => void;
+   onAnnotationTickIntervalChange: (interval: number) => void;
+   onEditLayoutChange: (edit: boolean) => void;
+   outputSettings: OutputSettings;
+   onOutputSettingsChange: (settings: OutputSettings) => void;
+   glowSettings: GlowSettings;
+   onGlowSettingsChange: (settings: GlowSettings) => void;
+   output: OutputCalibration | null;
    patterns: PatternInfo[];
    selectedPattern: string;
    onPatternSelect: (pattern: string) => void;
    parameters: ParameterDef[];
-   paramValues: Record<string, number | string>;
-   onParamChange: (name: string, value: number | string) => void;
+   paramValues: Record<string, ParamValue>;
+   onParamChange: (name: string, value: ParamValue) => void;
+   modulators: Record<string, Modulator>;
+   onModulatorChange: (name: string, modulator: Modulator | null) => void;
+   viewportWidth: number;
+   viewportHeight: number;
+   /** The point parameter that clicks on the preview set, if any. */
+   pickingPoint: string | null;
+   onPickPoint: (name: string | null) => void;
    activePresetId: number | null;
    onSave: () => Promise<void>;
    onSaveAs: (name: string) => Promise<void>;
@@ -30,19 +55,39 @@ interface ControlsSidebarProps {
 
 export function ControlsSidebar({
    connected,
+   previewQuality,
+   qualityMode,
+   onQualityModeChange,
    showViewport,
    showStrips,
    showBackground,
+   showAnnotations,
+   annotationTickInterval,
    hasBackgroundImage,
+   editLayout,
    onShowViewportChange,
    onShowStripsChange,
    onShowBackgroundChange,
+   onShowAnnotationsChange,
+   onAnnotationTickIntervalChange,
+   onEditLayoutChange,
+   outputSettings,
+   onOutputSettingsChange,
+   glowSettings,
+   onGlowSettingsChange,
+   output,
    patterns,
    selectedPattern,
    onPatternSelect,
    parameters,
    paramValues,
    onParamChange,
+   modulators,
+   onModulatorChange,
+   viewportWidth,
+   viewportHeight,
+   pickingPoint,
+   onPickPoint,
    activePresetId,
    onSave,
    onSaveAs,
@@ -55,15 +100,34 @@ export function ControlsSidebar({
 
    return (
       <div id="controls">
-         <ConnectionStatus connected={connected} />
+         <ConnectionStatus
+            connected={connected}
+            quality={previewQuality}
+            mode={qualityMode}
+            onModeChange={onQualityModeChange}
+         />
          <ViewToggles
             showViewport={showViewport}
             showStrips={showStrips}
             showBackground={showBackground}
+            showAnnotations={showAnnotations}
+            annotationTickInterval={annotationTickInterval}
             hasBackgroundImage={hasBackgroundImage}
+            editLayout={editLayout}
             onShowViewportChange={onShowViewportChange}
             onShowStripsChange={onShowStripsChange}
             onShowBackgroundChange={onShowBackgroundChange}
+            onShowAnnotationsChange={onShowAnnotationsChange}
+            onAnnotationTickIntervalChange={onAnnotationTickIntervalChange}
+            onEditLayoutChange={onEditLayoutChange}
+         />
+         <OutputPreviewControls
+            settings={outputSettings}
+            onChange={onOutputSettingsChange}
+         />
+         <GlowControls
+            settings={glowSettings}
+            onChange={onGlowSettingsChange}
          />
          <PatternSelector
             patterns={patterns}
@@ -80,8 +144,15 @@ export function ControlsSidebar({
             <ParameterControl
                key={param.name}
                param={param}
-               value={paramValues[param.name] ?? param.default}
+               value={paramValues[param.name]}
                onChange={onParamChange}
+               output={output}
+               viewportWidth={viewportWidth}
+               viewportHeight={viewportHeight}
+               pickingPoint={pickingPoint}
+               onPickPoint={onPickPoint}
+               modulator={modulators[param.name]}
+               onModulatorChange={onModulatorChange}
             />
          ))}
          <div className="pattern-actions">
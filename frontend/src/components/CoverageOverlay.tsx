@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import type { Coverage } from '../utils/coverage.ts';
+import { coverageFraction, cropSuggestion } from '../utils/coverage.ts';
+
+// How much of the unsampled pixels' color still shows through
+const DIM_ALPHA = 200;
+
+interface CoverageOverlayProps {
+   coverage: Coverage;
+   /** Opens the suggested crop in the Viewport & Performance settings. */
+   onCrop: () => void;
+}
+
+/**
+ * Dims every viewport pixel no LED samples, one canvas pixel per viewport pixel,
+ * and reports how much of the viewport actually reaches the strips.
+ */
+export function CoverageOverlay({ coverage, onCrop }: CoverageOverlayProps) {
+   const canvasRef = useRef<HTMLCanvasElement>(null);
+
+   useEffect(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if(!ctx) return;
+      const image = ctx.createImageData(coverage.width, coverage.height);
+      for(let i = 0; i < coverage.sampled.length; i++) {
+         if(!coverage.sampled[i]) image.data[i * 4 + 3] = DIM_ALPHA;
+      }
+      ctx.putImageData(image, 0, 0);
+   }, [coverage]);
+
+   const { bounds } = coverage;
+
+   return (
+      <>
+         <canvas
+            ref={canvasRef}
+            id="coverage-canvas"
+            width={coverage.width}
+            height={coverage.height}
+         />
+         <div className="preview-coverage-stats" onPointerDown={(e) => e.stopPropagation()}>
+            <div>
+               <span className="preview-coverage-label">Sampled</span>
+               {(coverageFraction(coverage) * 100).toFixed(2)}% · {coverage.sampledCount} px · {coverage.ledCount} LEDs
+            </div>
+            <div>
+               <span className="preview-coverage-label">Strips</span>
+               {bounds
+                  ? `(${bounds.minX},${bounds.minY}) → (${bounds.maxX},${bounds.maxY}) · ${bounds.maxX - bounds.minX + 1}×${bounds.maxY - bounds.minY + 1}`
+                  : 'no LEDs mapped'}
+            </div>
+            {cropSuggestion(coverage) && (
+               <button onClick={onCrop} title="Review the crop in Viewport & Performance settings">
+                  Crop viewport to strips…
+               </button>
+            )}
+         </div>
+      </>
+   );
+}
@@ -0,0 +1,69 @@
+import type { GlowSettings } from '../utils/ledGlow.ts';
+import { GLOW_INTENSITY_RANGE, GLOW_RADIUS_RANGE } from '../utils/ledGlow.ts';
+
+interface GlowControlsProps {
+   settings: GlowSettings;
+   onChange: (settings: GlowSettings) => void;
+}
+
+/**
+ * Switches the LED overlay to diffused glows and shapes them: how far the light
+ * spreads, how bright it is and how gradually the diffuser fades it out.
+ */
+export function GlowControls({ settings, onChange }: GlowControlsProps) {
+   return (
+      <div className="glow-controls">
+         <div className="checkbox-group">
+            <input
+               type="checkbox"
+               id="led-glow-checkbox"
+               checked={settings.ledGlow}
+               onChange={(e) => onChange({ ...settings, ledGlow: e.target.checked })}
+            />
+            <label htmlFor="led-glow-checkbox" title="Draw each LED as light through a diffuser">
+               Diffused Glow
+            </label>
+         </div>
+         {settings.ledGlow && (
+            <>
+               <div className="control-group">
+                  <label>Glow Radius (px)</label>
+                  <input
+                     type="range"
+                     min={GLOW_RADIUS_RANGE.min}
+                     max={GLOW_RADIUS_RANGE.max}
+                     step={0.5}
+                     value={settings.glowRadius}
+                     onChange={(e) => onChange({ ...settings, glowRadius: parseFloat(e.target.value) })}
+                  />
+                  <span className="slider-value">{settings.glowRadius.toFixed(1)}</span>
+               </div>
+               <div className="control-group">
+                  <label>Glow Intensity</label>
+                  <input
+                     type="range"
+                     min={GLOW_INTENSITY_RANGE.min}
+                     max={GLOW_INTENSITY_RANGE.max}
+                     step={0.1}
+                     value={settings.glowIntensity}
+                     onChange={(e) => onChange({ ...settings, glowIntensity: parseFloat(e.target.value) })}
+                  />
+                  <span className="slider-value">{settings.glowIntensity.toFixed(1)}</span>
+               </div>
+               <div className="control-group">
+                  <label>Diffuser Softness</label>
+                  <input
+                     type="range"
+                     min={0}
+                     max={1}
+                     step={0.05}
+                     value={settings.glowSoftness}
+                     onChange={(e) => onChange({ ...settings, glowSoftness: parseFloat(e.target.value) })}
+                  />
+                  <span className="slider-value">{settings.glowSoftness.toFixed(2)}</span>
+               </div>
+            </>
+         )}
+      </div>
+   );
+}
@@ -1,12 +1,18 @@
 import { memo, useRef } from 'react';
-import type { LEDStripData } from '../types.ts';
+import type { LEDStripsFrame } from '../types.ts';
 import { useLEDStripsRenderer } from '../hooks/useLEDStripsRenderer.ts';
+import type { OutputCalibration } from '../utils/outputColor.ts';
+import type { GlowSettings } from '../utils/ledGlow.ts';
 
 interface LEDStripsCanvasProps {
    visible: boolean;
-   ledStripsRef: React.MutableRefObject<LEDStripData[]>;
+   ledStripsRef: React.MutableRefObject<LEDStripsFrame | null>;
    viewportWidth: number;
    viewportHeight: number;
+   /** Shows the LEDs as output (brightness, gamma, white balance) rather than raw RGB. */
+   output: OutputCalibration | null;
+   /** Draws the LEDs as diffused glows instead of squares. */
+   glow: GlowSettings | null;
 }
 
 export const LEDStripsCanvas = memo(function LEDStripsCanvas({
@@ -14,15 +20,18 @@ export const LEDStripsCanvas = memo(function LEDStripsCanvas({
    ledStripsRef,
    viewportWidth,
    viewportHeight,
+   output,
+   glow,
 }: LEDStripsCanvasProps) {
    const canvasRef = useRef<HTMLCanvasElement>(null);
 
-   useLEDStripsRenderer(canvasRef, ledStripsRef, viewportWidth, viewportHeight);
+   useLEDStripsRenderer(canvasRef, ledStripsRef, viewportWidth, viewportHeight, output, glow);
 
    return (
       <canvas
          ref={canvasRef}
          id="led-canvas"
+         className={glow ? 'glow' : undefined}
          style={{ display: visible ? 'block' : 'none' }}
       />
    );
@@ -1,12 +1,16 @@
 import { useRef, useEffect } from 'react';
+import type { OutputCalibration } from '../utils/outputColor.ts';
+import { outputCss } from '../utils/outputColor.ts';
 
 interface LedStripProps {
    rgbValues: number[];   // flat [r, g, b, r, g, b, ...] triples
+   brightness?: number[] | null;   // APA102 brightness per LED (0-31), 31 when absent
    ledCount: number;
    cellSize?: number;
+   output?: OutputCalibration | null;
 }
 
-export function LedStrip({ rgbValues, ledCount, cellSize = 4 }: LedStripProps) {
+export function LedStrip({ rgbValues, brightness = null, ledCount, cellSize = 4, output = null }: LedStripProps) {
    const canvasRef = useRef<HTMLCanvasElement>(null);
 
    useEffect(() => {
@@ -20,10 +24,10 @@ export function LedStrip({ rgbValues, ledCount, cellSize = 4 }: LedStripProps) {
          const r = rgbValues[ri]     ?? 0x11;
          const g = rgbValues[ri + 1] ?? 0x11;
          const b = rgbValues[ri + 2] ?? 0x11;
-         ctx.fillStyle = `rgb(${r},${g},${b})`;
+         ctx.fillStyle = outputCss(r, g, b, brightness?.[i] ?? 31, output);
          ctx.fillRect(i * cellSize, 0, cellSize, cellSize);
       }
-   }, [rgbValues, ledCount, cellSize]);
+   }, [rgbValues, brightness, ledCount, cellSize, output]);
 
    return (
       <canvas
@@ -0,0 +1,104 @@
+import type { Modulator, ModulatorShape } from '../types.ts';
+import type { ModulatableParamDef } from '../utils/modulators.ts';
+import {
+   MODULATOR_SHAPES,
+   clampModulator,
+   defaultModulator,
+   modulationBounds,
+   rateToSlider,
+   sliderToRate,
+} from '../utils/modulators.ts';
+
+interface ModulatorControlsProps {
+   param: ModulatableParamDef;
+   /** The parameter's value, where a new modulator is centered. */
+   value: number;
+   modulator: Modulator | undefined;
+   onChange: (modulator: Modulator | null) => void;
+}
+
+/**
+ * Attaches an LFO to a numeric parameter and edits its shape, rate, depth and
+ * center. The host runs it, so it keeps going with no browser open.
+ */
+export function ModulatorControls({ param, value, modulator, onChange }: ModulatorControlsProps) {
+   if(!modulator) {
+      return (
+         <button
+            type="button"
+            className="modulator-add"
+            onClick={() => onChange(defaultModulator(param, value))}
+            title="Sweep this parameter automatically"
+         >
+            Modulate
+         </button>
+      );
+   }
+
+   const { min, max } = modulationBounds(param);
+   const decimals = param.step < 1 ? 2 : 0;
+   const update = (patch: Partial<Modulator>) => onChange(clampModulator(param, { ...modulator, ...patch }));
+
+   return (
+      <div className="modulator">
+         <div className="modulator-row">
+            <select
+               value={modulator.shape}
+               onChange={(e) => update({ shape: e.target.value as ModulatorShape })}
+               aria-label={`${param.label} modulator shape`}
+            >
+               {MODULATOR_SHAPES.map(({ shape, label }) => (
+                  <option key={shape} value={shape}>{label}</option>
+               ))}
+            </select>
+            <button
+               type="button"
+               className="modulator-remove"
+               onClick={() => onChange(null)}
+               title="Stop modulating and return to the value above"
+            >
+               Remove
+            </button>
+         </div>
+         <div className="modulator-slider">
+            <span className="modulator-label">Rate</span>
+            <input
+               type="range"
+               min={0}
+               max={1}
+               step={0.001}
+               value={rateToSlider(modulator.rate)}
+               onChange={(e) => update({ rate: sliderToRate(parseFloat(e.target.value)) })}
+               aria-label={`${param.label} modulator rate`}
+            />
+            <span className="slider-value">{modulator.rate.toFixed(2)} Hz</span>
+         </div>
+         <div className="modulator-slider">
+            <span className="modulator-label">Depth</span>
+            <input
+               type="range"
+               min={0}
+               max={max - min}
+               step={param.step}
+               value={modulator.depth}
+               onChange={(e) => update({ depth: parseFloat(e.target.value) })}
+               aria-label={`${param.label} modulator depth`}
+            />
+            <span className="slider-value">±{modulator.depth.toFixed(decimals)}</span>
+         </div>
+         <div className="modulator-slider">
+            <span className="modulator-label">Center</span>
+            <input
+               type="range"
+               min={min}
+               max={max}
+               step={param.step}
+               value={modulator.center}
+               onChange={(e) => update({ center: parseFloat(e.target.value) })}
+               aria-label={`${param.label} modulator center`}
+            />
+            <span className="slider-value">{modulator.center.toFixed(decimals)}</span>
+         </div>
+      </div>
+   );
+}
@@ -0,0 +1,65 @@
+import type { OutputSettings } from '../utils/outputColor.ts';
+import { MAX_OUTPUT_GAMMA, MIN_OUTPUT_GAMMA } from '../utils/outputColor.ts';
+
+interface OutputPreviewControlsProps {
+   settings: OutputSettings;
+   onChange: (settings: OutputSettings) => void;
+}
+
+const BALANCE_CHANNELS = [
+   { key: 'whiteBalanceRed', label: 'Red Balance' },
+   { key: 'whiteBalanceGreen', label: 'Green Balance' },
+   { key: 'whiteBalanceBlue', label: 'Blue Balance' },
+] as const;
+
+/**
+ * Toggles the "as output" LED preview and tunes it against the real strips:
+ * gamma for how bright dim LEDs look, and a per-channel balance for the tint.
+ */
+export function OutputPreviewControls({ settings, onChange }: OutputPreviewControlsProps) {
+   return (
+      <div className="output-preview-controls">
+         <div className="checkbox-group">
+            <input
+               type="checkbox"
+               id="output-preview-checkbox"
+               checked={settings.outputPreview}
+               onChange={(e) => onChange({ ...settings, outputPreview: e.target.checked })}
+            />
+            <label htmlFor="output-preview-checkbox" title="Apply APA102 brightness, gamma and white balance to LED colors">
+               Show LEDs As Output
+            </label>
+         </div>
+         {settings.outputPreview && (
+            <>
+               <div className="control-group">
+                  <label>Gamma</label>
+                  <input
+                     type="range"
+                     min={MIN_OUTPUT_GAMMA}
+                     max={MAX_OUTPUT_GAMMA}
+                     step={0.1}
+                     value={settings.outputGamma}
+                     onChange={(e) => onChange({ ...settings, outputGamma: parseFloat(e.target.value) })}
+                  />
+                  <span className="slider-value">{settings.outputGamma.toFixed(1)}</span>
+               </div>
+               {BALANCE_CHANNELS.map(({ key, label }) => (
+                  <div className="control-group" key={key}>
+                     <label>{label}</label>
+                     <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={settings[key]}
+                        onChange={(e) => onChange({ ...settings, [key]: parseInt(e.target.value) })}
+                     />
+                     <span className="slider-value">{settings[key]}%</span>
+                  </div>
+               ))}
+            </>
+         )}
+      </div>
+   );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import type { PaletteStop } from '../types.ts';
+import type { OutputCalibration } from '../utils/outputColor.ts';
+import { BUILT_IN_PALETTES, paletteColorAt, paletteCss, sortStops } from '../utils/palettes.ts';
+import { ColorPicker } from './ColorPicker.tsx';
+
+interface PaletteEditorProps {
+   stops: PaletteStop[];
+   onChange: (stops: PaletteStop[]) => void;
+   output?: OutputCalibration | null;
+}
+
+// A gradient needs two ends
+const MIN_STOPS = 2;
+// Arrow keys nudge the focused stop by this much
+const NUDGE = 0.01;
+
+function positionIn(element: Element, clientX: number): number {
+   const rect = element.getBoundingClientRect();
+   const t = rect.width > 0 ? (clientX - rect.left) / rect.width : 0;
+   return Math.round(Math.max(0, Math.min(1, t)) * 1000) / 1000;
+}
+
+/**
+ * Gradient editor for a palette parameter. Click the bar to add a stop, drag a
+ * stop to move it, and edit the selected stop's color below the bar. A named
+ * palette from the library replaces every stop.
+ */
+export function PaletteEditor({ stops, onChange, output = null }: PaletteEditorProps) {
+   const [selected, setSelected] = useState(0);
+   const current = Math.min(selected, stops.length - 1);
+   const stop = stops[current];
+
+   const moveStop = (index: number, position: number) => {
+      onChange(stops.map((s, i) => (i === index ? { ...s, position } : s)));
+   };
+
+   // Stops keep their array order while dragged and are sorted once dropped
+   const settle = (index: number) => {
+      const sorted = sortStops(stops);
+      if(sorted.every((s, i) => s === stops[i])) return;
+      setSelected(sorted.indexOf(stops[index]));
+      onChange(sorted);
+   };
+
+   const removeStop = (index: number) => {
+      if(stops.length <= MIN_STOPS) return;
+      onChange(stops.filter((_, i) => i !== index));
+      setSelected(Math.max(0, index - 1));
+   };
+
+   const handleBarPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+      if(e.target !== e.currentTarget) return;
+      const position = positionIn(e.currentTarget, e.clientX);
+      const added = { position, color: paletteColorAt(stops, position) };
+      const next = sortStops([...stops, added]);
+      setSelected(next.indexOf(added));
+      onChange(next);
+   };
+
+   const handleStopPointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setSelected(index);
+   };
+
+   const handleStopPointerMove = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+      if(!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+      moveStop(index, positionIn(e.currentTarget.parentElement!, e.clientX));
+   };
+
+   const handleStopKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, index: number) => {
+      if(e.key === 'Delete' || e.key === 'Backspace') {
+         e.preventDefault();
+         removeStop(index);
+         return;
+      }
+      const delta = e.key === 'ArrowRight' ? NUDGE : e.key === 'ArrowLeft' ? -NUDGE : null;
+      if(delta === null) return;
+      e.preventDefault();
+      const position = Math.round(Math.max(0, Math.min(1, stops[index].position + delta)) * 1000) / 1000;
+      const next = stops.map((s, i) => (i === index ? { ...s, position } : s));
+      const sorted = sortStops(next);
+      setSelected(sorted.indexOf(next[index]));
+      onChange(sorted);
+   };
+
+   const handleLibrary = (name: string) => {
+      const palette = BUILT_IN_PALETTES.find((p) => p.name === name);
+      if(!palette) return;
+      setSelected(0);
+      onChange(palette.stops.map((s) => ({ ...s })));
+   };
+
+   return (
+      <div className="palette-editor">
+         <div
+            className="palette-bar"
+            style={{ background: paletteCss(stops, output) }}
+            onPointerDown={handleBarPointerDown}
+            title="Click to add a stop"
+         >
+            {stops.map((s, i) => (
+               <div
+                  key={i}
+                  className={`palette-stop${i === current ? ' selected' : ''}`}
+                  style={{ left: `${s.position * 100}%`, background: paletteCss([s], output) }}
+                  role="slider"
+                  tabIndex={0}
+                  aria-label={`Stop ${i + 1}`}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(s.position * 100)}
+                  onPointerDown={(e) => handleStopPointerDown(e, i)}
+                  onPointerMove={(e) => handleStopPointerMove(e, i)}
+                  onPointerUp={() => settle(i)}
+                  onFocus={() => setSelected(i)}
+                  onKeyDown={(e) => handleStopKeyDown(e, i)}
+               />
+            ))}
+         </div>
+         <div className="palette-editor-row">
+            <ColorPicker
+               value={stop.color}
+               onChange={(color) => onChange(stops.map((s, i) => (i === current ? { ...s, color } : s)))}
+               output={output}
+            />
+            <span className="slider-value">{Math.round(stop.position * 100)}%</span>
+            <button
+               type="button"
+               className="palette-remove"
+               onClick={() => removeStop(current)}
+               disabled={stops.length <= MIN_STOPS}
+               title="Remove the selected stop"
+            >
+               Remove
+            </button>
+         </div>
+         <select value="" onChange={(e) => handleLibrary(e.target.value)} aria-label="Palette library">
+            <option value="">Library…</option>
+            {BUILT_IN_PALETTES.map((p) => (
+               <option key={p.name} value={p.name}>{p.name}</option>
+            ))}
+         </select>
+      </div>
+   );
+}
@@ -1,13 +1,43 @@
-import type { ParameterDef } from '../types.ts';
+import type { AngleParamDef, Modulator, ParameterDef, ParamValue, RangeParamDef } from '../types.ts';
+import type { OutputCalibration } from '../utils/outputColor.ts';
+import { isPalette } from '../utils/palettes.ts';
+import { isNumberPair, resolvePoint } from '../utils/pointParam.ts';
 import { ColorPicker } from './ColorPicker.tsx';
+import { ModulatorControls } from './ModulatorControls.tsx';
+import { PaletteEditor } from './PaletteEditor.tsx';
+import { PointPad } from './PointPad.tsx';
 
 interface ParameterControlProps {
    param: ParameterDef;
-   value: number | string;
-   onChange: (name: string, value: number | string) => void;
+   /** Unset parameters show their default. */
+   value: ParamValue | undefined;
+   onChange: (name: string, value: ParamValue) => void;
+   /** Shows color swatches as output when set. */
+   output?: OutputCalibration | null;
+   /** Viewport size, for point parameters. */
+   viewportWidth?: number;
+   viewportHeight?: number;
+   /** The point parameter that clicks on the preview set, if any. */
+   pickingPoint?: string | null;
+   onPickPoint?: (name: string | null) => void;
+   /** The LFO driving a numeric parameter, if any. */
+   modulator?: Modulator;
+   /** Numeric parameters offer a modulator when set. */
+   onModulatorChange?: (name: string, modulator: Modulator | null) => void;
 }
 
-export function ParameterControl({ param, value, onChange }: ParameterControlProps) {
+export function ParameterControl({
+   param,
+   value,
+   onChange,
+   output = null,
+   viewportWidth = 0,
+   viewportHeight = 0,
+   pickingPoint = null,
+   onPickPoint,
+   modulator,
+   onModulatorChange,
+}: ParameterControlProps) {
    if (param.type === 'float' || param.type === 'int') {
       const numValue = typeof value === 'number' ? value : param.default;
       const displayValue = param.type === 'float'
@@ -31,6 +61,14 @@ export function ParameterControl({ param, value, onChange }: ParameterControlPro
                }}
             />
             <span className="slider-value">{displayValue}</span>
+            {onModulatorChange && (
+               <ModulatorControls
+                  param={param}
+                  value={numValue}
+                  modulator={modulator}
+                  onChange={(m) => onModulatorChange(param.name, m)}
+               />
+            )}
          </div>
       );
    }
@@ -53,6 +91,94 @@ export function ParameterControl({ param, value, onChange }: ParameterControlPro
       );
    }
 
+   if (param.type === 'bool') {
+      const boolValue = typeof value === 'boolean' ? value : param.default;
+
+      return (
+         <div className="control-group">
+            <label>{param.label}</label>
+            <button
+               type="button"
+               role="switch"
+               aria-checked={boolValue}
+               aria-label={param.label}
+               className={`param-toggle${boolValue ? ' on' : ''}`}
+               onClick={() => onChange(param.name, !boolValue)}
+            >
+               <span className="param-toggle-thumb" />
+            </button>
+            <span className="slider-value">{boolValue ? 'On' : 'Off'}</span>
+         </div>
+      );
+   }
+
+   if (param.type === 'range') {
+      const rangeValue = isNumberPair(value) ? value : param.default;
+
+      return (
+         <div className="control-group">
+            <label>{param.label}</label>
+            <RangeSlider param={param} value={rangeValue} onChange={(v) => onChange(param.name, v)} />
+            <span className="slider-value">
+               {formatStep(rangeValue[0], param.step)} – {formatStep(rangeValue[1], param.step)}
+            </span>
+         </div>
+      );
+   }
+
+   if (param.type === 'palette') {
+      const stops = isPalette(value) ? value : param.default;
+
+      return (
+         <div className="control-group">
+            <label>{param.label}</label>
+            <PaletteEditor stops={stops} onChange={(v) => onChange(param.name, v)} output={output} />
+         </div>
+      );
+   }
+
+   if (param.type === 'point') {
+      const picking = pickingPoint === param.name;
+
+      return (
+         <div className="control-group">
+            <label>{param.label}</label>
+            <PointPad
+               label={param.label}
+               value={resolvePoint(param, value, viewportWidth, viewportHeight)}
+               onChange={(v) => onChange(param.name, v)}
+               viewportWidth={viewportWidth}
+               viewportHeight={viewportHeight}
+               picking={picking}
+               onPickingChange={(active) => {
+                  if(active) onPickPoint?.(param.name);
+                  else if(picking) onPickPoint?.(null);
+               }}
+            />
+         </div>
+      );
+   }
+
+   if (param.type === 'angle') {
+      const angleValue = wrapDegrees(typeof value === 'number' ? value : param.default);
+
+      return (
+         <div className="control-group">
+            <label>{param.label}</label>
+            <AngleDial param={param} value={angleValue} onChange={(v) => onChange(param.name, v)} />
+            <span className="slider-value">{formatStep(angleValue, param.step)}°</span>
+            {onModulatorChange && (
+               <ModulatorControls
+                  param={param}
+                  value={angleValue}
+                  modulator={modulator}
+                  onChange={(m) => onModulatorChange(param.name, m)}
+               />
+            )}
+         </div>
+      );
+   }
+
    if (param.type === 'color') {
       const colorValue = typeof value === 'string' ? value : param.default;
 
@@ -62,6 +188,7 @@ export function ParameterControl({ param, value, onChange }: ParameterControlPro
             <ColorPicker
                value={colorValue}
                onChange={(v) => onChange(param.name, v)}
+               output={output}
             />
          </div>
       );
@@ -69,3 +196,124 @@ export function ParameterControl({ param, value, onChange }: ParameterControlPro
 
    return null;
 }
+
+function formatStep(value: number, step: number): string {
+   return value.toFixed(step < 1 ? 2 : 0);
+}
+
+function wrapDegrees(degrees: number): number {
+   return ((degrees % 360) + 360) % 360;
+}
+
+interface RangeSliderProps {
+   param: RangeParamDef;
+   value: [number, number];
+   onChange: (value: [number, number]) => void;
+}
+
+/** Two thumbs on one track; neither can pass the other. */
+function RangeSlider({ param, value: [low, high], onChange }: RangeSliderProps) {
+   const span = param.max - param.min || 1;
+   const lowPercent = ((low - param.min) / span) * 100;
+   const highPercent = ((high - param.min) / span) * 100;
+
+   return (
+      <div className="param-range">
+         <div className="param-range-track">
+            <div className="param-range-fill" style={{ left: `${lowPercent}%`, width: `${highPercent - lowPercent}%` }} />
+         </div>
+         <input
+            type="range"
+            aria-label={`${param.label} minimum`}
+            min={param.min}
+            max={param.max}
+            step={param.step}
+            value={low}
+            onChange={(e) => onChange([Math.min(parseFloat(e.target.value), high), high])}
+         />
+         <input
+            type="range"
+            aria-label={`${param.label} maximum`}
+            min={param.min}
+            max={param.max}
+            step={param.step}
+            value={high}
+            onChange={(e) => onChange([low, Math.max(parseFloat(e.target.value), low)])}
+         />
+      </div>
+   );
+}
+
+interface AngleDialProps {
+   param: AngleParamDef;
+   value: number;
+   onChange: (value: number) => void;
+}
+
+const DIAL_SIZE = 72;
+const DIAL_RADIUS = 28;
+
+/**
+ * A dial for an angle in degrees, 0° pointing right and increasing clockwise
+ * as on the viewport. Dragging or stepping past 360° wraps around to 0°.
+ */
+function AngleDial({ param, value, onChange }: AngleDialProps) {
+   const snap = (degrees: number) => wrapDegrees(param.step > 0 ? Math.round(degrees / param.step) * param.step : degrees);
+
+   const handlePointer = (e: React.PointerEvent<SVGSVGElement>) => {
+      if(e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+      else if(!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+      const rect = e.currentTarget.getBoundingClientRect();
+      const dx = e.clientX - (rect.left + rect.width / 2);
+      const dy = e.clientY - (rect.top + rect.height / 2);
+      onChange(snap((Math.atan2(dy, dx) * 180) / Math.PI));
+   };
+
+   const handleKeyDown = (e: React.KeyboardEvent<SVGSVGElement>) => {
+      const step = param.step > 0 ? param.step : 1;
+      const delta = e.key === 'ArrowRight' || e.key === 'ArrowUp' ? step
+         : e.key === 'ArrowLeft' || e.key === 'ArrowDown' ? -step
+         : e.key === 'PageUp' ? 15
+         : e.key === 'PageDown' ? -15
+         : null;
+      if(delta === null) return;
+      e.preventDefault();
+      onChange(snap(value + delta));
+   };
+
+   const radians = (value * Math.PI) / 180;
+   const center = DIAL_SIZE / 2;
+   const knobX = center + Math.cos(radians) * DIAL_RADIUS;
+   const knobY = center + Math.sin(radians) * DIAL_RADIUS;
+
+   return (
+      <svg
+         className="param-dial"
+         width={DIAL_SIZE}
+         height={DIAL_SIZE}
+         viewBox={`0 0 ${DIAL_SIZE} ${DIAL_SIZE}`}
+         role="slider"
+         tabIndex={0}
+         aria-label={param.label}
+         aria-valuemin={0}
+         aria-valuemax={360}
+         aria-valuenow={value}
+         aria-valuetext={`${value}°`}
+         onPointerDown={handlePointer}
+         onPointerMove={handlePointer}
+         onKeyDown={handleKeyDown}
+      >
+         <circle className="param-dial-face" cx={center} cy={center} r={DIAL_RADIUS} />
+         {[0, 90, 180, 270].map((tick) => {
+            const a = (tick * Math.PI) / 180;
+            return (
+               <line key={tick} className="param-dial-tick"
+                  x1={center + Math.cos(a) * (DIAL_RADIUS - 4)} y1={center + Math.sin(a) * (DIAL_RADIUS - 4)}
+                  x2={center + Math.cos(a) * DIAL_RADIUS} y2={center + Math.sin(a) * DIAL_RADIUS} />
+            );
+         })}
+         <line className="param-dial-hand" x1={center} y1={center} x2={knobX} y2={knobY} />
+         <circle className="param-dial-knob" cx={knobX} cy={knobY} r={5} />
+      </svg>
+   );
+}
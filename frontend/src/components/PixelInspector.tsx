@@ -0,0 +1,106 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { LEDStripsFrame, StripSetting } from '../types.ts';
+import type { ViewportStream } from '../hooks/useViewportStream.ts';
+import { ledPositions, type Point } from '../utils/stripGeometry.ts';
+
+interface PixelInspectorProps {
+   point: Point | null;
+   sample: ViewportStream['sample'];
+   ledStripsRef: React.MutableRefObject<LEDStripsFrame | null>;
+   strips: StripSetting[];
+}
+
+interface LedHit {
+   stripId: number;
+   index: number;
+}
+
+interface Reading {
+   x: number;
+   y: number;
+   pixel: string | null;
+   /** Strip id → color the host is sending to the LED on this pixel */
+   leds: Record<number, string>;
+}
+
+// Re-read the frame this often while hovering so the RGB readout follows the animation
+const REFRESH_MS = 100;
+
+function rgbText(r: number, g: number, b: number): string {
+   return `${r}, ${g}, ${b}`;
+}
+
+/**
+ * Readout of the viewport pixel under the cursor, plus the strip LEDs mapped to
+ * it. LED indices come from the strip geometry (same mapping as LinearMapper),
+ * so they are the indices the controller sees, reverse included.
+ */
+export function PixelInspector({ point, sample, ledStripsRef, strips }: PixelInspectorProps) {
+   const [reading, setReading] = useState<Reading | null>(null);
+
+   // "x,y" → every strip LED sitting on that viewport pixel
+   const ledIndex = useMemo(() => {
+      const map = new Map<string, LedHit[]>();
+      for(const strip of strips) {
+         ledPositions(strip)?.forEach((p, index) => {
+            const key = `${p.x},${p.y}`;
+            const hits = map.get(key);
+            if(hits) hits.push({ stripId: strip.id, index });
+            else map.set(key, [{ stripId: strip.id, index }]);
+         });
+      }
+      return map;
+   }, [strips]);
+
+   useEffect(() => {
+      if(!point) return;
+      let cancelled = false;
+      const read = async () => {
+         // The decoded frame lives in the viewport worker
+         const rgb = await sample(point.x, point.y);
+         if(cancelled) return;
+         const pixel = rgb ? rgbText(...rgb) : null;
+         const leds: Record<number, string> = {};
+         const frame = ledStripsRef.current;
+         for(const hit of ledIndex.get(`${point.x},${point.y}`) ?? []) {
+            const strip = frame?.layout.strips.find((s) => s.id === hit.stripId);
+            if(!frame || !strip || hit.index >= strip.length) continue;
+            const c = (strip.offset + hit.index) * 3;
+            leds[hit.stripId] = rgbText(frame.rgb[c], frame.rgb[c + 1], frame.rgb[c + 2]);
+         }
+         setReading({ x: point.x, y: point.y, pixel, leds });
+      };
+      let timer = setTimeout(function tick() {
+         read();
+         timer = setTimeout(tick, REFRESH_MS);
+      }, 0);
+      return () => {
+         cancelled = true;
+         clearTimeout(timer);
+      };
+   }, [point, sample, ledStripsRef, ledIndex]);
+
+   if(!point) return null;
+
+   const current = reading && reading.x === point.x && reading.y === point.y ? reading : null;
+   const hits = ledIndex.get(`${point.x},${point.y}`) ?? [];
+
+   return (
+      <div className="preview-inspector">
+         <div>
+            <span className="preview-inspector-label">x,y</span> {point.x}, {point.y}
+         </div>
+         <div>
+            <span className="preview-inspector-label">rgb</span> {current?.pixel ?? '—'}
+         </div>
+         {hits.map((hit) => (
+            <div key={`${hit.stripId}-${hit.index}`}>
+               <span className="preview-inspector-label">strip</span> #{hit.stripId} LED {hit.index}
+               {current?.leds[hit.stripId] && (
+                  <span className="preview-inspector-led"> ({current.leds[hit.stripId]})</span>
+               )}
+            </div>
+         ))}
+      </div>
+   );
+}
@@ -0,0 +1,62 @@
+import { memo, useEffect, useRef } from 'react';
+import type { RecordedFrame } from '../types.ts';
+
+const PIXEL_SIZE = 10;
+
+interface PlaybackCanvasProps {
+   visible: boolean;
+   frame: RecordedFrame;
+}
+
+/**
+ * Stands in for ViewportCanvas while a recording plays: the frames are already
+ * decoded, so they are drawn here on the main thread.
+ */
+export const PlaybackCanvas = memo(function PlaybackCanvas({ visible, frame }: PlaybackCanvasProps) {
+   const canvasRef = useRef<HTMLCanvasElement>(null);
+   const sourceRef = useRef<HTMLCanvasElement | null>(null);
+   const imageRef = useRef<ImageData | null>(null);
+
+   useEffect(() => {
+      const canvas = canvasRef.current;
+      if(!canvas) return;
+
+      // Unpack RGB into a native-resolution RGBA image...
+      let image = imageRef.current;
+      if(!image || image.width !== frame.width || image.height !== frame.height) {
+         image = new ImageData(frame.width, frame.height);
+         imageRef.current = image;
+         sourceRef.current = document.createElement('canvas');
+         sourceRef.current.width = frame.width;
+         sourceRef.current.height = frame.height;
+      }
+      const rgba = image.data;
+      const rgb = frame.data;
+      for(let i = 0, j = 0; i < rgb.length; i += 3, j += 4) {
+         rgba[j] = rgb[i];
+         rgba[j + 1] = rgb[i + 1];
+         rgba[j + 2] = rgb[i + 2];
+         rgba[j + 3] = 255;
+      }
+      const source = sourceRef.current!;
+      source.getContext('2d')!.putImageData(image, 0, 0);
+
+      // ...then let drawImage do the PIXEL_SIZE upscaling
+      if(canvas.width !== frame.width * PIXEL_SIZE || canvas.height !== frame.height * PIXEL_SIZE) {
+         canvas.width = frame.width * PIXEL_SIZE;
+         canvas.height = frame.height * PIXEL_SIZE;
+      }
+      const ctx = canvas.getContext('2d');
+      if(!ctx) return;
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+   }, [frame]);
+
+   return (
+      <canvas
+         ref={canvasRef}
+         id="canvas"
+         style={{ visibility: visible ? 'visible' : 'hidden' }}
+      />
+   );
+});
@@ -0,0 +1,56 @@
+import type { Playback } from '../hooks/usePlayback.ts';
+import { PLAYBACK_SPEEDS } from '../hooks/usePlayback.ts';
+
+interface PlaybackControlsProps {
+   playback: Playback;
+}
+
+function formatTime(ms: number): string {
+   const seconds = ms / 1000;
+   return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+export function PlaybackControls({ playback }: PlaybackControlsProps) {
+   const { recording, title, frame, index, playing, speed } = playback;
+   if(!recording || !frame) return null;
+
+   const { metadata, frames } = recording;
+   const duration = frames[frames.length - 1].time;
+   const paramsText = Object.entries(metadata.params).map(([k, v]) => `${k}: ${v}`).join('\n');
+
+   return (
+      <div className="preview-playback-controls" onPointerDown={(e) => e.stopPropagation()}>
+         <div className="playback-row">
+            <span className="playback-title" title={paramsText}>
+               {title}
+            </span>
+            <span className="playback-time">
+               {formatTime(frame.time)} / {formatTime(duration)} · {index + 1}/{frames.length}
+            </span>
+            <button onClick={playback.close} title="Back to the live preview">✕</button>
+         </div>
+         <input
+            type="range"
+            className="playback-scrub"
+            min={0}
+            max={frames.length - 1}
+            value={index}
+            onChange={(e) => playback.seek(Number(e.target.value))}
+         />
+         <div className="playback-row">
+            <button onClick={() => playback.step(-1)} disabled={index === 0} title="Previous frame">⏮</button>
+            {playing ? (
+               <button onClick={playback.pause} title="Pause">❚❚</button>
+            ) : (
+               <button onClick={playback.play} title="Play">▶</button>
+            )}
+            <button onClick={() => playback.step(1)} disabled={index >= frames.length - 1} title="Next frame">⏭</button>
+            <select value={speed} onChange={(e) => playback.setSpeed(Number(e.target.value))} title="Playback speed">
+               {PLAYBACK_SPEEDS.map((s) => (
+                  <option key={s} value={s}>{s}×</option>
+               ))}
+            </select>
+         </div>
+      </div>
+   );
+}
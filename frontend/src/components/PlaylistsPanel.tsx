@@ -0,0 +1,397 @@
+import { useState, useRef, useEffect } from 'react';
+import type { SavedPreset } from '../hooks/useSavedPatterns.ts';
+import { usePlaylists, type PlayerAction } from '../hooks/usePlaylists.ts';
+import type { Playlist, PlaylistItem, PlaylistStatus, TransitionType } from '../types.ts';
+import {
+   TRANSITIONS,
+   MIN_ITEM_DURATION,
+   MAX_ITEM_DURATION,
+   MAX_TRANSITION_DURATION,
+   newItem,
+   moveItem,
+   totalDuration,
+   formatCountdown,
+} from '../utils/playlists.ts';
+
+interface PlaylistsPanelProps {
+   presets: SavedPreset[];
+}
+
+interface Feedback {
+   message: string;
+   kind: 'success' | 'error';
+}
+
+// The playlist being edited; id is null for a new one
+interface Draft {
+   id: number | null;
+   name: string;
+   items: PlaylistItem[];
+}
+
+// Counts down from the host's last report, between polls
+function Countdown({ seconds, running }: { seconds: number; running: boolean }) {
+   const [start] = useState(() => performance.now());
+   const [now, setNow] = useState(start);
+
+   useEffect(() => {
+      if(!running) return;
+      const interval = setInterval(() => setNow(performance.now()), 250);
+      return () => clearInterval(interval);
+   }, [running]);
+
+   const left = running ? seconds - (now - start) / 1000 : seconds;
+   return <span className="playlist-countdown">{formatCountdown(left)}</span>;
+}
+
+interface NowPlayingProps {
+   status: PlaylistStatus;
+   onAction: (action: PlayerAction) => void;
+   onShuffle: (shuffle: boolean) => void;
+}
+
+function NowPlaying({ status, onAction, onShuffle }: NowPlayingProps) {
+   return (
+      <div className="playlist-now-playing">
+         <div className="playlist-now-playing-name">{status.playlistName}</div>
+         <div className="playlist-now-playing-items">
+            <span className="playlist-current">{status.current}</span>
+            <Countdown
+               key={`${status.index}:${status.remaining}:${status.paused}`}
+               seconds={status.remaining}
+               running={!status.paused}
+            />
+         </div>
+         <div className="playlist-next">Next: {status.next ?? '—'}</div>
+         <div className="playlist-controls">
+            <button
+               className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+               title="Previous"
+               onClick={() => onAction('previous')}>
+               ⏮
+            </button>
+            <button
+               className="settings-save-btn settings-save-btn--sm"
+               title={status.paused ? 'Resume' : 'Pause'}
+               onClick={() => onAction(status.paused ? 'resume' : 'pause')}>
+               {status.paused ? '▶' : '⏸'}
+            </button>
+            <button
+               className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+               title="Next"
+               onClick={() => onAction('next')}>
+               ⏭
+            </button>
+            <button
+               className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+               title="Stop"
+               onClick={() => onAction('stop')}>
+               ■
+            </button>
+            <label className="playlist-shuffle">
+               <input
+                  type="checkbox"
+                  checked={status.shuffle}
+                  onChange={(e) => onShuffle(e.target.checked)}
+               />
+               Shuffle
+            </label>
+         </div>
+      </div>
+   );
+}
+
+interface PlaylistEditorProps {
+   draft: Draft;
+   presets: SavedPreset[];
+   onChange: (draft: Draft) => void;
+   onSave: () => void;
+   onCancel: () => void;
+}
+
+function PlaylistEditor({ draft, presets, onChange, onSave, onCancel }: PlaylistEditorProps) {
+   function updateItem(index: number, patch: Partial<PlaylistItem>) {
+      onChange({ ...draft, items: draft.items.map((item, i) => (i === index ? { ...item, ...patch } : item)) });
+   }
+
+   const valid = draft.name.trim() !== '' && draft.items.length > 0;
+
+   return (
+      <div className="playlist-editor">
+         <input
+            className="save-as-input"
+            type="text"
+            placeholder="Playlist name…"
+            value={draft.name}
+            onChange={(e) => onChange({ ...draft, name: e.target.value })}
+         />
+
+         {draft.items.length === 0 && <p className="saved-patterns-empty">Add presets to play in order</p>}
+
+         <ol className="playlist-items">
+            {draft.items.map((item, index) => (
+               <li key={index} className="playlist-item">
+                  <div className="playlist-item-row">
+                     <select
+                        className="playlist-item-preset"
+                        value={item.presetId}
+                        onChange={(e) => updateItem(index, { presetId: Number(e.target.value) })}>
+                        {!presets.some((p) => p.id === item.presetId) && (
+                           <option value={item.presetId} disabled>(deleted preset)</option>
+                        )}
+                        {presets.map((p) => (
+                           <option key={p.id} value={p.id}>{p.presetName}</option>
+                        ))}
+                     </select>
+                     <label className="playlist-item-field" title="How long it shows, in seconds">
+                        <input
+                           type="number"
+                           min={MIN_ITEM_DURATION}
+                           max={MAX_ITEM_DURATION}
+                           value={item.duration}
+                           onChange={(e) => updateItem(index, {
+                              duration: Math.min(MAX_ITEM_DURATION, Math.max(MIN_ITEM_DURATION, Number(e.target.value) || MIN_ITEM_DURATION)),
+                           })}
+                        />
+                        s
+                     </label>
+                  </div>
+                  <div className="playlist-item-row">
+                     <select
+                        value={item.transition.type}
+                        title="How it takes over from the item before it"
+                        onChange={(e) => updateItem(index, {
+                           transition: { ...item.transition, type: e.target.value as TransitionType },
+                        })}>
+                        {TRANSITIONS.map(({ type, label }) => (
+                           <option key={type} value={type}>{label}</option>
+                        ))}
+                     </select>
+                     <label className="playlist-item-field" title="Transition length, in seconds">
+                        <input
+                           type="number"
+                           min={0}
+                           max={MAX_TRANSITION_DURATION}
+                           step={0.5}
+                           disabled={item.transition.type === 'cut'}
+                           value={item.transition.duration}
+                           onChange={(e) => updateItem(index, {
+                              transition: {
+                                 ...item.transition,
+                                 duration: Math.min(MAX_TRANSITION_DURATION, Math.max(0, Number(e.target.value) || 0)),
+                              },
+                           })}
+                        />
+                        s
+                     </label>
+                     <div className="saved-preset-actions">
+                        <button
+                           className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+                           title="Move up"
+                           disabled={index === 0}
+                           onClick={() => onChange({ ...draft, items: moveItem(draft.items, index, index - 1) })}>
+                           ↑
+                        </button>
+                        <button
+                           className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+                           title="Move down"
+                           disabled={index === draft.items.length - 1}
+                           onClick={() => onChange({ ...draft, items: moveItem(draft.items, index, index + 1) })}>
+                           ↓
+                        </button>
+                        <button
+                           className="settings-save-btn settings-save-btn--sm settings-save-btn--danger"
+                           title="Remove"
+                           onClick={() => onChange({ ...draft, items: draft.items.filter((_, i) => i !== index) })}>
+                           ✕
+                        </button>
+                     </div>
+                  </div>
+               </li>
+            ))}
+         </ol>
+
+         <div className="save-as-row">
+            <button
+               className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+               disabled={presets.length === 0}
+               onClick={() => onChange({ ...draft, items: [...draft.items, newItem(presets[0].id)] })}>
+               + Add Preset
+            </button>
+            <span className="playlist-total">{formatCountdown(totalDuration(draft.items))} total</span>
+            <button className="settings-save-btn settings-save-btn--sm" disabled={!valid} onClick={onSave}>
+               Save
+            </button>
+            <button className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral" onClick={onCancel}>
+               Cancel
+            </button>
+         </div>
+      </div>
+   );
+}
+
+export function PlaylistsPanel({ presets }: PlaylistsPanelProps) {
+   const {
+      playlists,
+      loading,
+      error,
+      player,
+      createPlaylist,
+      updatePlaylist,
+      deletePlaylist,
+      play,
+      control,
+      setShuffle,
+   } = usePlaylists(true);
+   const [draft, setDraft] = useState<Draft | null>(null);
+   const [deletingId, setDeletingId] = useState<number | null>(null);
+   const [feedback, setFeedback] = useState<Feedback | null>(null);
+   const feedbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+   function showFeedback(message: string, kind: 'success' | 'error') {
+      setFeedback({ message, kind });
+      if(feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current);
+      feedbackTimerRef.current = setTimeout(() => setFeedback(null), 4000);
+   }
+
+   // Runs a request, reporting a failure in the feedback banner
+   async function attempt(action: () => Promise<unknown>, success?: string) {
+      try {
+         await action();
+         if(success) showFeedback(success, 'success');
+      }
+      catch(e) {
+         showFeedback(e instanceof Error ? e.message : 'Request failed', 'error');
+      }
+   }
+
+   async function handleSave() {
+      if(!draft) return;
+      const name = draft.name.trim();
+      await attempt(async () => {
+         if(draft.id === null) await createPlaylist(name, draft.items);
+         else await updatePlaylist(draft.id, { name, items: draft.items });
+         setDraft(null);
+      }, `Saved "${name}"`);
+   }
+
+   function startEdit(playlist: Playlist) {
+      setDraft({ id: playlist.id, name: playlist.name, items: playlist.items });
+      setDeletingId(null);
+   }
+
+   if(loading) return <p className="settings-loading">Loading playlists…</p>;
+   if(error) return <p className="settings-feedback settings-feedback--error">{error}</p>;
+
+   return (
+      <div className="saved-patterns-panel">
+         <h3 className="saved-patterns-heading">Playlists</h3>
+
+         {player.status && (
+            <NowPlaying
+               status={player.status}
+               onAction={(action) => attempt(() => control(action))}
+               onShuffle={(shuffle) => attempt(() => setShuffle(shuffle))}
+            />
+         )}
+
+         {draft
+            ? (
+               <PlaylistEditor
+                  draft={draft}
+                  presets={presets}
+                  onChange={setDraft}
+                  onSave={handleSave}
+                  onCancel={() => setDraft(null)}
+               />
+            )
+            : (
+               <>
+                  {playlists.length === 0
+                     ? <p className="saved-patterns-empty">No playlists yet</p>
+                     : (
+                        <ul className="saved-preset-list">
+                           {playlists.map((playlist) => {
+                              const isStartup = playlist.id === player.startupPlaylistId;
+                              const isPlaying = playlist.id === player.status?.playlistId;
+                              return (
+                                 <li
+                                    key={playlist.id}
+                                    className={`saved-preset-row${isPlaying ? ' preset-loaded' : ''}${isStartup ? ' preset-default' : ''}`}>
+                                    <div
+                                       className="saved-preset-info"
+                                       title="Click to edit"
+                                       onClick={() => startEdit(playlist)}>
+                                       {isStartup && <span className="preset-default-indicator" aria-label="Plays on startup">★</span>}
+                                       <span className="saved-preset-name">{playlist.name}</span>
+                                       <span className="saved-preset-badge">
+                                          {playlist.items.length} · {formatCountdown(totalDuration(playlist.items))}
+                                       </span>
+                                    </div>
+
+                                    <div className="saved-preset-actions">
+                                       {deletingId === playlist.id
+                                          ? (
+                                             <>
+                                                <span className="saved-preset-confirm-label">Delete?</span>
+                                                <button
+                                                   className="settings-save-btn settings-save-btn--sm settings-save-btn--danger"
+                                                   onClick={() => attempt(async () => {
+                                                      await deletePlaylist(playlist.id);
+                                                      setDeletingId(null);
+                                                   }, 'Playlist deleted')}>
+                                                   Yes
+                                                </button>
+                                                <button
+                                                   className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+                                                   onClick={() => setDeletingId(null)}>
+                                                   No
+                                                </button>
+                                             </>
+                                          )
+                                          : (
+                                             <>
+                                                <button
+                                                   className="settings-save-btn settings-save-btn--sm"
+                                                   title="Play on the strips"
+                                                   onClick={() => attempt(() => play(playlist.id))}>
+                                                   ▶
+                                                </button>
+                                                <button
+                                                   className="settings-save-btn settings-save-btn--sm settings-save-btn--danger"
+                                                   title="Delete"
+                                                   onClick={() => setDeletingId(playlist.id)}>
+                                                   ✕
+                                                </button>
+                                             </>
+                                          )
+                                       }
+                                    </div>
+                                 </li>
+                              );
+                           })}
+                        </ul>
+                     )
+                  }
+
+                  <div className="save-as-row">
+                     <button
+                        className="settings-save-btn settings-save-btn--sm"
+                        disabled={presets.length === 0}
+                        title={presets.length === 0 ? 'Save a preset first' : undefined}
+                        onClick={() => setDraft({ id: null, name: '', items: [] })}>
+                        New Playlist
+                     </button>
+                  </div>
+               </>
+            )
+         }
+
+         {feedback && (
+            <div className={`settings-feedback settings-feedback--${feedback.kind}`}>
+               {feedback.message}
+            </div>
+         )}
+      </div>
+   );
+}
@@ -0,0 +1,88 @@
+import { clientToViewport } from '../utils/viewportCoords.ts';
+
+interface PointPadProps {
+   label: string;
+   /** [x, y] in viewport pixels. */
+   value: [number, number];
+   onChange: (value: [number, number]) => void;
+   viewportWidth: number;
+   viewportHeight: number;
+   /** Whether clicks on the preview set this point. */
+   picking: boolean;
+   onPickingChange: (picking: boolean) => void;
+}
+
+/**
+ * A small pad with the viewport's aspect ratio for a point parameter. Focusing
+ * it also lets clicks and drags on the preview set the point, until Escape,
+ * the Pick button or another point takes over.
+ */
+export function PointPad({
+   label,
+   value: [x, y],
+   onChange,
+   viewportWidth,
+   viewportHeight,
+   picking,
+   onPickingChange,
+}: PointPadProps) {
+   const ready = viewportWidth > 0 && viewportHeight > 0;
+
+   const handlePointer = (e: React.PointerEvent<HTMLDivElement>) => {
+      if(!ready) return;
+      if(e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+      else if(!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+      const p = clientToViewport(e.currentTarget.getBoundingClientRect(), e.clientX, e.clientY, viewportWidth, viewportHeight);
+      if(p.x !== x || p.y !== y) onChange([p.x, p.y]);
+   };
+
+   const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if(e.key === 'Escape') {
+         onPickingChange(false);
+         return;
+      }
+      const step = e.shiftKey ? 10 : 1;
+      const dx = e.key === 'ArrowRight' ? step : e.key === 'ArrowLeft' ? -step : 0;
+      const dy = e.key === 'ArrowDown' ? step : e.key === 'ArrowUp' ? -step : 0;
+      if(!ready || (dx === 0 && dy === 0)) return;
+      e.preventDefault();
+      onChange([
+         Math.max(0, Math.min(viewportWidth - 1, x + dx)),
+         Math.max(0, Math.min(viewportHeight - 1, y + dy)),
+      ]);
+   };
+
+   const left = ready ? ((x + 0.5) / viewportWidth) * 100 : 50;
+   const top = ready ? ((y + 0.5) / viewportHeight) * 100 : 50;
+
+   return (
+      <div className="point-pad-row">
+         <div
+            className={`point-pad${picking ? ' picking' : ''}`}
+            style={{ aspectRatio: ready ? `${viewportWidth} / ${viewportHeight}` : undefined }}
+            role="group"
+            tabIndex={0}
+            aria-label={`${label}: ${x}, ${y}`}
+            onFocus={() => onPickingChange(true)}
+            onPointerDown={handlePointer}
+            onPointerMove={handlePointer}
+            onKeyDown={handleKeyDown}
+         >
+            <div className="point-pad-line point-pad-line--h" style={{ top: `${top}%` }} />
+            <div className="point-pad-line point-pad-line--v" style={{ left: `${left}%` }} />
+            <div className="point-pad-dot" style={{ left: `${left}%`, top: `${top}%` }} />
+         </div>
+         <div className="point-pad-side">
+            <span className="slider-value">{x}, {y}</span>
+            <button
+               type="button"
+               className={`point-pad-pick${picking ? ' active' : ''}`}
+               onClick={() => onPickingChange(!picking)}
+               title="Set the point by clicking or dragging on the preview"
+            >
+               Pick
+            </button>
+         </div>
+      </div>
+   );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import { clientToViewport } from '../utils/viewportCoords.ts';
+
+/** A point parameter being set from the preview. */
+export interface PointPickerTarget {
+   label: string;
+   /** [x, y] in viewport pixels. */
+   point: [number, number];
+   onChange: (point: [number, number]) => void;
+   /** Stops picking, e.g. on Escape. */
+   onDone: () => void;
+}
+
+interface PointPickerProps {
+   target: PointPickerTarget;
+   viewportWidth: number;
+   viewportHeight: number;
+   /** Preview zoom factor; the marker shrinks with it so it keeps the same on-screen size. */
+   zoom?: number;
+}
+
+/**
+ * Preview overlay for a point parameter: a crosshair at the current point that
+ * a click or drag anywhere on the viewport moves.
+ */
+export function PointPicker({ target, viewportWidth, viewportHeight, zoom = 1 }: PointPickerProps) {
+   const svgRef = useRef<SVGSVGElement>(null);
+   const { label, point: [x, y], onChange, onDone } = target;
+
+   useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+         if(e.key === 'Escape') onDone();
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+   }, [onDone]);
+
+   const moveTo = (e: React.PointerEvent) => {
+      const p = clientToViewport(svgRef.current!.getBoundingClientRect(), e.clientX, e.clientY, viewportWidth, viewportHeight);
+      if(p.x !== x || p.y !== y) onChange([p.x, p.y]);
+   };
+
+   const handlePointerDown = (e: React.PointerEvent) => {
+      if(e.button !== 0) return;
+      // Picking takes the pointer from panning
+      e.stopPropagation();
+      svgRef.current?.setPointerCapture(e.pointerId);
+      moveTo(e);
+   };
+
+   const handlePointerMove = (e: React.PointerEvent) => {
+      if(svgRef.current?.hasPointerCapture(e.pointerId)) moveTo(e);
+   };
+
+   if(viewportWidth <= 0 || viewportHeight <= 0) return null;
+
+   const cx = x + 0.5;
+   const cy = y + 0.5;
+   const radius = Math.max(viewportWidth, viewportHeight) / 60 / zoom;
+
+   return (
+      <>
+         <svg
+            ref={svgRef}
+            id="point-picker"
+            viewBox={`0 0 ${viewportWidth} ${viewportHeight}`}
+            preserveAspectRatio="none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+         >
+            <line className="point-picker-line" x1={0} y1={cy} x2={viewportWidth} y2={cy} vectorEffect="non-scaling-stroke" />
+            <line className="point-picker-line" x1={cx} y1={0} x2={cx} y2={viewportHeight} vectorEffect="non-scaling-stroke" />
+            <circle className="point-picker-ring" cx={cx} cy={cy} r={radius} vectorEffect="non-scaling-stroke" />
+         </svg>
+         <div className="point-picker-hint" onPointerDown={(e) => e.stopPropagation()}>
+            <span>{label}: {x}, {y}</span>
+            <span className="point-picker-keys">Click or drag to move · Esc to finish</span>
+            <button onClick={onDone}>Done</button>
+         </div>
+      </>
+   );
+}
@@ -0,0 +1,130 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useViewportStream } from '../hooks/useViewportStream.ts';
+import { useLEDStrips } from '../hooks/useLEDStrips.ts';
+import { useBackgroundImage } from '../hooks/useBackgroundImage.ts';
+import { useSettings } from '../hooks/useSettings.ts';
+import { useStripSettings } from '../hooks/useStripSettings.ts';
+import { outputCalibration } from '../utils/outputColor.ts';
+import { PreviewArea } from './PreviewArea.tsx';
+
+// The caption follows presets loaded from other clients
+const CAPTION_POLL_MS = 10000;
+
+const LAYERS = ['viewport', 'strips', 'background', 'annotations'] as const;
+type Layer = typeof LAYERS[number];
+
+interface PresentOptions {
+   /** Layers named in `?layers=`, or null to use the persisted view toggles. */
+   layers: Set<Layer> | null;
+   caption: boolean;
+}
+
+// e.g. /present?layers=background,strips&caption
+function presentOptions(search: string): PresentOptions {
+   const query = new URLSearchParams(search);
+   const layers = query.get('layers');
+   const caption = query.get('caption');
+   return {
+      layers: layers === null
+         ? null
+         : new Set(layers.split(',').map((l) => l.trim()).filter((l): l is Layer => (LAYERS as readonly string[]).includes(l))),
+      caption: caption !== null && caption !== '0' && caption !== 'false',
+   };
+}
+
+function noop() {}
+
+/**
+ * The /present route for a wall display: the live preview over the background
+ * photo, full-screen, with no nav or controls. The streams reconnect on their
+ * own; settings and strips are re-read whenever the host comes back, and
+ * nothing about the connection is ever shown.
+ */
+export function PresentView() {
+   const [options] = useState(() => presentOptions(window.location.search));
+   const [connected, setConnected] = useState(false);
+   const [viewport, setViewport] = useState({ width: 0, height: 0 });
+   const [caption, setCaption] = useState<string | null>(null);
+
+   const { settings, refetch: refetchSettings } = useSettings();
+   const { strips, updateStrip, refetch: refetchStrips } = useStripSettings();
+   const backgroundImageUrl = useBackgroundImage();
+
+   const show = (layer: Layer, persisted: boolean) => (options.layers ? options.layers.has(layer) : persisted);
+   const showViewport = show('viewport', settings.showViewport);
+   const showStrips = show('strips', settings.showStrips);
+   const showBackground = show('background', settings.showBackground);
+   const showAnnotations = show('annotations', settings.showAnnotations);
+
+   const handleResolutionChange = useCallback((width: number, height: number) => {
+      setViewport({ width, height });
+   }, []);
+   const viewportStream = useViewportStream(setConnected, handleResolutionChange);
+   const ledStripsRef = useLEDStrips(showStrips);
+   const output = useMemo(() => outputCalibration(settings), [settings]);
+
+   // The host may have restarted with different settings or strips
+   useEffect(() => {
+      if(!connected) return;
+      refetchSettings();
+      refetchStrips();
+   }, [connected, refetchSettings, refetchStrips]);
+
+   useEffect(() => {
+      if(!options.caption) return;
+      let cancelled = false;
+
+      async function fetchCaption() {
+         try {
+            const res = await fetch('/api/active-pattern');
+            if(res.ok) {
+               const data: { patternName?: string; presetName?: string | null } = await res.json();
+               if(!cancelled) setCaption(data.presetName ?? data.patternName ?? null);
+            }
+         }
+         catch {
+            // Keep the last caption while the host is away
+         }
+      }
+
+      fetchCaption();
+      const interval = setInterval(fetchCaption, CAPTION_POLL_MS);
+      return () => {
+         cancelled = true;
+         clearInterval(interval);
+      };
+   }, [options.caption]);
+
+   return (
+      <div
+         className="present"
+         style={{ '--viewport-aspect': viewport.height > 0 ? viewport.width / viewport.height : 16 / 9 } as React.CSSProperties}
+      >
+         <PreviewArea
+            presentation
+            showViewport={showViewport}
+            showStrips={showStrips}
+            showBackground={showBackground}
+            showAnnotations={showAnnotations}
+            annotationTickInterval={settings.annotationTickInterval}
+            focusedStripId={null}
+            onStripHover={noop}
+            onCropViewport={noop}
+            backgroundImageUrl={backgroundImageUrl}
+            backgroundTransform={settings}
+            viewportStream={viewportStream}
+            ledStripsRef={ledStripsRef}
+            viewportWidth={viewport.width}
+            viewportHeight={viewport.height}
+            editLayout={false}
+            stripSettings={strips}
+            onUpdateStrip={updateStrip}
+            pattern=""
+            params={{}}
+            output={output}
+            glow={settings.ledGlow ? settings : null}
+         />
+         {options.caption && caption && <div className="present-caption">{caption}</div>}
+      </div>
+   );
+}
@@ -1,51 +1,298 @@
-import type { ViewportMessage, LEDStripData } from '../types.ts';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { LEDStripsFrame, ParamValue, StripSetting, StripSettingInput } from '../types.ts';
+import type { ViewportStream } from '../hooks/useViewportStream.ts';
+import type { Point } from '../utils/stripGeometry.ts';
+import type { OutputCalibration } from '../utils/outputColor.ts';
+import type { GlowSettings } from '../utils/ledGlow.ts';
+import type { BackgroundTransform } from '../utils/backgroundTransform.ts';
+import { clientToViewport } from '../utils/viewportCoords.ts';
+import { usePreviewZoom } from '../hooks/usePreviewZoom.ts';
+import { usePlayback, usePlaybackLedStrips } from '../hooks/usePlayback.ts';
+import { useRewindBuffer, REWIND_SECONDS } from '../hooks/useRewindBuffer.ts';
+import { useStripCoverage } from '../hooks/useStripCoverage.ts';
 import { BackgroundImage } from './BackgroundImage.tsx';
 import { ViewportCanvas } from './ViewportCanvas.tsx';
 import { LEDStripsCanvas } from './LEDStripsCanvas.tsx';
+import { StripLayoutEditor } from './StripLayoutEditor.tsx';
+import { StripAnnotations } from './StripAnnotations.tsx';
+import { CoverageOverlay } from './CoverageOverlay.tsx';
+import { PixelInspector } from './PixelInspector.tsx';
+import { RecordControls } from './RecordControls.tsx';
+import { PlaybackCanvas } from './PlaybackCanvas.tsx';
+import { PlaybackControls } from './PlaybackControls.tsx';
+import { SnapshotControls } from './SnapshotControls.tsx';
+import type { PointPickerTarget } from './PointPicker.tsx';
+import { PointPicker } from './PointPicker.tsx';
 
 interface PreviewAreaProps {
    showViewport: boolean;
    showStrips: boolean;
    showBackground: boolean;
+   showAnnotations: boolean;
+   annotationTickInterval: number;
+   /** The strip last hovered in the annotations overlay. */
+   focusedStripId: number | null;
+   onStripHover: (id: number) => void;
+   /** Takes the coverage map's crop suggestion to the Viewport & Performance settings. */
+   onCropViewport: () => void;
    backgroundImageUrl: string | null;
-   viewportRef: React.MutableRefObject<ViewportMessage | null>;
-   ledStripsRef: React.MutableRefObject<LEDStripData[]>;
+   /** Aligns the background photo with the viewport. */
+   backgroundTransform: BackgroundTransform;
+   viewportStream: ViewportStream;
+   ledStripsRef: React.MutableRefObject<LEDStripsFrame | null>;
    viewportWidth: number;
    viewportHeight: number;
-   onResolutionChange: (width: number, height: number) => void;
+   editLayout: boolean;
+   stripSettings: StripSetting[];
+   onUpdateStrip: (id: number, input: Partial<StripSettingInput>) => Promise<{ ok: boolean; error?: string }>;
+   pattern: string;
+   params: Record<string, ParamValue>;
+   output: OutputCalibration | null;
+   glow: GlowSettings | null;
+   /** A point parameter set by clicking or dragging on the preview, shown as a crosshair. */
+   pointPicker?: PointPickerTarget | null;
+   /** Kiosk display: only the layers, with no controls and no zoom, pan or hover. */
+   presentation?: boolean;
 }
 
 export function PreviewArea({
    showViewport,
    showStrips,
    showBackground,
+   showAnnotations,
+   annotationTickInterval,
+   focusedStripId,
+   onStripHover,
+   onCropViewport,
    backgroundImageUrl,
-   viewportRef,
+   backgroundTransform,
+   viewportStream,
    ledStripsRef,
    viewportWidth,
    viewportHeight,
-   onResolutionChange,
+   editLayout,
+   stripSettings,
+   onUpdateStrip,
+   pattern,
+   params,
+   output,
+   glow,
+   pointPicker = null,
+   presentation = false,
 }: PreviewAreaProps) {
+   const contentRef = useRef<HTMLDivElement>(null);
+   const [hover, setHover] = useState<Point | null>(null);
+   const [showCoverage, setShowCoverage] = useState(false);
+   const [showSnapshot, setShowSnapshot] = useState(false);
+   // Refetched after layout edits, which replace stripSettings
+   const coverage = useStripCoverage(showCoverage, viewportWidth, viewportHeight, stripSettings);
+   const { transform, panning, zoomIn, zoomOut, fit, panHandlers } = usePreviewZoom(contentRef, !presentation);
+   const { zoom, panX, panY } = transform;
+
+   // While a recording plays, its frames replace the live stream in every layer
+   const playback = usePlayback();
+   const playbackFrame = playback.frame;
+   const playbackLedRef = usePlaybackLedStrips(playbackFrame, stripSettings);
+   const layerWidth = playbackFrame?.width ?? viewportWidth;
+   const layerHeight = playbackFrame?.height ?? viewportHeight;
+
+   // Freezing shows the last few seconds from the rewind buffer, starting at the newest frame
+   const rewind = useRewindBuffer(viewportStream, !presentation);
+   const handleFreeze = () => {
+      const frames = rewind.snapshot();
+      if(frames.length === 0) return;
+      const startedAt = new Date(Date.now() - frames[frames.length - 1].time).toISOString();
+      playback.open({ metadata: { pattern, params, startedAt }, frames }, { title: `Frozen · last ${REWIND_SECONDS}s`, atEnd: true });
+   };
+
+   // Frame stepping: arrow keys (Shift for 10 frames), space to play/pause
+   const { step, play, pause, playing } = playback;
+   const playbackActive = playbackFrame !== null;
+   useEffect(() => {
+      if(!playbackActive) return;
+      const onKeyDown = (e: KeyboardEvent) => {
+         const target = e.target as HTMLElement;
+         if(target.closest('input, select, textarea, button')) return;
+         if(e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+            e.preventDefault();
+            step((e.key === 'ArrowLeft' ? -1 : 1) * (e.shiftKey ? 10 : 1));
+         }
+         else if(e.key === ' ') {
+            e.preventDefault();
+            if(playing) pause();
+            else play();
+         }
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+   }, [playbackActive, step, play, pause, playing]);
+
+   const samplePlayback = useCallback(async (x: number, y: number): Promise<[number, number, number] | null> => {
+      if(!playbackFrame || x >= playbackFrame.width || y >= playbackFrame.height) return null;
+      const i = (y * playbackFrame.width + x) * 3;
+      return [playbackFrame.data[i], playbackFrame.data[i + 1], playbackFrame.data[i + 2]];
+   }, [playbackFrame]);
+
+   const handlePointerMove = (e: React.PointerEvent) => {
+      panHandlers.onPointerMove(e);
+      const el = contentRef.current;
+      if(!el || layerWidth <= 0 || layerHeight <= 0) return;
+      // The layers' on-screen box after zoom and pan
+      const rect = el.getBoundingClientRect();
+      const stage = new DOMRect(rect.left + panX, rect.top + panY, rect.width * zoom, rect.height * zoom);
+      const p = clientToViewport(stage, e.clientX, e.clientY, layerWidth, layerHeight);
+      setHover((prev) => (prev && prev.x === p.x && prev.y === p.y ? prev : p));
+   };
+
    return (
       <div id="preview">
-         <div id="preview-content">
+         <div
+            id="preview-content"
+            ref={contentRef}
+            className={zoom > 1 ? (panning ? 'panning' : 'zoomed') : undefined}
+            style={{ '--preview-transform': `translate(${panX}px, ${panY}px) scale(${zoom})` } as React.CSSProperties}
+            {...(presentation ? {} : {
+               ...panHandlers,
+               onPointerMove: handlePointerMove,
+               onPointerLeave: () => setHover(null),
+            })}
+         >
             {backgroundImageUrl && (
                <BackgroundImage
                   visible={showBackground}
                   imageUrl={backgroundImageUrl}
+                  viewportWidth={layerWidth}
+                  viewportHeight={layerHeight}
+                  transform={backgroundTransform}
+               />
+            )}
+            {playbackFrame ? (
+               <>
+                  <PlaybackCanvas visible={showViewport} frame={playbackFrame} />
+                  {coverage && <CoverageOverlay coverage={coverage} onCrop={onCropViewport} />}
+                  <LEDStripsCanvas
+                     key="playback"
+                     visible={showStrips}
+                     ledStripsRef={playbackLedRef}
+                     viewportWidth={layerWidth}
+                     viewportHeight={layerHeight}
+                     output={output}
+                     glow={glow}
+                  />
+               </>
+            ) : (
+               <>
+                  <ViewportCanvas
+                     visible={showViewport}
+                     stream={viewportStream}
+                     viewportWidth={viewportWidth}
+                     viewportHeight={viewportHeight}
+                  />
+                  {coverage && <CoverageOverlay coverage={coverage} onCrop={onCropViewport} />}
+                  <LEDStripsCanvas
+                     key="live"
+                     visible={showStrips}
+                     ledStripsRef={ledStripsRef}
+                     viewportWidth={viewportWidth}
+                     viewportHeight={viewportHeight}
+                     output={output}
+                     glow={glow}
+                  />
+               </>
+            )}
+            {showAnnotations && (
+               <StripAnnotations
+                  strips={stripSettings}
+                  viewportWidth={layerWidth}
+                  viewportHeight={layerHeight}
+                  tickInterval={annotationTickInterval}
+                  focusedStripId={focusedStripId}
+                  onStripHover={onStripHover}
+                  zoom={zoom}
+               />
+            )}
+            {editLayout && (
+               <StripLayoutEditor
+                  strips={stripSettings}
+                  viewportWidth={layerWidth}
+                  viewportHeight={layerHeight}
+                  onUpdateStrip={onUpdateStrip}
+                  zoom={zoom}
                />
             )}
-            <ViewportCanvas
-               visible={showViewport}
-               viewportRef={viewportRef}
-               onResolutionChange={onResolutionChange}
-            />
-            <LEDStripsCanvas
-               visible={showStrips}
-               ledStripsRef={ledStripsRef}
-               viewportWidth={viewportWidth}
-               viewportHeight={viewportHeight}
-            />
+            {pointPicker && !presentation && (
+               <PointPicker
+                  target={pointPicker}
+                  viewportWidth={layerWidth}
+                  viewportHeight={layerHeight}
+                  zoom={zoom}
+               />
+            )}
+            {!presentation && (
+               <>
+                  <div className="preview-zoom-controls" onPointerDown={(e) => e.stopPropagation()}>
+                     <button onClick={zoomOut} disabled={zoom <= 1} title="Zoom out">−</button>
+                     <span className="preview-zoom-level">{Math.round(zoom * 100)}%</span>
+                     <button onClick={zoomIn} title="Zoom in">+</button>
+                     <button onClick={fit} disabled={zoom === 1} title="Fit to window">Fit</button>
+                     <button
+                        className={showCoverage ? 'active' : undefined}
+                        onClick={() => setShowCoverage((v) => !v)}
+                        title="Dim the pixels no LED samples">
+                        Coverage
+                     </button>
+                     <button
+                        onClick={handleFreeze}
+                        disabled={playbackActive}
+                        title={`Freeze the preview and step through the last ${REWIND_SECONDS} seconds`}>
+                        Freeze
+                     </button>
+                     <button
+                        className={showSnapshot ? 'active' : undefined}
+                        onClick={() => setShowSnapshot((v) => !v)}
+                        title="Export the frame on screen as PNG and LED data">
+                        Snapshot
+                     </button>
+                  </div>
+                  {showSnapshot && (
+                     <SnapshotControls
+                        stream={viewportStream}
+                        playbackFrame={playbackFrame}
+                        playbackMetadata={playback.recording?.metadata ?? null}
+                        pattern={pattern}
+                        params={params}
+                        backgroundImageUrl={backgroundImageUrl}
+                        backgroundTransform={backgroundTransform}
+                        stripSettings={stripSettings}
+                        showViewport={showViewport}
+                        showStrips={showStrips}
+                        showBackground={showBackground}
+                     />
+                  )}
+                  {playbackFrame ? (
+                     <PlaybackControls playback={playback} />
+                  ) : (
+                     <RecordControls
+                        stream={viewportStream}
+                        pattern={pattern}
+                        params={params}
+                        backgroundImageUrl={backgroundImageUrl}
+                        backgroundTransform={backgroundTransform}
+                        stripSettings={stripSettings}
+                        showViewport={showViewport}
+                        showStrips={showStrips}
+                        showBackground={showBackground}
+                        onPlay={playback.open}
+                     />
+                  )}
+                  <PixelInspector
+                     point={hover}
+                     sample={playbackFrame ? samplePlayback : viewportStream.sample}
+                     ledStripsRef={playbackFrame ? playbackLedRef : ledStripsRef}
+                     strips={stripSettings}
+                  />
+               </>
+            )}
          </div>
       </div>
    );
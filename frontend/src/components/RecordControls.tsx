@@ -0,0 +1,177 @@
+import { useRef, useState } from 'react';
+import type { ParamValue, Recording, StripSetting } from '../types.ts';
+import type { ViewportStream } from '../hooks/useViewportStream.ts';
+import { useRecorder } from '../hooks/useRecorder.ts';
+import { ledPositions } from '../utils/stripGeometry.ts';
+import { decodeFrameArchive, encodeFrameArchive, FRAME_ARCHIVE_EXTENSION } from '../utils/frameArchive.ts';
+import type { BackgroundTransform } from '../utils/backgroundTransform.ts';
+import { exportWebM } from '../utils/videoExport.ts';
+import { loadImage } from '../utils/exportLayers.ts';
+import { downloadBlob, slugify } from '../utils/download.ts';
+
+interface RecordControlsProps {
+   stream: ViewportStream;
+   pattern: string;
+   params: Record<string, ParamValue>;
+   backgroundImageUrl: string | null;
+   backgroundTransform: BackgroundTransform;
+   stripSettings: StripSetting[];
+   showViewport: boolean;
+   showStrips: boolean;
+   showBackground: boolean;
+   /** Plays a recording back in the preview instead of the live stream. */
+   onPlay: (recording: Recording) => void;
+}
+
+function formatDuration(ms: number): string {
+   const seconds = Math.floor(ms / 1000);
+   return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function RecordControls({
+   stream,
+   pattern,
+   params,
+   backgroundImageUrl,
+   backgroundTransform,
+   stripSettings,
+   showViewport,
+   showStrips,
+   showBackground,
+   onPlay,
+}: RecordControlsProps) {
+   const recorder = useRecorder(stream);
+   const fileInputRef = useRef<HTMLInputElement>(null);
+   const [layers, setLayers] = useState({ viewport: true, strips: false, background: false });
+   const [exportProgress, setExportProgress] = useState<number | null>(null);
+   const [error, setError] = useState<string | null>(null);
+   const { result } = recorder;
+
+   const handleRecord = () => {
+      setError(null);
+      // Export layers default to what is on screen when recording starts
+      setLayers({ viewport: showViewport, strips: showStrips, background: showBackground && backgroundImageUrl !== null });
+      recorder.start({ pattern, params, startedAt: new Date().toISOString() });
+   };
+
+   const baseName = () => `${slugify(result?.metadata.pattern ?? 'recording')}-${result?.metadata.startedAt.replace(/[:.]/g, '-')}`;
+
+   const handleExportVideo = async () => {
+      if(!result) return;
+      setError(null);
+      setExportProgress(0);
+      try {
+         const blob = await exportWebM(result, {
+            viewport: layers.viewport,
+            strips: layers.strips ? stripSettings.map(ledPositions) : null,
+            background: layers.background && backgroundImageUrl
+               ? { image: await loadImage(backgroundImageUrl), transform: backgroundTransform }
+               : null,
+         }, setExportProgress);
+         downloadBlob(blob, `${baseName()}.webm`);
+      }
+      catch(e) {
+         setError(e instanceof Error ? e.message : 'Video export failed');
+      }
+      finally {
+         setExportProgress(null);
+      }
+   };
+
+   const handleExportArchive = async () => {
+      if(!result) return;
+      setError(null);
+      try {
+         downloadBlob(await encodeFrameArchive(result), `${baseName()}${FRAME_ARCHIVE_EXTENSION}`);
+      }
+      catch(e) {
+         setError(e instanceof Error ? e.message : 'Archive export failed');
+      }
+   };
+
+   const handleOpen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if(!file) return;
+      setError(null);
+      try {
+         const recording = await decodeFrameArchive(file);
+         if(recording.frames.length === 0) throw new Error('The recording has no frames');
+         onPlay(recording);
+      }
+      catch(err) {
+         setError(err instanceof Error ? err.message : 'Could not open the recording');
+      }
+   };
+
+   const exporting = exportProgress !== null;
+
+   return (
+      <div className="preview-record-controls" onPointerDown={(e) => e.stopPropagation()}>
+         {recorder.recording ? (
+            <div className="record-row">
+               <button className="record-button recording" onClick={recorder.stop} title="Stop recording">■ Stop</button>
+               <span className="record-status">
+                  {formatDuration(recorder.elapsedMs)} · {recorder.frameCount} frames
+               </span>
+            </div>
+         ) : (
+            <div className="record-row">
+               <button className="record-button" onClick={handleRecord} disabled={exporting} title="Record the preview">
+                  ● Record
+               </button>
+               <button onClick={() => fileInputRef.current?.click()} disabled={exporting} title="Play back a frame archive">
+                  Open…
+               </button>
+               <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={FRAME_ARCHIVE_EXTENSION}
+                  style={{ display: 'none' }}
+                  onChange={handleOpen}
+               />
+               {result && (
+                  <span className="record-status">
+                     {result.metadata.pattern || 'Recording'} · {formatDuration(recorder.elapsedMs)} · {result.frames.length} frames
+                  </span>
+               )}
+            </div>
+         )}
+         {result && !recorder.recording && (
+            <div className="record-export">
+               <div className="record-layers">
+                  <label>
+                     <input type="checkbox" checked={layers.viewport} disabled={exporting}
+                        onChange={(e) => setLayers({ ...layers, viewport: e.target.checked })} />
+                     Viewport
+                  </label>
+                  <label>
+                     <input type="checkbox" checked={layers.strips} disabled={exporting}
+                        onChange={(e) => setLayers({ ...layers, strips: e.target.checked })} />
+                     LED strips
+                  </label>
+                  {backgroundImageUrl && (
+                     <label>
+                        <input type="checkbox" checked={layers.background} disabled={exporting}
+                           onChange={(e) => setLayers({ ...layers, background: e.target.checked })} />
+                        Background
+                     </label>
+                  )}
+               </div>
+               <div className="record-row">
+                  <button onClick={() => onPlay(result)} disabled={exporting || result.frames.length === 0}>Play</button>
+                  <button onClick={handleExportVideo} disabled={exporting || result.frames.length === 0}>
+                     {exporting ? `Exporting… ${Math.round(exportProgress * 100)}%` : 'Export WebM'}
+                  </button>
+                  <button onClick={handleExportArchive} disabled={exporting || result.frames.length === 0}
+                     title="Raw frames with pattern name and parameters">
+                     Export Frames
+                  </button>
+                  <button onClick={recorder.discard} disabled={exporting}>Discard</button>
+               </div>
+            </div>
+         )}
+         {error && <div className="record-error">{error}</div>}
+      </div>
+   );
+}
@@ -1,5 +1,6 @@
 import { useState, useRef } from 'react';
-import type { SavedPreset } from '../hooks/useSavedPatterns.ts';
+import type { PresetPatch, SavedPreset } from '../hooks/useSavedPatterns.ts';
+import type { Modulator, ParamValue, Timeline } from '../types.ts';
 
 interface SavedPatternsPanelProps {
    presets: SavedPreset[];
@@ -7,14 +8,28 @@ interface SavedPatternsPanelProps {
    error: string | null;
    activePresetName: string | null;
    activePresetId: number | null;
-   onLoad: (presetId: number, patternName: string, params: Record<string, unknown>) => void;
+   onLoad: (
+      presetId: number,
+      patternName: string,
+      params: Record<string, unknown>,
+      modulators: Record<string, Modulator>,
+      timeline: Timeline | null
+   ) => void;
    onSetDefault: (presetId: number, presetName: string) => void;
-   onSave: (presetName: string, patternName: string, params: Record<string, unknown>) => Promise<SavedPreset>;
-   onUpdate: (id: number, patch: { presetName?: string; patternName?: string; params?: Record<string, unknown> }) => Promise<SavedPreset>;
+   onSave: (
+      presetName: string,
+      patternName: string,
+      params: Record<string, unknown>,
+      modulators?: Record<string, Modulator>,
+      timeline?: Timeline
+   ) => Promise<SavedPreset>;
+   onUpdate: (id: number, patch: PresetPatch) => Promise<SavedPreset>;
    onDelete: (id: number) => Promise<void>;
    onRename: (id: number, newName: string) => Promise<SavedPreset>;
    currentPatternName: string;
-   currentParams: Record<string, number | string>;
+   currentParams: Record<string, ParamValue>;
+   currentModulators: Record<string, Modulator>;
+   currentTimeline: Timeline;
 }
 
 interface Feedback {
@@ -36,6 +51,8 @@ export function SavedPatternsPanel({
    onRename,
    currentPatternName,
    currentParams,
+   currentModulators,
+   currentTimeline,
 }: SavedPatternsPanelProps) {
    const [saveAsName, setSaveAsName] = useState('');
    const [saveAsError, setSaveAsError] = useState<string | null>(null);
@@ -54,7 +71,7 @@ export function SavedPatternsPanel({
    }
 
    function handleLoad(preset: SavedPreset) {
-      onLoad(preset.id, preset.patternName, preset.params);
+      onLoad(preset.id, preset.patternName, preset.params, preset.modulators ?? {}, preset.timeline ?? null);
    }
 
    async function handleSaveAs() {
@@ -62,7 +79,7 @@ export function SavedPatternsPanel({
       if(!name) return;
       setSaveAsError(null);
       try {
-         await onSave(name, currentPatternName, currentParams as Record<string, unknown>);
+         await onSave(name, currentPatternName, currentParams as Record<string, unknown>, currentModulators, currentTimeline);
          setSaveAsName('');
          showFeedback(`Saved "${name}"`, 'success');
       }
@@ -83,6 +100,8 @@ export function SavedPatternsPanel({
          await onUpdate(loadedPresetId, {
             patternName: currentPatternName,
             params: currentParams as Record<string, unknown>,
+            modulators: currentModulators,
+            timeline: currentTimeline,
          });
          showFeedback('Preset updated', 'success');
       }
@@ -152,6 +171,13 @@ export function SavedPatternsPanel({
                               {isDefault && <span className="preset-default-indicator" aria-label="Startup default">★</span>}
                               <span className="saved-preset-name">{preset.presetName}</span>
                               <span className="saved-preset-badge">{preset.patternName}</span>
+                              {preset.timeline && (
+                                 <span
+                                    className="saved-preset-badge saved-preset-badge--animation"
+                                    title={`${preset.timeline.duration}s ${preset.timeline.loop ? 'loop' : 'one-shot'}`}>
+                                    Animation
+                                 </span>
+                              )}
                            </div>
 
                            <div className="saved-preset-actions">
@@ -0,0 +1,517 @@
+import { useState, useRef } from 'react';
+import { useSavedPatterns, type SavedPreset } from '../hooks/useSavedPatterns.ts';
+import { useSchedule } from '../hooks/useSchedule.ts';
+import type { Schedule, ScheduleAction, ScheduleRule, ScheduleState, TimeAnchor, TimeOfDay } from '../types.ts';
+import { moveItem } from '../utils/playlists.ts';
+import {
+   ANCHORS,
+   DAY_LABELS,
+   MAX_SUN_OFFSET,
+   OVERRIDE_DURATIONS,
+   daysBetween,
+   describeDays,
+   describeTime,
+   formatClock,
+   formatRelative,
+   formatWhen,
+   newRule,
+   parseClock,
+   ruleColor,
+   scheduleProblem,
+   toggleDay,
+   weekDates,
+   zonedTime,
+} from '../utils/schedule.ts';
+
+interface Feedback {
+   message: string;
+   kind: 'success' | 'error';
+}
+
+const HOUR_MARKS = [0, 3, 6, 9, 12, 15, 18, 21];
+
+// Rules and overrides pick a preset or "off" from one list
+function targetValue(action: ScheduleAction, presetId: number | null): string {
+   return action === 'off' ? 'off' : `preset:${presetId}`;
+}
+
+function parseTarget(value: string): { action: ScheduleAction; presetId: number | null } {
+   return value === 'off' ? { action: 'off', presetId: null } : { action: 'preset', presetId: Number(value.slice(7)) };
+}
+
+function targetName(action: ScheduleAction, presetId: number | null, presets: SavedPreset[]): string {
+   if(action === 'off') return 'Off';
+   return presets.find((p) => p.id === presetId)?.presetName ?? '(deleted preset)';
+}
+
+function ruleLabel(rule: ScheduleRule, presets: SavedPreset[]): string {
+   return rule.name.trim() || targetName(rule.action, rule.presetId, presets);
+}
+
+function TargetOptions({ presets, current }: { presets: SavedPreset[]; current?: number | null }) {
+   return (
+      <>
+         {current != null && !presets.some((p) => p.id === current) && (
+            <option value={`preset:${current}`} disabled>(deleted preset)</option>
+         )}
+         {presets.map((p) => (
+            <option key={p.id} value={`preset:${p.id}`}>{p.presetName}</option>
+         ))}
+         <option value="off">Turn off</option>
+      </>
+   );
+}
+
+interface TimeFieldProps {
+   label: string;
+   value: TimeOfDay;
+   onChange: (value: TimeOfDay) => void;
+}
+
+// A clock time, or minutes before (negative) or after sunrise or sunset
+function TimeField({ label, value, onChange }: TimeFieldProps) {
+   function changeAnchor(anchor: TimeAnchor) {
+      if(anchor === value.anchor) return;
+      onChange({ anchor, minutes: anchor === 'clock' ? 12 * 60 : 0 });
+   }
+
+   return (
+      <div className="schedule-time-field">
+         <span className="schedule-field-label">{label}</span>
+         <select value={value.anchor} onChange={(e) => changeAnchor(e.target.value as TimeAnchor)}>
+            {ANCHORS.map(({ anchor, label: anchorLabel }) => (
+               <option key={anchor} value={anchor}>{anchorLabel}</option>
+            ))}
+         </select>
+         {value.anchor === 'clock'
+            ? (
+               <input
+                  type="time"
+                  value={formatClock(value.minutes)}
+                  onChange={(e) => {
+                     const minutes = parseClock(e.target.value);
+                     if(minutes !== null) onChange({ ...value, minutes });
+                  }}
+               />
+            )
+            : (
+               <label className="schedule-offset" title="Minutes after; negative for before">
+                  <input
+                     type="number"
+                     min={-MAX_SUN_OFFSET}
+                     max={MAX_SUN_OFFSET}
+                     step={5}
+                     value={value.minutes}
+                     onChange={(e) => onChange({
+                        ...value,
+                        minutes: Math.min(MAX_SUN_OFFSET, Math.max(-MAX_SUN_OFFSET, Math.round(Number(e.target.value) || 0))),
+                     })}
+                  />
+                  min
+               </label>
+            )
+         }
+      </div>
+   );
+}
+
+interface RuleEditorProps {
+   rule: ScheduleRule;
+   index: number;
+   count: number;
+   active: boolean;
+   presets: SavedPreset[];
+   onChange: (rule: ScheduleRule) => void;
+   onMove: (to: number) => void;
+   onRemove: () => void;
+}
+
+function RuleEditor({ rule, index, count, active, presets, onChange, onMove, onRemove }: RuleEditorProps) {
+   const everyDay = rule.days.length === 0;
+
+   return (
+      <li className={`schedule-rule${rule.enabled ? '' : ' schedule-rule--disabled'}${active ? ' schedule-rule--active' : ''}`}>
+         <div className="schedule-rule-row">
+            <span className="schedule-swatch" style={{ background: ruleColor(index) }} title={`Priority ${index + 1}`}>
+               {index + 1}
+            </span>
+            <input
+               type="checkbox"
+               title="Enabled"
+               checked={rule.enabled}
+               onChange={(e) => onChange({ ...rule, enabled: e.target.checked })}
+            />
+            <input
+               className="schedule-rule-name"
+               type="text"
+               placeholder={targetName(rule.action, rule.presetId, presets)}
+               value={rule.name}
+               onChange={(e) => onChange({ ...rule, name: e.target.value })}
+            />
+            <select
+               value={targetValue(rule.action, rule.presetId)}
+               onChange={(e) => onChange({ ...rule, ...parseTarget(e.target.value) })}>
+               <TargetOptions presets={presets} current={rule.presetId} />
+            </select>
+            <div className="saved-preset-actions">
+               <button
+                  className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+                  title="Higher priority"
+                  disabled={index === 0}
+                  onClick={() => onMove(index - 1)}>
+                  ↑
+               </button>
+               <button
+                  className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+                  title="Lower priority"
+                  disabled={index === count - 1}
+                  onClick={() => onMove(index + 1)}>
+                  ↓
+               </button>
+               <button
+                  className="settings-save-btn settings-save-btn--sm settings-save-btn--danger"
+                  title="Remove"
+                  onClick={onRemove}>
+                  ✕
+               </button>
+            </div>
+         </div>
+
+         <div className="schedule-rule-row">
+            <TimeField label="From" value={rule.start} onChange={(start) => onChange({ ...rule, start })} />
+            <TimeField label="To" value={rule.end} onChange={(end) => onChange({ ...rule, end })} />
+         </div>
+
+         <div className="schedule-rule-row">
+            <div className="schedule-days" role="group" aria-label="Days">
+               {DAY_LABELS.map((label, i) => {
+                  const on = everyDay || rule.days.includes(i + 1);
+                  return (
+                     <button
+                        key={label}
+                        className={`schedule-day${on ? ' active' : ''}`}
+                        aria-pressed={on}
+                        onClick={() => onChange({ ...rule, days: toggleDay(rule.days, i + 1) })}>
+                        {label}
+                     </button>
+                  );
+               })}
+            </div>
+            <label className="schedule-date" title="First day the rule applies">
+               <span className="schedule-field-label">Starting</span>
+               <input
+                  type="date"
+                  value={rule.from ?? ''}
+                  onChange={(e) => onChange({ ...rule, from: e.target.value || null })}
+               />
+            </label>
+            <label className="schedule-date" title="Last day the rule applies">
+               <span className="schedule-field-label">Until</span>
+               <input
+                  type="date"
+                  value={rule.until ?? ''}
+                  onChange={(e) => onChange({ ...rule, until: e.target.value || null })}
+               />
+            </label>
+         </div>
+      </li>
+   );
+}
+
+interface WeekCalendarProps {
+   state: ScheduleState;
+   presets: SavedPreset[];
+}
+
+// What plays when through this week, in the host's time zone
+function WeekCalendar({ state, presets }: WeekCalendarProps) {
+   const { rules } = state.schedule;
+   const dates = weekDates(state.weekStart);
+   const now = zonedTime(state.now, state.timeZone);
+   const today = daysBetween(state.weekStart, now.date);
+
+   return (
+      <div className="schedule-week">
+         <div className="schedule-week-header">
+            <span />
+            {DAY_LABELS.map((label, day) => (
+               <span key={label} className={day === today ? 'today' : undefined}>
+                  {label} <span className="schedule-week-date">{dates[day]}</span>
+               </span>
+            ))}
+         </div>
+         <div className="schedule-week-body">
+            <div className="schedule-hours">
+               {HOUR_MARKS.map((hour) => (
+                  <span key={hour} style={{ top: `${(hour / 24) * 100}%` }}>{formatClock(hour * 60)}</span>
+               ))}
+            </div>
+            {DAY_LABELS.map((label, day) => (
+               <div key={label} className={`schedule-day-column${day === today ? ' today' : ''}`}>
+                  {state.week.filter((block) => block.day === day).map((block) => {
+                     const rule = rules[block.rule];
+                     if(!rule) return null;
+                     const name = ruleLabel(rule, presets);
+                     return (
+                        <div
+                           key={`${block.start}:${block.rule}`}
+                           className={`schedule-block${rule.action === 'off' ? ' schedule-block--off' : ''}`}
+                           style={{
+                              top: `${(block.start / 1440) * 100}%`,
+                              height: `${((block.end - block.start) / 1440) * 100}%`,
+                              background: rule.action === 'off' ? undefined : ruleColor(block.rule),
+                              borderColor: ruleColor(block.rule),
+                           }}
+                           title={`${name}: ${formatClock(block.start)}–${formatClock(block.end)}`}>
+                           {block.end - block.start >= 60 && <span>{name}</span>}
+                        </div>
+                     );
+                  })}
+                  {day === today && (
+                     <div className="schedule-now" style={{ top: `${(now.minutes / 1440) * 100}%` }} />
+                  )}
+               </div>
+            ))}
+         </div>
+         {rules.length > 0 && (
+            <ul className="schedule-legend">
+               {rules.map((rule, i) => (
+                  <li key={i} className={rule.enabled ? undefined : 'schedule-legend--disabled'}>
+                     <span className="schedule-swatch" style={{ background: ruleColor(i) }}>{i + 1}</span>
+                     {ruleLabel(rule, presets)}
+                     <span className="schedule-legend-when">
+                        {describeTime(rule.start)}–{describeTime(rule.end)}, {describeDays(rule.days)}
+                     </span>
+                  </li>
+               ))}
+            </ul>
+         )}
+      </div>
+   );
+}
+
+interface StatusProps {
+   state: ScheduleState;
+   presets: SavedPreset[];
+   onOverride: (action: ScheduleAction, presetId: number | null, minutes: number) => void;
+   onClearOverride: () => void;
+}
+
+// What the schedule is doing now, when that changes, and the manual override
+function ScheduleStatus({ state, presets, onOverride, onClearOverride }: StatusProps) {
+   const [target, setTarget] = useState('off');
+   const [minutes, setMinutes] = useState(OVERRIDE_DURATIONS[1].minutes);
+   const { schedule, override, activeRule, nextChange } = state;
+   const active = activeRule !== null ? schedule.rules[activeRule] : undefined;
+   const activeIndex = activeRule ?? 0;
+
+   return (
+      <>
+         <p className="schedule-status">
+            {override
+               ? <>Overridden with <strong>{targetName(override.action, override.presetId, presets)}</strong> until {formatWhen(override.until, state.timeZone)}</>
+               : !schedule.enabled
+                  ? 'The schedule is turned off.'
+                  : active
+                     ? <>
+                        <span className="schedule-swatch" style={{ background: ruleColor(activeIndex) }}>{activeIndex + 1}</span>
+                        <strong>{ruleLabel(active, presets)}</strong> is in effect
+                     </>
+                     : 'No rule is in effect; whatever was picked last keeps showing.'
+            }
+         </p>
+         <p className="schedule-next">
+            {nextChange !== null
+               ? <>Next change {formatWhen(nextChange, state.timeZone)} ({formatRelative(nextChange - state.now)})</>
+               : 'Nothing changes in the coming week'}
+            <span className="schedule-zone"> · times in {state.timeZone}</span>
+         </p>
+
+         <div className="schedule-override">
+            <select value={target} onChange={(e) => setTarget(e.target.value)}>
+               <TargetOptions presets={presets} />
+            </select>
+            <select value={minutes} onChange={(e) => setMinutes(Number(e.target.value))}>
+               {OVERRIDE_DURATIONS.map((d) => (
+                  <option key={d.minutes} value={d.minutes}>for {d.label}</option>
+               ))}
+            </select>
+            <button
+               className="settings-save-btn settings-save-btn--sm"
+               onClick={() => {
+                  const { action, presetId } = parseTarget(target);
+                  onOverride(action, presetId, minutes);
+               }}>
+               Override
+            </button>
+            {override && (
+               <button className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral" onClick={onClearOverride}>
+                  Back to Schedule
+               </button>
+            )}
+         </div>
+      </>
+   );
+}
+
+export function ScheduleTab() {
+   const { state, loading, error, saveSchedule, setOverride, clearOverride } = useSchedule();
+   const { presets } = useSavedPatterns();
+   // Unsaved changes; null while the schedule matches the host's
+   const [draft, setDraft] = useState<Schedule | null>(null);
+   const [feedback, setFeedback] = useState<Feedback | null>(null);
+   const feedbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+   function showFeedback(message: string, kind: 'success' | 'error') {
+      setFeedback({ message, kind });
+      if(feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current);
+      feedbackTimerRef.current = setTimeout(() => setFeedback(null), 4000);
+   }
+
+   // Runs a request, reporting a failure in the feedback banner
+   async function attempt(action: () => Promise<unknown>, success?: string) {
+      try {
+         await action();
+         if(success) showFeedback(success, 'success');
+      }
+      catch(e) {
+         showFeedback(e instanceof Error ? e.message : 'Request failed', 'error');
+      }
+   }
+
+   if(loading) return <p className="settings-loading">Loading schedule…</p>;
+   if(error || !state) return <p className="settings-feedback settings-feedback--error">{error ?? 'No schedule'}</p>;
+
+   const schedule = draft ?? state.schedule;
+   const problem = scheduleProblem(schedule);
+   const edit = (patch: Partial<Schedule>) => setDraft({ ...schedule, ...patch });
+   const editRule = (index: number, rule: ScheduleRule) =>
+      edit({ rules: schedule.rules.map((r, i) => (i === index ? rule : r)) });
+
+   function locateFromBrowser() {
+      navigator.geolocation.getCurrentPosition(
+         (position) => edit({
+            latitude: Math.round(position.coords.latitude * 10000) / 10000,
+            longitude: Math.round(position.coords.longitude * 10000) / 10000,
+         }),
+         (e) => showFeedback(`Couldn't get location: ${e.message}`, 'error')
+      );
+   }
+
+   return (
+      <div className="settings-tab schedule-tab">
+         <div className="settings-card">
+            <h2 className="settings-card-title">Now</h2>
+            <ScheduleStatus
+               state={state}
+               presets={presets}
+               onOverride={(action, presetId, minutes) => attempt(() => setOverride(action, presetId, minutes), 'Override set')}
+               onClearOverride={() => attempt(clearOverride, 'Back on schedule')}
+            />
+         </div>
+
+         <div className="settings-card">
+            <h2 className="settings-card-title">This Week</h2>
+            <WeekCalendar state={state} presets={presets} />
+            {draft && <p className="schedule-hint">Save to see changes on the calendar</p>}
+         </div>
+
+         <div className="settings-card">
+            <h2 className="settings-card-title">Rules</h2>
+
+            <div className="schedule-settings">
+               <label className="schedule-enabled">
+                  <input
+                     type="checkbox"
+                     checked={schedule.enabled}
+                     onChange={(e) => edit({ enabled: e.target.checked })}
+                  />
+                  Run the schedule
+               </label>
+               <div className="schedule-location" title="Where the strips are, for sunrise and sunset">
+                  <label>
+                     <span className="schedule-field-label">Latitude</span>
+                     <input
+                        type="number"
+                        min={-90}
+                        max={90}
+                        step="any"
+                        value={schedule.latitude ?? ''}
+                        onChange={(e) => edit({ latitude: e.target.value === '' ? null : Number(e.target.value) })}
+                     />
+                  </label>
+                  <label>
+                     <span className="schedule-field-label">Longitude</span>
+                     <input
+                        type="number"
+                        min={-180}
+                        max={180}
+                        step="any"
+                        value={schedule.longitude ?? ''}
+                        onChange={(e) => edit({ longitude: e.target.value === '' ? null : Number(e.target.value) })}
+                     />
+                  </label>
+                  {'geolocation' in navigator && (
+                     <button
+                        className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+                        title="Use this browser's location"
+                        onClick={locateFromBrowser}>
+                        Locate
+                     </button>
+                  )}
+               </div>
+            </div>
+
+            {schedule.rules.length === 0
+               ? <p className="saved-patterns-empty">No rules yet</p>
+               : <p className="schedule-hint">Where rules overlap, the one higher in the list wins.</p>
+            }
+            <ol className="schedule-rules">
+               {schedule.rules.map((rule, index) => (
+                  <RuleEditor
+                     key={index}
+                     rule={rule}
+                     index={index}
+                     count={schedule.rules.length}
+                     active={!draft && !state.override && state.activeRule === index}
+                     presets={presets}
+                     onChange={(next) => editRule(index, next)}
+                     onMove={(to) => edit({ rules: moveItem(schedule.rules, index, to) })}
+                     onRemove={() => edit({ rules: schedule.rules.filter((_, i) => i !== index) })}
+                  />
+               ))}
+            </ol>
+
+            <div className="save-as-row">
+               <button
+                  className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+                  onClick={() => edit({ rules: [...schedule.rules, newRule(presets[0]?.id ?? null)] })}>
+                  + Add Rule
+               </button>
+               {problem && <span className="schedule-problem">{problem}</span>}
+               <button
+                  className="settings-save-btn settings-save-btn--sm"
+                  disabled={!draft || problem !== null}
+                  onClick={() => attempt(async () => {
+                     await saveSchedule(schedule);
+                     setDraft(null);
+                  }, 'Schedule saved')}>
+                  Save
+               </button>
+               <button
+                  className="settings-save-btn settings-save-btn--sm settings-save-btn--neutral"
+                  disabled={!draft}
+                  onClick={() => setDraft(null)}>
+                  Revert
+               </button>
+            </div>
+         </div>
+
+         {feedback && (
+            <div className={`settings-feedback settings-feedback--${feedback.kind}`}>
+               {feedback.message}
+            </div>
+         )}
+      </div>
+   );
+}
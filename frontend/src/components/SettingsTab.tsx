@@ -2,7 +2,26 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { useSettings } from '../hooks/useSettings.ts';
 import { useStripSettings } from '../hooks/useStripSettings.ts';
 import { useSavedPatterns } from '../hooks/useSavedPatterns.ts';
-import type { StripSetting, StripSettingInput } from '../types.ts';
+import { usePlaylists } from '../hooks/usePlaylists.ts';
+import { useBackgroundImage } from '../hooks/useBackgroundImage.ts';
+import { useStripCoverage } from '../hooks/useStripCoverage.ts';
+import { cropSuggestion } from '../utils/coverage.ts';
+import type { BackgroundTransform, Corner } from '../utils/backgroundTransform.ts';
+import {
+   BACKGROUND_ROTATION_RANGE,
+   BACKGROUND_SCALE_RANGE,
+   CORNERS,
+   IDENTITY_BACKGROUND_TRANSFORM,
+   affineQuad,
+   backgroundQuad,
+   containSize,
+   cornerKeys,
+   pickBackgroundTransform,
+} from '../utils/backgroundTransform.ts';
+import { stripColor } from '../utils/stripGeometry.ts';
+import { AlignedPhoto } from './AlignedPhoto.tsx';
+import { CalibrationWizard } from './CalibrationWizard.tsx';
+import type { ScalarSettings, StripSetting, StripSettingInput } from '../types.ts';
 
 // ── Feedback helper ────────────────────────────────────────────────────────
 
@@ -45,7 +64,71 @@ function FeedbackBanner({ feedback }: { feedback: FeedbackState }) {
 
 // ── Viewport & Performance section ────────────────────────────────────────
 
-function ViewportSection() {
+/**
+ * Offers to shrink the viewport to the strips' bounding box, moving every strip
+ * by the same amount so each LED keeps sampling the same part of the pattern.
+ */
+function CropToStrips({ onCropped }: { onCropped: (width: number, height: number) => void }) {
+   const { settings, loading, saveSettings } = useSettings();
+   const { strips, updateStrip } = useStripSettings();
+   const coverage = useStripCoverage(!loading, settings.viewportWidth, settings.viewportHeight);
+   const { feedback, show } = useFeedback();
+   const [confirming, setConfirming] = useState(false);
+   const [done, setDone] = useState(false);
+
+   const suggestion = coverage ? cropSuggestion(coverage) : null;
+   if(!coverage || !suggestion || done) return <FeedbackBanner feedback={feedback} />;
+
+   const { width, height, offsetX, offsetY } = suggestion;
+
+   const handleCrop = async () => {
+      setConfirming(false);
+      for(const strip of strips) {
+         if(strip.startX === null || strip.startY === null || strip.endX === null || strip.endY === null) continue;
+         const result = await updateStrip(strip.id, {
+            startX: strip.startX - offsetX,
+            startY: strip.startY - offsetY,
+            endX: strip.endX - offsetX,
+            endY: strip.endY - offsetY,
+         });
+         if(!result.ok) {
+            show('error', `Strip ${strip.id}: ${result.error ?? 'update failed'}`);
+            return;
+         }
+      }
+      const result = await saveSettings({ viewportWidth: width, viewportHeight: height });
+      if(!result.ok) {
+         show('error', result.error ?? 'Save failed');
+         return;
+      }
+      setDone(true);
+      onCropped(width, height);
+      show('success', `Viewport cropped to ${width}×${height}; restart the host to apply`);
+   };
+
+   return (
+      <div className="settings-crop-suggestion">
+         <span>
+            The strips only cover {width}×{height} of the {coverage.width}×{coverage.height} viewport,
+            from ({offsetX},{offsetY}).
+         </span>
+         {confirming ? (
+            <>
+               <span className="settings-confirm-label">Move every strip by ({-offsetX},{-offsetY})?</span>
+               <button className="settings-save-btn settings-save-btn--sm" onClick={handleCrop}>Yes</button>
+               <button className="settings-save-btn settings-save-btn--neutral settings-save-btn--sm"
+                  onClick={() => setConfirming(false)}>No</button>
+            </>
+         ) : (
+            <button className="settings-save-btn settings-save-btn--sm" onClick={() => setConfirming(true)}>
+               Crop to {width}×{height}
+            </button>
+         )}
+      </div>
+   );
+}
+
+function ViewportSection({ onCropped }: { onCropped: () => void }) {
    const { settings, loading, saveSettings } = useSettings();
    const { feedback, show } = useFeedback();
 
@@ -135,6 +218,13 @@ function ViewportSection() {
             Save
          </button>
          <FeedbackBanner feedback={feedback} />
+         <CropToStrips
+            onCropped={(width, height) => {
+               setW(String(width));
+               setH(String(height));
+               onCropped();
+            }}
+         />
       </>
    );
 }
@@ -256,10 +346,184 @@ function BackgroundImageSection() {
             )}
          </div>
          <FeedbackBanner feedback={feedback} />
+         {previewUrl && <BackgroundAlignmentSection imageUrl={previewUrl} />}
       </>
    );
 }
 
+function AlignmentSlider({
+   label,
+   min,
+   max,
+   step,
+   value,
+   format,
+   onChange,
+}: {
+   label: string;
+   min: number;
+   max: number;
+   step: number;
+   value: number;
+   format: (value: number) => string;
+   onChange: (value: number) => void;
+}) {
+   return (
+      <div className="settings-field settings-field--slider">
+         <label>{label}</label>
+         <input type="range" min={min} max={max} step={step} value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value))} />
+         <span className="settings-slider-value">{format(value)}</span>
+      </div>
+   );
+}
+
+/**
+ * Lines the photo up with the viewport: scale, offset, rotation and opacity
+ * sliders, plus a corner handle for each perspective nudge. The preview shows the
+ * strips over the photo as it will appear on the Pattern tab, and every change
+ * is saved once the controls settle so all clients share the alignment.
+ */
+function BackgroundAlignment({ imageUrl, initial, saveSettings }: {
+   imageUrl: string;
+   initial: ScalarSettings;
+   saveSettings: (partial: Partial<ScalarSettings>) => Promise<{ ok: boolean; error?: string }>;
+}) {
+   const { viewportWidth, viewportHeight } = initial;
+   const { strips } = useStripSettings();
+   const { feedback, show } = useFeedback();
+   const [transform, setTransform] = useState<BackgroundTransform>(() => pickBackgroundTransform(initial));
+   const [photoSize, setPhotoSize] = useState<{ width: number; height: number } | null>(null);
+   const [dragging, setDragging] = useState<Corner | null>(null);
+   const boxRef = useRef<HTMLDivElement>(null);
+   const edited = useRef(false);
+
+   useEffect(() => {
+      if(!edited.current) return;
+      const timeout = setTimeout(async () => {
+         const result = await saveSettings(transform);
+         if(!result.ok) show('error', result.error ?? 'Save failed');
+      }, 300);
+      return () => clearTimeout(timeout);
+   }, [transform, saveSettings, show]);
+
+   const change = (partial: Partial<BackgroundTransform>) => {
+      edited.current = true;
+      setTransform((prev) => ({ ...prev, ...partial }));
+   };
+
+   const fitted = photoSize
+      ? containSize(photoSize.width, photoSize.height, viewportWidth, viewportHeight)
+      : null;
+   const quad = fitted
+      ? backgroundQuad(fitted.width, fitted.height, viewportWidth, viewportHeight, transform)
+      : null;
+   const unit = Math.max(viewportWidth, viewportHeight) / 90;
+
+   // A corner's nudge is how far the pointer is from where scale, offset and rotation put it
+   const handleCornerMove = (e: React.PointerEvent) => {
+      if(!dragging || !fitted || !boxRef.current) return;
+      const rect = boxRef.current.getBoundingClientRect();
+      const x = ((e.clientX - rect.left) / rect.width) * viewportWidth;
+      const y = ((e.clientY - rect.top) / rect.height) * viewportHeight;
+      const base = affineQuad(fitted.width, fitted.height, viewportWidth, viewportHeight, transform)[CORNERS.indexOf(dragging)];
+      const [kx, ky] = cornerKeys(dragging);
+      change({ [kx]: Math.round((x - base.x) * 10) / 10, [ky]: Math.round((y - base.y) * 10) / 10 });
+   };
+
+   const resetCorners = () => {
+      const corners: Partial<BackgroundTransform> = {};
+      for(const corner of CORNERS) {
+         const [kx, ky] = cornerKeys(corner);
+         corners[kx] = 0;
+         corners[ky] = 0;
+      }
+      change(corners);
+   };
+
+   return (
+      <div className="settings-bg-alignment">
+         <div
+            ref={boxRef}
+            className="settings-bg-align-preview"
+            style={{ aspectRatio: `${viewportWidth} / ${viewportHeight}` }}
+            onPointerMove={handleCornerMove}
+            onPointerUp={() => setDragging(null)}
+            onPointerCancel={() => setDragging(null)}
+         >
+            <AlignedPhoto
+               src={imageUrl}
+               alt="Aligned background"
+               viewportWidth={viewportWidth}
+               viewportHeight={viewportHeight}
+               transform={transform}
+               onPhotoSize={(width, height) => setPhotoSize({ width, height })}
+            />
+            <svg viewBox={`0 0 ${viewportWidth} ${viewportHeight}`} preserveAspectRatio="none">
+               {strips.map((strip, index) => (
+                  strip.startX !== null && strip.startY !== null && strip.endX !== null && strip.endY !== null && (
+                     <line key={strip.id}
+                        x1={strip.startX + 0.5} y1={strip.startY + 0.5}
+                        x2={strip.endX + 0.5} y2={strip.endY + 0.5}
+                        stroke={stripColor(index)} strokeWidth={unit * 0.4} />
+                  )
+               ))}
+               {quad && (
+                  <>
+                     <polygon className="settings-bg-align-outline"
+                        points={quad.map((p) => `${p.x},${p.y}`).join(' ')} />
+                     {quad.map((p, i) => (
+                        <circle key={CORNERS[i]}
+                           className={`settings-bg-align-handle${dragging === CORNERS[i] ? ' dragging' : ''}`}
+                           cx={p.x} cy={p.y} r={unit * 1.2} strokeWidth={unit * 0.3}
+                           onPointerDown={(e) => {
+                              e.currentTarget.setPointerCapture(e.pointerId);
+                              setDragging(CORNERS[i]);
+                           }}>
+                           <title>Drag to adjust the perspective</title>
+                        </circle>
+                     ))}
+                  </>
+               )}
+            </svg>
+         </div>
+         <div className="settings-fields">
+            <AlignmentSlider label="Scale" {...BACKGROUND_SCALE_RANGE} step={0.01}
+               value={transform.backgroundScale} format={(v) => `${v.toFixed(2)}×`}
+               onChange={(v) => change({ backgroundScale: v })} />
+            <AlignmentSlider label="Rotation" {...BACKGROUND_ROTATION_RANGE} step={0.5}
+               value={transform.backgroundRotation} format={(v) => `${v.toFixed(1)}°`}
+               onChange={(v) => change({ backgroundRotation: v })} />
+            <AlignmentSlider label="Offset X (px)" min={-viewportWidth} max={viewportWidth} step={0.5}
+               value={transform.backgroundOffsetX} format={(v) => v.toFixed(1)}
+               onChange={(v) => change({ backgroundOffsetX: v })} />
+            <AlignmentSlider label="Offset Y (px)" min={-viewportHeight} max={viewportHeight} step={0.5}
+               value={transform.backgroundOffsetY} format={(v) => v.toFixed(1)}
+               onChange={(v) => change({ backgroundOffsetY: v })} />
+            <AlignmentSlider label="Opacity (%)" min={0} max={100} step={1}
+               value={transform.backgroundOpacity} format={(v) => String(v)}
+               onChange={(v) => change({ backgroundOpacity: v })} />
+         </div>
+         <div className="settings-bg-actions">
+            <button className="settings-save-btn settings-save-btn--neutral" onClick={resetCorners}>
+               Reset Corners
+            </button>
+            <button className="settings-save-btn settings-save-btn--neutral"
+               onClick={() => change(IDENTITY_BACKGROUND_TRANSFORM)}>
+               Reset Alignment
+            </button>
+         </div>
+         <FeedbackBanner feedback={feedback} />
+      </div>
+   );
+}
+
+function BackgroundAlignmentSection({ imageUrl }: { imageUrl: string }) {
+   const { settings, loading, saveSettings } = useSettings();
+   if(loading) return <p className="settings-loading">Loading…</p>;
+   return <BackgroundAlignment imageUrl={imageUrl} initial={settings} saveSettings={saveSettings} />;
+}
+
 // ── Strip Controllers section ──────────────────────────────────────────────
 
 function emptyInput(): StripSettingInput {
@@ -268,10 +532,12 @@ function emptyInput(): StripSettingInput {
 
 function StripRow({
    strip,
+   highlighted,
    onSave,
    onDelete,
 }: {
    strip: StripSetting;
+   highlighted: boolean;
    onSave: (id: number, input: Partial<StripSettingInput>) => Promise<{ ok: boolean; error?: string }>;
    onDelete: (id: number) => Promise<{ ok: boolean; error?: string }>;
 }) {
@@ -304,7 +570,7 @@ function StripRow({
    };
 
    return (
-      <div className="settings-strip-row">
+      <div className={`settings-strip-row${highlighted ? ' highlighted' : ''}`}>
          {editing ? (
             <div className="settings-strip-edit">
                <div className="settings-strip-edit-grid">
@@ -390,10 +656,14 @@ function StripRow({
    );
 }
 
-function StripsSection() {
+function StripsSection({ focusedStripId }: { focusedStripId: number | null }) {
    const { strips, loading, addStrip, updateStrip, deleteStrip } = useStripSettings();
+   const listRef = useRef<HTMLDivElement>(null);
+   const { settings } = useSettings();
+   const backgroundImageUrl = useBackgroundImage();
    const { feedback, show } = useFeedback();
    const [adding, setAdding] = useState(false);
+   const [calibrating, setCalibrating] = useState(false);
    const [newStrip, setNewStrip] = useState<StripSettingInput>(emptyInput());
 
    const handleAdd = async () => {
@@ -415,11 +685,35 @@ function StripsSection() {
       }
    };
 
+   const handleCalibrationClose = (message?: string) => {
+      setCalibrating(false);
+      if(message) show('success', message);
+   };
+
+   // Bring the strip last hovered in the preview into view once the list is there
+   useEffect(() => {
+      listRef.current?.querySelector('.highlighted')?.scrollIntoView({ block: 'nearest' });
+   }, [loading, focusedStripId]);
+
    if(loading) return <p className="settings-loading">Loading…</p>;
 
+   if(calibrating && backgroundImageUrl && settings) {
+      return (
+         <CalibrationWizard
+            strips={strips}
+            backgroundImageUrl={backgroundImageUrl}
+            backgroundTransform={settings}
+            viewportWidth={settings.viewportWidth}
+            viewportHeight={settings.viewportHeight}
+            onUpdateStrip={updateStrip}
+            onClose={handleCalibrationClose}
+         />
+      );
+   }
+
    return (
       <>
-         <div className="settings-strips-list">
+         <div className="settings-strips-list" ref={listRef}>
             {strips.length === 0 ? (
                <p className="settings-empty">No strips configured.</p>
             ) : (
@@ -427,6 +721,7 @@ function StripsSection() {
                   <StripRow
                      key={strip.id}
                      strip={strip}
+                     highlighted={strip.id === focusedStripId}
                      onSave={updateStrip}
                      onDelete={deleteStrip}
                   />
@@ -501,10 +796,18 @@ function StripsSection() {
                <FeedbackBanner feedback={feedback} />
             </div>
          ) : (
-            <button className="settings-save-btn settings-add-strip-btn"
-               onClick={() => setAdding(true)}>
-               + Add Strip
-            </button>
+            <div className="settings-strip-edit-actions">
+               <button className="settings-save-btn settings-add-strip-btn"
+                  onClick={() => setAdding(true)}>
+                  + Add Strip
+               </button>
+               <button className="settings-save-btn settings-save-btn--neutral settings-add-strip-btn"
+                  onClick={() => setCalibrating(true)}
+                  disabled={!backgroundImageUrl || !settings || strips.length === 0}
+                  title={backgroundImageUrl ? undefined : 'Upload a background image first'}>
+                  Calibrate from Photo
+               </button>
+            </div>
          )}
 
          {!adding && <FeedbackBanner feedback={feedback} />}
@@ -516,7 +819,10 @@ function StripsSection() {
 
 function StartupPatternSection() {
    const { presets, loading } = useSavedPatterns();
+   const { playlists, player, setStartup } = usePlaylists();
    const [activePresetName, setActivePresetName] = useState<string | null>(null);
+   // The startup playlist picked here (null for a preset), ahead of the player state; undefined until then
+   const [pickedPlaylistId, setPickedPlaylistId] = useState<number | null | undefined>(undefined);
    const { feedback, show } = useFeedback();
 
    useEffect(() => {
@@ -526,16 +832,30 @@ function StartupPatternSection() {
          .catch(() => {});
    }, []);
 
+   const startupPlaylistId = pickedPlaylistId === undefined ? player.startupPlaylistId : pickedPlaylistId;
+
    async function handleChange(e: React.ChangeEvent<HTMLSelectElement>) {
-      const presetName = e.target.value;
-      if(!presetName) return;
-      const preset = presets.find((p) => p.presetName === presetName);
+      const [kind, key] = e.target.value.split(/:(.*)/s);
+      if(kind === 'playlist') {
+         const playlist = playlists.find((p) => p.id === Number(key));
+         if(!playlist) return;
+         try {
+            await setStartup(playlist.id);
+            setPickedPlaylistId(playlist.id);
+            show('success', `Playlist "${playlist.name}" will play on next startup`);
+         } catch(e) {
+            show('error', e instanceof Error ? e.message : String(e));
+         }
+         return;
+      }
+      const preset = presets.find((p) => p.presetName === key);
       if(!preset) return;
       try {
          const res = await fetch(`/api/saved-patterns/${preset.id}/load`, { method: 'POST' });
          if(res.ok) {
-            setActivePresetName(presetName);
-            show('success', `"${presetName}" will load on next startup`);
+            setActivePresetName(preset.presetName);
+            setPickedPlaylistId(null);
+            show('success', `"${preset.presetName}" will load on next startup`);
          } else {
             show('error', 'Failed to set startup pattern');
          }
@@ -550,18 +870,31 @@ function StartupPatternSection() {
       return <p className="settings-empty">No saved patterns yet. Save a pattern from the Pattern tab first.</p>;
    }
 
+   const value = startupPlaylistId !== null
+      ? `playlist:${startupPlaylistId}`
+      : activePresetName ? `preset:${activePresetName}` : '';
+
    return (
       <>
          <div className="settings-field">
             <label htmlFor="startup-pattern-select">Active on Startup</label>
             <select
                id="startup-pattern-select"
-               value={activePresetName ?? ''}
+               value={value}
                onChange={handleChange}>
                <option value="" disabled>— none selected —</option>
-               {presets.map((p) => (
-                  <option key={p.id} value={p.presetName}>{p.presetName}</option>
-               ))}
+               <optgroup label="Presets">
+                  {presets.map((p) => (
+                     <option key={p.id} value={`preset:${p.presetName}`}>{p.presetName}</option>
+                  ))}
+               </optgroup>
+               {playlists.length > 0 && (
+                  <optgroup label="Playlists">
+                     {playlists.map((p) => (
+                        <option key={p.id} value={`playlist:${p.id}`}>{p.name}</option>
+                     ))}
+                  </optgroup>
+               )}
             </select>
          </div>
          <FeedbackBanner feedback={feedback} />
@@ -571,7 +904,15 @@ function StartupPatternSection() {
 
 // ── Root SettingsTab ───────────────────────────────────────────────────────
 
-export function SettingsTab() {
+interface SettingsTabProps {
+   /** The strip last hovered in the preview's annotations overlay. */
+   focusedStripId?: number | null;
+}
+
+export function SettingsTab({ focusedStripId = null }: SettingsTabProps) {
+   // Cropping the viewport moves the strips; remount their section to show the new positions
+   const [stripsVersion, setStripsVersion] = useState(0);
+
    return (
       <div className="settings-tab">
          <SectionCard title="Startup Pattern">
@@ -579,7 +920,7 @@ export function SettingsTab() {
          </SectionCard>
 
          <SectionCard title="Viewport & Performance">
-            <ViewportSection />
+            <ViewportSection onCropped={() => setStripsVersion((v) => v + 1)} />
          </SectionCard>
 
          <SectionCard title="Background Image">
@@ -587,7 +928,7 @@ export function SettingsTab() {
          </SectionCard>
 
          <SectionCard title="Strip Controllers">
-            <StripsSection />
+            <StripsSection key={stripsVersion} focusedStripId={focusedStripId} />
          </SectionCard>
       </div>
    );
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import type { ParamValue, RecordedFrame, RecordingMetadata, StripSetting } from '../types.ts';
+import type { ViewportStream } from '../hooks/useViewportStream.ts';
+import type { BackgroundTransform } from '../utils/backgroundTransform.ts';
+import type { Snapshot } from '../utils/snapshot.ts';
+import {
+   SNAPSHOT_PIXEL_SIZES,
+   captureLiveFrame,
+   snapshotBaseName,
+   snapshotCsv,
+   snapshotJson,
+   snapshotPng,
+} from '../utils/snapshot.ts';
+import { loadImage } from '../utils/exportLayers.ts';
+import { ledPositions } from '../utils/stripGeometry.ts';
+import { downloadBlob } from '../utils/download.ts';
+
+interface SnapshotControlsProps {
+   stream: ViewportStream;
+   /** The recording frame on screen, captured instead of the live stream while one is shown. */
+   playbackFrame: RecordedFrame | null;
+   playbackMetadata: RecordingMetadata | null;
+   pattern: string;
+   params: Record<string, ParamValue>;
+   backgroundImageUrl: string | null;
+   backgroundTransform: BackgroundTransform;
+   stripSettings: StripSetting[];
+   showViewport: boolean;
+   showStrips: boolean;
+   showBackground: boolean;
+}
+
+/**
+ * Captures the frame on screen and exports it: a PNG of the chosen layers with
+ * the pattern and parameters embedded, and the LEDs' colors for that same frame
+ * as JSON or CSV.
+ */
+export function SnapshotControls({
+   stream,
+   playbackFrame,
+   playbackMetadata,
+   pattern,
+   params,
+   backgroundImageUrl,
+   backgroundTransform,
+   stripSettings,
+   showViewport,
+   showStrips,
+   showBackground,
+}: SnapshotControlsProps) {
+   // Layers default to what is on screen when the panel opens
+   const [layers, setLayers] = useState({
+      viewport: showViewport,
+      strips: showStrips,
+      background: showBackground && backgroundImageUrl !== null,
+   });
+   const [pixelSize, setPixelSize] = useState(8);
+   const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+   const [busy, setBusy] = useState(false);
+   const [error, setError] = useState<string | null>(null);
+
+   const handleCapture = async () => {
+      setError(null);
+      if(playbackFrame && playbackMetadata) {
+         const capturedAt = new Date(Date.parse(playbackMetadata.startedAt) + playbackFrame.time).toISOString();
+         setSnapshot({ pattern: playbackMetadata.pattern, params: playbackMetadata.params, capturedAt, frame: playbackFrame });
+         return;
+      }
+      setBusy(true);
+      try {
+         const frame = await captureLiveFrame(stream);
+         setSnapshot({ pattern, params, capturedAt: new Date().toISOString(), frame });
+      }
+      catch(e) {
+         setError(e instanceof Error ? e.message : 'Capture failed');
+      }
+      finally {
+         setBusy(false);
+      }
+   };
+
+   const handlePng = async () => {
+      if(!snapshot) return;
+      setError(null);
+      setBusy(true);
+      try {
+         const blob = await snapshotPng(snapshot, {
+            viewport: layers.viewport,
+            strips: layers.strips ? stripSettings.map(ledPositions) : null,
+            background: layers.background && backgroundImageUrl
+               ? { image: await loadImage(backgroundImageUrl), transform: backgroundTransform }
+               : null,
+         }, pixelSize);
+         downloadBlob(blob, `${snapshotBaseName(snapshot)}.png`);
+      }
+      catch(e) {
+         setError(e instanceof Error ? e.message : 'PNG export failed');
+      }
+      finally {
+         setBusy(false);
+      }
+   };
+
+   return (
+      <div className="preview-snapshot-panel" onPointerDown={(e) => e.stopPropagation()}>
+         <div className="record-layers">
+            <label>
+               <input type="checkbox" checked={layers.viewport}
+                  onChange={(e) => setLayers({ ...layers, viewport: e.target.checked })} />
+               Viewport
+            </label>
+            <label>
+               <input type="checkbox" checked={layers.strips}
+                  onChange={(e) => setLayers({ ...layers, strips: e.target.checked })} />
+               LEDs
+            </label>
+            {backgroundImageUrl && (
+               <label>
+                  <input type="checkbox" checked={layers.background}
+                     onChange={(e) => setLayers({ ...layers, background: e.target.checked })} />
+                  Background
+               </label>
+            )}
+         </div>
+         <div className="record-row">
+            <select value={pixelSize} onChange={(e) => setPixelSize(Number(e.target.value))}
+               title="PNG pixels per viewport pixel">
+               {SNAPSHOT_PIXEL_SIZES.map((size) => (
+                  <option key={size} value={size}>×{size}</option>
+               ))}
+            </select>
+            <button onClick={handleCapture} disabled={busy}
+               title={playbackFrame ? 'Capture the recording frame on screen' : 'Capture the next live frame'}>
+               Capture
+            </button>
+         </div>
+         {snapshot && (
+            <>
+               <span className="record-status">
+                  {snapshot.pattern || 'Snapshot'} · {new Date(snapshot.capturedAt).toLocaleTimeString()} ·{' '}
+                  {snapshot.frame.width * pixelSize}×{snapshot.frame.height * pixelSize}
+               </span>
+               <div className="record-row">
+                  <button onClick={handlePng} disabled={busy} title="The chosen layers, with pattern and parameters embedded">
+                     PNG
+                  </button>
+                  <button onClick={() => downloadBlob(snapshotJson(snapshot, stripSettings), `${snapshotBaseName(snapshot)}.json`)}
+                     title="Every LED's position and color, with pattern and parameters">
+                     JSON
+                  </button>
+                  <button onClick={() => downloadBlob(snapshotCsv(snapshot, stripSettings), `${snapshotBaseName(snapshot)}.csv`)}
+                     title="Every LED's position and color; the JSON holds the pattern and parameters">
+                     CSV
+                  </button>
+               </div>
+            </>
+         )}
+         {error && <div className="record-error">{error}</div>}
+      </div>
+   );
+}
@@ -0,0 +1,101 @@
+import type { StripSetting } from '../types.ts';
+import { ledPositions, stripColor } from '../utils/stripGeometry.ts';
+
+interface StripAnnotationsProps {
+   strips: StripSetting[];
+   viewportWidth: number;
+   viewportHeight: number;
+   /** Label every this many LEDs with a tick and its index. */
+   tickInterval: number;
+   /** The strip last hovered here; drawn highlighted. */
+   focusedStripId: number | null;
+   onStripHover: (id: number) => void;
+   /** Preview zoom factor; labels shrink with it so they keep the same on-screen size. */
+   zoom?: number;
+}
+
+/**
+ * Read-only overlay naming each strip and showing how data runs along it: a label
+ * at LED 0, an arrow towards the last LED (so it follows `reverse`) and index
+ * ticks. Only the strips themselves take the pointer, so panning still works.
+ */
+export function StripAnnotations({
+   strips,
+   viewportWidth,
+   viewportHeight,
+   tickInterval,
+   focusedStripId,
+   onStripHover,
+   zoom = 1,
+}: StripAnnotationsProps) {
+   if(viewportWidth <= 0 || viewportHeight <= 0) return null;
+
+   const unit = Math.max(viewportWidth, viewportHeight) / 90 / zoom;
+
+   return (
+      <svg
+         id="strip-annotations"
+         viewBox={`0 0 ${viewportWidth} ${viewportHeight}`}
+         preserveAspectRatio="none"
+      >
+         <defs>
+            <marker id="annotation-arrow" viewBox="0 0 10 10" refX="5" refY="5"
+               markerWidth="5" markerHeight="5" orient="auto-start-reverse">
+               <path d="M 0 0 L 10 5 L 0 10 z" fill="context-stroke" />
+            </marker>
+         </defs>
+         {strips.map((strip, index) => {
+            const positions = ledPositions(strip);
+            if(!positions || positions.length === 0) return null;
+            const color = stripColor(index);
+            const first = positions[0];
+            const last = positions[positions.length - 1];
+            const x1 = first.x + 0.5;
+            const y1 = first.y + 0.5;
+            const x2 = last.x + 0.5;
+            const y2 = last.y + 0.5;
+
+            // Unit normal to the strip, for ticks and for keeping the label off the line
+            const length = Math.hypot(x2 - x1, y2 - y1);
+            const nx = length > 0 ? -(y2 - y1) / length : 0;
+            const ny = length > 0 ? (x2 - x1) / length : -1;
+
+            const ticks: number[] = [];
+            for(let i = 0; i < positions.length; i += tickInterval) ticks.push(i);
+
+            return (
+               <g key={strip.id}
+                  className={`annotation-strip${strip.id === focusedStripId ? ' focused' : ''}`}
+                  onPointerEnter={() => onStripHover(strip.id)}>
+                  <line x1={x1} y1={y1} x2={x2} y2={y2}
+                     className="annotation-hit"
+                     strokeWidth={unit * 3} />
+                  <line x1={x1} y1={y1} x2={x2} y2={y2}
+                     stroke={color}
+                     className="annotation-arrow"
+                     markerEnd="url(#annotation-arrow)" />
+                  <circle cx={x1} cy={y1} r={unit * 0.6} fill={color} className="annotation-start" />
+                  {ticks.map((i) => {
+                     const p = positions[i];
+                     const px = p.x + 0.5;
+                     const py = p.y + 0.5;
+                     return (
+                        <g key={i} className="annotation-tick">
+                           <line x1={px - nx * unit} y1={py - ny * unit} x2={px + nx * unit} y2={py + ny * unit}
+                              stroke={color} />
+                           <text x={px + nx * unit * 2.2} y={py + ny * unit * 2.2} fontSize={unit * 1.4} fill={color}>
+                              {i}
+                           </text>
+                        </g>
+                     );
+                  })}
+                  <text x={x1 - nx * unit * 3} y={y1 - ny * unit * 3} fontSize={unit * 2}
+                     fill={color} className="annotation-label">
+                     #{strip.id} {strip.btName}
+                  </text>
+               </g>
+            );
+         })}
+      </svg>
+   );
+}
@@ -0,0 +1,225 @@
+import { useState, useRef, useMemo } from 'react';
+import type { StripSetting, StripSettingInput } from '../types.ts';
+import { ledPositions, stripColor, type Point } from '../utils/stripGeometry.ts';
+import { clientToViewport } from '../utils/viewportCoords.ts';
+
+interface StripLayoutEditorProps {
+   strips: StripSetting[];
+   viewportWidth: number;
+   viewportHeight: number;
+   onUpdateStrip: (id: number, input: Partial<StripSettingInput>) => Promise<{ ok: boolean; error?: string }>;
+   /** Preview zoom factor; handles shrink with it so they keep the same on-screen size. */
+   zoom?: number;
+}
+
+type Geometry = Pick<StripSetting, 'startX' | 'startY' | 'endX' | 'endY'>;
+type Handle = 'start' | 'end' | 'body';
+
+interface DragState {
+   id: number;
+   handle: Handle;
+   grab: Point;
+   origin: Geometry;
+}
+
+function clamp(n: number, lo: number, hi: number): number {
+   return Math.max(lo, Math.min(hi, n));
+}
+
+function isPlaced(g: Geometry): boolean {
+   return g.startX !== null && g.startY !== null && g.endX !== null && g.endY !== null;
+}
+
+/**
+ * Interactive overlay for placing strips on the viewport. Handles snap to whole
+ * viewport pixels; the drag is kept as a local draft and only persisted (via
+ * onUpdateStrip) when the pointer is released.
+ */
+export function StripLayoutEditor({ strips, viewportWidth, viewportHeight, onUpdateStrip, zoom = 1 }: StripLayoutEditorProps) {
+   const svgRef = useRef<SVGSVGElement>(null);
+   const [selectedId, setSelectedId] = useState<number | null>(null);
+   const [drafts, setDrafts] = useState<Record<number, Geometry>>({});
+   const [drag, setDrag] = useState<DragState | null>(null);
+   const [error, setError] = useState<string | null>(null);
+
+   const handleRadius = Math.max(viewportWidth, viewportHeight) / 90 / zoom;
+
+   // Strips with any pending draft geometry applied
+   const effective = useMemo(
+      () => strips.map((s) => (drafts[s.id] ? { ...s, ...drafts[s.id] } : s)),
+      [strips, drafts],
+   );
+
+   const selected = effective.find((s) => s.id === selectedId) ?? null;
+   const unplaced = effective.filter((s) => !isPlaced(s));
+
+   const toViewport = (e: React.PointerEvent): Point =>
+      clientToViewport(svgRef.current!.getBoundingClientRect(), e.clientX, e.clientY, viewportWidth, viewportHeight);
+
+   const persist = async (id: number, input: Partial<StripSettingInput>) => {
+      const result = await onUpdateStrip(id, input);
+      setError(result.ok ? null : (result.error ?? 'Update failed'));
+      setDrafts((prev) => {
+         const next = { ...prev };
+         delete next[id];
+         return next;
+      });
+   };
+
+   const handlePointerDown = (e: React.PointerEvent, strip: StripSetting, handle: Handle) => {
+      e.stopPropagation();
+      setSelectedId(strip.id);
+      svgRef.current?.setPointerCapture(e.pointerId);
+      setDrag({
+         id: strip.id,
+         handle,
+         grab: toViewport(e),
+         origin: { startX: strip.startX, startY: strip.startY, endX: strip.endX, endY: strip.endY },
+      });
+   };
+
+   const handlePointerMove = (e: React.PointerEvent) => {
+      if(!drag) return;
+      const p = toViewport(e);
+      const o = drag.origin as { startX: number; startY: number; endX: number; endY: number };
+      let next: Geometry;
+      if(drag.handle === 'start') {
+         next = { ...o, startX: p.x, startY: p.y };
+      }
+      else if(drag.handle === 'end') {
+         next = { ...o, endX: p.x, endY: p.y };
+      }
+      else {
+         // Move both ends together, keeping the whole strip inside the viewport
+         const dx = clamp(p.x - drag.grab.x, -Math.min(o.startX, o.endX), viewportWidth - 1 - Math.max(o.startX, o.endX));
+         const dy = clamp(p.y - drag.grab.y, -Math.min(o.startY, o.endY), viewportHeight - 1 - Math.max(o.startY, o.endY));
+         next = { startX: o.startX + dx, startY: o.startY + dy, endX: o.endX + dx, endY: o.endY + dy };
+      }
+      setDrafts((prev) => ({ ...prev, [drag.id]: next }));
+   };
+
+   const handlePointerUp = (e: React.PointerEvent) => {
+      if(!drag) return;
+      svgRef.current?.releasePointerCapture(e.pointerId);
+      const draft = drafts[drag.id];
+      setDrag(null);
+      if(!draft) return;
+      const o = drag.origin;
+      if(draft.startX === o.startX && draft.startY === o.startY && draft.endX === o.endX && draft.endY === o.endY) {
+         setDrafts((prev) => {
+            const next = { ...prev };
+            delete next[drag.id];
+            return next;
+         });
+         return;
+      }
+      persist(drag.id, draft);
+   };
+
+   const handlePlace = (strip: StripSetting) => {
+      const y = Math.floor(viewportHeight / 2);
+      setSelectedId(strip.id);
+      persist(strip.id, {
+         startX: Math.floor(viewportWidth / 4),
+         startY: y,
+         endX: Math.floor((viewportWidth * 3) / 4),
+         endY: y,
+      });
+   };
+
+   if(viewportWidth <= 0 || viewportHeight <= 0) return null;
+
+   return (
+      <>
+         <svg
+            ref={svgRef}
+            id="layout-editor"
+            viewBox={`0 0 ${viewportWidth} ${viewportHeight}`}
+            preserveAspectRatio="none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onPointerDown={() => setSelectedId(null)}
+         >
+            <defs>
+               <marker id="layout-arrow" viewBox="0 0 10 10" refX="5" refY="5"
+                  markerWidth="4" markerHeight="4" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="context-stroke" />
+               </marker>
+            </defs>
+            {effective.map((strip, index) => {
+               if(!isPlaced(strip)) return null;
+               const color = stripColor(index);
+               const isSelected = strip.id === selectedId;
+               const positions = ledPositions(strip) ?? [];
+               const first = positions[0];
+               const last = positions[positions.length - 1];
+               const sx = strip.startX! + 0.5;
+               const sy = strip.startY! + 0.5;
+               const ex = strip.endX! + 0.5;
+               const ey = strip.endY! + 0.5;
+               return (
+                  <g key={strip.id} className={`layout-strip${isSelected ? ' selected' : ''}`}>
+                     {/* Wide invisible hit target for dragging the whole strip */}
+                     <line x1={sx} y1={sy} x2={ex} y2={ey}
+                        className="layout-strip-hit"
+                        strokeWidth={handleRadius * 2}
+                        onPointerDown={(e) => handlePointerDown(e, strip, 'body')} />
+                     {/* Data direction: LED 0 → LED n-1 */}
+                     {first && last && (
+                        <line x1={first.x + 0.5} y1={first.y + 0.5} x2={last.x + 0.5} y2={last.y + 0.5}
+                           stroke={color} className="layout-strip-line" markerEnd="url(#layout-arrow)" />
+                     )}
+                     {positions.map((p, i) => (
+                        <rect key={i} x={p.x + 0.15} y={p.y + 0.15} width={0.7} height={0.7}
+                           fill={color} className="layout-led" />
+                     ))}
+                     <circle cx={sx} cy={sy} r={handleRadius} stroke={color}
+                        className="layout-handle layout-handle--start"
+                        onPointerDown={(e) => handlePointerDown(e, strip, 'start')} />
+                     <rect x={ex - handleRadius} y={ey - handleRadius}
+                        width={handleRadius * 2} height={handleRadius * 2} stroke={color}
+                        className="layout-handle layout-handle--end"
+                        onPointerDown={(e) => handlePointerDown(e, strip, 'end')} />
+                     <text x={sx} y={sy - handleRadius * 1.6} fontSize={handleRadius * 2}
+                        fill={color} className="layout-label">
+                        {strip.id}
+                     </text>
+                  </g>
+               );
+            })}
+         </svg>
+
+         <div className="layout-toolbar" onPointerDown={(e) => e.stopPropagation()}>
+            {selected ? (
+               <>
+                  <span className="layout-toolbar-name">#{selected.id} — {selected.btName}</span>
+                  <span className="layout-toolbar-meta">
+                     {selected.length ?? '?'} LEDs · ({selected.startX},{selected.startY}) → ({selected.endX},{selected.endY})
+                  </span>
+                  <div className="checkbox-group">
+                     <input
+                        type="checkbox"
+                        id="layout-reverse-checkbox"
+                        checked={selected.reverse}
+                        onChange={(e) => persist(selected.id, { reverse: e.target.checked })}
+                     />
+                     <label htmlFor="layout-reverse-checkbox">Reverse</label>
+                  </div>
+               </>
+            ) : (
+               <span className="layout-toolbar-hint">
+                  Drag ● start / ■ end handles, or the strip itself. Arrows point from LED 0.
+               </span>
+            )}
+            {unplaced.map((strip) => (
+               <button key={strip.id} className="settings-save-btn settings-save-btn--sm"
+                  onClick={() => handlePlace(strip)}>
+                  Place #{strip.id}
+               </button>
+            ))}
+            {error && <span className="layout-toolbar-error">{error}</span>}
+         </div>
+      </>
+   );
+}
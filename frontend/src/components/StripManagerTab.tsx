@@ -1,11 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useStripsWebSocket } from '../hooks/useStripsWebSocket.ts';
 import { useSettings } from '../hooks/useSettings.ts';
 import { Sparkline } from './Sparkline.tsx';
 import { LedStrip } from './LedStrip.tsx';
+import { outputCalibration } from '../utils/outputColor.ts';
 
 interface StripManagerTabProps {
    active: boolean;
+   /** The strip last hovered in the preview's annotations overlay. */
+   focusedStripId?: number | null;
 }
 
 function formatUptime(ms: number): string {
@@ -17,10 +20,18 @@ function formatUptime(ms: number): string {
    return `${days}d ${hours}h ${minutes}m ${seconds}s`;
 }
 
-export function StripManagerTab({ active }: StripManagerTabProps) {
-   const { strips, activityLog, stripTelemetry, stripLeds, isScanning, isReconnecting } =
+export function StripManagerTab({ active, focusedStripId = null }: StripManagerTabProps) {
+   const { strips, activityLog, stripTelemetry, stripLeds, stripBrightness, isScanning, isReconnecting } =
       useStripsWebSocket(active);
    const { settings, saveSettings } = useSettings();
+   const output = useMemo(() => outputCalibration(settings), [settings]);
+   const listRef = useRef<HTMLDivElement>(null);
+   const hasStrips = strips.length > 0;
+
+   // Bring the strip last hovered in the preview into view once the list is there
+   useEffect(() => {
+      listRef.current?.querySelector('.highlighted')?.scrollIntoView({ block: 'nearest' });
+   }, [hasStrips, focusedStripId]);
 
    const [intervalInput, setIntervalInput] = useState('');
    const [savedFeedback, setSavedFeedback] = useState(false);
@@ -98,7 +109,7 @@ export function StripManagerTab({ active }: StripManagerTabProps) {
             </div>
          </div>
 
-         <div className="strip-list">
+         <div className="strip-list" ref={listRef}>
             {strips.length === 0 ? (
                <p className="strips-empty">No strip controllers discovered.</p>
             ) : (
@@ -111,7 +122,7 @@ export function StripManagerTab({ active }: StripManagerTabProps) {
                   const telemetry = stripTelemetry[strip.id];
 
                   return (
-                     <div key={strip.id} className="strip-row">
+                     <div key={strip.id} className={`strip-row${strip.id === focusedStripId ? ' highlighted' : ''}`}>
                         <div className="strip-row-header">
                            <span className="strip-name">Strip {strip.id} — {strip.name}</span>
                            <span className={`strip-badge ${
@@ -128,7 +139,9 @@ export function StripManagerTab({ active }: StripManagerTabProps) {
                         </div>
                         <LedStrip
                            rgbValues={stripLeds[strip.id] ?? []}
+                           brightness={stripBrightness[strip.id]}
                            ledCount={strip.length}
+                           output={output}
                         />
                         {isConnected && !isConnecting && (
                            <button
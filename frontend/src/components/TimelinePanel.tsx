@@ -0,0 +1,306 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Easing, Keyframe, ParameterDef, ParamValue, Timeline } from '../types.ts';
+import {
+   EASINGS,
+   MAX_DURATION,
+   addKeyframe,
+   formatSeconds,
+   hasKeyframes,
+   playheadAt,
+   removeKeyframe,
+   rulerTicks,
+   setDuration,
+   snapTime,
+   updateKeyframe,
+} from '../utils/timeline.ts';
+
+interface TimelinePanelProps {
+   parameters: ParameterDef[];
+   paramValues: Record<string, ParamValue>;
+   timeline: Timeline;
+   onTimelineChange: (timeline: Timeline) => void;
+   /** performance.now() when the host started playing from the beginning, or null when stopped. */
+   playStart: number | null;
+   onPlay: () => void;
+   onStop: () => void;
+   /** Saves the pattern with this timeline as a named preset. */
+   onSaveAnimation: (name: string) => Promise<void>;
+}
+
+interface SelectedKey {
+   name: string;
+   time: number;
+}
+
+interface Drag extends SelectedKey {
+   track: DOMRect;
+}
+
+function formatValue(value: ParamValue): string {
+   if(typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+   if(typeof value === 'boolean') return value ? 'On' : 'Off';
+   if(typeof value === 'string') return value;
+   if(value.length > 0 && typeof value[0] === 'object') return `${value.length} stops`;
+   return (value as number[]).map((n) => n.toFixed(1)).join(', ');
+}
+
+// Color keyframes show their color; the hex may carry a brightness suffix
+function keyColor(value: ParamValue): string | undefined {
+   return typeof value === 'string' && value.startsWith('#') ? value.slice(0, 7) : undefined;
+}
+
+/**
+ * Keyframes on a lane per parameter, played by the host so the animation keeps
+ * running with no browser open. Click a lane to capture the parameter's current
+ * value there; drag keyframes to retime them.
+ */
+export function TimelinePanel({
+   parameters,
+   paramValues,
+   timeline,
+   onTimelineChange,
+   playStart,
+   onPlay,
+   onStop,
+   onSaveAnimation,
+}: TimelinePanelProps) {
+   const [selected, setSelected] = useState<SelectedKey | null>(null);
+   const [durationDraft, setDurationDraft] = useState<string | null>(null);
+   const [animationName, setAnimationName] = useState('');
+   const [saveError, setSaveError] = useState<string | null>(null);
+   const [now, setNow] = useState(() => performance.now());
+   const dragRef = useRef<Drag | null>(null);
+
+   // Follow the host's playhead while it plays
+   useEffect(() => {
+      if(playStart === null) return;
+      let frame = requestAnimationFrame(function tick(time) {
+         setNow(time);
+         frame = requestAnimationFrame(tick);
+      });
+      return () => cancelAnimationFrame(frame);
+   }, [playStart]);
+
+   const playhead = playStart === null ? null : playheadAt(timeline, Math.max(0, now - playStart) / 1000);
+   const percent = (time: number) => `${(time / timeline.duration) * 100}%`;
+
+   const selectedKey: Keyframe | undefined = selected
+      ? timeline.lanes[selected.name]?.find((k) => k.time === selected.time)
+      : undefined;
+   const selectedParam = selected ? parameters.find((p) => p.name === selected.name) : undefined;
+
+   function currentValue(param: ParameterDef): ParamValue | undefined {
+      return paramValues[param.name] ?? param.default ?? undefined;
+   }
+
+   function timeAt(clientX: number, track: DOMRect): number {
+      return snapTime(((clientX - track.left) / track.width) * timeline.duration, timeline.duration);
+   }
+
+   function handleTrackPointerDown(param: ParameterDef, e: React.PointerEvent<HTMLDivElement>) {
+      const value = currentValue(param);
+      if(value === undefined) return;
+      const time = timeAt(e.clientX, e.currentTarget.getBoundingClientRect());
+      onTimelineChange(addKeyframe(timeline, param.name, time, value));
+      setSelected({ name: param.name, time });
+   }
+
+   function handleKeyPointerDown(name: string, time: number, e: React.PointerEvent<HTMLButtonElement>) {
+      e.stopPropagation();
+      const track = e.currentTarget.parentElement!.getBoundingClientRect();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragRef.current = { name, time, track };
+      setSelected({ name, time });
+   }
+
+   function handleKeyPointerMove(e: React.PointerEvent<HTMLButtonElement>) {
+      const drag = dragRef.current;
+      if(!drag) return;
+      const time = timeAt(e.clientX, drag.track);
+      // Dragging past another keyframe leaves it alone
+      if(time === drag.time || timeline.lanes[drag.name]?.some((k) => k.time === time)) return;
+      onTimelineChange(updateKeyframe(timeline, drag.name, drag.time, { time }));
+      dragRef.current = { ...drag, time };
+      setSelected({ name: drag.name, time });
+   }
+
+   function handleKeyPointerUp() {
+      dragRef.current = null;
+   }
+
+   function commitDuration() {
+      const seconds = parseFloat(durationDraft ?? '');
+      if(isFinite(seconds) && seconds > 0) onTimelineChange(setDuration(timeline, seconds));
+      setDurationDraft(null);
+   }
+
+   async function handleSaveAnimation() {
+      const name = animationName.trim();
+      if(!name) return;
+      setSaveError(null);
+      try {
+         await onSaveAnimation(name);
+         setAnimationName('');
+      }
+      catch(e) {
+         setSaveError(e instanceof Error ? e.message : 'Save failed');
+      }
+   }
+
+   const editable = hasKeyframes(timeline);
+
+   return (
+      <div id="timeline-panel">
+         <div className="timeline-header">
+            <h3 className="timeline-heading">Timeline</h3>
+            <label className="timeline-field">
+               Length
+               <input
+                  type="number"
+                  min={0.1}
+                  max={MAX_DURATION}
+                  step={0.1}
+                  value={durationDraft ?? String(timeline.duration)}
+                  onChange={(e) => setDurationDraft(e.target.value)}
+                  onBlur={commitDuration}
+                  onKeyDown={(e) => { if(e.key === 'Enter') commitDuration(); }}
+               />
+               s
+            </label>
+            <select
+               value={timeline.loop ? 'loop' : 'once'}
+               onChange={(e) => onTimelineChange({ ...timeline, loop: e.target.value === 'loop' })}
+               aria-label="Playback mode"
+            >
+               <option value="loop">Loop</option>
+               <option value="once">One-shot</option>
+            </select>
+            {playStart === null
+               ? <button type="button" className="timeline-play" disabled={!editable} onClick={onPlay}>Play</button>
+               : <button type="button" className="timeline-play timeline-play--stop" onClick={onStop}>Stop</button>
+            }
+            <span className="timeline-position">
+               {playhead === null ? '—' : formatSeconds(playhead)} / {formatSeconds(timeline.duration)}
+            </span>
+            <button
+               type="button"
+               className="timeline-clear"
+               disabled={!editable}
+               onClick={() => { onTimelineChange({ ...timeline, lanes: {} }); setSelected(null); }}
+            >
+               Clear
+            </button>
+         </div>
+
+         <div className="timeline-grid">
+            <div className="timeline-ruler-label" />
+            <div className="timeline-ruler">
+               {rulerTicks(timeline.duration).map((t) => (
+                  <span key={t} className="timeline-tick" style={{ left: percent(t) }}>{formatSeconds(t)}</span>
+               ))}
+            </div>
+
+            {parameters.map((param) => (
+               <div key={param.name} className="timeline-lane-row">
+                  <div className="timeline-lane-label" title={param.label}>{param.label}</div>
+                  <div
+                     className="timeline-lane"
+                     onPointerDown={(e) => handleTrackPointerDown(param, e)}
+                     title={`Click to capture the current ${param.label.toLowerCase()} here`}
+                  >
+                     {(timeline.lanes[param.name] ?? []).map((key) => {
+                        const isSelected = selected?.name === param.name && selected.time === key.time;
+                        return (
+                           <button
+                              key={key.time}
+                              type="button"
+                              className={`timeline-key${isSelected ? ' selected' : ''}`}
+                              style={{ left: percent(key.time), background: keyColor(key.value) }}
+                              onPointerDown={(e) => handleKeyPointerDown(param.name, key.time, e)}
+                              onPointerMove={handleKeyPointerMove}
+                              onPointerUp={handleKeyPointerUp}
+                              onPointerCancel={handleKeyPointerUp}
+                              aria-label={`${param.label} at ${formatSeconds(key.time)}`}
+                              title={`${formatSeconds(key.time)}: ${formatValue(key.value)}`}
+                           />
+                        );
+                     })}
+                     {playhead !== null && <div className="timeline-playhead" style={{ left: percent(playhead) }} />}
+                  </div>
+               </div>
+            ))}
+         </div>
+
+         {selected && selectedKey && selectedParam && (
+            <div className="timeline-inspector">
+               <span className="timeline-inspector-name">{selectedParam.label}</span>
+               <label className="timeline-field">
+                  At
+                  <input
+                     type="number"
+                     min={0}
+                     max={timeline.duration}
+                     step={0.1}
+                     value={selectedKey.time}
+                     onChange={(e) => {
+                        const seconds = parseFloat(e.target.value);
+                        if(!isFinite(seconds)) return;
+                        const time = snapTime(seconds, timeline.duration);
+                        onTimelineChange(updateKeyframe(timeline, selected.name, selected.time, { time }));
+                        setSelected({ name: selected.name, time });
+                     }}
+                  />
+                  s
+               </label>
+               <select
+                  value={selectedKey.easing}
+                  onChange={(e) => onTimelineChange(
+                     updateKeyframe(timeline, selected.name, selected.time, { easing: e.target.value as Easing })
+                  )}
+                  aria-label="Easing to the next keyframe"
+               >
+                  {EASINGS.map(({ easing, label }) => <option key={easing} value={easing}>{label}</option>)}
+               </select>
+               <span className="timeline-inspector-value" title={formatValue(selectedKey.value)}>
+                  {formatValue(selectedKey.value)}
+               </span>
+               <button
+                  type="button"
+                  onClick={() => {
+                     const value = currentValue(selectedParam);
+                     if(value !== undefined) onTimelineChange(updateKeyframe(timeline, selected.name, selected.time, { value }));
+                  }}
+                  title="Replace this keyframe's value with the parameter's value in the controls"
+               >
+                  Set to current value
+               </button>
+               <button
+                  type="button"
+                  className="timeline-delete"
+                  onClick={() => { onTimelineChange(removeKeyframe(timeline, selected.name, selected.time)); setSelected(null); }}
+               >
+                  Delete
+               </button>
+            </div>
+         )}
+
+         <div className="timeline-save">
+            <input
+               type="text"
+               placeholder="Animation name…"
+               value={animationName}
+               onChange={(e) => { setAnimationName(e.target.value); setSaveError(null); }}
+               onKeyDown={(e) => { if(e.key === 'Enter') handleSaveAnimation(); }}
+            />
+            <button
+               type="button"
+               disabled={!editable || !animationName.trim()}
+               onClick={handleSaveAnimation}
+            >
+               Save animation
+            </button>
+            {saveError && <span className="save-as-error">{saveError}</span>}
+         </div>
+      </div>
+   );
+}
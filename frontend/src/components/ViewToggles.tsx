@@ -1,21 +1,35 @@
+const TICK_INTERVALS = [5, 10, 25, 50, 100];
+
 interface ViewTogglesProps {
    showViewport: boolean;
    showStrips: boolean;
    showBackground: boolean;
+   showAnnotations: boolean;
+   annotationTickInterval: number;
    hasBackgroundImage: boolean;
+   editLayout: boolean;
    onShowViewportChange: (show: boolean) => void;
    onShowStripsChange: (show: boolean) => void;
    onShowBackgroundChange: (show: boolean) => void;
+   onShowAnnotationsChange: (show: boolean) => void;
+   onAnnotationTickIntervalChange: (interval: number) => void;
+   onEditLayoutChange: (edit: boolean) => void;
 }
 
 export function ViewToggles({
    showViewport,
    showStrips,
    showBackground,
+   showAnnotations,
+   annotationTickInterval,
    hasBackgroundImage,
+   editLayout,
    onShowViewportChange,
    onShowStripsChange,
    onShowBackgroundChange,
+   onShowAnnotationsChange,
+   onAnnotationTickIntervalChange,
+   onEditLayoutChange,
 }: ViewTogglesProps) {
    return (
       <div className="view-controls">
@@ -48,6 +62,36 @@ export function ViewToggles({
                <label htmlFor="background-view-checkbox">Show Background</label>
             </div>
          )}
+         <div className="checkbox-group">
+            <input
+               type="checkbox"
+               id="annotations-view-checkbox"
+               checked={showAnnotations}
+               onChange={(e) => onShowAnnotationsChange(e.target.checked)}
+            />
+            <label htmlFor="annotations-view-checkbox">Show Strip Annotations</label>
+            {showAnnotations && (
+               <select
+                  className="annotation-tick-select"
+                  value={annotationTickInterval}
+                  onChange={(e) => onAnnotationTickIntervalChange(Number(e.target.value))}
+                  title="LED index ticks"
+               >
+                  {TICK_INTERVALS.map((n) => (
+                     <option key={n} value={n}>every {n}</option>
+                  ))}
+               </select>
+            )}
+         </div>
+         <div className="checkbox-group">
+            <input
+               type="checkbox"
+               id="layout-edit-checkbox"
+               checked={editLayout}
+               onChange={(e) => onEditLayoutChange(e.target.checked)}
+            />
+            <label htmlFor="layout-edit-checkbox">Edit Strip Layout</label>
+         </div>
       </div>
    );
 }
@@ -1,27 +1,46 @@
-import { memo, useRef } from 'react';
-import type { ViewportMessage } from '../types.ts';
-import { useViewportRenderer } from '../hooks/useViewportRenderer.ts';
+import { memo, useEffect, useRef } from 'react';
+import type { ViewportStream } from '../hooks/useViewportStream.ts';
 
 interface ViewportCanvasProps {
    visible: boolean;
-   viewportRef: React.MutableRefObject<ViewportMessage | null>;
-   onResolutionChange?: (width: number, height: number) => void;
+   stream: ViewportStream;
+   viewportWidth: number;
+   viewportHeight: number;
 }
 
 export const ViewportCanvas = memo(function ViewportCanvas({
    visible,
-   viewportRef,
-   onResolutionChange,
+   stream,
+   viewportWidth,
+   viewportHeight,
 }: ViewportCanvasProps) {
-   const canvasRef = useRef<HTMLCanvasElement>(null);
+   const hostRef = useRef<HTMLDivElement>(null);
+   const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
-   useViewportRenderer(canvasRef, viewportRef, onResolutionChange);
+   // The worker draws into this canvas. Control of a canvas can only be transferred
+   // once, so every mount creates a new element rather than letting React own it.
+   useEffect(() => {
+      const host = hostRef.current;
+      if (!host) return;
+      const canvas = document.createElement('canvas');
+      canvas.id = 'canvas';
+      host.appendChild(canvas);
+      canvasRef.current = canvas;
+      const detach = stream.attachCanvas(canvas);
+      return () => {
+         detach();
+         canvas.remove();
+         canvasRef.current = null;
+      };
+   }, [stream]);
 
-   return (
-      <canvas
-         ref={canvasRef}
-         id="canvas"
-         style={{ visibility: visible ? 'visible' : 'hidden' }}
-      />
-   );
+   // The canvas bitmap size belongs to the worker, so layout follows the viewport's aspect ratio
+   useEffect(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.style.visibility = visible ? 'visible' : 'hidden';
+      canvas.style.aspectRatio = viewportWidth > 0 && viewportHeight > 0 ? `${viewportWidth} / ${viewportHeight}` : '';
+   }, [stream, visible, viewportWidth, viewportHeight]);
+
+   return <div ref={hostRef} className="viewport-canvas-host" />;
 });
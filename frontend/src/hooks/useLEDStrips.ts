@@ -1,28 +1,115 @@
 import { useEffect, useRef } from 'react';
-import type { LEDStripData } from '../types.ts';
+import type { LEDLayoutMessage, LEDStripsFrame, LEDStripsLayout } from '../types.ts';
+import { inflate } from '../utils/inflate.ts';
 
+function decodeLayout(msg: LEDLayoutMessage): LEDStripsLayout {
+   let offset = 0;
+   const strips = msg.strips.map((strip) => {
+      const decoded = { id: strip.id, length: strip.length, offset, positions: Int16Array.from(strip.positions) };
+      offset += strip.length;
+      return decoded;
+   });
+   return { version: msg.version, strips };
+}
+
+/**
+ * Streams LED strip colors from /ws/led-strips while enabled. Positions arrive once
+ * per layout change; each binary frame then only carries RGB bytes (plus APA102
+ * brightness when any LED is dimmed), which are kept as-is so the renderer can
+ * read them without building per-LED objects.
+ */
 export function useLEDStrips(
    enabled: boolean,
-): React.MutableRefObject<LEDStripData[]> {
-   const ledStripsRef = useRef<LEDStripData[]>([]);
+): React.MutableRefObject<LEDStripsFrame | null> {
+   const ledStripsRef = useRef<LEDStripsFrame | null>(null);
 
    useEffect(() => {
       if (!enabled) {
-         ledStripsRef.current = [];
+         ledStripsRef.current = null;
          return;
       }
 
-      const interval = setInterval(async () => {
-         try {
-            const response = await fetch('/api/led-strips');
-            const strips: LEDStripData[] = await response.json();
-            ledStripsRef.current = strips;
-         } catch (e) {
-            console.error('Failed to fetch LED strips:', e);
-         }
-      }, 50); // 20 FPS
+      let ws: WebSocket | null = null;
+      let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+      let disposed = false;
+      let layout: LEDStripsLayout | null = null;
+
+      function connect() {
+         if (disposed) return;
+
+         const wsHost = import.meta.env.VITE_WS_HOST ?? window.location.host;
+         const wsUrl = `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${wsHost}/ws/led-strips`;
+
+         ws = new WebSocket(wsUrl);
+         ws.binaryType = 'arraybuffer';
+
+         ws.onclose = () => {
+            if (disposed) return;
+            layout = null;
+
+            // Reconnect after 2 seconds
+            reconnectTimeout = setTimeout(() => {
+               reconnectTimeout = null;
+               connect();
+            }, 2000);
+         };
+
+         ws.onerror = () => {
+            // Error is followed by onclose, so no action needed here
+         };
 
-      return () => clearInterval(interval);
+         ws.onmessage = async (event) => {
+            if (typeof event.data === 'string') {
+               try {
+                  const msg: LEDLayoutMessage = JSON.parse(event.data);
+                  if (msg.type === 'layout') layout = decodeLayout(msg);
+               } catch {
+                  // Ignore malformed messages
+               }
+               return;
+            }
+
+            if (!(event.data instanceof ArrayBuffer)) return;
+            const bytes = new Uint8Array(event.data);
+            if (bytes.length < 3) return;
+
+            const flags = bytes[0];
+            const version = (bytes[1] << 8) | bytes[2];
+            const frameLayout = layout;
+            if (!frameLayout || frameLayout.version !== version) return;
+
+            let payload: Uint8Array;
+            if (flags & 0x01) {
+               try {
+                  payload = await inflate(bytes.subarray(3));
+               } catch {
+                  // Skip frame on decompression error
+                  return;
+               }
+            } else {
+               payload = bytes.subarray(3);
+            }
+            // With brightness included each LED takes 4 bytes: RGB first, then brightness
+            const ledCount = flags & 0x02 ? Math.floor(payload.length / 4) : 0;
+            const rgb = flags & 0x02 ? payload.subarray(0, ledCount * 3) : payload;
+            const brightness = flags & 0x02 ? payload.subarray(ledCount * 3, ledCount * 4) : null;
+            if (!disposed) ledStripsRef.current = { layout: frameLayout, rgb, brightness };
+         };
+      }
+
+      connect();
+
+      return () => {
+         disposed = true;
+         ledStripsRef.current = null;
+         if (reconnectTimeout) {
+            clearTimeout(reconnectTimeout);
+         }
+         if (ws) {
+            ws.onclose = null;
+            ws.close();
+         }
+      };
    }, [enabled]);
 
    return ledStripsRef;
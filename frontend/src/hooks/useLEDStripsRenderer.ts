@@ -1,15 +1,98 @@
-import { useEffect } from 'react';
-import type { LEDStripData } from '../types.ts';
+import { useEffect, useRef } from 'react';
+import type { LEDStripsFrame } from '../types.ts';
+import type { OutputCalibration } from '../utils/outputColor.ts';
+import { outputColor } from '../utils/outputColor.ts';
+import type { GlowSettings, GlowSprites } from '../utils/ledGlow.ts';
+import { createGlowSprites } from '../utils/ledGlow.ts';
 
 const PIXEL_SIZE = 10;
 const LED_SIZE = 5;
+// Whole pixels: ImageData can't be written at fractional positions
+const OFFSET = Math.floor((PIXEL_SIZE - LED_SIZE) / 2);
+
+/**
+ * Fills a size x size square of the image with one color. Writing straight into
+ * the reused ImageData keeps the per-frame loop free of allocations.
+ */
+function fillSquare(image: ImageData, x: number, y: number, size: number, r: number, g: number, b: number) {
+   const { data, width, height } = image;
+   for (let py = Math.max(0, y); py < Math.min(height, y + size); py++) {
+      for (let px = Math.max(0, x); px < Math.min(width, x + size); px++) {
+         const idx = (py * width + px) * 4;
+         data[idx] = r;
+         data[idx + 1] = g;
+         data[idx + 2] = b;
+         data[idx + 3] = 255;
+      }
+   }
+}
+
+/** Writes the screen color of one LED into `out`, as output when a calibration is given. */
+function ledColor(frame: LEDStripsFrame, led: number, output: OutputCalibration | null, out: number[]) {
+   const { rgb, brightness } = frame;
+   const c = led * 3;
+   if (output) {
+      outputColor(rgb[c], rgb[c + 1], rgb[c + 2], brightness ? brightness[led] : 31, output, out);
+   } else {
+      out[0] = rgb[c];
+      out[1] = rgb[c + 1];
+      out[2] = rgb[c + 2];
+   }
+}
+
+/**
+ * Draws every LED as a soft glow, adding the channels up with 'lighter'
+ * compositing. The canvas itself is blended additively over the layers below
+ * (see #led-canvas.glow), so the light falls on the background image too.
+ */
+function drawGlow(
+   ctx: CanvasRenderingContext2D,
+   frame: LEDStripsFrame,
+   output: OutputCalibration | null,
+   sprites: GlowSprites,
+   color: number[],
+) {
+   ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+   ctx.globalCompositeOperation = 'lighter';
+   const { radius, channels } = sprites;
+   for (const strip of frame.layout.strips) {
+      const { positions } = strip;
+      for (let i = 0; i < strip.length; i++) {
+         const x = positions[i * 2];
+         const y = positions[i * 2 + 1];
+         if (x < 0 || y < 0) continue;
+
+         ledColor(frame, strip.offset + i, output, color);
+         const left = x * PIXEL_SIZE + PIXEL_SIZE / 2 - radius;
+         const top = y * PIXEL_SIZE + PIXEL_SIZE / 2 - radius;
+         for (let channel = 0; channel < 3; channel++) {
+            if (color[channel] === 0) continue;
+            ctx.globalAlpha = color[channel] / 255;
+            ctx.drawImage(channels[channel], left, top);
+         }
+      }
+   }
+   ctx.globalAlpha = 1;
+   ctx.globalCompositeOperation = 'source-over';
+}
 
 export function useLEDStripsRenderer(
    canvasRef: React.RefObject<HTMLCanvasElement | null>,
-   ledStripsRef: React.MutableRefObject<LEDStripData[]>,
+   ledStripsRef: React.MutableRefObject<LEDStripsFrame | null>,
    viewportWidth: number,
    viewportHeight: number,
+   output: OutputCalibration | null = null,
+   glow: GlowSettings | null = null,
 ): void {
+   const imageRef = useRef<ImageData | null>(null);
+   const outputRef = useRef(output);
+   const glowRef = useRef(glow);
+
+   useEffect(() => {
+      outputRef.current = output;
+      glowRef.current = glow;
+   });
+
    useEffect(() => {
       const canvas = canvasRef.current;
       if (!canvas) return;
@@ -23,43 +106,65 @@ export function useLEDStripsRenderer(
 
    useEffect(() => {
       let animationFrameId: number;
+      let lastFrame: LEDStripsFrame | null = null;
+      let lastOutput: OutputCalibration | null = null;
+      let lastGlow: GlowSettings | null = null;
+      let sprites: GlowSprites | null = null;
+      let lastVersion = -1;
+      const color = [0, 0, 0];
 
       function renderFrame() {
          const canvas = canvasRef.current;
-         const strips = ledStripsRef.current;
+         const frame = ledStripsRef.current;
+         const output = outputRef.current;
+         const glow = glowRef.current;
 
-         if (canvas && strips.length > 0) {
+         if (canvas && frame && (frame !== lastFrame || output !== lastOutput || glow !== lastGlow)) {
+            lastFrame = frame;
+            lastOutput = output;
             const ctx = canvas.getContext('2d');
             if (!ctx) return;
 
-            // Clear canvas with transparency
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-            // Render each LED at its viewport position
-            const offset = (PIXEL_SIZE - LED_SIZE) / 2;
-
-            for (const strip of strips) {
-               for (const led of strip.leds) {
-                  const canvasX = led.x * PIXEL_SIZE;
-                  const canvasY = led.y * PIXEL_SIZE;
-
-                  ctx.fillStyle = `rgb(0, 0, 0)`;
-                  ctx.fillRect(
-                     canvasX + offset - 1,
-                     canvasY + offset - 1,
-                     LED_SIZE + 2,
-                     LED_SIZE + 2,
-                  );
-
-
-                  ctx.fillStyle = `rgb(${led.r}, ${led.g}, ${led.b})`;
-                  ctx.fillRect(
-                     canvasX + offset,
-                     canvasY + offset,
-                     LED_SIZE,
-                     LED_SIZE,
-                  );
+            if (glow !== lastGlow) {
+               lastGlow = glow;
+               sprites = glow ? createGlowSprites(glow.glowRadius * PIXEL_SIZE, glow.glowIntensity, glow.glowSoftness) : null;
+            }
+
+            if (sprites) {
+               drawGlow(ctx, frame, output, sprites, color);
+               // The square image no longer matches the canvas; rebuild it when glow is turned off
+               lastVersion = -1;
+            } else {
+               // Start from a transparent image whenever the canvas or the layout changes;
+               // otherwise every LED square is simply overwritten in place
+               let image = imageRef.current;
+               if (!image || image.width !== canvas.width || image.height !== canvas.height) {
+                  image = ctx.createImageData(canvas.width, canvas.height);
+                  imageRef.current = image;
+                  lastVersion = -1;
+               }
+               if (frame.layout.version !== lastVersion) {
+                  image.data.fill(0);
+                  lastVersion = frame.layout.version;
+               }
+
+               for (const strip of frame.layout.strips) {
+                  const { positions } = strip;
+                  for (let i = 0; i < strip.length; i++) {
+                     const x = positions[i * 2];
+                     const y = positions[i * 2 + 1];
+                     if (x < 0 || y < 0) continue;
+
+                     const canvasX = x * PIXEL_SIZE + OFFSET;
+                     const canvasY = y * PIXEL_SIZE + OFFSET;
+                     ledColor(frame, strip.offset + i, output, color);
+
+                     fillSquare(image, canvasX - 1, canvasY - 1, LED_SIZE + 2, 0, 0, 0);
+                     fillSquare(image, canvasX, canvasY, LED_SIZE, color[0], color[1], color[2]);
+                  }
                }
+
+               ctx.putImageData(image, 0, 0);
             }
          }
 
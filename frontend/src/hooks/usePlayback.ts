@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { LEDStripsFrame, LEDStripsLayout, RecordedFrame, Recording, StripSetting } from '../types.ts';
+import { ledStripsLayout, sampleLedStrips } from '../utils/ledOverlay.ts';
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export interface PlaybackOptions {
+   /** Shown in the playback controls; defaults to the recorded pattern name. */
+   title?: string;
+   /** Start on the last frame rather than the first. */
+   atEnd?: boolean;
+}
+
+export interface Playback {
+   recording: Recording | null;
+   title: string;
+   /** The frame on screen, or null when nothing is loaded. */
+   frame: RecordedFrame | null;
+   index: number;
+   playing: boolean;
+   speed: number;
+   open(recording: Recording, options?: PlaybackOptions): void;
+   close(): void;
+   play(): void;
+   pause(): void;
+   step(delta: number): void;
+   seek(index: number): void;
+   setSpeed(speed: number): void;
+}
+
+/**
+ * Plays back a recording entirely on the client, following the frames' own
+ * timestamps scaled by the playback speed. Stops at the last frame.
+ */
+export function usePlayback(): Playback {
+   const [recording, setRecording] = useState<Recording | null>(null);
+   const [title, setTitle] = useState('');
+   const [index, setIndex] = useState(0);
+   const [playing, setPlaying] = useState(false);
+   const [speed, setSpeed] = useState(1);
+   const indexRef = useRef(0);
+
+   useEffect(() => {
+      indexRef.current = index;
+   });
+
+   useEffect(() => {
+      if(!recording || !playing) return;
+      const frames = recording.frames;
+      // Anchor the clock to the frame showing when play (or a speed change) began
+      const startWall = performance.now();
+      const startTime = frames[indexRef.current].time;
+      let current = indexRef.current;
+      let animationFrameId = requestAnimationFrame(function tick() {
+         const target = startTime + (performance.now() - startWall) * speed;
+         let next = current;
+         while(next + 1 < frames.length && frames[next + 1].time <= target) next++;
+         if(next !== current) {
+            current = next;
+            setIndex(next);
+         }
+         if(next >= frames.length - 1) {
+            setPlaying(false);
+            return;
+         }
+         animationFrameId = requestAnimationFrame(tick);
+      });
+      return () => cancelAnimationFrame(animationFrameId);
+   }, [recording, playing, speed]);
+
+   const open = useCallback((r: Recording, options: PlaybackOptions = {}) => {
+      setRecording(r.frames.length > 0 ? r : null);
+      setTitle(options.title ?? (r.metadata.pattern || 'Recording'));
+      setIndex(options.atEnd ? Math.max(0, r.frames.length - 1) : 0);
+      setPlaying(false);
+   }, []);
+
+   const close = useCallback(() => {
+      setRecording(null);
+      setIndex(0);
+      setPlaying(false);
+   }, []);
+
+   const play = useCallback(() => {
+      if(!recording) return;
+      // Playing from the end starts over
+      if(indexRef.current >= recording.frames.length - 1) setIndex(0);
+      setPlaying(true);
+   }, [recording]);
+
+   const pause = useCallback(() => setPlaying(false), []);
+
+   const seek = useCallback((i: number) => {
+      if(!recording) return;
+      setPlaying(false);
+      setIndex(Math.max(0, Math.min(recording.frames.length - 1, i)));
+   }, [recording]);
+
+   const step = useCallback((delta: number) => seek(indexRef.current + delta), [seek]);
+
+   return {
+      recording,
+      title,
+      frame: recording?.frames[index] ?? null,
+      index,
+      playing,
+      speed,
+      open,
+      close,
+      play,
+      pause,
+      step,
+      seek,
+      setSpeed,
+   };
+}
+
+/**
+ * LED colors for the frame being played back, as the host would have sent them
+ * with the current strip settings. Shaped like a /ws/led-strips frame so the
+ * live overlay renderer and the inspector can read it.
+ */
+export function usePlaybackLedStrips(
+   frame: RecordedFrame | null,
+   strips: StripSetting[],
+): React.MutableRefObject<LEDStripsFrame | null> {
+   const ledStripsRef = useRef<LEDStripsFrame | null>(null);
+   const layoutRef = useRef<{ strips: StripSetting[]; width: number; height: number; layout: LEDStripsLayout } | null>(null);
+
+   useEffect(() => {
+      if(!frame) {
+         ledStripsRef.current = null;
+         return;
+      }
+      let cached = layoutRef.current;
+      if(!cached || cached.strips !== strips || cached.width !== frame.width || cached.height !== frame.height) {
+         // A new version makes the renderer clear squares left by the old layout
+         const version = cached ? (cached.layout.version + 1) & 0xffff : 0;
+         cached = { strips, width: frame.width, height: frame.height, layout: ledStripsLayout(strips, frame.width, frame.height, version) };
+         layoutRef.current = cached;
+      }
+      ledStripsRef.current = sampleLedStrips(cached.layout, frame);
+   }, [frame, strips]);
+
+   return ledStripsRef;
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Playlist, PlaylistItem, PlaylistPlayerState } from '../types.ts';
+
+export interface PlaylistPatch {
+   name?: string;
+   items?: PlaylistItem[];
+}
+
+export type PlayerAction = 'pause' | 'resume' | 'next' | 'previous' | 'stop';
+
+interface UsePlaylistsResult {
+   playlists: Playlist[];
+   loading: boolean;
+   error: string | null;
+   player: PlaylistPlayerState;
+   createPlaylist: (name: string, items: PlaylistItem[]) => Promise<Playlist>;
+   updatePlaylist: (id: number, patch: PlaylistPatch) => Promise<Playlist>;
+   deletePlaylist: (id: number) => Promise<void>;
+   play: (id: number) => Promise<void>;
+   setStartup: (id: number) => Promise<void>;
+   control: (action: PlayerAction) => Promise<void>;
+   setShuffle: (shuffle: boolean) => Promise<void>;
+}
+
+const IDLE: PlaylistPlayerState = { status: null, startupPlaylistId: null };
+
+// Error text from a failed request: the host answers conflicts with {"error": ...}
+// and other failures with plain text
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+   const text = await response.text().catch(() => '');
+   if(!text) return `${fallback}: ${response.status}`;
+   try {
+      const body = JSON.parse(text);
+      if(typeof body?.error === 'string') return body.error;
+   }
+   catch {
+      // plain text
+   }
+   return text;
+}
+
+/**
+ * Saved playlists and the host's playlist player.
+ *
+ * @param pollPlayer Refresh the player state every couple of seconds, for live controls
+ */
+export function usePlaylists(pollPlayer = false): UsePlaylistsResult {
+   const [playlists, setPlaylists] = useState<Playlist[]>([]);
+   const [loading, setLoading] = useState(true);
+   const [error, setError] = useState<string | null>(null);
+   const [player, setPlayer] = useState<PlaylistPlayerState>(IDLE);
+
+   const fetchPlaylists = useCallback(async () => {
+      try {
+         const response = await fetch('/api/playlists');
+         if(!response.ok) throw new Error(`Failed to fetch playlists: ${response.status}`);
+         const data: Playlist[] = await response.json();
+         setPlaylists(data);
+         setError(null);
+      }
+      catch(e) {
+         setError(e instanceof Error ? e.message : 'Failed to load playlists');
+      }
+      finally {
+         setLoading(false);
+      }
+   }, []);
+
+   const fetchPlayer = useCallback(async () => {
+      try {
+         const response = await fetch('/api/playlist-player');
+         if(response.ok) setPlayer(await response.json());
+      }
+      catch {
+         // Keep the last state; the host may be restarting
+      }
+   }, []);
+
+   useEffect(() => {
+      fetchPlaylists();
+      fetchPlayer();
+   }, [fetchPlaylists, fetchPlayer]);
+
+   useEffect(() => {
+      if(!pollPlayer) return;
+      const interval = setInterval(fetchPlayer, 2000);
+      return () => clearInterval(interval);
+   }, [pollPlayer, fetchPlayer]);
+
+   const createPlaylist = useCallback(async (name: string, items: PlaylistItem[]): Promise<Playlist> => {
+      const response = await fetch('/api/playlists', {
+         method: 'POST',
+         headers: { 'Content-Type': 'application/json' },
+         body: JSON.stringify({ name, items }),
+      });
+      if(response.status === 409) throw new Error('Name already in use');
+      if(!response.ok) throw new Error(await errorMessage(response, 'Failed to save playlist'));
+      const created: Playlist = await response.json();
+      await fetchPlaylists();
+      return created;
+   }, [fetchPlaylists]);
+
+   const updatePlaylist = useCallback(async (id: number, patch: PlaylistPatch): Promise<Playlist> => {
+      const response = await fetch(`/api/playlists/${id}`, {
+         method: 'PUT',
+         headers: { 'Content-Type': 'application/json' },
+         body: JSON.stringify(patch),
+      });
+      if(response.status === 409) throw new Error('Name already in use');
+      if(response.status === 404) throw new Error('Playlist not found');
+      if(!response.ok) throw new Error(await errorMessage(response, 'Failed to update playlist'));
+      const updated: Playlist = await response.json();
+      await Promise.all([fetchPlaylists(), fetchPlayer()]);
+      return updated;
+   }, [fetchPlaylists, fetchPlayer]);
+
+   const deletePlaylist = useCallback(async (id: number): Promise<void> => {
+      const response = await fetch(`/api/playlists/${id}`, { method: 'DELETE' });
+      if(response.status === 404) throw new Error('Playlist not found');
+      if(!response.ok) throw new Error(`Failed to delete playlist: ${response.status}`);
+      await Promise.all([fetchPlaylists(), fetchPlayer()]);
+   }, [fetchPlaylists, fetchPlayer]);
+
+   // Sends a request that answers with the player state
+   const playerRequest = useCallback(async (url: string, init: RequestInit, fallback: string) => {
+      const response = await fetch(url, init);
+      if(!response.ok) throw new Error(await errorMessage(response, fallback));
+      setPlayer(await response.json());
+   }, []);
+
+   const play = useCallback((id: number) =>
+      playerRequest(`/api/playlists/${id}/play`, { method: 'POST' }, 'Failed to play playlist'),
+   [playerRequest]);
+
+   const setStartup = useCallback((id: number) =>
+      playerRequest(`/api/playlists/${id}/startup`, { method: 'POST' }, 'Failed to set startup playlist'),
+   [playerRequest]);
+
+   const control = useCallback((action: PlayerAction) =>
+      playerRequest(`/api/playlist-player/${action}`, { method: 'POST' }, `Failed to ${action}`),
+   [playerRequest]);
+
+   const setShuffle = useCallback((shuffle: boolean) =>
+      playerRequest('/api/playlist-player/shuffle', {
+         method: 'PUT',
+         headers: { 'Content-Type': 'application/json' },
+         body: JSON.stringify({ shuffle }),
+      }, 'Failed to set shuffle'),
+   [playerRequest]);
+
+   return {
+      playlists,
+      loading,
+      error,
+      player,
+      createPlaylist,
+      updatePlaylist,
+      deletePlaylist,
+      play,
+      setStartup,
+      control,
+      setShuffle,
+   };
+}
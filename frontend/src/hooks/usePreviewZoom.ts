@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 32;
+const WHEEL_STEP = 1.15;
+const BUTTON_STEP = 2;
+
+export interface PreviewTransform {
+   zoom: number;
+   panX: number;
+   panY: number;
+}
+
+const FIT: PreviewTransform = { zoom: 1, panX: 0, panY: 0 };
+
+// Keep the zoomed layers covering the whole container so there's never empty space to pan into
+function clampPan(t: PreviewTransform, width: number, height: number): PreviewTransform {
+   return {
+      zoom: t.zoom,
+      panX: Math.min(0, Math.max(width * (1 - t.zoom), t.panX)),
+      panY: Math.min(0, Math.max(height * (1 - t.zoom), t.panY)),
+   };
+}
+
+/**
+ * Wheel zoom (anchored at the cursor) and drag-to-pan for the preview layers.
+ * Zoom 1 is fit-to-window; the returned transform is applied to every layer so
+ * they stay aligned. Pointer-downs that a child stops (layout editor handles)
+ * never start a pan. While disabled the preview stays fit to the window.
+ */
+export function usePreviewZoom(containerRef: React.RefObject<HTMLElement | null>, enabled = true) {
+   const [transform, setTransform] = useState<PreviewTransform>(FIT);
+   const [panning, setPanning] = useState(false);
+   const panRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+
+   const zoomAt = useCallback((factor: number, clientX?: number, clientY?: number) => {
+      const el = containerRef.current;
+      if(!el) return;
+      const rect = el.getBoundingClientRect();
+      const mx = clientX === undefined ? rect.width / 2 : clientX - rect.left;
+      const my = clientY === undefined ? rect.height / 2 : clientY - rect.top;
+      setTransform((t) => {
+         const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, t.zoom * factor));
+         const scale = zoom / t.zoom;
+         return clampPan({
+            zoom,
+            panX: mx - (mx - t.panX) * scale,
+            panY: my - (my - t.panY) * scale,
+         }, rect.width, rect.height);
+      });
+   }, [containerRef]);
+
+   // React's onWheel is passive, so preventDefault needs a native listener
+   useEffect(() => {
+      const el = containerRef.current;
+      if(!el || !enabled) return;
+      const handleWheel = (e: WheelEvent) => {
+         e.preventDefault();
+         zoomAt(e.deltaY < 0 ? WHEEL_STEP : 1 / WHEEL_STEP, e.clientX, e.clientY);
+      };
+      el.addEventListener('wheel', handleWheel, { passive: false });
+      return () => el.removeEventListener('wheel', handleWheel);
+   }, [containerRef, zoomAt, enabled]);
+
+   const onPointerDown = (e: React.PointerEvent) => {
+      if(!enabled || e.button !== 0 || transform.zoom === 1) return;
+      containerRef.current?.setPointerCapture(e.pointerId);
+      panRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+      setPanning(true);
+   };
+
+   const onPointerMove = (e: React.PointerEvent) => {
+      const pan = panRef.current;
+      const el = containerRef.current;
+      if(!pan || pan.pointerId !== e.pointerId || !el) return;
+      const dx = e.clientX - pan.x;
+      const dy = e.clientY - pan.y;
+      panRef.current = { ...pan, x: e.clientX, y: e.clientY };
+      setTransform((t) => clampPan({ ...t, panX: t.panX + dx, panY: t.panY + dy }, el.clientWidth, el.clientHeight));
+   };
+
+   const onPointerUp = (e: React.PointerEvent) => {
+      if(panRef.current?.pointerId !== e.pointerId) return;
+      containerRef.current?.releasePointerCapture(e.pointerId);
+      panRef.current = null;
+      setPanning(false);
+   };
+
+   return {
+      transform,
+      panning,
+      zoomIn: () => zoomAt(BUTTON_STEP),
+      zoomOut: () => zoomAt(1 / BUTTON_STEP),
+      fit: () => setTransform(FIT),
+      panHandlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+   };
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RecordedFrame, Recording, RecordingMetadata } from '../types.ts';
+import type { ViewportStream } from './useViewportStream.ts';
+
+// Frames are kept uncompressed in memory (about 2 MB/s at 240x135, 20 FPS)
+export const MAX_RECORDING_MS = 60_000;
+const PROGRESS_INTERVAL_MS = 250;
+
+export interface Recorder {
+   recording: boolean;
+   frameCount: number;
+   elapsedMs: number;
+   /** The last finished recording, until discarded or a new one starts. */
+   result: Recording | null;
+   start(metadata: RecordingMetadata): void;
+   stop(): void;
+   discard(): void;
+}
+
+/**
+ * Captures the decoded viewport frames from the stream, timestamped by when the
+ * server rendered them where the stream says so. Stops by itself after
+ * MAX_RECORDING_MS.
+ */
+export function useRecorder(stream: ViewportStream): Recorder {
+   const framesRef = useRef<RecordedFrame[]>([]);
+   const metadataRef = useRef<RecordingMetadata | null>(null);
+   const startTimeRef = useRef(0);
+   const unsubscribeRef = useRef<(() => void) | null>(null);
+   const [recording, setRecording] = useState(false);
+   const [progress, setProgress] = useState({ frameCount: 0, elapsedMs: 0 });
+   const [result, setResult] = useState<Recording | null>(null);
+
+   const stop = useCallback(() => {
+      unsubscribeRef.current?.();
+      unsubscribeRef.current = null;
+      const metadata = metadataRef.current;
+      if(!metadata) return;
+      metadataRef.current = null;
+      const frames = framesRef.current;
+      framesRef.current = [];
+      setRecording(false);
+      setProgress({ frameCount: frames.length, elapsedMs: frames.length > 0 ? frames[frames.length - 1].time : 0 });
+      setResult({ metadata, frames });
+   }, []);
+
+   const start = useCallback((metadata: RecordingMetadata) => {
+      framesRef.current = [];
+      metadataRef.current = metadata;
+      setResult(null);
+      setProgress({ frameCount: 0, elapsedMs: 0 });
+      setRecording(true);
+
+      unsubscribeRef.current?.();
+      unsubscribeRef.current = stream.subscribeFrames((frame, receivedAt) => {
+         const frames = framesRef.current;
+         const at = frame.renderedAt ?? receivedAt;
+         if(frames.length === 0) startTimeRef.current = at;
+         const time = at - startTimeRef.current;
+         frames.push({ time, width: frame.width, height: frame.height, data: frame.data });
+         if(time >= MAX_RECORDING_MS) stop();
+      });
+   }, [stream, stop]);
+
+   const discard = useCallback(() => setResult(null), []);
+
+   // Refresh the counters a few times a second rather than on every frame
+   useEffect(() => {
+      if(!recording) return;
+      const id = setInterval(() => {
+         const frames = framesRef.current;
+         setProgress({ frameCount: frames.length, elapsedMs: frames.length > 0 ? frames[frames.length - 1].time : 0 });
+      }, PROGRESS_INTERVAL_MS);
+      return () => clearInterval(id);
+   }, [recording]);
+
+   useEffect(() => () => unsubscribeRef.current?.(), []);
+
+   return { recording, ...progress, result, start, stop, discard };
+}
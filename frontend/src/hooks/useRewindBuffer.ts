@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RecordedFrame } from '../types.ts';
+import type { ViewportStream } from './useViewportStream.ts';
+
+// About 20 MB at 240x135, 20 FPS
+export const REWIND_SECONDS = 10;
+
+export interface RewindBuffer {
+   /** The buffered frames, oldest first, with times relative to the oldest. */
+   snapshot(): RecordedFrame[];
+}
+
+/**
+ * Keeps the last REWIND_SECONDS of decoded viewport frames so a glitch can be
+ * looked at after the fact. Purely a client-side copy: nothing is sent to the
+ * host, so the strips carry on regardless. Nothing is buffered while disabled.
+ */
+export function useRewindBuffer(stream: ViewportStream, enabled = true): RewindBuffer {
+   const framesRef = useRef<RecordedFrame[]>([]);
+
+   useEffect(() => {
+      if(!enabled) return;
+      const frames = framesRef.current;
+      const unsubscribe = stream.subscribeFrames((frame, receivedAt) => {
+         const time = frame.renderedAt ?? receivedAt;
+         // A jump back in time means a reconnect to a restarted host; start over
+         if(frames.length > 0 && time < frames[frames.length - 1].time) frames.length = 0;
+         frames.push({ time, width: frame.width, height: frame.height, data: frame.data });
+         const oldest = time - REWIND_SECONDS * 1000;
+         let drop = 0;
+         while(drop < frames.length && frames[drop].time < oldest) drop++;
+         if(drop > 0) frames.splice(0, drop);
+      });
+      return () => {
+         unsubscribe();
+         frames.length = 0;
+      };
+   }, [stream, enabled]);
+
+   const snapshot = useCallback(() => {
+      const frames = framesRef.current;
+      if(frames.length === 0) return [];
+      const start = frames[0].time;
+      return frames.map((frame) => ({ ...frame, time: frame.time - start }));
+   }, []);
+
+   return { snapshot };
+}
@@ -1,19 +1,39 @@
 import { useState, useEffect, useCallback } from 'react';
+import type { Modulator, Timeline } from '../types.ts';
 
 export interface SavedPreset {
    id: number;
    presetName: string;
    patternName: string;
    params: Record<string, unknown>;
+   /** Absent from presets served by older hosts. */
+   modulators?: Record<string, Modulator>;
+   /** Set on animations; absent from presets served by older hosts. */
+   timeline?: Timeline | null;
    updatedAt: number;
 }
 
+export interface PresetPatch {
+   presetName?: string;
+   patternName?: string;
+   params?: Record<string, unknown>;
+   modulators?: Record<string, Modulator>;
+   /** A timeline without keyframes turns an animation back into a plain preset. */
+   timeline?: Timeline;
+}
+
 interface UseSavedPatternsResult {
    presets: SavedPreset[];
    loading: boolean;
    error: string | null;
-   savePreset: (presetName: string, patternName: string, params: Record<string, unknown>) => Promise<SavedPreset>;
-   updatePreset: (id: number, patch: { presetName?: string; patternName?: string; params?: Record<string, unknown> }) => Promise<SavedPreset>;
+   savePreset: (
+      presetName: string,
+      patternName: string,
+      params: Record<string, unknown>,
+      modulators?: Record<string, Modulator>,
+      timeline?: Timeline
+   ) => Promise<SavedPreset>;
+   updatePreset: (id: number, patch: PresetPatch) => Promise<SavedPreset>;
    deletePreset: (id: number) => Promise<void>;
    renamePreset: (id: number, newName: string) => Promise<SavedPreset>;
    refresh: () => Promise<void>;
@@ -48,12 +68,14 @@ export function useSavedPatterns(): UseSavedPatternsResult {
    const savePreset = useCallback(async (
       presetName: string,
       patternName: string,
-      params: Record<string, unknown>
+      params: Record<string, unknown>,
+      modulators: Record<string, Modulator> = {},
+      timeline?: Timeline
    ): Promise<SavedPreset> => {
       const response = await fetch('/api/saved-patterns', {
          method: 'POST',
          headers: { 'Content-Type': 'application/json' },
-         body: JSON.stringify({ presetName, patternName, params }),
+         body: JSON.stringify({ presetName, patternName, params, modulators, timeline }),
       });
       if(response.status === 409) throw new Error('Name already in use');
       if(!response.ok) throw new Error(`Failed to save preset: ${response.status}`);
@@ -64,7 +86,7 @@ export function useSavedPatterns(): UseSavedPatternsResult {
 
    const updatePreset = useCallback(async (
       id: number,
-      patch: { presetName?: string; patternName?: string; params?: Record<string, unknown> }
+      patch: PresetPatch
    ): Promise<SavedPreset> => {
       const response = await fetch(`/api/saved-patterns/${id}`, {
          method: 'PUT',
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Schedule, ScheduleAction, ScheduleState } from '../types.ts';
+
+interface UseScheduleResult {
+   state: ScheduleState | null;
+   loading: boolean;
+   error: string | null;
+   saveSchedule: (schedule: Schedule) => Promise<void>;
+   setOverride: (action: ScheduleAction, presetId: number | null, minutes: number) => Promise<void>;
+   clearOverride: () => Promise<void>;
+}
+
+/**
+ * The host's schedule and what it is doing, refreshed every half minute so the
+ * week view and next change keep up.
+ */
+export function useSchedule(): UseScheduleResult {
+   const [state, setState] = useState<ScheduleState | null>(null);
+   const [loading, setLoading] = useState(true);
+   const [error, setError] = useState<string | null>(null);
+
+   const fetchState = useCallback(async () => {
+      try {
+         const response = await fetch('/api/schedule');
+         if(!response.ok) throw new Error(`Failed to fetch schedule: ${response.status}`);
+         setState(await response.json());
+         setError(null);
+      }
+      catch(e) {
+         setError(e instanceof Error ? e.message : 'Failed to load schedule');
+      }
+      finally {
+         setLoading(false);
+      }
+   }, []);
+
+   useEffect(() => {
+      fetchState();
+      const interval = setInterval(fetchState, 30_000);
+      return () => clearInterval(interval);
+   }, [fetchState]);
+
+   // Sends a request that answers with the schedule state; the host explains failures in plain text
+   const request = useCallback(async (url: string, init: RequestInit, fallback: string) => {
+      const response = await fetch(url, init);
+      if(!response.ok) {
+         const text = await response.text().catch(() => '');
+         throw new Error(text || `${fallback}: ${response.status}`);
+      }
+      setState(await response.json());
+   }, []);
+
+   const saveSchedule = useCallback((schedule: Schedule) =>
+      request('/api/schedule', {
+         method: 'PUT',
+         headers: { 'Content-Type': 'application/json' },
+         body: JSON.stringify(schedule),
+      }, 'Failed to save schedule'),
+   [request]);
+
+   const setOverride = useCallback((action: ScheduleAction, presetId: number | null, minutes: number) =>
+      request('/api/schedule/override', {
+         method: 'PUT',
+         headers: { 'Content-Type': 'application/json' },
+         body: JSON.stringify({ action, presetId, minutes }),
+      }, 'Failed to set override'),
+   [request]);
+
+   const clearOverride = useCallback(() =>
+      request('/api/schedule/override', { method: 'DELETE' }, 'Failed to clear override'),
+   [request]);
+
+   return { state, loading, error, saveSchedule, setOverride, clearOverride };
+}
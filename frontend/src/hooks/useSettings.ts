@@ -10,6 +10,30 @@ const DEFAULTS: ScalarSettings = {
    showViewport: true,
    showStrips: false,
    showBackground: false,
+   showAnnotations: false,
+   annotationTickInterval: 10,
+   outputPreview: false,
+   outputGamma: 2.2,
+   whiteBalanceRed: 100,
+   whiteBalanceGreen: 100,
+   whiteBalanceBlue: 100,
+   ledGlow: false,
+   glowRadius: 3,
+   glowIntensity: 1,
+   glowSoftness: 0.7,
+   backgroundScale: 1,
+   backgroundOffsetX: 0,
+   backgroundOffsetY: 0,
+   backgroundRotation: 0,
+   backgroundOpacity: 100,
+   backgroundTopLeftX: 0,
+   backgroundTopLeftY: 0,
+   backgroundTopRightX: 0,
+   backgroundTopRightY: 0,
+   backgroundBottomRightX: 0,
+   backgroundBottomRightY: 0,
+   backgroundBottomLeftX: 0,
+   backgroundBottomLeftY: 0,
 };
 
 export function useSettings() {
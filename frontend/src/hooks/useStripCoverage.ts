@@ -0,0 +1,46 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { LEDStripData } from '../types.ts';
+import { computeCoverage, type Coverage } from '../utils/coverage.ts';
+
+/**
+ * Which viewport pixels the host's LEDs sample, from GET /api/led-strips. Fetched
+ * while enabled, and again whenever `refreshKey` changes (e.g. after a layout edit).
+ */
+export function useStripCoverage(
+   enabled: boolean,
+   width: number,
+   height: number,
+   refreshKey?: unknown,
+): Coverage | null {
+   const [strips, setStrips] = useState<LEDStripData[] | null>(null);
+
+   useEffect(() => {
+      if(!enabled) return;
+      let cancelled = false;
+
+      async function fetchStrips() {
+         try {
+            const res = await fetch('/api/led-strips');
+            if(res.ok) {
+               const data: LEDStripData[] = await res.json();
+               if(!cancelled) setStrips(data);
+            }
+         }
+         catch(e) {
+            console.error('Failed to fetch LED strips:', e);
+         }
+      }
+
+      fetchStrips();
+      return () => {
+         cancelled = true;
+      };
+   }, [enabled, refreshKey]);
+
+   const coverage = useMemo(
+      () => (strips && width > 0 && height > 0 ? computeCoverage(strips, width, height) : null),
+      [strips, width, height],
+   );
+
+   return enabled ? coverage : null;
+}
@@ -13,6 +13,14 @@ function decodeRgbHex(rgb: string): number[] {
    return out;
 }
 
+function decodeBrightnessHex(brightness: string): number[] {
+   const out: number[] = [];
+   for(let i = 0; i < brightness.length; i += 2) {
+      out.push(parseInt(brightness.slice(i, i + 2), 16));
+   }
+   return out;
+}
+
 const MAX_LOG_ENTRIES = 50;
 const BACKOFF_INITIAL_MS = 1000;
 const BACKOFF_MAX_MS = 30000;
@@ -22,6 +30,8 @@ export function useStripsWebSocket(active: boolean) {
    const [activityLog, setActivityLog] = useState<ActivityLogEntry[]>([]);
    const [stripTelemetry, setStripTelemetry] = useState<Record<number, StripTelemetryMessage>>({});
    const [stripLeds, setStripLeds] = useState<Record<number, number[]>>({});
+   // APA102 brightness per LED; null while every LED of the strip is at full brightness
+   const [stripBrightness, setStripBrightness] = useState<Record<number, number[] | null>>({});
    const [isConnected, setIsConnected] = useState(false);
    const [isReconnecting, setIsReconnecting] = useState(false);
    const backoffRef = useRef(BACKOFF_INITIAL_MS);
@@ -84,6 +94,8 @@ export function useStripsWebSocket(active: boolean) {
                else if(msg.type === 'strip_leds') {
                   const decoded = decodeRgbHex(msg.rgb);
                   setStripLeds((prev) => ({ ...prev, [msg.stripId]: decoded }));
+                  const brightness = msg.brightness ? decodeBrightnessHex(msg.brightness) : null;
+                  setStripBrightness((prev) => ({ ...prev, [msg.stripId]: brightness }));
                }
             }
             catch {
@@ -106,5 +118,5 @@ export function useStripsWebSocket(active: boolean) {
    const isScanning = activityLog.length > 0 &&
       activityLog[0].message.startsWith('Scanning');
 
-   return { strips, activityLog, stripTelemetry, stripLeds, isScanning, isConnected, isReconnecting };
+   return { strips, activityLog, stripTelemetry, stripLeds, stripBrightness, isScanning, isConnected, isReconnecting };
 }
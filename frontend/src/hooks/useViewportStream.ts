@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { PreviewQuality, PreviewQualityMode, ViewportMessage } from '../types.ts';
+import type { ViewportWorkerEvent, ViewportWorkerRequest } from '../workers/viewportWorker.ts';
+
+type RGB = [number, number, number];
+
+export interface ViewportStream {
+   /** Hands a fresh canvas to the worker for drawing; returns a function that takes it back. */
+   attachCanvas(canvas: HTMLCanvasElement): () => void;
+   /** Reads a pixel from the most recently decoded frame (null before the first frame). */
+   sample(x: number, y: number): Promise<RGB | null>;
+   /** Chooses a fixed preview quality, or 'auto' to let the worker adapt it. */
+   setQualityMode(mode: PreviewQualityMode): void;
+   /** Receives a copy of every decoded frame until the returned function is called. */
+   subscribeFrames(listener: FrameListener): () => void;
+   /** Asks for full-resolution frames whatever the quality mode until the returned function is called. */
+   holdFullQuality(): () => void;
+}
+
+export type FrameListener = (frame: ViewportMessage, receivedAt: number) => void;
+
+/**
+ * Runs the /viewport stream in a Web Worker: the socket, inflating and drawing all
+ * happen off the main thread. The page only hears about connection and resolution
+ * changes and the quality the server is sending. The stream pauses while the page
+ * is hidden. A canvas can be transferred to a worker only once, so each attach
+ * needs a new canvas element.
+ */
+export function useViewportStream(
+   onConnectionChange: (connected: boolean) => void,
+   onResolutionChange?: (width: number, height: number) => void,
+   onQualityChange?: (quality: PreviewQuality | null) => void,
+): ViewportStream {
+   const workerRef = useRef<Worker | null>(null);
+   const pendingCanvasRef = useRef<HTMLCanvasElement | null>(null);
+   const samplesRef = useRef(new Map<number, (rgb: RGB | null) => void>());
+   const nextSampleIdRef = useRef(0);
+   const onConnectionChangeRef = useRef(onConnectionChange);
+   const onResolutionChangeRef = useRef(onResolutionChange);
+   const onQualityChangeRef = useRef(onQualityChange);
+   const qualityModeRef = useRef<PreviewQualityMode>('auto');
+   const frameListenersRef = useRef(new Set<FrameListener>());
+   const fullQualityHoldsRef = useRef(0);
+
+   useEffect(() => {
+      onConnectionChangeRef.current = onConnectionChange;
+      onResolutionChangeRef.current = onResolutionChange;
+      onQualityChangeRef.current = onQualityChange;
+   });
+
+   useEffect(() => {
+      const worker = new Worker(new URL('../workers/viewportWorker.ts', import.meta.url), { type: 'module' });
+      const samples = samplesRef.current;
+      workerRef.current = worker;
+
+      worker.onmessage = (event: MessageEvent<ViewportWorkerEvent>) => {
+         const msg = event.data;
+         if (msg.type === 'connection') {
+            onConnectionChangeRef.current(msg.connected);
+         } else if (msg.type === 'resolution') {
+            onResolutionChangeRef.current?.(msg.width, msg.height);
+         } else if (msg.type === 'quality') {
+            onQualityChangeRef.current?.(msg.quality);
+         } else if (msg.type === 'frame') {
+            for (const listener of frameListenersRef.current) listener(msg.frame, msg.receivedAt);
+         } else if (msg.type === 'sample') {
+            samples.get(msg.id)?.(msg.rgb);
+            samples.delete(msg.id);
+         }
+      };
+
+      const onVisibilityChange = () => {
+         post(worker, { type: 'visibility', hidden: document.visibilityState === 'hidden' });
+      };
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      onVisibilityChange();
+      post(worker, { type: 'quality', mode: qualityModeRef.current });
+      if (frameListenersRef.current.size > 0) post(worker, { type: 'record', enabled: true });
+      if (fullQualityHoldsRef.current > 0) post(worker, { type: 'fullQuality', enabled: true });
+
+      const wsHost = import.meta.env.VITE_WS_HOST ?? window.location.host;
+      const url = `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${wsHost}/viewport?v=2`;
+      post(worker, { type: 'connect', url });
+
+      // A canvas attached before the worker existed (child effects run first)
+      if (pendingCanvasRef.current) {
+         transfer(worker, pendingCanvasRef.current);
+         pendingCanvasRef.current = null;
+      }
+
+      return () => {
+         document.removeEventListener('visibilitychange', onVisibilityChange);
+         worker.terminate();
+         workerRef.current = null;
+         for (const resolve of samples.values()) resolve(null);
+         samples.clear();
+         onConnectionChangeRef.current(false);
+         onQualityChangeRef.current?.(null);
+      };
+   }, []);
+
+   return useMemo<ViewportStream>(() => ({
+      attachCanvas(canvas) {
+         const worker = workerRef.current;
+         if (worker) transfer(worker, canvas);
+         else pendingCanvasRef.current = canvas;
+         return () => {
+            if (pendingCanvasRef.current === canvas) pendingCanvasRef.current = null;
+            else if (workerRef.current) post(workerRef.current, { type: 'detach' });
+         };
+      },
+
+      sample(x, y) {
+         const worker = workerRef.current;
+         if (!worker) return Promise.resolve(null);
+         const id = nextSampleIdRef.current++;
+         return new Promise((resolve) => {
+            samplesRef.current.set(id, resolve);
+            post(worker, { type: 'sample', id, x, y });
+         });
+      },
+
+      setQualityMode(mode) {
+         qualityModeRef.current = mode;
+         if (workerRef.current) post(workerRef.current, { type: 'quality', mode });
+      },
+
+      subscribeFrames(listener) {
+         const listeners = frameListenersRef.current;
+         listeners.add(listener);
+         // The worker only copies frames out while someone is listening
+         if (listeners.size === 1 && workerRef.current) post(workerRef.current, { type: 'record', enabled: true });
+         return () => {
+            if (!listeners.delete(listener)) return;
+            if (listeners.size === 0 && workerRef.current) post(workerRef.current, { type: 'record', enabled: false });
+         };
+      },
+
+      holdFullQuality() {
+         if (++fullQualityHoldsRef.current === 1 && workerRef.current) {
+            post(workerRef.current, { type: 'fullQuality', enabled: true });
+         }
+         let released = false;
+         return () => {
+            if (released) return;
+            released = true;
+            if (--fullQualityHoldsRef.current === 0 && workerRef.current) {
+               post(workerRef.current, { type: 'fullQuality', enabled: false });
+            }
+         };
+      },
+   }), []);
+}
+
+function post(worker: Worker, msg: ViewportWorkerRequest, transferList: Transferable[] = []) {
+   worker.postMessage(msg, transferList);
+}
+
+function transfer(worker: Worker, canvas: HTMLCanvasElement) {
+   const offscreen = canvas.transferControlToOffscreen();
+   post(worker, { type: 'attach', canvas: offscreen }, [offscreen]);
+}
@@ -1,9 +1,48 @@
 // WebSocket viewport message (decoded from binary frame)
-// Wire format: [flags:1B][width:2B][height:2B][RGB pixel data...]
+// v1 wire format: [flags:1B][width:2B][height:2B][RGB pixel data...]
+// v2 wire format: [flags:1B][version:1B][width:2B][height:2B][seq:4B][renderedAt:8B][keyframe or delta payload...]
 export interface ViewportMessage {
    width: number;
    height: number;
    data: Uint8Array; // Raw RGB bytes (3 per pixel, row-major)
+   seq?: number; // v2 only: frame sequence number
+   renderedAt?: number; // v2 only: server render time, ms since the epoch
+   scale?: number; // v2 only: downscale factor of the keyframe it builds on (1 = full resolution)
+}
+
+// Preview quality in effect for a /viewport client (maxFps 0 = every frame)
+export interface PreviewQuality {
+   maxFps: number;
+   scale: number; // Downscale factor: 2 = half the width and height
+   paused: boolean;
+}
+
+// Text message on /viewport confirming a {"type":"quality"} request
+export interface ViewportQualityMessage extends PreviewQuality {
+   type: 'quality';
+}
+
+// 'auto' steps down from full quality when the client can't keep up
+export type PreviewQualityMode = 'auto' | 'full' | 'reduced' | 'low';
+
+// A decoded viewport frame captured by the preview recorder
+export interface RecordedFrame {
+   time: number; // ms since the recording started
+   width: number;
+   height: number;
+   data: Uint8Array; // Raw RGB bytes (3 per pixel, row-major)
+}
+
+// What was playing while a recording was made
+export interface RecordingMetadata {
+   pattern: string;
+   params: Record<string, ParamValue>;
+   startedAt: string; // ISO 8601
+}
+
+export interface Recording {
+   metadata: RecordingMetadata;
+   frames: RecordedFrame[];
 }
 
 // Stats from GET /api/stats
@@ -32,6 +71,29 @@ export interface LEDStripData {
    leds: LEDData[];
 }
 
+// Layout text message from /ws/led-strips, sent on connect and when the strips change.
+// positions holds x,y pairs for LED 0..length-1; LEDs outside the viewport are -1,-1.
+export interface LEDLayoutMessage {
+   type: 'layout';
+   version: number;
+   strips: { id: number; length: number; positions: number[] }[];
+}
+
+// Decoded layout: each strip's LEDs start at `offset` (in LEDs) within a frame's RGB data
+export interface LEDStripsLayout {
+   version: number;
+   strips: { id: number; length: number; offset: number; positions: Int16Array }[];
+}
+
+// Latest /ws/led-strips binary frame, decoded against its layout
+// Wire format: [flags:1B][layoutVersion:2B][RGB per LED, strips in layout order...][brightness per LED, if flagged]
+export interface LEDStripsFrame {
+   layout: LEDStripsLayout;
+   rgb: Uint8Array;
+   // APA102 global brightness (0-31) per LED; null when every LED is at full brightness
+   brightness: Uint8Array | null;
+}
+
 // Parameter definition types from GET /api/patterns
 export interface FloatParamDef {
    type: 'float';
@@ -68,7 +130,182 @@ export interface ColorParamDef {
    default: string; // hex "#RRGGBB"
 }
 
-export type ParameterDef = FloatParamDef | IntParamDef | SelectParamDef | ColorParamDef;
+export interface BoolParamDef {
+   type: 'bool';
+   name: string;
+   label: string;
+   default: boolean;
+}
+
+export interface RangeParamDef {
+   type: 'range';
+   name: string;
+   label: string;
+   min: number;
+   max: number;
+   step: number;
+   default: [number, number]; // [low, high]
+}
+
+export interface PaletteStop {
+   position: number; // 0-1 along the gradient
+   color: string;    // hex "#RRGGBBbb"
+}
+
+export interface PaletteParamDef {
+   type: 'palette';
+   name: string;
+   label: string;
+   default: PaletteStop[];
+}
+
+export interface PointParamDef {
+   type: 'point';
+   name: string;
+   label: string;
+   default: [number, number] | null; // [x, y] in viewport pixels; null is the viewport's center
+}
+
+export interface AngleParamDef {
+   type: 'angle';
+   name: string;
+   label: string;
+   step: number;
+   default: number; // degrees, wraps around at 360
+}
+
+export type ParameterDef =
+   FloatParamDef | IntParamDef | SelectParamDef | ColorParamDef | BoolParamDef | RangeParamDef | PaletteParamDef |
+   PointParamDef | AngleParamDef;
+
+// A pattern parameter's value: a range is [low, high], a point [x, y]
+export type ParamValue = number | string | boolean | [number, number] | PaletteStop[];
+
+export type ModulatorShape = 'sine' | 'triangle' | 'square' | 'random-walk' | 'sample-hold';
+
+// An LFO bound to a numeric parameter, run by the host (PUT /api/modulators)
+export interface Modulator {
+   shape: ModulatorShape;
+   rate: number;   // cycles per second
+   depth: number;  // swing either side of center, in the parameter's units
+   center: number;
+}
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'step';
+
+// A parameter's value at a point in a timeline; easing shapes the move to the next keyframe
+export interface Keyframe {
+   time: number;   // seconds from the start
+   value: ParamValue;
+   easing: Easing;
+}
+
+// Keyframed parameter values the host plays over time (PUT /api/timeline)
+export interface Timeline {
+   duration: number;  // seconds
+   loop: boolean;     // start over at the end, or hold the last values
+   lanes: Record<string, Keyframe[]>;  // keyframes by parameter name
+}
+
+export type TransitionType = 'cut' | 'crossfade' | 'wipe';
+
+export interface Transition {
+   type: TransitionType;
+   duration: number;  // seconds; a cut ignores it
+}
+
+// A saved preset's turn in a playlist
+export interface PlaylistItem {
+   presetId: number;
+   duration: number;  // seconds, counted from when the transition into it starts
+   transition: Transition;
+}
+
+// Playlist from GET /api/playlists
+export interface Playlist {
+   id: number;
+   name: string;
+   items: PlaylistItem[];
+   updatedAt: number;
+}
+
+// Where the host's playlist player is up to
+export interface PlaylistStatus {
+   playlistId: number;
+   playlistName: string;
+   index: number;
+   nextIndex: number;
+   current: string;      // preset name
+   next: string | null;  // preset name, null if it has been deleted
+   remaining: number;    // seconds until the next item
+   paused: boolean;
+   shuffle: boolean;
+}
+
+// Response from GET /api/playlist-player and the player controls
+export interface PlaylistPlayerState {
+   status: PlaylistStatus | null;  // null when no playlist is playing
+   startupPlaylistId: number | null;
+}
+
+export type TimeAnchor = 'clock' | 'sunrise' | 'sunset';
+
+// A time of day on the clock, or an offset from sunrise or sunset
+export interface TimeOfDay {
+   anchor: TimeAnchor;
+   minutes: number;  // after midnight on the clock; otherwise after (negative: before) the sun
+}
+
+export type ScheduleAction = 'preset' | 'off';
+
+// A window in which the schedule shows a preset or turns the strips off. An end not
+// after the start runs past midnight; days and dates refer to the day a window opens.
+export interface ScheduleRule {
+   name: string;
+   enabled: boolean;
+   action: ScheduleAction;
+   presetId: number | null;  // set for 'preset'
+   start: TimeOfDay;
+   end: TimeOfDay;
+   days: number[];           // 1 = Monday … 7 = Sunday; empty for every day
+   from: string | null;      // yyyy-mm-dd, inclusive
+   until: string | null;     // yyyy-mm-dd, inclusive
+}
+
+// Rules highest priority first: where windows overlap, the earlier rule wins
+export interface Schedule {
+   enabled: boolean;
+   latitude: number | null;   // where the strips are, for sunrise and sunset
+   longitude: number | null;
+   rules: ScheduleRule[];
+}
+
+// A manual choice that takes over from the schedule until it expires
+export interface ScheduleOverride {
+   action: ScheduleAction;
+   presetId: number | null;
+   until: number;  // epoch ms
+}
+
+// A rule's time on one day of the week view
+export interface CalendarBlock {
+   day: number;    // 0 = Monday
+   start: number;  // minutes after midnight
+   end: number;    // minutes after midnight, up to 1440
+   rule: number;   // index into the rules
+}
+
+// Response from GET /api/schedule and the schedule requests
+export interface ScheduleState {
+   schedule: Schedule;
+   timeZone: string;           // the host's; clock times are in it
+   now: number;                // the host's time, epoch ms
+   activeRule: number | null;
+   override: ScheduleOverride | null;
+   nextChange: number | null;  // epoch ms; null if nothing changes within a week
+   weekStart: string;          // the Monday of the week shown, yyyy-mm-dd
+   week: CalendarBlock[];
+}
 
 // Strip connection status from GET /api/strips
 export interface StripStatus {
@@ -110,6 +347,8 @@ export interface StripLedsMessage {
    type: 'strip_leds';
    stripId: number;
    rgb: string;
+   // bb per LED (APA102 brightness, 0-31); omitted or null when every LED is at 31
+   brightness?: string | null;
 }
 
 export type StripsWsMessage = StripsUpdateMessage | DiscoveryEventWsMessage | StripTelemetryMessage | StripLedsMessage;
@@ -137,6 +376,34 @@ export interface ScalarSettings {
    showViewport: boolean;
    showStrips: boolean;
    showBackground: boolean;
+   showAnnotations: boolean;
+   annotationTickInterval: number;
+   // "As output" preview: LED colors shown with brightness, gamma and white balance applied
+   outputPreview: boolean;
+   outputGamma: number;
+   whiteBalanceRed: number;     // percent, 0-100
+   whiteBalanceGreen: number;
+   whiteBalanceBlue: number;
+   // Diffused-glow LED overlay: radius in viewport pixels, intensity multiplier, softness 0-1
+   ledGlow: boolean;
+   glowRadius: number;
+   glowIntensity: number;
+   glowSoftness: number;
+   // Background photo alignment: scale and rotation (degrees) about the photo's center,
+   // offset and per-corner perspective nudges in viewport pixels, opacity in percent
+   backgroundScale: number;
+   backgroundOffsetX: number;
+   backgroundOffsetY: number;
+   backgroundRotation: number;
+   backgroundOpacity: number;
+   backgroundTopLeftX: number;
+   backgroundTopLeftY: number;
+   backgroundTopRightX: number;
+   backgroundTopRightY: number;
+   backgroundBottomRightX: number;
+   backgroundBottomRightY: number;
+   backgroundBottomLeftX: number;
+   backgroundBottomLeftY: number;
 }
 
 // Strip setting from GET /api/settings/strips
@@ -161,3 +428,11 @@ export interface StripSettingInput {
    endY: number | null;
    reverse: boolean;
 }
+
+// Response from POST /api/calibration: the strip now showing its calibration LEDs
+export interface CalibrationTarget {
+   stripId: number;
+   length: number;
+   firstColor: string; // color of LED 0, "#rrggbb"
+   lastColor: string;  // color of the last LED, "#rrggbb"
+}
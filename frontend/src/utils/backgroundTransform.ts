@@ -0,0 +1,232 @@
+import type { ScalarSettings } from '../types.ts';
+import type { Point } from './stripGeometry.ts';
+
+/** The persisted settings that align the background photo with the viewport. */
+export type BackgroundTransform = Pick<ScalarSettings,
+   'backgroundScale' | 'backgroundOffsetX' | 'backgroundOffsetY' | 'backgroundRotation' | 'backgroundOpacity' |
+   'backgroundTopLeftX' | 'backgroundTopLeftY' | 'backgroundTopRightX' | 'backgroundTopRightY' |
+   'backgroundBottomRightX' | 'backgroundBottomRightY' | 'backgroundBottomLeftX' | 'backgroundBottomLeftY'>;
+
+export const BACKGROUND_SCALE_RANGE = { min: 0.1, max: 10 };
+export const BACKGROUND_ROTATION_RANGE = { min: -180, max: 180 };
+
+export const IDENTITY_BACKGROUND_TRANSFORM: BackgroundTransform = {
+   backgroundScale: 1,
+   backgroundOffsetX: 0,
+   backgroundOffsetY: 0,
+   backgroundRotation: 0,
+   backgroundOpacity: 100,
+   backgroundTopLeftX: 0,
+   backgroundTopLeftY: 0,
+   backgroundTopRightX: 0,
+   backgroundTopRightY: 0,
+   backgroundBottomRightX: 0,
+   backgroundBottomRightY: 0,
+   backgroundBottomLeftX: 0,
+   backgroundBottomLeftY: 0,
+};
+
+/** Just the alignment fields, e.g. to save them without the rest of the settings. */
+export function pickBackgroundTransform(settings: BackgroundTransform): BackgroundTransform {
+   const picked = { ...IDENTITY_BACKGROUND_TRANSFORM };
+   for(const key of Object.keys(picked) as (keyof BackgroundTransform)[]) picked[key] = settings[key];
+   return picked;
+}
+
+/** The photo's corners, clockwise from the top left. */
+export const CORNERS = ['TopLeft', 'TopRight', 'BottomRight', 'BottomLeft'] as const;
+export type Corner = typeof CORNERS[number];
+
+export type Quad = [Point, Point, Point, Point];
+
+export function cornerKeys(corner: Corner): [keyof BackgroundTransform, keyof BackgroundTransform] {
+   return [`background${corner}X`, `background${corner}Y`];
+}
+
+/** The photo's size when fitted inside the viewport, as `object-fit: contain` would. */
+export function containSize(
+   imageWidth: number,
+   imageHeight: number,
+   viewportWidth: number,
+   viewportHeight: number,
+): { width: number; height: number } {
+   const fit = Math.min(viewportWidth / imageWidth, viewportHeight / imageHeight);
+   return { width: imageWidth * fit, height: imageHeight * fit };
+}
+
+/**
+ * Where the fitted photo's corners land in viewport coordinates once it is
+ * scaled and rotated about its center and offset. Perspective nudges are not
+ * included; they move these corners.
+ */
+export function affineQuad(
+   width: number,
+   height: number,
+   viewportWidth: number,
+   viewportHeight: number,
+   t: BackgroundTransform,
+): Quad {
+   const cx = viewportWidth / 2 + t.backgroundOffsetX;
+   const cy = viewportHeight / 2 + t.backgroundOffsetY;
+   const angle = (t.backgroundRotation * Math.PI) / 180;
+   const cos = Math.cos(angle) * t.backgroundScale;
+   const sin = Math.sin(angle) * t.backgroundScale;
+   const hw = width / 2;
+   const hh = height / 2;
+   const corner = (dx: number, dy: number): Point => ({
+      x: cx + dx * cos - dy * sin,
+      y: cy + dx * sin + dy * cos,
+   });
+   return [corner(-hw, -hh), corner(hw, -hh), corner(hw, hh), corner(-hw, hh)];
+}
+
+/** The photo's corners in viewport coordinates with every part of the transform applied. */
+export function backgroundQuad(
+   width: number,
+   height: number,
+   viewportWidth: number,
+   viewportHeight: number,
+   t: BackgroundTransform,
+): Quad {
+   const quad = affineQuad(width, height, viewportWidth, viewportHeight, t);
+   return quad.map((p, i) => {
+      const [kx, ky] = cornerKeys(CORNERS[i]);
+      return { x: p.x + t[kx], y: p.y + t[ky] };
+   }) as Quad;
+}
+
+/** Projective map from the unit square: x = (a·u + b·v + c) / w, y = (d·u + e·v + f) / w, w = g·u + h·v + 1. */
+interface Homography {
+   a: number; b: number; c: number;
+   d: number; e: number; f: number;
+   g: number; h: number;
+}
+
+/**
+ * The homography taking the unit square's corners onto the quad (Heckbert's
+ * closed form). Falls back to the affine part when the quad is degenerate.
+ */
+function squareToQuad([p0, p1, p2, p3]: Quad): Homography {
+   const sx = p0.x - p1.x + p2.x - p3.x;
+   const sy = p0.y - p1.y + p2.y - p3.y;
+   const dx1 = p1.x - p2.x;
+   const dx2 = p3.x - p2.x;
+   const dy1 = p1.y - p2.y;
+   const dy2 = p3.y - p2.y;
+   const den = dx1 * dy2 - dx2 * dy1;
+
+   let g = 0;
+   let h = 0;
+   if((sx !== 0 || sy !== 0) && den !== 0) {
+      g = (sx * dy2 - dx2 * sy) / den;
+      h = (dx1 * sy - sx * dy1) / den;
+   }
+   return {
+      a: p1.x - p0.x + g * p1.x, b: p3.x - p0.x + h * p3.x, c: p0.x,
+      d: p1.y - p0.y + g * p1.y, e: p3.y - p0.y + h * p3.y, f: p0.y,
+      g, h,
+   };
+}
+
+function mapUnitSquare(m: Homography, u: number, v: number): Point {
+   const w = m.g * u + m.h * v + 1;
+   return { x: (m.a * u + m.b * v + m.c) / w, y: (m.d * u + m.e * v + m.f) / w };
+}
+
+/**
+ * CSS `matrix3d()` taking a `width`×`height` box with its origin at (0, 0) onto
+ * the quad: the box shrunk to the unit square, then the square's homography.
+ */
+export function quadMatrix3d(width: number, height: number, quad: Quad): string {
+   const { a, b, c, d, e, f, g, h } = squareToQuad(quad);
+   // Column-major; u = x / width, v = y / height
+   const m = [
+      a / width, d / width, 0, g / width,
+      b / height, e / height, 0, h / height,
+      0, 0, 1, 0,
+      c, f, 0, 1,
+   ];
+   return `matrix3d(${m.join(', ')})`;
+}
+
+// Canvas 2D has no perspective, so a warped photo is drawn as a mesh of affine triangles
+const MESH_CELLS = 16;
+// Grow each triangle's clip a little so neighbours overlap instead of leaving hairline seams
+const SEAM_OVERLAP = 0.75;
+
+function drawTriangle(
+   ctx: CanvasRenderingContext2D,
+   image: CanvasImageSource,
+   [s0, s1, s2]: Point[],
+   [d0, d1, d2]: Point[],
+) {
+   const sx1 = s1.x - s0.x;
+   const sy1 = s1.y - s0.y;
+   const sx2 = s2.x - s0.x;
+   const sy2 = s2.y - s0.y;
+   const den = sx1 * sy2 - sx2 * sy1;
+   if(den === 0) return;
+   const a = ((d1.x - d0.x) * sy2 - (d2.x - d0.x) * sy1) / den;
+   const b = ((d1.y - d0.y) * sy2 - (d2.y - d0.y) * sy1) / den;
+   const c = ((d2.x - d0.x) * sx1 - (d1.x - d0.x) * sx2) / den;
+   const d = ((d2.y - d0.y) * sx1 - (d1.y - d0.y) * sx2) / den;
+
+   const cx = (d0.x + d1.x + d2.x) / 3;
+   const cy = (d0.y + d1.y + d2.y) / 3;
+   ctx.save();
+   ctx.beginPath();
+   for(const p of [d0, d1, d2]) {
+      const length = Math.hypot(p.x - cx, p.y - cy) || 1;
+      ctx.lineTo(p.x + ((p.x - cx) / length) * SEAM_OVERLAP, p.y + ((p.y - cy) / length) * SEAM_OVERLAP);
+   }
+   ctx.closePath();
+   ctx.clip();
+   ctx.setTransform(a, b, c, d, d0.x - a * s0.x - c * s0.y, d0.y - b * s0.x - d * s0.y);
+   ctx.drawImage(image, 0, 0);
+   ctx.restore();
+}
+
+/**
+ * Draws the photo onto an untransformed canvas showing the viewport at
+ * `pixelSize` canvas pixels per viewport pixel, aligned as the preview shows it.
+ */
+export function drawAlignedImage(
+   ctx: CanvasRenderingContext2D,
+   image: HTMLImageElement,
+   viewportWidth: number,
+   viewportHeight: number,
+   t: BackgroundTransform,
+   pixelSize: number,
+) {
+   const iw = image.naturalWidth;
+   const ih = image.naturalHeight;
+   const { width, height } = containSize(iw, ih, viewportWidth, viewportHeight);
+   const quad = backgroundQuad(width, height, viewportWidth, viewportHeight, t);
+   const m = squareToQuad(quad.map((p) => ({ x: p.x * pixelSize, y: p.y * pixelSize })) as Quad);
+
+   ctx.save();
+   ctx.globalAlpha = t.backgroundOpacity / 100;
+   ctx.imageSmoothingEnabled = true;
+   if(m.g === 0 && m.h === 0) {
+      ctx.setTransform(m.a / iw, m.d / iw, m.b / ih, m.e / ih, m.c, m.f);
+      ctx.drawImage(image, 0, 0);
+   }
+   else {
+      for(let row = 0; row < MESH_CELLS; row++) {
+         for(let col = 0; col < MESH_CELLS; col++) {
+            const u0 = col / MESH_CELLS;
+            const u1 = (col + 1) / MESH_CELLS;
+            const v0 = row / MESH_CELLS;
+            const v1 = (row + 1) / MESH_CELLS;
+            const src = [
+               { x: u0 * iw, y: v0 * ih }, { x: u1 * iw, y: v0 * ih },
+               { x: u1 * iw, y: v1 * ih }, { x: u0 * iw, y: v1 * ih },
+            ];
+            const dst = [mapUnitSquare(m, u0, v0), mapUnitSquare(m, u1, v0), mapUnitSquare(m, u1, v1), mapUnitSquare(m, u0, v1)];
+            drawTriangle(ctx, image, [src[0], src[1], src[2]], [dst[0], dst[1], dst[2]]);
+            drawTriangle(ctx, image, [src[0], src[2], src[3]], [dst[0], dst[2], dst[3]]);
+         }
+      }
+   }
+   ctx.restore();
+}
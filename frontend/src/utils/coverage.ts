@@ -0,0 +1,73 @@
+import type { LEDStripData } from '../types.ts';
+
+export interface CoverageBounds {
+   minX: number;
+   minY: number;
+   maxX: number;
+   maxY: number;
+}
+
+/** Which viewport pixels reach an LED, from the host's LED positions. */
+export interface Coverage {
+   width: number;
+   height: number;
+   /** 1 for every pixel at least one LED samples, row-major. */
+   sampled: Uint8Array;
+   sampledCount: number;
+   ledCount: number;
+   /** Smallest box holding every LED, or null when no LED is mapped. */
+   bounds: CoverageBounds | null;
+}
+
+/** A smaller viewport holding every LED, and how far the strips move to fit it. */
+export interface CropSuggestion {
+   width: number;
+   height: number;
+   offsetX: number;
+   offsetY: number;
+}
+
+export function computeCoverage(strips: LEDStripData[], width: number, height: number): Coverage {
+   const sampled = new Uint8Array(width * height);
+   let sampledCount = 0;
+   let ledCount = 0;
+   let bounds: CoverageBounds | null = null;
+   for(const strip of strips) {
+      for(const { x, y } of strip.leds) {
+         if(x < 0 || y < 0 || x >= width || y >= height) continue;
+         ledCount++;
+         const i = y * width + x;
+         if(!sampled[i]) {
+            sampled[i] = 1;
+            sampledCount++;
+         }
+         if(!bounds) bounds = { minX: x, minY: y, maxX: x, maxY: y };
+         else {
+            bounds.minX = Math.min(bounds.minX, x);
+            bounds.minY = Math.min(bounds.minY, y);
+            bounds.maxX = Math.max(bounds.maxX, x);
+            bounds.maxY = Math.max(bounds.maxY, y);
+         }
+      }
+   }
+   return { width, height, sampled, sampledCount, ledCount, bounds };
+}
+
+/** The fraction (0-1) of viewport pixels that reach an LED. */
+export function coverageFraction(coverage: Coverage): number {
+   const total = coverage.width * coverage.height;
+   return total > 0 ? coverage.sampledCount / total : 0;
+}
+
+/**
+ * Cropping the viewport to the strips' bounding box renders only pixels that can
+ * reach an LED. Null when the strips already span the whole viewport.
+ */
+export function cropSuggestion(coverage: Coverage): CropSuggestion | null {
+   const { bounds } = coverage;
+   if(!bounds) return null;
+   const width = bounds.maxX - bounds.minX + 1;
+   const height = bounds.maxY - bounds.minY + 1;
+   if(width === coverage.width && height === coverage.height) return null;
+   return { width, height, offsetX: bounds.minX, offsetY: bounds.minY };
+}
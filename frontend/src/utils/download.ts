@@ -0,0 +1,15 @@
+/** Saves a blob through the browser's download prompt. */
+export function downloadBlob(blob: Blob, filename: string) {
+   const url = URL.createObjectURL(blob);
+   const link = document.createElement('a');
+   link.href = url;
+   link.download = filename;
+   link.click();
+   // Give the download a moment to start before the URL goes away
+   setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** A filesystem-friendly name: lowercase words joined by dashes. */
+export function slugify(name: string): string {
+   return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+}
@@ -0,0 +1,71 @@
+import type { RecordedFrame } from '../types.ts';
+import type { Point } from './stripGeometry.ts';
+import type { BackgroundTransform } from './backgroundTransform.ts';
+import { drawAlignedImage } from './backgroundTransform.ts';
+import { drawLedOverlay } from './ledOverlay.ts';
+
+/** The background photo, aligned with the viewport as the preview shows it. */
+export interface ExportBackground {
+   image: HTMLImageElement;
+   transform: BackgroundTransform;
+}
+
+/** Which preview layers an exported video or snapshot includes. */
+export interface ExportLayers {
+   viewport: boolean;
+   /** LED positions per strip, or null to leave the strip overlay out. */
+   strips: (Point[] | null)[] | null;
+   background: ExportBackground | null;
+}
+
+/** Loads an image for use as the exported background. */
+export async function loadImage(url: string): Promise<HTMLImageElement> {
+   const image = new Image();
+   image.src = url;
+   await image.decode();
+   return image;
+}
+
+/**
+ * Returns a function that draws a frame's layers onto `ctx` at `pixelSize`
+ * canvas pixels per viewport pixel: black, then the background, the viewport
+ * and the LED overlay. The canvas must already be sized for the frames.
+ */
+export function createFrameDrawer(
+   ctx: CanvasRenderingContext2D,
+   layers: ExportLayers,
+   pixelSize: number,
+): (frame: RecordedFrame) => void {
+   // Native-size scratch canvas for the RGB -> RGBA unpacking
+   const source = document.createElement('canvas');
+   let image: ImageData | null = null;
+
+   return (frame) => {
+      const { canvas } = ctx;
+      ctx.imageSmoothingEnabled = false;
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      if(layers.background) {
+         drawAlignedImage(ctx, layers.background.image, frame.width, frame.height, layers.background.transform, pixelSize);
+      }
+
+      if(layers.viewport) {
+         if(!image || image.width !== frame.width || image.height !== frame.height) {
+            image = new ImageData(frame.width, frame.height);
+            source.width = frame.width;
+            source.height = frame.height;
+         }
+         const rgba = image.data;
+         for(let i = 0, j = 0; i < frame.data.length; i += 3, j += 4) {
+            rgba[j] = frame.data[i];
+            rgba[j + 1] = frame.data[i + 1];
+            rgba[j + 2] = frame.data[i + 2];
+            rgba[j + 3] = 255;
+         }
+         source.getContext('2d')!.putImageData(image, 0, 0);
+         ctx.drawImage(source, 0, 0, frame.width * pixelSize, frame.height * pixelSize);
+      }
+
+      if(layers.strips) drawLedOverlay(ctx, layers.strips, frame, pixelSize);
+   };
+}
@@ -0,0 +1,103 @@
+import type { Recording } from '../types.ts';
+
+// Frame archive format, gzip-compressed as a whole:
+//   [magic "LEDF":4B][format version:1B]
+//   [metadata length:4B BE][metadata JSON, UTF-8]
+//   [frame count:4B BE]
+//   per frame: [time ms:4B BE][width:2B BE][height:2B BE][encoding:1B][RGB: width*height*3]
+// Encoding 0 is plain RGB; 1 is the RGB XORed with the previous frame, which turns
+// unchanged pixels into zeros so that gzip can squeeze them out.
+
+export const FRAME_ARCHIVE_EXTENSION = '.ledframes';
+
+const MAGIC = [0x4c, 0x45, 0x44, 0x46]; // "LEDF"
+const FORMAT_VERSION = 1;
+const ENCODING_RAW = 0;
+const ENCODING_XOR = 1;
+
+/** Packs a recording into a compressed frame archive. */
+export async function encodeFrameArchive(recording: Recording): Promise<Blob> {
+   const metadata = new TextEncoder().encode(JSON.stringify(recording.metadata));
+   const header = new Uint8Array(5 + 4 + metadata.length + 4);
+   const view = new DataView(header.buffer);
+   header.set(MAGIC, 0);
+   header[4] = FORMAT_VERSION;
+   view.setUint32(5, metadata.length);
+   header.set(metadata, 9);
+   view.setUint32(9 + metadata.length, recording.frames.length);
+
+   const parts: BlobPart[] = [header];
+   let previous: Uint8Array | null = null;
+   for(const frame of recording.frames) {
+      const frameHeader = new Uint8Array(9);
+      const frameView = new DataView(frameHeader.buffer);
+      frameView.setUint32(0, Math.round(frame.time));
+      frameView.setUint16(4, frame.width);
+      frameView.setUint16(6, frame.height);
+
+      if(previous && previous.length === frame.data.length) {
+         const xored = new Uint8Array(frame.data.length);
+         for(let i = 0; i < xored.length; i++) xored[i] = frame.data[i] ^ previous[i];
+         frameHeader[8] = ENCODING_XOR;
+         parts.push(frameHeader, xored);
+      }
+      else {
+         frameHeader[8] = ENCODING_RAW;
+         // Recorded frames never live in shared memory
+         parts.push(frameHeader, frame.data as Uint8Array<ArrayBuffer>);
+      }
+      previous = frame.data;
+   }
+
+   const compressed = new Blob(parts).stream().pipeThrough(new CompressionStream('gzip'));
+   return new Response(compressed).blob();
+}
+
+/** Unpacks a frame archive written by encodeFrameArchive. */
+export async function decodeFrameArchive(blob: Blob): Promise<Recording> {
+   let bytes: Uint8Array;
+   try {
+      const decompressed = blob.stream().pipeThrough(new DecompressionStream('gzip'));
+      bytes = new Uint8Array(await new Response(decompressed).arrayBuffer());
+   }
+   catch {
+      throw new Error('Not a frame archive');
+   }
+   const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+   if(bytes.length < 13 || MAGIC.some((b, i) => bytes[i] !== b)) throw new Error('Not a frame archive');
+   if(bytes[4] !== FORMAT_VERSION) throw new Error(`Unsupported frame archive version ${bytes[4]}`);
+
+   const truncated = () => new Error('The frame archive is truncated');
+   const metadataLength = view.getUint32(5);
+   let p = 9 + metadataLength;
+   if(p + 4 > bytes.length) throw truncated();
+   const metadata = JSON.parse(new TextDecoder().decode(bytes.subarray(9, p)));
+   const frameCount = view.getUint32(p);
+   p += 4;
+
+   const frames: Recording['frames'] = [];
+   let previous: Uint8Array | null = null;
+   for(let n = 0; n < frameCount; n++) {
+      if(p + 9 > bytes.length) throw truncated();
+      const time = view.getUint32(p);
+      const width = view.getUint16(p + 4);
+      const height = view.getUint16(p + 6);
+      const encoding = bytes[p + 8];
+      const size = width * height * 3;
+      p += 9;
+      if(p + size > bytes.length) throw truncated();
+
+      const data = bytes.slice(p, p + size);
+      if(encoding === ENCODING_XOR) {
+         if(!previous || previous.length !== size) throw new Error('The frame archive is corrupt');
+         for(let i = 0; i < size; i++) data[i] ^= previous[i];
+      }
+      else if(encoding !== ENCODING_RAW) {
+         throw new Error(`Unknown frame encoding ${encoding}`);
+      }
+      frames.push({ time, width, height, data });
+      previous = data;
+      p += size;
+   }
+   return { metadata, frames };
+}
@@ -0,0 +1,34 @@
+/**
+ * Decompresses deflate-compressed data using the browser's DecompressionStream API.
+ */
+export async function inflate(compressed: Uint8Array): Promise<Uint8Array> {
+   const ds = new DecompressionStream('deflate');
+   const writer = ds.writable.getWriter();
+   // Create a fresh ArrayBuffer copy to satisfy TypeScript's BufferSource type
+   const copy = new Uint8Array(compressed).buffer;
+   writer.write(copy);
+   writer.close();
+
+   const reader = ds.readable.getReader();
+   const chunks: Uint8Array[] = [];
+   let totalLength = 0;
+
+   for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      totalLength += value.length;
+   }
+
+   // Fast path: single chunk (common case)
+   if (chunks.length === 1) return chunks[0];
+
+   // Concatenate multiple chunks
+   const result = new Uint8Array(totalLength);
+   let offset = 0;
+   for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+   }
+   return result;
+}
@@ -0,0 +1,52 @@
+import type { ScalarSettings } from '../types.ts';
+
+/** The persisted settings behind the diffused-glow overlay. */
+export type GlowSettings = Pick<ScalarSettings, 'ledGlow' | 'glowRadius' | 'glowIntensity' | 'glowSoftness'>;
+
+export const GLOW_RADIUS_RANGE = { min: 0.5, max: 10 };
+export const GLOW_INTENSITY_RANGE = { min: 0.2, max: 3 };
+
+const GRADIENT_STOPS = 12;
+const CHANNEL_COLORS = ['255,0,0', '0,255,0', '0,0,255'];
+
+/**
+ * One glow per color channel, white-hot in that channel at the center. Drawing
+ * each with globalAlpha set to the LED's channel value and 'lighter' compositing
+ * adds the three back up to the LED's color, so overlapping LEDs mix like light.
+ */
+export interface GlowSprites {
+   radius: number;
+   channels: HTMLCanvasElement[];
+}
+
+/**
+ * Light falloff across the diffuser at t = distance / radius (0-1). Softness 0 is
+ * a disc with a hard edge; softness 1 fades all the way from the center.
+ * Intensity above 1 saturates the core so it spreads further before fading.
+ */
+function falloff(t: number, intensity: number, softness: number): number {
+   const core = 1 - softness;
+   const fade = t <= core ? 1 : 1 - (t - core) / (1 - core);
+   return Math.min(1, intensity * fade * fade);
+}
+
+/** Renders the glow sprites for a radius in canvas pixels. */
+export function createGlowSprites(radius: number, intensity: number, softness: number): GlowSprites {
+   const size = Math.max(1, Math.ceil(radius * 2));
+   const channels = CHANNEL_COLORS.map((rgb) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext('2d');
+      if(!ctx) return canvas;
+      const gradient = ctx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2);
+      for(let i = 0; i <= GRADIENT_STOPS; i++) {
+         const t = i / GRADIENT_STOPS;
+         gradient.addColorStop(t, `rgba(${rgb},${falloff(t, intensity, softness)})`);
+      }
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, size, size);
+      return canvas;
+   });
+   return { radius: size / 2, channels };
+}
@@ -0,0 +1,84 @@
+import type { LEDStripsFrame, LEDStripsLayout, StripSetting } from '../types.ts';
+import { ledPositions, type Point } from './stripGeometry.ts';
+
+/**
+ * Draws each strip's LEDs over a viewport drawn at `pixelSize` canvas pixels per
+ * viewport pixel, the way the live strip overlay does: a black-edged square per
+ * LED, colored from the frame pixel the mapper would sample for it. `strips` holds
+ * each strip's LED positions (see ledPositions); null strips are skipped.
+ */
+export function drawLedOverlay(
+   ctx: CanvasRenderingContext2D,
+   strips: (Point[] | null)[],
+   frame: { width: number; height: number; data: Uint8Array },
+   pixelSize: number,
+) {
+   const ledSize = Math.max(1, Math.round(pixelSize / 2));
+   const offset = Math.floor((pixelSize - ledSize) / 2);
+   for(const positions of strips) {
+      if(!positions) continue;
+      for(const p of positions) {
+         if(p.x < 0 || p.y < 0 || p.x >= frame.width || p.y >= frame.height) continue;
+         const i = (p.y * frame.width + p.x) * 3;
+         const x = p.x * pixelSize + offset;
+         const y = p.y * pixelSize + offset;
+         ctx.fillStyle = '#000';
+         ctx.fillRect(x - 1, y - 1, ledSize + 2, ledSize + 2);
+         ctx.fillStyle = `rgb(${frame.data[i]}, ${frame.data[i + 1]}, ${frame.data[i + 2]})`;
+         ctx.fillRect(x, y, ledSize, ledSize);
+      }
+   }
+}
+
+/**
+ * Builds the layout /ws/led-strips would send for these strips, so locally held
+ * frames can be shown with the same renderer. LEDs outside the viewport, and
+ * strips without geometry, are -1,-1.
+ */
+export function ledStripsLayout(
+   strips: StripSetting[],
+   viewportWidth: number,
+   viewportHeight: number,
+   version: number,
+): LEDStripsLayout {
+   let offset = 0;
+   const layoutStrips = strips.filter((strip) => strip.length != null && strip.length > 0).map((strip) => {
+      const length = strip.length!;
+      const points = ledPositions(strip);
+      const positions = new Int16Array(length * 2).fill(-1);
+      points?.forEach((p, i) => {
+         if(p.x < 0 || p.y < 0 || p.x >= viewportWidth || p.y >= viewportHeight) return;
+         positions[i * 2] = p.x;
+         positions[i * 2 + 1] = p.y;
+      });
+      const decoded = { id: strip.id, length, offset, positions };
+      offset += length;
+      return decoded;
+   });
+   return { version, strips: layoutStrips };
+}
+
+/**
+ * The LED colors the host would send for a viewport frame: each LED takes its
+ * pixel's color. Viewport frames carry no brightness, so none is reported.
+ */
+export function sampleLedStrips(
+   layout: LEDStripsLayout,
+   frame: { width: number; height: number; data: Uint8Array },
+): LEDStripsFrame {
+   const total = layout.strips.reduce((sum, strip) => sum + strip.length, 0);
+   const rgb = new Uint8Array(total * 3);
+   for(const strip of layout.strips) {
+      for(let i = 0; i < strip.length; i++) {
+         const x = strip.positions[i * 2];
+         const y = strip.positions[i * 2 + 1];
+         if(x < 0 || y < 0 || x >= frame.width || y >= frame.height) continue;
+         const src = (y * frame.width + x) * 3;
+         const dst = (strip.offset + i) * 3;
+         rgb[dst] = frame.data[src];
+         rgb[dst + 1] = frame.data[src + 1];
+         rgb[dst + 2] = frame.data[src + 2];
+      }
+   }
+   return { layout, rgb, brightness: null };
+}
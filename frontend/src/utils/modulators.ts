@@ -0,0 +1,58 @@
+import type { AngleParamDef, FloatParamDef, IntParamDef, Modulator, ModulatorShape, ParameterDef } from '../types.ts';
+
+export type ModulatableParamDef = FloatParamDef | IntParamDef | AngleParamDef;
+
+export const MODULATOR_SHAPES: { shape: ModulatorShape; label: string }[] = [
+   { shape: 'sine', label: 'Sine' },
+   { shape: 'triangle', label: 'Triangle' },
+   { shape: 'square', label: 'Square' },
+   { shape: 'random-walk', label: 'Random walk' },
+   { shape: 'sample-hold', label: 'Sample & hold' },
+];
+
+// Rates the host accepts, in Hz
+export const MIN_RATE = 0.01;
+export const MAX_RATE = 20;
+
+export function isModulatable(param: ParameterDef): param is ModulatableParamDef {
+   return param.type === 'float' || param.type === 'int' || param.type === 'angle';
+}
+
+/** The values a modulator's center can take; angles go once round the dial. */
+export function modulationBounds(param: ModulatableParamDef): { min: number; max: number } {
+   return param.type === 'angle' ? { min: 0, max: 360 } : { min: param.min, max: param.max };
+}
+
+function snap(value: number, step: number): number {
+   return step > 0 ? Math.round(value / step) * step : value;
+}
+
+/**
+ * Keeps a modulator within its parameter: the center within min/max, the depth
+ * no more than the full span, both on the parameter's step.
+ */
+export function clampModulator(param: ModulatableParamDef, modulator: Modulator): Modulator {
+   const { min, max } = modulationBounds(param);
+   return {
+      ...modulator,
+      rate: Math.max(MIN_RATE, Math.min(MAX_RATE, modulator.rate)),
+      depth: Math.max(0, Math.min(max - min, snap(modulator.depth, param.step))),
+      center: Math.max(min, Math.min(max, min + snap(modulator.center - min, param.step))),
+   };
+}
+
+/** A slow sine around the parameter's current value, a quarter of its span deep. */
+export function defaultModulator(param: ModulatableParamDef, value: number): Modulator {
+   const { min, max } = modulationBounds(param);
+   return clampModulator(param, { shape: 'sine', rate: 0.25, depth: (max - min) / 4, center: value });
+}
+
+// Rate sliders are logarithmic so slow rates get as much travel as fast ones
+export function rateToSlider(rate: number): number {
+   return Math.log(rate / MIN_RATE) / Math.log(MAX_RATE / MIN_RATE);
+}
+
+export function sliderToRate(position: number): number {
+   const rate = MIN_RATE * Math.pow(MAX_RATE / MIN_RATE, position);
+   return Math.round(rate * 100) / 100;
+}
@@ -0,0 +1,62 @@
+import type { ScalarSettings } from '../types.ts';
+
+/**
+ * How LED values are turned into screen colors in the "as output" preview.
+ * The strips' PWM output is linear in light while the screen expects
+ * gamma-encoded values, so without this a dim LED looks darker on screen than
+ * it does in the room.
+ */
+export interface OutputCalibration {
+   /** Screen gamma the linear LED light is encoded with; 2.2 approximates sRGB, 1 leaves it linear. */
+   gamma: number;
+   /** Per-channel gain (0-1) for red, green and blue. */
+   whiteBalance: [number, number, number];
+}
+
+/** The persisted settings behind the "as output" preview. */
+export type OutputSettings = Pick<
+   ScalarSettings,
+   'outputPreview' | 'outputGamma' | 'whiteBalanceRed' | 'whiteBalanceGreen' | 'whiteBalanceBlue'
+>;
+
+export const MIN_OUTPUT_GAMMA = 1;
+export const MAX_OUTPUT_GAMMA = 3;
+
+/** The calibration the settings ask for, or null when the preview shows raw colors. */
+export function outputCalibration(settings: OutputSettings): OutputCalibration | null {
+   if(!settings.outputPreview) return null;
+   return {
+      gamma: settings.outputGamma,
+      whiteBalance: [settings.whiteBalanceRed / 100, settings.whiteBalanceGreen / 100, settings.whiteBalanceBlue / 100],
+   };
+}
+
+/**
+ * Screen color of one LED as it would be emitted: the APA102 global brightness
+ * (0-31) scales the drive current, the white balance scales each channel and the
+ * result is gamma-encoded for display. Writes into `out` so per-frame loops
+ * don't allocate.
+ */
+export function outputColor(
+   r: number,
+   g: number,
+   b: number,
+   brightness: number,
+   calibration: OutputCalibration,
+   out: number[] = [0, 0, 0],
+): number[] {
+   const scale = Math.min(31, brightness) / 31 / 255;
+   const exponent = 1 / calibration.gamma;
+   const [wr, wg, wb] = calibration.whiteBalance;
+   out[0] = Math.round(255 * Math.pow(r * scale * wr, exponent));
+   out[1] = Math.round(255 * Math.pow(g * scale * wg, exponent));
+   out[2] = Math.round(255 * Math.pow(b * scale * wb, exponent));
+   return out;
+}
+
+/** CSS color for a #RRGGBBbb value, as output when a calibration is given. */
+export function outputCss(r: number, g: number, b: number, brightness: number, calibration: OutputCalibration | null): string {
+   if(!calibration) return `rgb(${r},${g},${b})`;
+   const [or, og, ob] = outputColor(r, g, b, brightness, calibration);
+   return `rgb(${or},${og},${ob})`;
+}
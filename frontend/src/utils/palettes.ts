@@ -0,0 +1,124 @@
+import type { PaletteStop, ParamValue } from '../types.ts';
+import type { OutputCalibration } from './outputColor.ts';
+import { outputCss } from './outputColor.ts';
+
+export interface NamedPalette {
+   name: string;
+   stops: PaletteStop[];
+}
+
+// Colors are in the #RRGGBBbb wire format at full APA102 brightness
+export const BUILT_IN_PALETTES: NamedPalette[] = [
+   {
+      name: 'Rainbow',
+      stops: [
+         { position: 0, color: '#ff00001f' },
+         { position: 0.17, color: '#ffff001f' },
+         { position: 0.33, color: '#00ff001f' },
+         { position: 0.5, color: '#00ffff1f' },
+         { position: 0.67, color: '#0000ff1f' },
+         { position: 0.83, color: '#ff00ff1f' },
+         { position: 1, color: '#ff00001f' },
+      ],
+   },
+   {
+      name: 'Sunset',
+      stops: [
+         { position: 0, color: '#2a0a5e1f' },
+         { position: 0.4, color: '#c2185b1f' },
+         { position: 0.7, color: '#ff6f001f' },
+         { position: 1, color: '#ffd54f1f' },
+      ],
+   },
+   {
+      name: 'Ocean',
+      stops: [
+         { position: 0, color: '#0010401f' },
+         { position: 0.5, color: '#0077b61f' },
+         { position: 1, color: '#90e0ef1f' },
+      ],
+   },
+   {
+      name: 'Fire',
+      stops: [
+         { position: 0, color: '#0000001f' },
+         { position: 0.35, color: '#b000001f' },
+         { position: 0.7, color: '#ff80001f' },
+         { position: 1, color: '#ffff801f' },
+      ],
+   },
+   {
+      name: 'Forest',
+      stops: [
+         { position: 0, color: '#0b2e131f' },
+         { position: 0.5, color: '#2e7d321f' },
+         { position: 1, color: '#c0ca331f' },
+      ],
+   },
+   {
+      name: 'Ice',
+      stops: [
+         { position: 0, color: '#ffffff1f' },
+         { position: 0.5, color: '#80d8ff1f' },
+         { position: 1, color: '#1a237e1f' },
+      ],
+   },
+   {
+      name: 'Blue to Magenta',
+      stops: [
+         { position: 0, color: '#0000ff1f' },
+         { position: 1, color: '#ff00ff1f' },
+      ],
+   },
+];
+
+export function isPalette(value: ParamValue | undefined): value is PaletteStop[] {
+   return Array.isArray(value) && value.length > 0 && value.every((stop) =>
+      typeof stop === 'object' && typeof stop.position === 'number' && typeof stop.color === 'string');
+}
+
+/** The stops in gradient order, leaving the input untouched. */
+export function sortStops(stops: PaletteStop[]): PaletteStop[] {
+   return [...stops].sort((a, b) => a.position - b.position);
+}
+
+function parseStop(color: string): [number, number, number, number] {
+   const channel = (from: number) => parseInt(color.substring(from, from + 2), 16) || 0;
+   const brightness = color.length >= 9 ? Math.min(31, channel(7)) : 31;
+   return [channel(1), channel(3), channel(5), brightness];
+}
+
+function toHex2(n: number): string {
+   return Math.round(n).toString(16).padStart(2, '0');
+}
+
+/**
+ * The color at `t` (0-1), blended between neighbouring stops as the host's
+ * Palette does, in the #RRGGBBbb wire format.
+ */
+export function paletteColorAt(stops: PaletteStop[], t: number): string {
+   const sorted = sortStops(stops);
+   if(t <= sorted[0].position) return sorted[0].color;
+   const last = sorted[sorted.length - 1];
+   if(t >= last.position) return last.color;
+   let i = 1;
+   while(sorted[i].position < t) i++;
+   const a = sorted[i - 1];
+   const b = sorted[i];
+   const span = b.position - a.position;
+   const ratio = span > 0 ? (t - a.position) / span : 1;
+   const ca = parseStop(a.color);
+   const cb = parseStop(b.color);
+   return '#' + ca.map((c, k) => toHex2(c * (1 - ratio) + cb[k] * ratio)).join('');
+}
+
+/** A left-to-right CSS gradient of the stops, as output when a calibration is given. */
+export function paletteCss(stops: PaletteStop[], output: OutputCalibration | null = null): string {
+   const parts = sortStops(stops).map(({ position, color }) => {
+      const [r, g, b, brightness] = parseStop(color);
+      return `${outputCss(r, g, b, brightness, output)} ${(position * 100).toFixed(1)}%`;
+   });
+   // A single stop is a flat color; CSS gradients need two
+   if(parts.length === 1) parts.push(parts[0]);
+   return `linear-gradient(to right, ${parts.join(', ')})`;
+}
@@ -0,0 +1,38 @@
+import type { PlaylistItem, TransitionType } from '../types.ts';
+
+export const TRANSITIONS: { type: TransitionType; label: string }[] = [
+   { type: 'cut', label: 'Cut' },
+   { type: 'crossfade', label: 'Crossfade' },
+   { type: 'wipe', label: 'Wipe' },
+];
+
+// Limits the host enforces, in seconds
+export const MIN_ITEM_DURATION = 1;
+export const MAX_ITEM_DURATION = 24 * 60 * 60;
+export const MAX_TRANSITION_DURATION = 60;
+
+export function newItem(presetId: number): PlaylistItem {
+   return { presetId, duration: 60, transition: { type: 'crossfade', duration: 2 } };
+}
+
+// Moves the item at `from` so it ends up at `to`
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+   if(to < 0 || to >= items.length || from === to) return items;
+   const next = [...items];
+   const [item] = next.splice(from, 1);
+   next.splice(to, 0, item);
+   return next;
+}
+
+export function totalDuration(items: PlaylistItem[]): number {
+   return items.reduce((sum, item) => sum + item.duration, 0);
+}
+
+// "0:09", "12:30", "1:05:00"
+export function formatCountdown(seconds: number): string {
+   const whole = Math.max(0, Math.ceil(seconds));
+   const h = Math.floor(whole / 3600);
+   const m = Math.floor((whole % 3600) / 60);
+   const s = String(whole % 60).padStart(2, '0');
+   return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
@@ -0,0 +1,20 @@
+import type { ParamValue, PointParamDef } from '../types.ts';
+
+/** True for a range's [low, high] or a point's [x, y]. */
+export function isNumberPair(value: ParamValue | undefined): value is [number, number] {
+   return Array.isArray(value) && value.length === 2 && value.every((v) => typeof v === 'number');
+}
+
+/**
+ * A point parameter's value in viewport pixels: the value when set, else the
+ * default, else the viewport's center as the host uses.
+ */
+export function resolvePoint(
+   param: PointParamDef,
+   value: ParamValue | undefined,
+   viewportWidth: number,
+   viewportHeight: number,
+): [number, number] {
+   if(isNumberPair(value)) return value;
+   return param.default ?? [Math.floor(viewportWidth / 2), Math.floor(viewportHeight / 2)];
+}
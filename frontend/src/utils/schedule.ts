@@ -0,0 +1,154 @@
+import type { Schedule, ScheduleRule, TimeAnchor, TimeOfDay } from '../types.ts';
+
+export const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const ANCHORS: { anchor: TimeAnchor; label: string }[] = [
+   { anchor: 'clock', label: 'Time' },
+   { anchor: 'sunrise', label: 'Sunrise' },
+   { anchor: 'sunset', label: 'Sunset' },
+];
+
+// Limits the host enforces, in minutes
+export const MINUTES_PER_DAY = 24 * 60;
+export const MAX_SUN_OFFSET = 12 * 60;
+
+export const OVERRIDE_DURATIONS: { minutes: number; label: string }[] = [
+   { minutes: 30, label: '30 minutes' },
+   { minutes: 60, label: '1 hour' },
+   { minutes: 2 * 60, label: '2 hours' },
+   { minutes: 4 * 60, label: '4 hours' },
+   { minutes: 8 * 60, label: '8 hours' },
+   { minutes: 24 * 60, label: '24 hours' },
+];
+
+export function newRule(presetId: number | null): ScheduleRule {
+   return {
+      name: '',
+      enabled: true,
+      action: presetId === null ? 'off' : 'preset',
+      presetId,
+      start: { anchor: 'clock', minutes: 9 * 60 },
+      end: { anchor: 'clock', minutes: 17 * 60 },
+      days: [],
+      from: null,
+      until: null,
+   };
+}
+
+// 450 → "07:30"
+export function formatClock(minutes: number): string {
+   const m = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+   return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+// "07:30" → 450; null if it isn't a time
+export function parseClock(text: string): number | null {
+   const match = /^(\d{1,2}):(\d{2})$/.exec(text);
+   if(!match) return null;
+   const hours = Number(match[1]);
+   const minutes = Number(match[2]);
+   return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+// "07:30", "sunset", "sunrise + 30 min", "sunset − 1 h 15 min"
+export function describeTime(time: TimeOfDay): string {
+   if(time.anchor === 'clock') return formatClock(time.minutes);
+   if(time.minutes === 0) return time.anchor;
+   const sign = time.minutes > 0 ? '+' : '−';
+   return `${time.anchor} ${sign} ${formatMinutes(Math.abs(time.minutes))}`;
+}
+
+// 75 → "1 h 15 min"
+export function formatMinutes(minutes: number): string {
+   const h = Math.floor(minutes / 60);
+   const m = minutes % 60;
+   if(h === 0) return `${m} min`;
+   return m === 0 ? `${h} h` : `${h} h ${m} min`;
+}
+
+// "Every day", "Weekdays", "Weekends" or "Mon, Wed, Fri"
+export function describeDays(days: number[]): string {
+   const sorted = [...days].sort((a, b) => a - b);
+   if(sorted.length === 0 || sorted.length === 7) return 'Every day';
+   if(sorted.join() === '1,2,3,4,5') return 'Weekdays';
+   if(sorted.join() === '6,7') return 'Weekends';
+   return sorted.map((d) => DAY_LABELS[d - 1]).join(', ');
+}
+
+// A distinct color per rule, stable as long as the rule keeps its place
+export function ruleColor(index: number): string {
+   return `hsl(${Math.round((index * 137.5 + 200) % 360)} 55% 42%)`;
+}
+
+export function usesSun(rule: ScheduleRule): boolean {
+   return rule.start.anchor !== 'clock' || rule.end.anchor !== 'clock';
+}
+
+// "in 5 min", "in 2 h 15 min", "in 3 days"
+export function formatRelative(ms: number): string {
+   const minutes = Math.max(0, Math.round(ms / 60000));
+   if(minutes < 1) return 'in under a minute';
+   if(minutes < 48 * 60) return `in ${formatMinutes(minutes)}`;
+   return `in ${Math.round(minutes / MINUTES_PER_DAY)} days`;
+}
+
+// Formatter in the host's time zone, falling back to the browser's if this one doesn't know it
+function zonedFormat(timeZone: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+   try {
+      return new Intl.DateTimeFormat(undefined, { ...options, timeZone });
+   }
+   catch {
+      return new Intl.DateTimeFormat(undefined, options);
+   }
+}
+
+// "Tue 07:00" in the host's time zone
+export function formatWhen(ms: number, timeZone: string): string {
+   return zonedFormat(timeZone, { weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(ms);
+}
+
+// Where a moment falls in the host's time zone: its date as yyyy-mm-dd and minutes after midnight
+export function zonedTime(ms: number, timeZone: string): { date: string; minutes: number } {
+   const parts = zonedFormat(timeZone, {
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+   }).formatToParts(ms);
+   const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '0';
+   return {
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+      minutes: Number(part('hour')) * 60 + Number(part('minute')),
+   };
+}
+
+// Whole days from one yyyy-mm-dd date to another
+export function daysBetween(from: string, to: string): number {
+   return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+// The dates of the week starting on a yyyy-mm-dd Monday, as "3 Jun"
+export function weekDates(weekStart: string): string[] {
+   const start = Date.parse(weekStart);
+   const format = new Intl.DateTimeFormat(undefined, { day: 'numeric', month: 'short', timeZone: 'UTC' });
+   return DAY_LABELS.map((_, i) => format.format(start + i * 86_400_000));
+}
+
+// Turns a day on or off. Every day is stored as no days, and the last day can't be turned off.
+export function toggleDay(days: number[], day: number): number[] {
+   const current = days.length === 0 ? [1, 2, 3, 4, 5, 6, 7] : days;
+   const next = current.includes(day) ? current.filter((d) => d !== day) : [...current, day].sort((a, b) => a - b);
+   if(next.length === 0) return days;
+   return next.length === 7 ? [] : next;
+}
+
+// What stops the schedule being saved as it is, or null if nothing does
+export function scheduleProblem(schedule: Schedule): string | null {
+   const { latitude, longitude } = schedule;
+   if((latitude === null) !== (longitude === null)) return 'Enter both latitude and longitude, or neither';
+   if(latitude !== null && (latitude < -90 || latitude > 90)) return 'Latitude must be between -90 and 90';
+   if(longitude !== null && (longitude < -180 || longitude > 180)) return 'Longitude must be between -180 and 180';
+   for(const rule of schedule.rules) {
+      if(rule.action === 'preset' && rule.presetId === null) return 'Pick a preset for every rule';
+      if(rule.enabled && usesSun(rule) && latitude === null) return 'Rules timed by the sun need a location';
+      if(rule.from && rule.until && rule.from > rule.until) return 'A rule ends before it starts';
+   }
+   return null;
+}
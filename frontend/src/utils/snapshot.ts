@@ -0,0 +1,169 @@
+import type { LEDData, ParamValue, RecordedFrame, StripSetting, ViewportMessage } from '../types.ts';
+import type { ViewportStream } from '../hooks/useViewportStream.ts';
+import type { ExportLayers } from './exportLayers.ts';
+import { createFrameDrawer } from './exportLayers.ts';
+import { ledPositions } from './stripGeometry.ts';
+import { slugify } from './download.ts';
+
+export const SNAPSHOT_PIXEL_SIZES = [4, 8, 16];
+
+// How long to wait for the live stream to deliver a full-resolution frame
+const CAPTURE_TIMEOUT_MS = 3000;
+
+/** One viewport frame and what was playing when it was shown. */
+export interface Snapshot {
+   pattern: string;
+   params: Record<string, ParamValue>;
+   capturedAt: string; // ISO 8601
+   frame: Pick<RecordedFrame, 'width' | 'height' | 'data'>;
+}
+
+export interface SnapshotStrip {
+   id: number;
+   leds: (LEDData & { index: number })[];
+}
+
+/**
+ * Resolves with the next full-resolution frame the live stream decodes. The
+ * stream is asked for full quality meanwhile; frames scaled down by adaptive or
+ * reduced preview quality are passed over, since they are blocky approximations.
+ */
+export function captureLiveFrame(stream: ViewportStream): Promise<ViewportMessage> {
+   return new Promise((resolve, reject) => {
+      let sawScaled = false;
+      const release = stream.holdFullQuality();
+      const timeout = setTimeout(() => {
+         finish();
+         reject(new Error(sawScaled
+            ? 'The host only sent reduced-quality frames; try again'
+            : 'No frame from the host; is it connected?'));
+      }, CAPTURE_TIMEOUT_MS);
+      const unsubscribe = stream.subscribeFrames((frame) => {
+         if((frame.scale ?? 1) > 1) {
+            sawScaled = true;
+            return;
+         }
+         finish();
+         resolve(frame);
+      });
+
+      function finish() {
+         clearTimeout(timeout);
+         unsubscribe();
+         release();
+      }
+   });
+}
+
+/** A filename without extension shared by every file exported from a snapshot. */
+export function snapshotBaseName(snapshot: Snapshot): string {
+   return `${slugify(snapshot.pattern || 'snapshot')}-${snapshot.capturedAt.replace(/[:.]/g, '-')}`;
+}
+
+/**
+ * Each strip's LEDs with the color they sample from the snapshot's frame, as
+ * GET /api/led-strips reports them but with each LED's index kept. LEDs outside
+ * the viewport sample nothing and are left out, as the host's mapper does.
+ */
+export function snapshotLeds(snapshot: Snapshot, strips: StripSetting[]): SnapshotStrip[] {
+   const { width, height, data } = snapshot.frame;
+   const result: SnapshotStrip[] = [];
+   for(const strip of strips) {
+      const positions = ledPositions(strip);
+      if(!positions) continue;
+      const leds: SnapshotStrip['leds'] = [];
+      positions.forEach(({ x, y }, index) => {
+         if(x < 0 || y < 0 || x >= width || y >= height) return;
+         const i = (y * width + x) * 3;
+         leds.push({ index, x, y, r: data[i], g: data[i + 1], b: data[i + 2] });
+      });
+      result.push({ id: strip.id, leds });
+   }
+   return result;
+}
+
+/** The LED data as JSON, with the pattern and parameters alongside. */
+export function snapshotJson(snapshot: Snapshot, strips: StripSetting[]): Blob {
+   const { pattern, params, capturedAt, frame } = snapshot;
+   const body = {
+      pattern,
+      params,
+      capturedAt,
+      viewportWidth: frame.width,
+      viewportHeight: frame.height,
+      strips: snapshotLeds(snapshot, strips),
+   };
+   return new Blob([JSON.stringify(body, null, 2)], { type: 'application/json' });
+}
+
+/** The LED data as CSV, one row per LED; the JSON export is its metadata sidecar. */
+export function snapshotCsv(snapshot: Snapshot, strips: StripSetting[]): Blob {
+   const rows = ['strip_id,led_index,x,y,r,g,b'];
+   for(const strip of snapshotLeds(snapshot, strips)) {
+      for(const led of strip.leds) {
+         rows.push([strip.id, led.index, led.x, led.y, led.r, led.g, led.b].join(','));
+      }
+   }
+   return new Blob([rows.join('\n') + '\n'], { type: 'text/csv' });
+}
+
+/** Renders the chosen layers at `pixelSize` PNG pixels per viewport pixel, pattern and parameters embedded. */
+export async function snapshotPng(snapshot: Snapshot, layers: ExportLayers, pixelSize: number): Promise<Blob> {
+   const { frame } = snapshot;
+   const canvas = document.createElement('canvas');
+   canvas.width = frame.width * pixelSize;
+   canvas.height = frame.height * pixelSize;
+   createFrameDrawer(canvas.getContext('2d')!, layers, pixelSize)({ ...frame, time: 0 });
+
+   const png = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG'))), 'image/png');
+   });
+   return withPngText(png, {
+      Title: snapshot.pattern,
+      Software: 'LED Strip Host',
+      'Creation Time': snapshot.capturedAt,
+      Parameters: JSON.stringify(snapshot.params),
+   });
+}
+
+// ── PNG text chunks ────────────────────────────────────────────────────────
+
+const PNG_SIGNATURE_LENGTH = 8;
+// Length, type, 13 bytes of data and CRC
+const IHDR_CHUNK_LENGTH = 4 + 4 + 13 + 4;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+   if(!crcTable) {
+      crcTable = new Uint32Array(256);
+      for(let n = 0; n < 256; n++) {
+         let c = n;
+         for(let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+         crcTable[n] = c >>> 0;
+      }
+   }
+   let crc = 0xffffffff;
+   for(const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+   return (crc ^ 0xffffffff) >>> 0;
+}
+
+// iTXt: keyword, NUL, uncompressed, no language tag or translated keyword, UTF-8 text
+function itxtChunk(keyword: string, text: string): Uint8Array<ArrayBuffer> {
+   const encoder = new TextEncoder();
+   const data = new Uint8Array([...encoder.encode(keyword), 0, 0, 0, 0, 0, ...encoder.encode(text)]);
+   const chunk = new Uint8Array(4 + 4 + data.length + 4);
+   const view = new DataView(chunk.buffer);
+   view.setUint32(0, data.length);
+   chunk.set(encoder.encode('iTXt'), 4);
+   chunk.set(data, 8);
+   view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+   return chunk;
+}
+
+/** Inserts text chunks straight after the PNG's header chunk. */
+function withPngText(png: Blob, entries: Record<string, string>): Blob {
+   const split = PNG_SIGNATURE_LENGTH + IHDR_CHUNK_LENGTH;
+   const chunks = Object.entries(entries).map(([keyword, text]) => itxtChunk(keyword, text));
+   return new Blob([png.slice(0, split), ...chunks, png.slice(split)], { type: 'image/png' });
+}
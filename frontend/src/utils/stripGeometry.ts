@@ -0,0 +1,76 @@
+import type { StripSetting } from '../types.ts';
+
+export interface Point {
+   x: number;
+   y: number;
+}
+
+const STRIP_COLORS = ['#4a9eff', '#ff9f43', '#2ed573', '#ff6b81', '#a29bfe', '#feca57', '#48dbfb', '#ff9ff3'];
+
+/** Color that tells a strip apart from its neighbours in the layout overlays, by list position. */
+export function stripColor(index: number): string {
+   return STRIP_COLORS[index % STRIP_COLORS.length];
+}
+
+// Mirrors LinearMapper: a Bresenham line from start to end, resampled to exactly
+// `length` points when the line length does not match the LED count.
+
+function bresenhamLine(start: Point, end: Point): Point[] {
+   const points: Point[] = [];
+   let x0 = start.x;
+   let y0 = start.y;
+   const dx = Math.abs(end.x - x0);
+   const dy = Math.abs(end.y - y0);
+   const sx = x0 < end.x ? 1 : -1;
+   const sy = y0 < end.y ? 1 : -1;
+   let err = dx - dy;
+
+   for(;;) {
+      points.push({ x: x0, y: y0 });
+      if(x0 === end.x && y0 === end.y) break;
+      const e2 = 2 * err;
+      if(e2 > -dy) {
+         err -= dy;
+         x0 += sx;
+      }
+      if(e2 < dx) {
+         err += dx;
+         y0 += sy;
+      }
+   }
+   return points;
+}
+
+function interpolatePoints(start: Point, end: Point, count: number): Point[] {
+   if(count === 1) return [start];
+   const points: Point[] = [];
+   for(let i = 0; i < count; i++) {
+      const t = i / (count - 1);
+      points.push({
+         x: Math.trunc(start.x + t * (end.x - start.x)),
+         y: Math.trunc(start.y + t * (end.y - start.y)),
+      });
+   }
+   return points;
+}
+
+/**
+ * Returns the viewport position of every LED on the strip, indexed by LED index,
+ * or null when the strip has no complete geometry yet.
+ */
+export function ledPositions(strip: StripSetting): Point[] | null {
+   const { length, startX, startY, endX, endY } = strip;
+   if(length == null || length <= 0 || startX == null || startY == null || endX == null || endY == null) {
+      return null;
+   }
+   const start = { x: startX, y: startY };
+   const end = { x: endX, y: endY };
+   const line = bresenhamLine(start, end);
+   const points = line.length === length ? line : interpolatePoints(start, end, length);
+
+   const byIndex: Point[] = new Array(length);
+   for(let i = 0; i < points.length; i++) {
+      byIndex[strip.reverse ? length - 1 - i : i] = points[i];
+   }
+   return byIndex;
+}
@@ -0,0 +1,88 @@
+import type { Easing, Keyframe, ParamValue, Timeline } from '../types.ts';
+
+export const EASINGS: { easing: Easing; label: string }[] = [
+   { easing: 'linear', label: 'Linear' },
+   { easing: 'ease-in', label: 'Ease in' },
+   { easing: 'ease-out', label: 'Ease out' },
+   { easing: 'ease-in-out', label: 'Ease in-out' },
+   { easing: 'step', label: 'Step' },
+];
+
+// Longest timeline the host accepts, in seconds
+export const MAX_DURATION = 3600;
+
+// Keyframes land on tenths of a second
+const TIME_STEP = 0.1;
+
+export function emptyTimeline(): Timeline {
+   return { duration: 30, loop: true, lanes: {} };
+}
+
+export function hasKeyframes(timeline: Timeline): boolean {
+   return Object.values(timeline.lanes).some((lane) => lane.length > 0);
+}
+
+export function snapTime(time: number, duration: number): number {
+   const snapped = Math.round(time / TIME_STEP) / (1 / TIME_STEP);
+   return Math.max(0, Math.min(duration, snapped));
+}
+
+function withLane(timeline: Timeline, name: string, lane: Keyframe[]): Timeline {
+   const lanes = { ...timeline.lanes };
+   if(lane.length > 0) lanes[name] = [...lane].sort((a, b) => a.time - b.time);
+   else delete lanes[name];
+   return { ...timeline, lanes };
+}
+
+/** Adds a keyframe, replacing any already at that time. */
+export function addKeyframe(timeline: Timeline, name: string, time: number, value: ParamValue): Timeline {
+   const lane = (timeline.lanes[name] ?? []).filter((k) => k.time !== time);
+   return withLane(timeline, name, [...lane, { time, value, easing: 'linear' }]);
+}
+
+/** Changes the keyframe at [time]; returns the timeline unchanged if there is none. */
+export function updateKeyframe(timeline: Timeline, name: string, time: number, patch: Partial<Keyframe>): Timeline {
+   const lane = timeline.lanes[name] ?? [];
+   const key = lane.find((k) => k.time === time);
+   if(!key) return timeline;
+   const updated = { ...key, ...patch };
+   // Moving onto another keyframe replaces it
+   const rest = lane.filter((k) => k !== key && k.time !== updated.time);
+   return withLane(timeline, name, [...rest, updated]);
+}
+
+export function removeKeyframe(timeline: Timeline, name: string, time: number): Timeline {
+   return withLane(timeline, name, (timeline.lanes[name] ?? []).filter((k) => k.time !== time));
+}
+
+/** Shortens or lengthens the timeline, dropping keyframes that no longer fit. */
+export function setDuration(timeline: Timeline, duration: number): Timeline {
+   const clamped = Math.max(TIME_STEP, Math.min(MAX_DURATION, duration));
+   const lanes: Record<string, Keyframe[]> = {};
+   for(const [name, lane] of Object.entries(timeline.lanes)) {
+      const kept = lane.filter((k) => k.time <= clamped);
+      if(kept.length > 0) lanes[name] = kept;
+   }
+   return { ...timeline, duration: clamped, lanes };
+}
+
+/** Where playback is after [elapsed] seconds, starting over or holding at the end as the host does. */
+export function playheadAt(timeline: Timeline, elapsed: number): number {
+   if(elapsed < timeline.duration) return elapsed;
+   return timeline.loop ? elapsed % timeline.duration : timeline.duration;
+}
+
+/** Evenly spaced ruler marks, about eight across the timeline. */
+export function rulerTicks(duration: number): number[] {
+   const steps = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+   const interval = steps.find((s) => duration / s <= 8) ?? 600;
+   const ticks: number[] = [];
+   for(let t = 0; t <= duration + 1e-6; t += interval) ticks.push(t);
+   return ticks;
+}
+
+export function formatSeconds(seconds: number): string {
+   if(seconds < 60) return `${seconds.toFixed(1)}s`;
+   const minutes = Math.floor(seconds / 60);
+   return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+}
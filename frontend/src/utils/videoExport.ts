@@ -0,0 +1,60 @@
+import type { Recording } from '../types.ts';
+import type { ExportLayers } from './exportLayers.ts';
+import { createFrameDrawer } from './exportLayers.ts';
+
+// Canvas pixels per viewport pixel in exported video: 240x135 becomes 1440x810
+const VIDEO_PIXEL_SIZE = 6;
+
+function pickMimeType(): string {
+   for(const type of ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']) {
+      if(MediaRecorder.isTypeSupported(type)) return type;
+   }
+   throw new Error('This browser cannot record WebM video');
+}
+
+/**
+ * Replays a recording onto a canvas and records that as WebM. MediaRecorder
+ * timestamps frames by wall-clock time, so this takes as long as the recording;
+ * `onProgress` gets the fraction done.
+ */
+export async function exportWebM(
+   recording: Recording,
+   layers: ExportLayers,
+   onProgress: (fraction: number) => void,
+): Promise<Blob> {
+   const { frames } = recording;
+   if(frames.length === 0) throw new Error('The recording has no frames');
+
+   const canvas = document.createElement('canvas');
+   canvas.width = frames[0].width * VIDEO_PIXEL_SIZE;
+   canvas.height = frames[0].height * VIDEO_PIXEL_SIZE;
+   const drawFrame = createFrameDrawer(canvas.getContext('2d')!, layers, VIDEO_PIXEL_SIZE);
+
+   const stream = canvas.captureStream(0);
+   const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+   const recorder = new MediaRecorder(stream, { mimeType: pickMimeType() });
+   const chunks: Blob[] = [];
+   recorder.ondataavailable = (e) => {
+      if(e.data.size > 0) chunks.push(e.data);
+   };
+   const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+   });
+
+   recorder.start();
+   const start = performance.now();
+   for(let i = 0; i < frames.length; i++) {
+      const wait = frames[i].time - (performance.now() - start);
+      if(wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      drawFrame(frames[i]);
+      track.requestFrame();
+      onProgress((i + 1) / frames.length);
+   }
+   // Hold the last frame for one more interval so it gets a duration of its own
+   await new Promise((resolve) => setTimeout(resolve, 100));
+   recorder.stop();
+   await stopped;
+   stream.getTracks().forEach((t) => t.stop());
+
+   return new Blob(chunks, { type: 'video/webm' });
+}
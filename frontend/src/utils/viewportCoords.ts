@@ -0,0 +1,21 @@
+import type { Point } from './stripGeometry.ts';
+
+/**
+ * Converts a pointer position to the whole viewport pixel under it, for an
+ * element laid out over the full viewport (the preview canvas or a photo box
+ * with the viewport's aspect ratio). Clamped to the viewport bounds.
+ */
+export function clientToViewport(
+   rect: DOMRect,
+   clientX: number,
+   clientY: number,
+   viewportWidth: number,
+   viewportHeight: number,
+): Point {
+   const x = Math.floor(((clientX - rect.left) / rect.width) * viewportWidth);
+   const y = Math.floor(((clientY - rect.top) / rect.height) * viewportHeight);
+   return {
+      x: Math.max(0, Math.min(viewportWidth - 1, x)),
+      y: Math.max(0, Math.min(viewportHeight - 1, y)),
+   };
+}
@@ -0,0 +1,422 @@
+import type { PreviewQuality, PreviewQualityMode, ViewportMessage, ViewportQualityMessage } from '../types.ts';
+import { inflate } from '../utils/inflate.ts';
+
+// Receives /viewport frames, decodes them and draws the preview into the canvas
+// transferred from the page, so none of that work runs on the main thread.
+//
+// Frame-drop policy: frames queue up while one is being inflated. A full frame (v1,
+// or a v2 keyframe) makes everything queued before it irrelevant, so those are
+// dropped; v2 deltas can't be skipped, but a decoded frame is only shown if nothing
+// newer is waiting, and drawing happens at most once per animation frame. The
+// preview can skip frames but never falls behind the stream. If a delta doesn't
+// follow on from the frame we hold (a missed sequence number), deltas are ignored
+// and a keyframe is requested from the server.
+//
+// Quality: the worker tells the server the frame rate and resolution it wants, and
+// pauses the stream while the page is hidden. In 'auto' mode it steps down a level
+// when decoding falls behind or frames arrive increasingly late, and back up after
+// a run of comfortable intervals. While the page holds full quality (for a
+// snapshot) it asks for the best level whatever the mode.
+
+// Messages to the viewport worker, which owns the /viewport socket and the preview canvas
+export type ViewportWorkerRequest =
+   | { type: 'connect'; url: string }
+   | { type: 'attach'; canvas: OffscreenCanvas }
+   | { type: 'detach' }
+   | { type: 'sample'; id: number; x: number; y: number }
+   | { type: 'quality'; mode: PreviewQualityMode }
+   | { type: 'visibility'; hidden: boolean }
+   | { type: 'record'; enabled: boolean }
+   | { type: 'fullQuality'; enabled: boolean };
+
+// Messages from the viewport worker
+export type ViewportWorkerEvent =
+   | { type: 'connection'; connected: boolean }
+   | { type: 'resolution'; width: number; height: number }
+   | { type: 'sample'; id: number; rgb: [number, number, number] | null }
+   | { type: 'quality'; quality: PreviewQuality | null }
+   // Every decoded frame while recording, drawn or not; data is a copy owned by the page
+   | { type: 'frame'; frame: ViewportMessage; receivedAt: number };
+
+// The app tsconfig only has the DOM lib; this is the part of the worker scope used here
+declare const self: {
+   postMessage(message: ViewportWorkerEvent, transfer?: Transferable[]): void;
+   onmessage: ((event: MessageEvent<ViewportWorkerRequest>) => void) | null;
+   requestAnimationFrame?: (callback: FrameRequestCallback) => number;
+};
+
+const PIXEL_SIZE = 10;
+
+const FLAG_DEFLATE = 0x01;
+const FLAG_KEYFRAME = 0x02;
+const FLAG_DELTA = 0x04;
+const FLAG_SCALED = 0x08;
+const FLAG_EXTENDED = 0x80;
+const V2_HEADER_SIZE = 18;
+
+// Quality levels from best to worst; 'auto' moves between them
+const LEVELS: Omit<PreviewQuality, 'paused'>[] = [
+   { maxFps: 0, scale: 1 },
+   { maxFps: 10, scale: 1 },
+   { maxFps: 10, scale: 2 },
+   { maxFps: 5, scale: 4 },
+];
+const MODE_LEVELS: Record<Exclude<PreviewQualityMode, 'auto'>, number> = { full: 0, reduced: 2, low: 3 };
+
+const ADAPT_INTERVAL_MS = 2000;
+// Intervals in a row that must look comfortable before stepping back up
+const CALM_INTERVALS = 5;
+// Frames arriving this much later than the best seen means they are piling up somewhere
+const LAG_LIMIT_MS = 250;
+
+let url: string | null = null;
+let socket: WebSocket | null = null;
+
+let mode: PreviewQualityMode = 'auto';
+let hidden = false;
+let recording = false;
+let fullQuality = false;
+let autoLevel = 0;
+let calmIntervals = 0;
+let sentQuality = '';
+// Decode and lag statistics for the current adapt interval
+let stats = { frames: 0, decodeMs: 0, maxBacklog: 0, excessLagMs: 0 };
+let baselineLag = Infinity;
+
+let queue: Uint8Array[] = [];
+let decoding = false;
+// The frame deltas apply to; its data is owned here and patched in place
+let base: (ViewportMessage & { seq: number }) | null = null;
+let awaitingKeyframe = false;
+let latest: ViewportMessage | null = null;
+let drawn: ViewportMessage | null = null;
+let drawScheduled = false;
+
+let canvas: OffscreenCanvas | null = null;
+let source: OffscreenCanvas | null = null;
+let image: ImageData | null = null;
+let reported = { width: 0, height: 0 };
+
+function post(event: ViewportWorkerEvent, transfer: Transferable[] = []) {
+   self.postMessage(event, transfer);
+}
+
+function connect() {
+   if (!url) return;
+   const ws = new WebSocket(url);
+   ws.binaryType = 'arraybuffer';
+   socket = ws;
+
+   ws.onopen = () => {
+      post({ type: 'connection', connected: true });
+      sentQuality = '';
+      baselineLag = Infinity;
+      sendQuality();
+   };
+
+   ws.onclose = () => {
+      post({ type: 'connection', connected: false });
+      socket = null;
+      queue = [];
+      base = null;
+      awaitingKeyframe = false;
+      post({ type: 'quality', quality: null });
+
+      // Reconnect after 2 seconds
+      setTimeout(connect, 2000);
+   };
+
+   ws.onerror = () => {
+      // Error is followed by onclose, so no action needed here
+   };
+
+   ws.onmessage = (event) => {
+      if (typeof event.data === 'string') {
+         handleText(event.data);
+         return;
+      }
+      if (!(event.data instanceof ArrayBuffer)) return;
+      const bytes = new Uint8Array(event.data);
+      if (isFullFrame(bytes)) queue = [bytes];
+      else queue.push(bytes);
+      stats.maxBacklog = Math.max(stats.maxBacklog, queue.length);
+      if (!decoding) decodePending();
+   };
+}
+
+function handleText(text: string) {
+   try {
+      const msg: ViewportQualityMessage = JSON.parse(text);
+      if (msg.type === 'quality') {
+         post({ type: 'quality', quality: { maxFps: msg.maxFps, scale: msg.scale, paused: msg.paused } });
+      }
+   } catch {
+      // Ignore malformed messages
+   }
+}
+
+function requestedQuality(): PreviewQuality {
+   const level = fullQuality ? 0 : mode === 'auto' ? autoLevel : MODE_LEVELS[mode];
+   return { ...LEVELS[level], paused: hidden };
+}
+
+/** Sends the wanted quality to the server if it differs from what was last asked for. */
+function sendQuality() {
+   if (socket?.readyState !== WebSocket.OPEN) return;
+   const text = JSON.stringify({ type: 'quality', ...requestedQuality() });
+   if (text === sentQuality) return;
+   sentQuality = text;
+   socket.send(text);
+}
+
+/** Runs every ADAPT_INTERVAL_MS: moves the 'auto' level based on the last interval's stats. */
+function adapt() {
+   const { frames, decodeMs, maxBacklog, excessLagMs } = stats;
+   stats = { frames: 0, decodeMs: 0, maxBacklog: 0, excessLagMs: 0 };
+   if (mode !== 'auto' || hidden || frames === 0) return;
+
+   const frameInterval = ADAPT_INTERVAL_MS / frames;
+   const avgDecode = decodeMs / frames;
+   const avgLag = excessLagMs / frames;
+   if (avgDecode > frameInterval * 0.5 || maxBacklog >= 3 || avgLag > LAG_LIMIT_MS) {
+      autoLevel = Math.min(LEVELS.length - 1, autoLevel + 1);
+      calmIntervals = 0;
+   } else if (avgDecode < frameInterval * 0.2 && maxBacklog <= 1 && avgLag < LAG_LIMIT_MS / 2) {
+      if (++calmIntervals >= CALM_INTERVALS && autoLevel > 0) {
+         autoLevel--;
+         calmIntervals = 0;
+      }
+   } else {
+      calmIntervals = 0;
+   }
+   sendQuality();
+}
+
+function isFullFrame(bytes: Uint8Array): boolean {
+   return (bytes[0] & FLAG_EXTENDED) === 0 || (bytes[0] & FLAG_KEYFRAME) !== 0;
+}
+
+function requestKeyframe() {
+   if (awaitingKeyframe || socket?.readyState !== WebSocket.OPEN) return;
+   awaitingKeyframe = true;
+   socket.send(JSON.stringify({ type: 'keyframe' }));
+}
+
+async function payload(bytes: Uint8Array, start: number, deflated: boolean): Promise<Uint8Array | null> {
+   if (!deflated) return bytes.subarray(start);
+   try {
+      return await inflate(bytes.subarray(start));
+   } catch {
+      // Skip frame on decompression error
+      return null;
+   }
+}
+
+/** Decodes a v1 frame: [flags:1B][width:2B][height:2B][RGB...]. */
+async function decodeV1(bytes: Uint8Array): Promise<ViewportMessage | null> {
+   if (bytes.length < 5) return null;
+   const width = (bytes[1] << 8) | bytes[2];
+   const height = (bytes[3] << 8) | bytes[4];
+   const data = await payload(bytes, 5, bytes[0] === FLAG_DEFLATE);
+   return data && { width, height, data };
+}
+
+/**
+ * Decodes a v2 frame and applies it to the base frame. Returns the resulting frame,
+ * or null if it couldn't be applied.
+ */
+async function decodeV2(bytes: Uint8Array): Promise<ViewportMessage | null> {
+   if (bytes.length < V2_HEADER_SIZE) return null;
+   const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+   const flags = bytes[0];
+   const width = view.getUint16(2);
+   const height = view.getUint16(4);
+   const seq = view.getUint32(6);
+   const renderedAt = Number(view.getBigInt64(10));
+
+   const data = await payload(bytes, V2_HEADER_SIZE, (flags & FLAG_DEFLATE) !== 0);
+   if (!data) return null;
+
+   if (flags & FLAG_KEYFRAME) {
+      const scaled = (flags & FLAG_SCALED) !== 0;
+      const full = scaled ? upscale(data, width, height) : data;
+      if (!full) return null;
+      awaitingKeyframe = false;
+      // Copy: the base is patched in place and must not alias the socket buffer
+      base = { width, height, data: full === data ? data.slice() : full, seq, renderedAt, scale: scaled ? data[0] : 1 };
+   } else if (flags & FLAG_DELTA) {
+      if (!base || base.width !== width || base.height !== height || seq !== ((base.seq + 1) >>> 0)
+         || !applyDelta(base.data, data)) {
+         base = null;
+         requestKeyframe();
+         return null;
+      }
+      base.seq = seq;
+      base.renderedAt = renderedAt;
+   } else {
+      return null;
+   }
+   // A new object each time, so the draw loop sees the change
+   return { ...base };
+}
+
+/**
+ * Expands a scaled keyframe payload ([scale:1B][RGB at 1/scale size]) back to
+ * width x height, repeating each pixel over its block.
+ */
+function upscale(payload: Uint8Array, width: number, height: number): Uint8Array | null {
+   const scale = payload[0];
+   if (!scale) return null;
+   const scaledWidth = Math.ceil(width / scale);
+   const scaledHeight = Math.ceil(height / scale);
+   if (payload.length < 1 + scaledWidth * scaledHeight * 3) return null;
+
+   const out = new Uint8Array(width * height * 3);
+   for (let y = 0; y < height; y++) {
+      const row = 1 + Math.floor(y / scale) * scaledWidth * 3;
+      for (let x = 0; x < width; x++) {
+         const i = row + Math.floor(x / scale) * 3;
+         const o = (y * width + x) * 3;
+         out[o] = payload[i];
+         out[o + 1] = payload[i + 1];
+         out[o + 2] = payload[i + 2];
+      }
+   }
+   return out;
+}
+
+/** Patches runs of [offset:4B][count:2B][RGB...] into the frame; false if malformed. */
+function applyDelta(frame: Uint8Array, delta: Uint8Array): boolean {
+   const view = new DataView(delta.buffer, delta.byteOffset, delta.byteLength);
+   let p = 0;
+   while (p < delta.length) {
+      if (p + 6 > delta.length) return false;
+      const offset = view.getUint32(p) * 3;
+      const length = view.getUint16(p + 4) * 3;
+      p += 6;
+      if (p + length > delta.length || offset + length > frame.length) return false;
+      frame.set(delta.subarray(p, p + length), offset);
+      p += length;
+   }
+   return true;
+}
+
+async function decodePending() {
+   decoding = true;
+   while (queue.length > 0) {
+      const bytes = queue.shift()!;
+      const start = performance.now();
+      const frame = (bytes[0] & FLAG_EXTENDED) ? await decodeV2(bytes) : await decodeV1(bytes);
+      stats.frames++;
+      stats.decodeMs += performance.now() - start;
+      if (frame?.renderedAt !== undefined) {
+         // Clocks may differ, so only lag beyond the best seen counts
+         const lag = Date.now() - frame.renderedAt;
+         baselineLag = Math.min(baselineLag, lag);
+         stats.excessLagMs += lag - baselineLag;
+      }
+      if (frame && recording) {
+         // Copy: v2 frames share the base buffer, which the next delta patches
+         const data = frame.data.slice();
+         post({ type: 'frame', frame: { ...frame, data }, receivedAt: Date.now() }, [data.buffer]);
+      }
+      // A newer frame arrived while inflating: this one is already stale
+      if (!frame || queue.length > 0) continue;
+      latest = frame;
+      scheduleDraw();
+   }
+   decoding = false;
+}
+
+function scheduleDraw() {
+   if (drawScheduled) return;
+   drawScheduled = true;
+   if (typeof self.requestAnimationFrame === 'function') self.requestAnimationFrame(draw);
+   else setTimeout(draw, 0);
+}
+
+function draw() {
+   drawScheduled = false;
+   const frame = latest;
+   if (!frame || frame === drawn) return;
+
+   if (frame.width !== reported.width || frame.height !== reported.height) {
+      reported = { width: frame.width, height: frame.height };
+      post({ type: 'resolution', width: frame.width, height: frame.height });
+   }
+   if (!canvas) return;
+   drawn = frame;
+
+   // Unpack RGB into a native-resolution RGBA image...
+   if (!image || image.width !== frame.width || image.height !== frame.height) {
+      image = new ImageData(frame.width, frame.height);
+      source = new OffscreenCanvas(frame.width, frame.height);
+   }
+   const rgba = image.data;
+   const rgb = frame.data;
+   for (let i = 0, j = 0; i < rgb.length; i += 3, j += 4) {
+      rgba[j] = rgb[i];
+      rgba[j + 1] = rgb[i + 1];
+      rgba[j + 2] = rgb[i + 2];
+      rgba[j + 3] = 255;
+   }
+   source!.getContext('2d')!.putImageData(image, 0, 0);
+
+   // ...then let drawImage do the PIXEL_SIZE upscaling
+   if (canvas.width !== frame.width * PIXEL_SIZE || canvas.height !== frame.height * PIXEL_SIZE) {
+      canvas.width = frame.width * PIXEL_SIZE;
+      canvas.height = frame.height * PIXEL_SIZE;
+   }
+   const ctx = canvas.getContext('2d');
+   if (!ctx) return;
+   ctx.imageSmoothingEnabled = false;
+   ctx.drawImage(source!, 0, 0, canvas.width, canvas.height);
+}
+
+self.onmessage = (event: MessageEvent<ViewportWorkerRequest>) => {
+   const msg = event.data;
+   switch (msg.type) {
+      case 'connect':
+         if (url) return;
+         url = msg.url;
+         connect();
+         break;
+      case 'attach':
+         canvas = msg.canvas;
+         drawn = null;
+         scheduleDraw();
+         break;
+      case 'detach':
+         canvas = null;
+         break;
+      case 'quality':
+         mode = msg.mode;
+         calmIntervals = 0;
+         sendQuality();
+         break;
+      case 'visibility':
+         hidden = msg.hidden;
+         stats = { frames: 0, decodeMs: 0, maxBacklog: 0, excessLagMs: 0 };
+         sendQuality();
+         break;
+      case 'record':
+         recording = msg.enabled;
+         break;
+      case 'fullQuality':
+         fullQuality = msg.enabled;
+         sendQuality();
+         break;
+      case 'sample': {
+         const frame = latest;
+         let rgb: [number, number, number] | null = null;
+         if (frame && msg.x < frame.width && msg.y < frame.height) {
+            const i = (msg.y * frame.width + msg.x) * 3;
+            rgb = [frame.data[i], frame.data[i + 1], frame.data[i + 2]];
+         }
+         post({ type: 'sample', id: msg.id, rgb });
+         break;
+      }
+   }
+};
+
+setInterval(adapt, ADAPT_INTERVAL_MS);
@@ -1,16 +1,24 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { mockBackend } from './mock/mockBackend.ts'
 
-export default defineConfig({
-   plugins: [react()],
-   base: '/',
-   build: {
-      outDir: '../src/main/resources/web',
-      emptyOutDir: true,
-   },
-   server: {
-      proxy: {
-         '/api': 'http://rpi-dev-1.local:8080',
+// `npm run dev:mock` (vite --mode mock) serves the API and WebSockets from an
+// in-process mock instead of proxying to the Pi. See mock/mockBackend.ts.
+export default defineConfig(({ mode }) => {
+   const useMock = mode === 'mock'
+   return {
+      plugins: useMock
+         ? [react(), mockBackend({ compress: process.env.MOCK_DEFLATE !== '0' })]
+         : [react()],
+      base: '/',
+      build: {
+         outDir: '../src/main/resources/web',
+         emptyOutDir: true,
       },
-   },
+      server: {
+         proxy: useMock ? undefined : {
+            '/api': 'http://rpi-dev-1.local:8080',
+         },
+      },
+   }
 })
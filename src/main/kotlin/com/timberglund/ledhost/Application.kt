@@ -2,6 +2,8 @@ package com.timberglund.ledhost
 
 import com.timberglund.ledhost.config.Configuration
 import com.timberglund.ledhost.config.StripLayout
+import com.timberglund.ledhost.db.PlaylistsRepository
+import com.timberglund.ledhost.db.SavedPatternRow
 import com.timberglund.ledhost.db.SavedPatternsRepository
 import com.timberglund.ledhost.db.SettingsRepository
 import com.timberglund.ledhost.mapper.LinearMapper
@@ -11,15 +13,23 @@ import com.timberglund.ledhost.viewport.Viewport
 import java.nio.ByteBuffer
 import java.nio.ByteOrder
 import com.timberglund.ledhost.pattern.DefaultPatternRegistry
-import com.timberglund.ledhost.pattern.PatternParameters
+import com.timberglund.ledhost.pattern.Modulator
+import com.timberglund.ledhost.pattern.Timeline
+import com.timberglund.ledhost.pattern.toParamValues
+import com.timberglund.ledhost.pattern.toPatternParameters
 import com.timberglund.ledhost.pattern.patterns.AlternatingBarsPattern
 import com.timberglund.ledhost.pattern.patterns.PlasmaInterferencePattern
 import com.timberglund.ledhost.pattern.patterns.PlasmaPattern
 import com.timberglund.ledstrip.BluetoothHost
 import com.timberglund.ledhost.pattern.patterns.RainbowPattern
 import com.timberglund.ledhost.pattern.patterns.SolidColorPattern
+import com.timberglund.ledhost.playlist.PlaylistPlayer
 import com.timberglund.ledhost.renderer.FrameRenderer
+import com.timberglund.ledhost.renderer.Transition
+import com.timberglund.ledhost.renderer.TransitionType
+import com.timberglund.ledhost.schedule.Scheduler
 import com.timberglund.ledhost.viewport.ArrayViewport
+import com.timberglund.ledhost.web.CalibrationTarget
 import com.timberglund.ledhost.web.PreviewServer
 import kotlinx.coroutines.*
 import mu.KotlinLogging
@@ -28,6 +38,9 @@ import kotlin.io.path.exists
 
 private val logger = KotlinLogging.logger {}
 
+// Scheduled changes fade rather than cut, including turning the strips off
+private val SCHEDULE_TRANSITION = Transition(TransitionType.CROSSFADE, 2f)
+
 /**
  * Main application entry point for the LED Strip Host.
  */
@@ -60,6 +73,8 @@ fun main(args: Array<String>) {
    // Create saved patterns repository and ensure table exists
    val savedPatternsRepository = SavedPatternsRepository(settingsRepository.database)
    savedPatternsRepository.createTable()
+   val playlistsRepository = PlaylistsRepository(settingsRepository.database)
+   playlistsRepository.createTable()
 
    // Load runtime settings from database (blocking reads at startup)
    val (viewportWidth, viewportHeight, targetFPS) = runBlocking {
@@ -130,8 +145,13 @@ fun main(args: Array<String>) {
    val renderer = FrameRenderer(targetFPS = targetFPS,
                                 viewport = viewport,
                                 onFrameRendered = { renderedViewport ->
-         // Build strip frames synchronously while viewport is stable, then send
-         val frames = buildStripFrames(renderedViewport, mapper, loadedStrips)
+         // Build strip frames synchronously while viewport is stable, then send.
+         // A calibration in progress replaces the pattern with its two marker LEDs.
+         val calibration = previewServer?.getCalibration()
+         val frames = if(calibration != null)
+            buildCalibrationFrames(calibration, loadedStrips)
+         else
+            buildStripFrames(renderedViewport, mapper, loadedStrips)
          appScope.launch {
             for((stripId, pair) in frames) {
                bleManager.sendFrame(stripId, pair.first)
@@ -143,11 +163,13 @@ fun main(args: Array<String>) {
          if (now - lastBroadcastTime >= broadcastIntervalMs) {
             lastBroadcastTime = now
             appScope.launch {
-               previewServer?.broadcastViewport()
+               previewServer?.broadcastViewport(now)
+               previewServer?.broadcastLedFrame(frames.mapValues { (_, pair) -> pair.second })
                previewServer?.broadcastLeds(frames.map { (stripId, pair) ->
                   com.timberglund.ledhost.web.StripLedsMessage(
                      stripId = stripId,
-                     rgb = toRgbHex(pair.second)
+                     rgb = toRgbHex(pair.second),
+                     brightness = toBrightnessHex(pair.second)
                   )
                })
             }
@@ -155,27 +177,92 @@ fun main(args: Array<String>) {
       }
    )
 
+   // Playlists and the schedule run on the host. What they show goes through the
+   // preview server when there is one, so the web interface shows what is playing.
+   fun showPreset(preset: SavedPatternRow) {
+      val server = previewServer
+      if(server != null) {
+         server.showPreset(preset)
+      }
+      else {
+         patternRegistry.get(preset.patternName)?.let { pattern ->
+            renderer.setPattern(pattern, preset.params.toParamValues().toPatternParameters())
+            renderer.setModulators(preset.modulators)
+            renderer.setTimeline(preset.timeline)
+            renderer.setOutputEnabled(true)
+         }
+      }
+   }
+
+   fun setOutputEnabled(enabled: Boolean) {
+      val server = previewServer
+      if(server != null) server.setOutputEnabled(enabled) else renderer.setOutputEnabled(enabled)
+   }
+
+   val findPreset: suspend (Int) -> SavedPatternRow? = { id ->
+      savedPatternsRepository.getAllPresets().firstOrNull { it.id == id }
+   }
+
+   val playlistPlayer = PlaylistPlayer(
+      scope = appScope,
+      findPreset = findPreset,
+      show = { preset, transition ->
+         renderer.beginTransition(transition)
+         showPreset(preset)
+      }
+   )
+
+   // A rule coming into effect takes over from any playlist. When an override ends
+   // outside every rule, the playlist or look it replaced comes back.
+   val scheduler = Scheduler(
+      scope = appScope,
+      findPreset = findPreset,
+      apply = { preset ->
+         playlistPlayer.stop()
+         renderer.beginTransition(SCHEDULE_TRANSITION)
+         if(preset != null) showPreset(preset) else setOutputEnabled(false)
+      },
+      capture = {
+         val playing = playlistPlayer.status()
+         val look = previewServer?.captureLook() ?: renderer.captureLook()
+         val restore: suspend () -> Unit = {
+            val resumed = playing?.let { status ->
+               playlistsRepository.getPlaylist(status.playlistId)?.let { playlistPlayer.play(it, status.index) }
+            } ?: false
+            if(!resumed) {
+               renderer.beginTransition(SCHEDULE_TRANSITION)
+               look()
+            }
+         }
+         restore
+      }
+   )
+   runBlocking { scheduler.setSchedule(settingsRepository.getSchedule()) }
+
+   // A startup playlist takes over from the active preset once rendering starts
+   val startupPlaylist = runBlocking {
+      settingsRepository.getStartupPlaylistId()?.let { id ->
+         playlistsRepository.getPlaylist(id).also {
+            if(it == null) logger.warn { "Startup playlist $id not found in database, using active preset" }
+         }
+      }
+   }
+
    // Restore active preset from database, or fall back to first registered pattern
-   data class StartupPattern(val name: String, val rawParams: Map<String, Any>, val presetName: String? = null)
+   data class StartupPattern(val name: String,
+                             val rawParams: Map<String, Any>,
+                             val presetName: String? = null,
+                             val modulators: Map<String, Modulator> = emptyMap(),
+                             val timeline: Timeline? = null)
    val restoredPreset: StartupPattern? = runBlocking {
       val presetName = settingsRepository.getActivePresetName()
       if(presetName != null) {
          val preset = savedPatternsRepository.getAllPresets().firstOrNull { it.presetName == presetName }
          if(preset != null) {
-            val rawParams = mutableMapOf<String, Any>()
-            preset.params.forEach { (key, element) ->
-               if(element is kotlinx.serialization.json.JsonPrimitive) {
-                  val content = element.content
-                  rawParams[key] = when {
-                     element.isString -> content
-                     content == "true" -> true
-                     content == "false" -> false
-                     else -> content.toDoubleOrNull() ?: content
-                  }
-               }
-            }
+            val rawParams = preset.params.toParamValues()
             logger.info { "Restoring active preset '$presetName' (${preset.patternName})" }
-            StartupPattern(preset.patternName, rawParams, presetName = presetName)
+            StartupPattern(preset.patternName, rawParams, presetName = presetName,
+                           modulators = preset.modulators, timeline = preset.timeline)
          }
          else {
             logger.warn { "Active preset '$presetName' not found in database, using default" }
@@ -200,11 +287,17 @@ fun main(args: Array<String>) {
                                     settingsRepository = settingsRepository,
                                     savedPatternsRepository = savedPatternsRepository,
                                     mapper = mapper,
-                                    bleManager = bleManager)
+                                    bleManager = bleManager,
+                                    playlistsRepository = playlistsRepository,
+                                    playlistPlayer = playlistPlayer,
+                                    scheduler = scheduler)
 
       // Seed in-memory active-pattern state from startup restore
       if(restoredPreset != null) {
-         previewServer.setCurrentPattern(startupPattern.name, startupPattern.rawParams, presetName = startupPattern.presetName)
+         previewServer.setCurrentPattern(startupPattern.name, startupPattern.rawParams,
+                                         presetName = startupPattern.presetName.takeIf { startupPlaylist == null },
+                                         modulators = startupPattern.modulators,
+                                         timeline = startupPattern.timeline)
       }
 
       // Handle pattern changes from web interface
@@ -214,6 +307,15 @@ fun main(args: Array<String>) {
             renderer.setPattern(pattern, params)
          }
       }
+      previewServer.setModulatorsChangeListener { modulators ->
+         renderer.setModulators(modulators)
+      }
+      previewServer.setTimelineChangeListener { timeline ->
+         renderer.setTimeline(timeline)
+      }
+      previewServer.setOutputChangeListener { enabled ->
+         renderer.setOutputEnabled(enabled)
+      }
 
       previewServer.start()
 
@@ -240,21 +342,23 @@ fun main(args: Array<String>) {
 
    val initialPatternObj = patternRegistry.get(startupPattern.name)
    if(initialPatternObj != null) {
-      val patternParams = PatternParameters()
-      startupPattern.rawParams.forEach { (key, value) ->
-         when(value) {
-            is String -> patternParams.set(key, value)
-            is Boolean -> patternParams.set(key, value)
-            is Double -> patternParams.set(key, value.toFloat())
-            is Float -> patternParams.set(key, value)
-            is Int -> patternParams.set(key, value)
-         }
-      }
-      renderer.setPattern(initialPatternObj, patternParams)
+      renderer.setPattern(initialPatternObj, startupPattern.rawParams.toPatternParameters())
+      renderer.setModulators(startupPattern.modulators)
+      renderer.setTimeline(startupPattern.timeline)
    }
 
    // Start rendering
    renderer.start()
+   appScope.launch {
+      if(startupPlaylist != null) {
+         logger.info { "Playing startup playlist '${startupPlaylist.name}'" }
+         if(!playlistPlayer.play(startupPlaylist)) {
+            logger.warn { "Startup playlist '${startupPlaylist.name}' has nothing to play" }
+         }
+      }
+      // After the startup playlist, so a rule in effect now takes over from it
+      scheduler.start()
+   }
 
    // Log status
    logger.info { "Application started successfully!" }
@@ -298,6 +402,25 @@ private fun buildStripFrames(
    }
 }
 
+/**
+ * Builds BLE frames for calibration: every strip dark except the one being calibrated,
+ * which shows only its first and last LEDs. The target strip is included even if it was
+ * added after startup and so is not yet in [strips].
+ */
+private fun buildCalibrationFrames(
+   target: CalibrationTarget,
+   strips: List<StripLayout>): Map<Int, Pair<ByteArray, Array<Color>>> {
+   val lengths = strips.associate { it.id to it.length } + (target.stripId to target.length)
+   return lengths.mapValues { (stripId, length) ->
+      val leds = Array(length) { Color.BLACK }
+      if(stripId == target.stripId && length > 0) {
+         leds[0] = PreviewServer.CALIBRATION_FIRST_COLOR
+         leds[length - 1] = PreviewServer.CALIBRATION_LAST_COLOR
+      }
+      Pair(buildStripFrame(leds), leds)
+   }
+}
+
 /**
  * Serializes an array of colors into the BLE frame format:
  * 2-byte command (0x0001), 2-byte LED count, then per-LED: brightness, R, G, B.
@@ -328,3 +451,16 @@ private fun toRgbHex(leds: Array<Color>): String {
    return sb.toString()
 }
 
+/**
+ * Encodes the APA102 brightness of each LED as lowercase hex (bb per LED), or null
+ * when every LED is at full brightness so the common case costs nothing on the wire.
+ */
+private fun toBrightnessHex(leds: Array<Color>): String? {
+   if(leds.all { it.brightness == 31 }) return null
+   val sb = StringBuilder(leds.size * 2)
+   for(led in leds) {
+      sb.append(String.format("%02x", led.brightness))
+   }
+   return sb.toString()
+}
+
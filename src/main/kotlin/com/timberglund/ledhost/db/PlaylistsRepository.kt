@@ -0,0 +1,133 @@
+package com.timberglund.ledhost.db
+
+import com.timberglund.ledhost.playlist.PlaylistItem
+import kotlinx.coroutines.Dispatchers
+import kotlinx.coroutines.withContext
+import kotlinx.serialization.json.Json
+import mu.KotlinLogging
+import org.jetbrains.exposed.dao.id.IntIdTable
+import org.jetbrains.exposed.exceptions.ExposedSQLException
+import org.jetbrains.exposed.sql.*
+import org.jetbrains.exposed.sql.SqlExpressionBuilder.eq
+import org.jetbrains.exposed.sql.transactions.transaction
+
+private val logger = KotlinLogging.logger {}
+
+// ──────────────────────────────────────────────
+// Table definition
+// ──────────────────────────────────────────────
+
+object PlaylistsTable : IntIdTable("playlists") {
+   val name = varchar("name", 255).uniqueIndex()
+   val items = text("items") // JSON array of PlaylistItem
+   val updatedAt = long("updated_at")
+}
+
+// ──────────────────────────────────────────────
+// Data model
+// ──────────────────────────────────────────────
+
+data class PlaylistRow(
+   val id: Int,
+   val name: String,
+   val items: List<PlaylistItem>,
+   val updatedAt: Long
+)
+
+// ──────────────────────────────────────────────
+// Repository
+// ──────────────────────────────────────────────
+
+class PlaylistsRepository(private val database: Database) {
+
+   fun createTable() {
+      transaction(database) {
+         SchemaUtils.createMissingTablesAndColumns(PlaylistsTable)
+         logger.info { "playlists table ready" }
+      }
+   }
+
+   suspend fun getAllPlaylists(): List<PlaylistRow> = withContext(Dispatchers.IO) {
+      transaction(database) {
+         PlaylistsTable
+            .selectAll()
+            .orderBy(PlaylistsTable.name to SortOrder.ASC)
+            .map { it.toRow() }
+      }
+   }
+
+   suspend fun getPlaylist(playlistId: Int): PlaylistRow? = withContext(Dispatchers.IO) {
+      transaction(database) {
+         PlaylistsTable
+            .selectAll().where { PlaylistsTable.id eq playlistId }
+            .firstOrNull()?.toRow()
+      }
+   }
+
+   suspend fun createPlaylist(name: String, items: List<PlaylistItem>): PlaylistRow = withContext(Dispatchers.IO) {
+      if(name.isBlank()) throw IllegalArgumentException("Playlist name cannot be blank")
+      val now = System.currentTimeMillis()
+      try {
+         val id = transaction(database) {
+            PlaylistsTable.insertAndGetId {
+               it[PlaylistsTable.name] = name
+               it[PlaylistsTable.items] = Json.encodeToString(items)
+               it[PlaylistsTable.updatedAt] = now
+            }.value
+         }
+         PlaylistRow(id = id, name = name, items = items, updatedAt = now)
+      }
+      catch(e: ExposedSQLException) {
+         if(e.isUniqueViolation()) throw IllegalArgumentException("A playlist named '$name' already exists")
+         throw e
+      }
+   }
+
+   /**
+    * Updates the given fields of a playlist, leaving null ones as they are.
+    */
+   suspend fun updatePlaylist(
+      playlistId: Int,
+      name: String? = null,
+      items: List<PlaylistItem>? = null
+   ): PlaylistRow? = withContext(Dispatchers.IO) {
+      if(name != null && name.isBlank()) throw IllegalArgumentException("Playlist name cannot be blank")
+      val now = System.currentTimeMillis()
+      try {
+         transaction(database) {
+            val updated = PlaylistsTable.update({ PlaylistsTable.id eq playlistId }) {
+               if(name != null) it[PlaylistsTable.name] = name
+               if(items != null) it[PlaylistsTable.items] = Json.encodeToString(items)
+               it[PlaylistsTable.updatedAt] = now
+            }
+            if(updated == 0) return@transaction null
+            PlaylistsTable
+               .selectAll().where { PlaylistsTable.id eq playlistId }
+               .firstOrNull()?.toRow()
+         }
+      }
+      catch(e: ExposedSQLException) {
+         if(e.isUniqueViolation()) throw IllegalArgumentException("A playlist with that name already exists")
+         throw e
+      }
+   }
+
+   suspend fun deletePlaylist(playlistId: Int): Boolean = withContext(Dispatchers.IO) {
+      transaction(database) {
+         PlaylistsTable.deleteWhere { PlaylistsTable.id eq playlistId } > 0
+      }
+   }
+
+   private fun ResultRow.toRow(): PlaylistRow {
+      val row = this
+      return PlaylistRow(
+         id = row[PlaylistsTable.id].value,
+         name = row[PlaylistsTable.name],
+         items = runCatching { Json.decodeFromString<List<PlaylistItem>>(row[PlaylistsTable.items]) }.getOrElse {
+            logger.warn { "Ignoring unreadable items for playlist '${row[PlaylistsTable.name]}'" }
+            emptyList()
+         },
+         updatedAt = row[PlaylistsTable.updatedAt]
+      )
+   }
+}
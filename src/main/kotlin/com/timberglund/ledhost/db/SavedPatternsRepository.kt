@@ -1,5 +1,7 @@
 package com.timberglund.ledhost.db
 
+import com.timberglund.ledhost.pattern.Modulator
+import com.timberglund.ledhost.pattern.Timeline
 import kotlinx.coroutines.Dispatchers
 import kotlinx.coroutines.withContext
 import kotlinx.serialization.json.*
@@ -20,6 +22,8 @@ object SavedPatternsTable : IntIdTable("saved_patterns") {
    val presetName = varchar("preset_name", 255).uniqueIndex()
    val patternName = varchar("pattern_name", 255)
    val params = text("params") // JSON string
+   val modulators = text("modulators").default("{}") // JSON object of Modulator by parameter name
+   val timeline = text("timeline").nullable() // JSON Timeline; presets with one are animations
    val updatedAt = long("updated_at")
 }
 
@@ -32,6 +36,8 @@ data class SavedPatternRow(
    val presetName: String,
    val patternName: String,
    val params: JsonObject,
+   val modulators: Map<String, Modulator> = emptyMap(),
+   val timeline: Timeline? = null,
    val updatedAt: Long
 )
 
@@ -60,7 +66,9 @@ class SavedPatternsRepository(private val database: Database) {
    suspend fun createPreset(
       presetName: String,
       patternName: String,
-      params: JsonObject
+      params: JsonObject,
+      modulators: Map<String, Modulator> = emptyMap(),
+      timeline: Timeline? = null
    ): SavedPatternRow = withContext(Dispatchers.IO) {
       if(presetName.isBlank()) throw IllegalArgumentException("Preset name cannot be blank")
       val now = System.currentTimeMillis()
@@ -70,10 +78,14 @@ class SavedPatternsRepository(private val database: Database) {
                it[SavedPatternsTable.presetName] = presetName
                it[SavedPatternsTable.patternName] = patternName
                it[SavedPatternsTable.params] = Json.encodeToString(params)
+               it[SavedPatternsTable.modulators] = Json.encodeToString(modulators)
+               it[SavedPatternsTable.timeline] = timeline.toColumn()
                it[SavedPatternsTable.updatedAt] = now
             }.value
          }
-         SavedPatternRow(id = id, presetName = presetName, patternName = patternName, params = params, updatedAt = now)
+         SavedPatternRow(id = id, presetName = presetName, patternName = patternName, params = params,
+                         modulators = modulators, timeline = timeline?.takeIf { it.hasKeyframes() },
+                         updatedAt = now)
       }
       catch(e: ExposedSQLException) {
          if(e.isUniqueViolation()) throw IllegalArgumentException("A preset named '$presetName' already exists")
@@ -81,11 +93,17 @@ class SavedPatternsRepository(private val database: Database) {
       }
    }
 
+   /**
+    * Updates the given fields of a preset, leaving null ones as they are.
+    * A timeline with no keyframes removes the preset's timeline.
+    */
    suspend fun updatePreset(
       presetId: Int,
       presetName: String? = null,
       patternName: String? = null,
-      params: JsonObject? = null
+      params: JsonObject? = null,
+      modulators: Map<String, Modulator>? = null,
+      timeline: Timeline? = null
    ): SavedPatternRow? = withContext(Dispatchers.IO) {
       val now = System.currentTimeMillis()
       try {
@@ -94,6 +112,8 @@ class SavedPatternsRepository(private val database: Database) {
                if(presetName != null) it[SavedPatternsTable.presetName] = presetName
                if(patternName != null) it[SavedPatternsTable.patternName] = patternName
                if(params != null) it[SavedPatternsTable.params] = Json.encodeToString(params)
+               if(modulators != null) it[SavedPatternsTable.modulators] = Json.encodeToString(modulators)
+               if(timeline != null) it[SavedPatternsTable.timeline] = timeline.toColumn()
                it[SavedPatternsTable.updatedAt] = now
             }
             if(updated == 0) return@transaction null
@@ -114,6 +134,9 @@ class SavedPatternsRepository(private val database: Database) {
       }
    }
 
+   private fun Timeline?.toColumn(): String? =
+      this?.takeIf { it.hasKeyframes() }?.let { Json.encodeToString(it) }
+
    private fun ResultRow.toRow(): SavedPatternRow {
       val row = this
       return SavedPatternRow(
@@ -121,11 +144,23 @@ class SavedPatternsRepository(private val database: Database) {
          presetName = row[SavedPatternsTable.presetName],
          patternName = row[SavedPatternsTable.patternName],
          params = Json.decodeFromString<JsonObject>(row[SavedPatternsTable.params]),
+         modulators = runCatching {
+            Json.decodeFromString<Map<String, Modulator>>(row[SavedPatternsTable.modulators])
+         }.getOrElse {
+            logger.warn { "Ignoring unreadable modulators for preset '${row[SavedPatternsTable.presetName]}'" }
+            emptyMap()
+         },
+         timeline = row[SavedPatternsTable.timeline]?.let { json ->
+            runCatching { Json.decodeFromString<Timeline>(json) }.getOrElse {
+               logger.warn { "Ignoring unreadable timeline for preset '${row[SavedPatternsTable.presetName]}'" }
+               null
+            }
+         },
          updatedAt = row[SavedPatternsTable.updatedAt]
       )
    }
 }
 
-private fun ExposedSQLException.isUniqueViolation(): Boolean =
+internal fun ExposedSQLException.isUniqueViolation(): Boolean =
    (cause as? java.sql.SQLException)?.sqlState == "23505" ||
    message?.contains("unique", ignoreCase = true) == true
@@ -1,8 +1,10 @@
 package com.timberglund.ledhost.db
 
 import com.timberglund.ledhost.config.Configuration
+import com.timberglund.ledhost.schedule.Schedule
 import kotlinx.coroutines.Dispatchers
 import kotlinx.coroutines.withContext
+import kotlinx.serialization.json.Json
 import mu.KotlinLogging
 import org.jetbrains.exposed.dao.id.IntIdTable
 import org.jetbrains.exposed.sql.*
@@ -106,6 +108,26 @@ class SettingsRepository {
 
    suspend fun getActivePresetName(): String? = getSetting("activePresetName")
 
+   // ── Startup playlist ──────────────────────────────────────────────────
+
+   /** Sets the playlist that plays on startup in place of the active preset; null clears it. */
+   suspend fun setStartupPlaylistId(id: Int?) = setSetting("startupPlaylistId", id?.toString() ?: "")
+
+   suspend fun getStartupPlaylistId(): Int? = getSetting("startupPlaylistId")?.toIntOrNull()
+
+   // ── Schedule ──────────────────────────────────────────────────────────
+
+   suspend fun setSchedule(schedule: Schedule) = setSetting("schedule", Json.encodeToString(schedule))
+
+   /** Gets the saved schedule, or an empty one if none is saved or it can't be read. */
+   suspend fun getSchedule(): Schedule {
+      val json = getSetting("schedule") ?: return Schedule()
+      return runCatching { Json.decodeFromString<Schedule>(json) }.getOrElse {
+         logger.warn { "Ignoring unreadable schedule: ${it.message}" }
+         Schedule()
+      }
+   }
+
    // ── Strips CRUD ───────────────────────────────────────────────────────
 
    suspend fun getAllStrips(): List<StripRow> = withContext(Dispatchers.IO) {
@@ -0,0 +1,153 @@
+package com.timberglund.ledhost.pattern
+
+import kotlinx.serialization.SerialName
+import kotlinx.serialization.Serializable
+import kotlin.math.PI
+import kotlin.math.abs
+import kotlin.math.roundToInt
+import kotlin.math.sin
+import kotlin.math.sqrt
+import kotlin.random.Random
+
+@Serializable
+enum class ModulatorShape {
+   @SerialName("sine") SINE,
+   @SerialName("triangle") TRIANGLE,
+   @SerialName("square") SQUARE,
+   @SerialName("random-walk") RANDOM_WALK,
+   @SerialName("sample-hold") SAMPLE_AND_HOLD,
+}
+
+/**
+ * A low-frequency oscillator bound to a numeric pattern parameter. The parameter
+ * swings between center - depth and center + depth, kept within the parameter's
+ * min, max and step.
+ *
+ * @property shape Waveform
+ * @property rate Cycles per second; sample-and-hold picks a new value once per cycle
+ * @property depth How far either side of center the parameter swings, in its own units
+ * @property center The value the parameter swings around
+ */
+@Serializable
+data class Modulator(
+   val shape: ModulatorShape,
+   val rate: Float,
+   val depth: Float,
+   val center: Float
+) {
+   init {
+      require(rate in MIN_RATE..MAX_RATE) { "rate must be between $MIN_RATE and $MAX_RATE Hz" }
+      require(depth >= 0f && depth.isFinite()) { "depth must be zero or more" }
+      require(center.isFinite()) { "center must be a number" }
+   }
+
+   companion object {
+      const val MIN_RATE = 0.01f
+      const val MAX_RATE = 20f
+   }
+}
+
+/**
+ * Whether a modulator can drive this parameter: floats, ints and angles.
+ */
+fun ParameterDef.isModulatable(): Boolean =
+   this is ParameterDef.FloatParam || this is ParameterDef.IntParam || this is ParameterDef.AngleParam
+
+/**
+ * Runs the modulators bound to a pattern's parameters. Each frame [advance]
+ * moves every modulator on by the frame time and overlays the results on the
+ * parameters the user set.
+ */
+class ParameterModulation(private val random: Random = Random.Default) {
+
+   private inner class Voice(val def: ParameterDef, var modulator: Modulator) {
+      var phase = 0f
+      var held = random.nextFloat() * 2f - 1f
+      var walk = 0f
+
+      /** Moves on by [deltaTime] seconds and returns the wave, -1..1. */
+      fun step(deltaTime: Float): Float {
+         val cycles = phase + modulator.rate * deltaTime
+         phase = cycles % 1f
+         return when(modulator.shape) {
+            ModulatorShape.SINE -> sin(2f * PI.toFloat() * phase)
+            ModulatorShape.TRIANGLE -> 1f - 4f * abs((phase + 0.25f) % 1f - 0.5f)
+            ModulatorShape.SQUARE -> if(phase < 0.5f) 1f else -1f
+            ModulatorShape.SAMPLE_AND_HOLD -> {
+               if(cycles >= 1f) held = random.nextFloat() * 2f - 1f
+               held
+            }
+            ModulatorShape.RANDOM_WALK -> {
+               // Steps with a variance of rate * deltaTime, so the walk wanders
+               // about a full swing per cycle whatever the frame rate
+               val stride = sqrt(3f * modulator.rate * deltaTime)
+               walk = reflect(walk + (random.nextFloat() * 2f - 1f) * stride)
+               walk
+            }
+         }
+      }
+   }
+
+   private val voices = mutableMapOf<String, Voice>()
+
+   /** Whether any parameter is being modulated. */
+   val isActive: Boolean get() = voices.isNotEmpty()
+
+   /**
+    * Binds modulators to a pattern's parameters. A parameter that keeps its
+    * modulator keeps its phase, so retuning a modulator doesn't make it jump.
+    * Modulators for missing or non-numeric parameters are ignored.
+    *
+    * @param parameters The pattern's declared parameters
+    * @param modulators Modulators by parameter name
+    */
+   fun configure(parameters: List<ParameterDef>, modulators: Map<String, Modulator>) {
+      val defs = parameters.filter { it.isModulatable() }.associateBy { it.name }
+      voices.keys.retainAll { it in modulators && it in defs }
+      modulators.forEach { (name, modulator) ->
+         val def = defs[name] ?: return@forEach
+         val voice = voices[name]
+         if(voice != null && voice.def == def) voice.modulator = modulator
+         else voices[name] = Voice(def, modulator)
+      }
+   }
+
+   /**
+    * Removes every modulator.
+    */
+   fun clear() = voices.clear()
+
+   /**
+    * Advances every modulator by [deltaTime] seconds.
+    *
+    * @param deltaTime Time elapsed since the last frame in seconds
+    * @param base The parameters as the user set them
+    * @return A copy of [base] with each modulated parameter replaced
+    */
+   fun advance(deltaTime: Float, base: PatternParameters): PatternParameters {
+      val params = base.copy()
+      voices.forEach { (name, voice) ->
+         val wave = voice.step(deltaTime)
+         val modulator = voice.modulator
+         params.set(name, constrain(voice.def, modulator.center + modulator.depth * wave))
+      }
+      return params
+   }
+
+   private fun constrain(def: ParameterDef, value: Float): Any = when(def) {
+      is ParameterDef.FloatParam -> snap(value, def.min, def.step).coerceIn(def.min, def.max)
+      is ParameterDef.IntParam ->
+         snap(value, def.min.toFloat(), def.step.toFloat()).roundToInt().coerceIn(def.min, def.max)
+      is ParameterDef.AngleParam -> ((snap(value, 0f, def.step) % 360f) + 360f) % 360f
+      else -> value
+   }
+
+   private fun snap(value: Float, origin: Float, step: Float): Float =
+      if(step > 0f) origin + ((value - origin) / step).roundToInt() * step else value
+
+   private fun reflect(value: Float): Float = when {
+      value > 1f -> (2f - value).coerceAtLeast(-1f)
+      value < -1f -> (-2f - value).coerceAtMost(1f)
+      else -> value
+   }
+}
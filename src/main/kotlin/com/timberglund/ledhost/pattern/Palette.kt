@@ -0,0 +1,52 @@
+package com.timberglund.ledhost.pattern
+
+import com.timberglund.ledhost.viewport.Color
+
+/**
+ * A color gradient built from a palette parameter's stops.
+ * Colors are blended linearly between neighbouring stops and held flat
+ * before the first stop and after the last.
+ */
+class Palette private constructor(
+   private val positions: FloatArray,
+   private val colors: List<Color>
+) {
+   /**
+    * Samples the gradient.
+    *
+    * @param t Position along the gradient, 0.0–1.0
+    * @return The color at that position
+    */
+   fun colorAt(t: Float): Color {
+      if(t <= positions[0]) return colors[0]
+      val last = positions.size - 1
+      if(t >= positions[last]) return colors[last]
+      var i = 1
+      while(positions[i] < t) i++
+      val span = positions[i] - positions[i - 1]
+      val ratio = if(span > 0f) (t - positions[i - 1]) / span else 1f
+      return Color.blend(colors[i - 1], colors[i], ratio)
+   }
+
+   companion object {
+      /**
+       * Builds a palette from stops in any order. Stops with malformed colors
+       * are skipped and positions are clamped to 0.0–1.0.
+       *
+       * @return The palette, or null if no stop is usable
+       */
+      fun fromStops(stops: List<PaletteStop>): Palette? {
+         val parsed = stops
+            .mapNotNull { stop -> Color.fromHex(stop.color)?.let { stop.position.coerceIn(0f, 1f) to it } }
+            .sortedBy { it.first }
+         if(parsed.isEmpty()) return null
+         return Palette(parsed.map { it.first }.toFloatArray(), parsed.map { it.second })
+      }
+
+      /**
+       * A two-stop palette blending from one color to another.
+       */
+      fun twoColor(start: Color, end: Color): Palette =
+         Palette(floatArrayOf(0f, 1f), listOf(start, end))
+   }
+}
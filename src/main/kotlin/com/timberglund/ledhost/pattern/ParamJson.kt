@@ -0,0 +1,96 @@
+package com.timberglund.ledhost.pattern
+
+import kotlinx.serialization.json.JsonArray
+import kotlinx.serialization.json.JsonElement
+import kotlinx.serialization.json.JsonNull
+import kotlinx.serialization.json.JsonObject
+import kotlinx.serialization.json.JsonPrimitive
+import kotlinx.serialization.json.doubleOrNull
+import kotlinx.serialization.json.floatOrNull
+
+/*
+ * Pattern parameter values arrive and are saved as JSON (request bodies, presets)
+ * and are handed to patterns as native values. Strings, booleans and numbers are
+ * scalars; a range is an array of two numbers and a palette an array of
+ * `{position, color}` stops.
+ */
+
+/**
+ * Converts a JSON parameter value: strings, booleans, numbers as Double, arrays
+ * of numbers as List<Double> and arrays of stops as List<PaletteStop>. Returns
+ * null for anything else.
+ */
+fun JsonElement.toParamValue(): Any? = when(this) {
+   is JsonArray -> when {
+      isNotEmpty() && all { it is JsonObject } -> map { it.toPaletteStop() ?: return null }
+      else -> map { element ->
+         val primitive = element as? JsonPrimitive
+         if(primitive == null || primitive.isString) return null
+         primitive.doubleOrNull ?: return null
+      }
+   }
+   is JsonPrimitive -> when {
+      isString -> content
+      content == "true" -> true
+      content == "false" -> false
+      else -> doubleOrNull
+   }
+   else -> null
+}
+
+private fun JsonElement.toPaletteStop(): PaletteStop? {
+   val stop = this as? JsonObject ?: return null
+   val position = (stop["position"] as? JsonPrimitive)?.takeUnless { it.isString }?.floatOrNull ?: return null
+   val color = (stop["color"] as? JsonPrimitive)?.takeIf { it.isString }?.content ?: return null
+   return PaletteStop(position, color)
+}
+
+/**
+ * Converts a JSON object of parameter values, dropping any that are not supported.
+ */
+fun Map<String, JsonElement>.toParamValues(): Map<String, Any> {
+   val result = mutableMapOf<String, Any>()
+   forEach { (key, element) -> element.toParamValue()?.let { result[key] = it } }
+   return result
+}
+
+/**
+ * Converts parameter values back to JSON, e.g. to save them with a preset.
+ */
+fun Map<String, Any>.toParamJsonObject(): JsonObject =
+   JsonObject(mapValues { (_, value) -> value.toParamJson() })
+
+private fun Any?.toParamJson(): JsonElement = when(this) {
+   null -> JsonNull
+   is String -> JsonPrimitive(this)
+   is Boolean -> JsonPrimitive(this)
+   is Int -> JsonPrimitive(this)
+   is Float -> JsonPrimitive(toDouble())
+   is Number -> JsonPrimitive(this)
+   is List<*> -> JsonArray(map { it.toParamJson() })
+   is PaletteStop -> JsonObject(mapOf("position" to JsonPrimitive(position.toDouble()), "color" to JsonPrimitive(color)))
+   else -> JsonPrimitive(toString())
+}
+
+/**
+ * Builds the parameters a pattern reads: numbers as Float (or Int), ranges as
+ * List<Float>, strings, booleans and palettes as they are.
+ */
+fun Map<String, Any>.toPatternParameters(): PatternParameters {
+   val patternParams = PatternParameters()
+   forEach { (key, value) ->
+      when(value) {
+         is Double, is Float -> patternParams.set(key, (value as Number).toFloat())
+         is Number -> patternParams.set(key, value.toInt())
+         is String -> patternParams.set(key, value)
+         is Boolean -> patternParams.set(key, value)
+         is List<*> -> {
+            val numbers = value.filterIsInstance<Number>()
+            val stops = value.filterIsInstance<PaletteStop>()
+            if(numbers.size == value.size) patternParams.set(key, numbers.map { it.toFloat() })
+            else if(stops.size == value.size) patternParams.set(key, stops)
+         }
+      }
+   }
+   return patternParams
+}
@@ -52,8 +52,65 @@ sealed class ParameterDef {
       override val label: String,
       val default: String // hex "#RRGGBB"
    ) : ParameterDef()
+
+   @Serializable
+   @SerialName("bool")
+   data class BoolParam(
+      override val name: String,
+      override val label: String,
+      val default: Boolean
+   ) : ParameterDef()
+
+   /** A min/max pair within [min, max]; values are JSON arrays `[low, high]`. */
+   @Serializable
+   @SerialName("range")
+   data class RangeParam(
+      override val name: String,
+      override val label: String,
+      val min: Float,
+      val max: Float,
+      val step: Float,
+      val default: List<Float> // [low, high]
+   ) : ParameterDef()
+
+   /** An ordered list of color stops; values are JSON arrays of `{position, color}`. */
+   @Serializable
+   @SerialName("palette")
+   data class PaletteParam(
+      override val name: String,
+      override val label: String,
+      val default: List<PaletteStop>
+   ) : ParameterDef()
+
+   /** A position in viewport pixels; values are JSON arrays `[x, y]`. */
+   @Serializable
+   @SerialName("point")
+   data class PointParam(
+      override val name: String,
+      override val label: String,
+      val default: List<Float>? = null // [x, y]; null is the viewport's center
+   ) : ParameterDef()
+
+   /** Degrees; wraps around, so 360 and 0 are the same angle. */
+   @Serializable
+   @SerialName("angle")
+   data class AngleParam(
+      override val name: String,
+      override val label: String,
+      val step: Float,
+      val default: Float
+   ) : ParameterDef()
 }
 
+/**
+ * One color stop of a palette parameter.
+ *
+ * @property position Where the stop sits along the gradient, 0.0–1.0
+ * @property color Hex "#RRGGBBbb", as color parameters are
+ */
+@Serializable
+data class PaletteStop(val position: Float, val color: String)
+
 /**
  * Pattern interface for LED animation algorithms.
  * Patterns are responsible for generating visual effects by drawing to a viewport.
@@ -85,6 +142,16 @@ interface Pattern {
     */
    fun initialize(viewport: Viewport, params: PatternParameters)
 
+   /**
+    * Applies new parameter values without restarting the animation, e.g. while
+    * a modulator sweeps a parameter. Patterns that keep animation state should
+    * override this; the default re-initializes.
+    *
+    * @param viewport The viewport to render to
+    * @param params Configuration parameters for the pattern
+    */
+   fun updateParameters(viewport: Viewport, params: PatternParameters) = initialize(viewport, params)
+
    /**
     * Updates the pattern state based on time.
     * Called once per frame before render().
@@ -161,21 +228,63 @@ data class PatternParameters(
     * @return The parsed Color, or default on any error
     */
    fun getColor(key: String, default: Color): Color {
-      return try {
-         val hex = params[key] as? String ?: return default
-         if(hex.length < 7 || hex[0] != '#') return default
-         val r = Integer.parseInt(hex.substring(1, 3), 16)
-         val g = Integer.parseInt(hex.substring(3, 5), 16)
-         val b = Integer.parseInt(hex.substring(5, 7), 16)
-         val brightness = if(hex.length >= 9)
-            Integer.parseInt(hex.substring(7, 9), 16).coerceIn(0, 31)
-         else
-            31
-         Color(r, g, b, brightness)
-      }
-      catch(e: Exception) {
-         default
-      }
+      val hex = params[key] as? String ?: return default
+      return Color.fromHex(hex) ?: default
+   }
+
+   /**
+    * Gets a palette parameter stored as a list of [PaletteStop]s.
+    *
+    * @param key Parameter name
+    * @param default Default value if parameter is missing or has no usable stops
+    * @return The palette
+    */
+   fun getPalette(key: String, default: Palette): Palette {
+      val stops = (params[key] as? List<*>)?.filterIsInstance<PaletteStop>() ?: return default
+      return Palette.fromStops(stops) ?: default
+   }
+
+   /**
+    * Gets a range parameter stored as a two-element list, low end first.
+    * The ends are swapped if they arrive out of order.
+    *
+    * @param key Parameter name
+    * @param default Default value if parameter is missing or not a pair of numbers
+    * @return The range as (low, high)
+    */
+   fun getRange(key: String, default: Pair<Float, Float>): Pair<Float, Float> {
+      val (a, b) = getPair(key) ?: return default
+      return if(a <= b) a to b else b to a
+   }
+
+   /**
+    * Gets a point parameter stored as a two-element list, x first.
+    *
+    * @param key Parameter name
+    * @param default Default value if parameter is missing or not a pair of numbers
+    * @return The point as (x, y) in viewport pixels
+    */
+   fun getPoint(key: String, default: Pair<Float, Float>): Pair<Float, Float> =
+      getPair(key) ?: default
+
+   private fun getPair(key: String): Pair<Float, Float>? {
+      val list = params[key] as? List<*> ?: return null
+      if(list.size != 2) return null
+      val a = (list[0] as? Number)?.toFloat() ?: return null
+      val b = (list[1] as? Number)?.toFloat() ?: return null
+      return a to b
+   }
+
+   /**
+    * Gets an angle parameter in degrees, wrapped into [0, 360).
+    *
+    * @param key Parameter name
+    * @param default Default value if parameter is missing or wrong type
+    * @return The angle in degrees
+    */
+   fun getAngle(key: String, default: Float): Float {
+      val degrees = (params[key] as? Number)?.toFloat() ?: default
+      return ((degrees % 360f) + 360f) % 360f
    }
 
    /**
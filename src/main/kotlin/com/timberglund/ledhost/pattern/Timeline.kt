@@ -0,0 +1,182 @@
+package com.timberglund.ledhost.pattern
+
+import com.timberglund.ledhost.viewport.Color
+import kotlinx.serialization.SerialName
+import kotlinx.serialization.Serializable
+import kotlinx.serialization.json.JsonElement
+import kotlin.math.pow
+import kotlin.math.roundToInt
+
+/** How a value moves from one keyframe to the next. */
+@Serializable
+enum class Easing {
+   @SerialName("linear") LINEAR,
+   @SerialName("ease-in") EASE_IN,
+   @SerialName("ease-out") EASE_OUT,
+   @SerialName("ease-in-out") EASE_IN_OUT,
+   /** Holds the value until the next keyframe. */
+   @SerialName("step") STEP;
+
+   /**
+    * Maps progress through a segment to how far the value has moved, both 0..1.
+    */
+   fun apply(t: Float): Float = when(this) {
+      LINEAR -> t
+      EASE_IN -> t * t * t
+      EASE_OUT -> 1f - (1f - t).pow(3)
+      EASE_IN_OUT -> if(t < 0.5f) 4f * t * t * t else 1f - (-2f * t + 2f).pow(3) / 2f
+      STEP -> 0f
+   }
+}
+
+/**
+ * A parameter's value at a point in a timeline.
+ *
+ * @property time Seconds from the start of the timeline
+ * @property value The parameter value, as JSON like a preset's params
+ * @property easing How the value moves from here to the next keyframe
+ */
+@Serializable
+data class Keyframe(
+   val time: Float,
+   val value: JsonElement,
+   val easing: Easing = Easing.LINEAR
+)
+
+/**
+ * Keyframed parameter values played over time, one lane per parameter.
+ *
+ * @property duration Length in seconds
+ * @property loop Whether playback starts over at the end, rather than holding the last values
+ * @property lanes Keyframes by parameter name
+ */
+@Serializable
+data class Timeline(
+   val duration: Float,
+   val loop: Boolean = true,
+   val lanes: Map<String, List<Keyframe>> = emptyMap()
+) {
+   init {
+      require(duration > 0f && duration <= MAX_DURATION) { "duration must be between 0 and $MAX_DURATION seconds" }
+      require(lanes.values.all { lane -> lane.all { it.time in 0f..duration } }) {
+         "keyframes must fall within the timeline"
+      }
+   }
+
+   /** Whether any lane has a keyframe; a timeline without one does nothing. */
+   fun hasKeyframes(): Boolean = lanes.values.any { it.isNotEmpty() }
+
+   companion object {
+      const val MAX_DURATION = 3600f
+   }
+}
+
+/**
+ * Plays a [Timeline] against a pattern's parameters. Numbers, ranges and points
+ * move smoothly between keyframes, colors through OKLab, angles the short way
+ * round; selects and switches change at each keyframe. Lanes for missing
+ * parameters, and keyframes whose values don't fit their parameter, are ignored.
+ */
+class TimelinePlayback(val timeline: Timeline, parameters: List<ParameterDef>) {
+
+   private class Key(val time: Float, val value: Any, val easing: Easing)
+
+   private class Lane(val def: ParameterDef, val keys: List<Key>)
+
+   private val lanes: Map<String, Lane>
+
+   /** Seconds into the timeline. */
+   var position = 0f
+      private set
+
+   init {
+      val defs = parameters.associateBy { it.name }
+      lanes = timeline.lanes.mapNotNull { (name, keyframes) ->
+         val def = defs[name] ?: return@mapNotNull null
+         val keys = keyframes.sortedBy { it.time }.mapNotNull { keyframe ->
+            keyframe.value.toParamValue()?.let { def.accept(it) }?.let { Key(keyframe.time, it, keyframe.easing) }
+         }
+         if(keys.isEmpty()) null else name to Lane(def, keys)
+      }.toMap()
+   }
+
+   /**
+    * Advances playback by [deltaTime] seconds, starting over or holding at the end.
+    *
+    * @param deltaTime Time elapsed since the last frame in seconds
+    * @param base The parameters as the user set them
+    * @return A copy of [base] with each keyframed parameter replaced
+    */
+   fun advance(deltaTime: Float, base: PatternParameters): PatternParameters {
+      position += deltaTime
+      if(position >= timeline.duration) {
+         position = if(timeline.loop) position % timeline.duration else timeline.duration
+      }
+      return valuesAt(position, base)
+   }
+
+   /**
+    * The parameters at [time] seconds into the timeline.
+    *
+    * @param time Seconds from the start
+    * @param base The parameters as the user set them
+    * @return A copy of [base] with each keyframed parameter replaced
+    */
+   fun valuesAt(time: Float, base: PatternParameters): PatternParameters {
+      val params = base.copy()
+      lanes.forEach { (name, lane) -> params.set(name, lane.valueAt(time)) }
+      return params
+   }
+
+   private fun Lane.valueAt(time: Float): Any {
+      val next = keys.indexOfFirst { it.time > time }
+      if(next == 0) return keys.first().value
+      if(next == -1) return keys.last().value
+      val from = keys[next - 1]
+      val to = keys[next]
+      val progress = from.easing.apply((time - from.time) / (to.time - from.time))
+      return def.interpolate(from.value, to.value, progress)
+   }
+
+   /** The value as the parameter reads it, or null if it doesn't fit. */
+   private fun ParameterDef.accept(value: Any): Any? = when(this) {
+      is ParameterDef.FloatParam -> (value as? Double)?.toFloat()
+      is ParameterDef.IntParam -> (value as? Double)?.roundToInt()
+      is ParameterDef.AngleParam -> (value as? Double)?.toFloat()
+      is ParameterDef.ColorParam, is ParameterDef.SelectParam -> value as? String
+      is ParameterDef.BoolParam -> value as? Boolean
+      is ParameterDef.RangeParam, is ParameterDef.PointParam ->
+         (value as? List<*>)?.filterIsInstance<Double>()?.takeIf { it.size == 2 }?.map { it.toFloat() }
+      is ParameterDef.PaletteParam -> (value as? List<*>)?.filterIsInstance<PaletteStop>()?.takeIf { it.isNotEmpty() }
+   }
+
+   @Suppress("UNCHECKED_CAST")
+   private fun ParameterDef.interpolate(from: Any, to: Any, t: Float): Any = when(this) {
+      is ParameterDef.FloatParam -> lerp(from as Float, to as Float, t).coerceIn(min, max)
+      is ParameterDef.IntParam -> lerp((from as Int).toFloat(), (to as Int).toFloat(), t).roundToInt().coerceIn(min, max)
+      is ParameterDef.AngleParam -> {
+         val start = from as Float
+         val turn = (((to as Float) - start + 540f) % 360f) - 180f
+         ((start + turn * t) % 360f + 360f) % 360f
+      }
+      is ParameterDef.ColorParam -> blendHex(from as String, to as String, t)
+      is ParameterDef.RangeParam, is ParameterDef.PointParam ->
+         (from as List<Float>).zip(to as List<Float>) { a, b -> lerp(a, b, t) }
+      is ParameterDef.PaletteParam -> {
+         val a = from as List<PaletteStop>
+         val b = to as List<PaletteStop>
+         // Stops pair up by index; palettes of different sizes switch at the keyframe
+         if(a.size != b.size) from
+         else a.zip(b) { s1, s2 -> PaletteStop(lerp(s1.position, s2.position, t), blendHex(s1.color, s2.color, t)) }
+      }
+      else -> from
+   }
+
+   private fun lerp(a: Float, b: Float, t: Float) = a + (b - a) * t
+
+   private fun blendHex(from: String, to: String, t: Float): String {
+      val a = Color.fromHex(from) ?: return from
+      val b = Color.fromHex(to) ?: return from
+      return Color.blendOklab(a, b, t).toHexWithBrightness()
+   }
+}
@@ -20,7 +20,7 @@ class AlternatingBarsPattern : Pattern {
       ParameterDef.ColorParam("colorB",   "Color B",       "#0000ff1f"),
       ParameterDef.FloatParam("barWidth", "Bar Width (mm)", 10f, 1000f, 1f, 80f),
       ParameterDef.FloatParam("speed",    "Speed (mm/s)", -500f, 500f,  1f, 50f),
-      ParameterDef.FloatParam("angle",    "Angle (°)",      0f,  360f,  1f,  0f),
+      ParameterDef.AngleParam("angle",    "Angle (°)",                    1f,  0f),
    )
 
    private var colorA            = Color(255, 0,   0,   31)
@@ -32,17 +32,21 @@ class AlternatingBarsPattern : Pattern {
    private var scrollOffset      = 0f
 
    override fun initialize(viewport: Viewport, params: PatternParameters) {
+      updateParameters(viewport, params)
+      scrollOffset = 0f
+   }
+
+   override fun updateParameters(viewport: Viewport, params: PatternParameters) {
       colorA            = params.getColor("colorA", Color(255, 0, 0, 31))
       colorB            = params.getColor("colorB", Color(0, 0, 255, 31))
       val barWidthMm    = params.get("barWidth", 80f).coerceIn(10f, 1000f)
       val speedMmPerSec = params.get("speed",    50f).coerceIn(-500f, 500f)
-      val angleDeg      = params.get("angle",     0f)
+      val angleDeg      = params.getAngle("angle", 0f)
       val angleRad      = angleDeg * (PI.toFloat() / 180f)
       barWidthPixels    = barWidthMm / MM_PER_LED
       speedPixelsPerSec = speedMmPerSec / MM_PER_LED
       cosTheta          = cos(angleRad)
       sinTheta          = sin(angleRad)
-      scrollOffset      = 0f
    }
 
    override fun update(deltaTime: Float, totalTime: Float) {
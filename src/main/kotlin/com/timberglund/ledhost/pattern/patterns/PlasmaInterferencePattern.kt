@@ -1,5 +1,7 @@
 package com.timberglund.ledhost.pattern.patterns
 
+import com.timberglund.ledhost.pattern.Palette
+import com.timberglund.ledhost.pattern.PaletteStop
 import com.timberglund.ledhost.pattern.ParameterDef
 import com.timberglund.ledhost.pattern.Pattern
 import com.timberglund.ledhost.pattern.PatternParameters
@@ -12,31 +14,45 @@ import kotlin.math.sqrt
 /**
  * Plasma pattern implementing the 4rknova multiplicative interference algorithm.
  * Two phase oscillators are multiplied together to produce sharp banding and
- * radial symmetry, with a linear gradient mapped onto the resulting plasma value.
+ * radial symmetry, with a palette gradient mapped onto the resulting plasma value.
+ * Presets saved before the palette parameter keep their two colors.
  */
 class PlasmaInterferencePattern : Pattern {
    override val name = "Plasma (Interference)"
-   override val description = "Animated plasma using multiplicative wave interference with a two-color gradient"
+   override val description = "Animated plasma using multiplicative wave interference with a palette gradient"
 
    override val parameters = listOf(
-      ParameterDef.ColorParam("colorStart", "Color Start", "#0000ff1f"),
-      ParameterDef.ColorParam("colorEnd",   "Color End",   "#ff00ff1f"),
+      ParameterDef.PaletteParam("palette", "Palette", listOf(
+         PaletteStop(0f, "#0000ff1f"),
+         PaletteStop(1f, "#ff00ff1f"),
+      )),
       ParameterDef.FloatParam("speed", "Speed", 0.1f, 2f, 0.1f, 1f),
       ParameterDef.FloatParam("scale", "Scale", 0.1f, 4f, 0.1f, 1f),
+      ParameterDef.PointParam("center", "Center"),
    )
 
    private var time = 0f
    private var speed = 1f
    private var scale = 1f
-   private var colorStart = Color(0, 0, 255, 31)
-   private var colorEnd   = Color(255, 0, 255, 31)
+   private var centerX = 0f
+   private var centerY = 0f
+   private var palette = Palette.twoColor(Color(0, 0, 255, 31), Color(255, 0, 255, 31))
 
    override fun initialize(viewport: Viewport, params: PatternParameters) {
+      updateParameters(viewport, params)
+      time = 0f
+   }
+
+   override fun updateParameters(viewport: Viewport, params: PatternParameters) {
       speed      = params.get("speed", 1f).coerceIn(0.1f, 2f)
       scale      = params.get("scale", 1f).coerceIn(0.1f, 4f)
-      colorStart = params.getColor("colorStart", Color(0, 0, 255, 31))
-      colorEnd   = params.getColor("colorEnd",   Color(255, 0, 255, 31))
-      time       = 0f
+      palette    = params.getPalette("palette", Palette.twoColor(
+         params.getColor("colorStart", Color(0, 0, 255, 31)),
+         params.getColor("colorEnd",   Color(255, 0, 255, 31))
+      ))
+      val center = params.getPoint("center", viewport.width / 2f to viewport.height / 2f)
+      centerX    = center.first
+      centerY    = center.second
    }
 
    override fun update(deltaTime: Float, totalTime: Float) {
@@ -50,8 +66,8 @@ class PlasmaInterferencePattern : Pattern {
 
       for(y in 0 until viewport.height) {
          for(x in 0 until viewport.width) {
-            val uvX = (x / w - 0.5f) * scale
-            val uvY = (y / h - 0.5f) * scale
+            val uvX = (x - centerX) / w * scale
+            val uvY = (y - centerY) / h * scale
 
             val phaseV = cos(uvY + sin(0.148f - t)) + 2.4f * t
             val phaseH = sin(uvX + cos(0.628f + t)) - 0.7f * t
@@ -61,7 +77,7 @@ class PlasmaInterferencePattern : Pattern {
 
             val blendT = 0.5f + 0.5f * cos(plasma)
 
-            viewport.setPixel(x, y, Color.blend(colorStart, colorEnd, blendT))
+            viewport.setPixel(x, y, palette.colorAt(blendT))
          }
       }
    }
@@ -37,6 +37,11 @@ class PlasmaPattern : Pattern {
    private var centerY = 0f
 
    override fun initialize(viewport: Viewport, params: PatternParameters) {
+      updateParameters(viewport, params)
+      time = 0f
+   }
+
+   override fun updateParameters(viewport: Viewport, params: PatternParameters) {
       speed = params.get("speed", 1f)
       value = params.get("value", 1f).coerceIn(0f, 1f)
       saturation = params.get("saturation", 1f).coerceIn(0f, 1f)
@@ -46,7 +51,6 @@ class PlasmaPattern : Pattern {
 
       centerX = viewport.width / 2f
       centerY = viewport.height / 2f
-      time = 0f
    }
 
    override fun update(deltaTime: Float, totalTime: Float) {
@@ -34,6 +34,11 @@ class RainbowPattern : Pattern {
    }
 
    override fun initialize(viewport: Viewport, params: PatternParameters) {
+      updateParameters(viewport, params)
+      hueOffset = 0f
+   }
+
+   override fun updateParameters(viewport: Viewport, params: PatternParameters) {
       speed = params.get("speed", 1f)
       saturation = params.get("saturation", 1f).coerceIn(0f, 1f)
       value = params.get("value", 1f).coerceIn(0f, 1f)
@@ -44,8 +49,6 @@ class RainbowPattern : Pattern {
          "diagonal" -> Direction.DIAGONAL
          else -> Direction.HORIZONTAL
       }
-
-      hueOffset = 0f
    }
 
    override fun update(deltaTime: Float, totalTime: Float) {
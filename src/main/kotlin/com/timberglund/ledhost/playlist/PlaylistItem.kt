@@ -0,0 +1,29 @@
+package com.timberglund.ledhost.playlist
+
+import com.timberglund.ledhost.renderer.Transition
+import kotlinx.serialization.Serializable
+
+/**
+ * A saved preset's turn in a playlist.
+ *
+ * @property presetId The saved preset to show
+ * @property duration How long it shows in seconds, counted from when the transition into it starts
+ * @property transition How it takes over from the item before it
+ */
+@Serializable
+data class PlaylistItem(
+   val presetId: Int,
+   val duration: Float,
+   val transition: Transition = Transition()
+) {
+   init {
+      require(duration in MIN_DURATION..MAX_DURATION) {
+         "duration must be between $MIN_DURATION and $MAX_DURATION seconds"
+      }
+   }
+
+   companion object {
+      const val MIN_DURATION = 1f
+      const val MAX_DURATION = 24 * 60 * 60f
+   }
+}
@@ -0,0 +1,223 @@
+package com.timberglund.ledhost.playlist
+
+import com.timberglund.ledhost.db.PlaylistRow
+import com.timberglund.ledhost.db.SavedPatternRow
+import com.timberglund.ledhost.renderer.Transition
+import kotlinx.coroutines.CoroutineScope
+import kotlinx.coroutines.Job
+import kotlinx.coroutines.delay
+import kotlinx.coroutines.launch
+import kotlinx.coroutines.sync.Mutex
+import kotlinx.coroutines.sync.withLock
+import kotlinx.serialization.Serializable
+import mu.KotlinLogging
+import kotlin.random.Random
+
+private val logger = KotlinLogging.logger {}
+
+/**
+ * Where a playlist is up to, for the playback controls.
+ *
+ * @property index Position of the showing item in the playlist
+ * @property nextIndex Position of the item that shows next
+ * @property current Name of the showing preset
+ * @property next Name of the preset that shows next, or null if it has been deleted
+ * @property remaining Seconds until the next item
+ */
+@Serializable
+data class PlaylistStatus(
+   val playlistId: Int,
+   val playlistName: String,
+   val index: Int,
+   val nextIndex: Int,
+   val current: String,
+   val next: String?,
+   val remaining: Float,
+   val paused: Boolean,
+   val shuffle: Boolean
+)
+
+/**
+ * Plays a playlist on the host: shows each item's preset for its duration, then
+ * moves on with the next item's transition, starting over at the end. Items
+ * whose preset has been deleted are skipped.
+ *
+ * @param scope Where the item timer runs
+ * @param findPreset Looks up a saved preset by ID
+ * @param show Shows a preset, moving to it with the given transition
+ * @param clock Current time in milliseconds, for the countdown
+ * @param random Picks the next item when shuffling
+ */
+class PlaylistPlayer(
+   private val scope: CoroutineScope,
+   private val findPreset: suspend (Int) -> SavedPatternRow?,
+   private val show: suspend (SavedPatternRow, Transition) -> Unit,
+   private val clock: () -> Long = System::currentTimeMillis,
+   private val random: Random = Random.Default
+) {
+   private val mutex = Mutex()
+   private var playlist: PlaylistRow? = null
+   private var index = 0
+   private var nextIndex = 0
+   private var currentName = ""
+   // Items shown before this one, most recent last, for previous()
+   private val history = ArrayDeque<Int>()
+   private var shuffle = false
+   private var paused = false
+   private var endsAt = 0L
+   private var pausedRemaining = 0L
+   private var timer: Job? = null
+
+   /**
+    * Starts a playlist, replacing any that is playing.
+    *
+    * @param playlist The playlist to play
+    * @param startIndex The item to start from
+    * @return false if none of its items has a preset to show
+    */
+   suspend fun play(playlist: PlaylistRow, startIndex: Int = 0): Boolean = mutex.withLock {
+      stopLocked()
+      if(playlist.items.isEmpty()) return@withLock false
+      this.playlist = playlist
+      go(startIndex.coerceIn(0, playlist.items.lastIndex))
+   }
+
+   /** Holds the current item, keeping its remaining time. */
+   suspend fun pause() = mutex.withLock {
+      if(playlist == null || paused) return@withLock
+      pausedRemaining = (endsAt - clock()).coerceAtLeast(0L)
+      timer?.cancel()
+      timer = null
+      paused = true
+   }
+
+   suspend fun resume() = mutex.withLock {
+      if(playlist == null || !paused) return@withLock
+      paused = false
+      schedule(pausedRemaining)
+   }
+
+   /** Moves to the next item now. */
+   suspend fun next() = mutex.withLock {
+      if(playlist != null) advance()
+   }
+
+   /** Goes back to the item shown before this one. */
+   suspend fun previous() {
+      mutex.withLock {
+         val items = playlist?.items ?: return@withLock
+         go(history.removeLastOrNull() ?: (index - 1).mod(items.size))
+      }
+   }
+
+   /** Turns shuffling on or off; on, the next item is picked at random from the others. */
+   suspend fun setShuffle(enabled: Boolean) = mutex.withLock {
+      shuffle = enabled
+      if(playlist != null) nextIndex = pickNext(index)
+   }
+
+   suspend fun stop() = mutex.withLock {
+      stopLocked()
+   }
+
+   /**
+    * Picks up changes to a playlist if it is the one playing. The showing item
+    * carries on; a playlist left with no items stops.
+    */
+   suspend fun refresh(updated: PlaylistRow) = mutex.withLock {
+      if(playlist?.id != updated.id) return@withLock
+      if(updated.items.isEmpty()) {
+         stopLocked()
+         return@withLock
+      }
+      playlist = updated
+      index = index.coerceAtMost(updated.items.lastIndex)
+      history.removeAll { it > updated.items.lastIndex }
+      nextIndex = pickNext(index)
+   }
+
+   /** Stops if the given playlist is the one playing, e.g. because it was deleted. */
+   suspend fun remove(playlistId: Int) = mutex.withLock {
+      if(playlist?.id == playlistId) stopLocked()
+   }
+
+   /**
+    * Gets where playback is up to.
+    *
+    * @return The status, or null if no playlist is playing
+    */
+   suspend fun status(): PlaylistStatus? = mutex.withLock {
+      val current = playlist ?: return@withLock null
+      val remaining = if(paused) pausedRemaining else (endsAt - clock()).coerceAtLeast(0L)
+      PlaylistStatus(
+         playlistId = current.id,
+         playlistName = current.name,
+         index = index,
+         nextIndex = nextIndex,
+         current = currentName,
+         next = findPreset(current.items[nextIndex].presetId)?.presetName,
+         remaining = remaining / 1000f,
+         paused = paused,
+         shuffle = shuffle
+      )
+   }
+
+   private suspend fun advance() {
+      history.addLast(index)
+      if(history.size > MAX_HISTORY) history.removeFirst()
+      go(nextIndex)
+   }
+
+   /**
+    * Shows the item at [start], or the first one after it whose preset still
+    * exists. Stops if there is none.
+    */
+   private suspend fun go(start: Int): Boolean {
+      val items = playlist?.items ?: return false
+      for(offset in items.indices) {
+         val candidate = (start + offset) % items.size
+         val item = items[candidate]
+         val preset = findPreset(item.presetId) ?: continue
+         show(preset, item.transition)
+         index = candidate
+         currentName = preset.presetName
+         nextIndex = pickNext(candidate)
+         val duration = (item.duration * 1000).toLong()
+         if(paused) pausedRemaining = duration else schedule(duration)
+         return true
+      }
+      logger.warn { "Stopping playlist '${playlist?.name}': none of its presets exist" }
+      stopLocked()
+      return false
+   }
+
+   private fun pickNext(from: Int): Int {
+      val size = playlist?.items?.size ?: return 0
+      if(size == 1) return 0
+      return if(shuffle) (from + 1 + random.nextInt(size - 1)) % size else (from + 1) % size
+   }
+
+   private fun schedule(delayMs: Long) {
+      timer?.cancel()
+      endsAt = clock() + delayMs
+      timer = scope.launch {
+         delay(delayMs)
+         mutex.withLock {
+            timer = null
+            advance()
+         }
+      }
+   }
+
+   private fun stopLocked() {
+      timer?.cancel()
+      timer = null
+      playlist = null
+      paused = false
+      history.clear()
+   }
+
+   companion object {
+      private const val MAX_HISTORY = 100
+   }
+}
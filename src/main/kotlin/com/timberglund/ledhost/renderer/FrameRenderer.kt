@@ -1,7 +1,11 @@
 package com.timberglund.ledhost.renderer
 
+import com.timberglund.ledhost.pattern.Modulator
+import com.timberglund.ledhost.pattern.ParameterModulation
 import com.timberglund.ledhost.pattern.Pattern
 import com.timberglund.ledhost.pattern.PatternParameters
+import com.timberglund.ledhost.pattern.Timeline
+import com.timberglund.ledhost.pattern.TimelinePlayback
 import com.timberglund.ledhost.viewport.Viewport
 import kotlinx.serialization.Serializable
 import mu.KotlinLogging
@@ -40,6 +44,12 @@ class FrameRenderer(
     private val isRunning = AtomicBoolean(false)
     private var renderThread: Thread? = null
     private var currentPattern: Pattern? = null
+    private var baseParams = PatternParameters()
+    private val modulation = ParameterModulation()
+    private var modulators: Map<String, Modulator> = emptyMap()
+    private var timeline: TimelinePlayback? = null
+    private var transition: TransitionBlend? = null
+    @Volatile private var outputEnabled = true
     private val stats = RenderStats()
     private val statsLock = Any()
 
@@ -77,18 +87,123 @@ class FrameRenderer(
    /**
     * Sets the active pattern.
     * Cleans up the previous pattern and initializes the new one.
+    * Modulators and the timeline carry over when the same pattern is set again
+    * and are dropped when it changes.
     *
     * @param pattern The pattern to activate
     * @param params Parameters for pattern initialization
     */
    fun setPattern(pattern: Pattern, params: PatternParameters = PatternParameters()) {
       synchronized(this) {
+         if(pattern !== currentPattern) {
+            modulation.clear()
+            modulators = emptyMap()
+            timeline = null
+         }
          currentPattern?.cleanup()
          currentPattern = pattern
+         baseParams = params
          pattern.initialize(viewport, params)
       }
    }
 
+   /**
+    * Binds modulators to the current pattern's parameters, replacing any others.
+    * Parameters left without a modulator go back to the values last set.
+    *
+    * @param modulators Modulators by parameter name
+    */
+   fun setModulators(modulators: Map<String, Modulator>) {
+      synchronized(this) {
+         val pattern = currentPattern ?: return
+         val wasActive = modulation.isActive
+         this.modulators = modulators
+         modulation.configure(pattern.parameters, modulators)
+         if(wasActive && !modulation.isActive && timeline == null) {
+            pattern.updateParameters(viewport, baseParams)
+         }
+      }
+   }
+
+   /**
+    * Plays a timeline on the current pattern from its start, or stops playback
+    * and goes back to the values last set.
+    *
+    * @param timeline The timeline to play, or null to stop
+    */
+   fun setTimeline(timeline: Timeline?) {
+      synchronized(this) {
+         val pattern = currentPattern ?: return
+         val wasPlaying = this.timeline != null
+         this.timeline = timeline?.let { TimelinePlayback(it, pattern.parameters) }
+         if(wasPlaying && timeline == null && !modulation.isActive) {
+            pattern.updateParameters(viewport, baseParams)
+         }
+      }
+   }
+
+   /**
+    * Starts a transition from what is showing now to whatever is set next.
+    * Call it just before [setPattern]; a cut does nothing.
+    *
+    * @param transition How to move to the next look
+    */
+   fun beginTransition(transition: Transition) {
+      synchronized(this) {
+         this.transition = if(transition.isGradual) TransitionBlend(transition, viewport) else null
+      }
+   }
+
+   /**
+    * Turns output on or off. While off, frames are black; the pattern keeps
+    * running so it carries on where it is when output comes back. Call
+    * [beginTransition] first to fade rather than cut.
+    *
+    * @param enabled Whether to show the pattern
+    */
+   fun setOutputEnabled(enabled: Boolean) {
+      outputEnabled = enabled
+   }
+
+   fun isOutputEnabled(): Boolean = outputEnabled
+
+   /**
+    * Records what is showing so it can be brought back after something else has
+    * been shown. A timeline that was playing starts again from its beginning.
+    *
+    * @return Brings back the pattern, its settings and whether output was on
+    */
+   fun captureLook(): () -> Unit {
+      val look = synchronized(this) {
+         CapturedLook(currentPattern, baseParams, modulators, timeline?.timeline, outputEnabled)
+      }
+      return {
+         look.pattern?.let { setPattern(it, look.params) }
+         setModulators(look.modulators)
+         setTimeline(look.timeline)
+         setOutputEnabled(look.outputEnabled)
+      }
+   }
+
+   private class CapturedLook(
+      val pattern: Pattern?,
+      val params: PatternParameters,
+      val modulators: Map<String, Modulator>,
+      val timeline: Timeline?,
+      val outputEnabled: Boolean
+   )
+
+   /**
+    * Gets how far the timeline has played.
+    *
+    * @return Seconds into the timeline, or null if none is playing
+    */
+   fun getTimelinePosition(): Float? {
+      synchronized(this) {
+         return timeline?.position
+      }
+   }
+
    /**
     * Gets a copy of the current rendering statistics.
     *
@@ -116,15 +231,28 @@ class FrameRenderer(
          val currentTime = frameStart
          val deltaTime = (currentTime - lastTime) / 1000f
 
-         // Update pattern
+         // Update pattern, applying timeline and modulated parameters first
          synchronized(this) {
-            currentPattern?.update(deltaTime, totalTime)
+            currentPattern?.let { pattern ->
+               val playing = timeline
+               if(playing != null || modulation.isActive) {
+                  var params = playing?.advance(deltaTime, baseParams) ?: baseParams
+                  if(modulation.isActive) params = modulation.advance(deltaTime, params)
+                  pattern.updateParameters(viewport, params)
+               }
+               pattern.update(deltaTime, totalTime)
+            }
          }
 
-         // Render to viewport
-         viewport.clear()
+         // Render to viewport, mixing in the outgoing look during a transition.
+         // Clearing inside the lock keeps a transition from starting on a blank frame.
          synchronized(this) {
-            currentPattern?.render(viewport)
+            viewport.clear()
+            if(outputEnabled) currentPattern?.render(viewport)
+            transition?.let { blend ->
+               blend.apply(viewport, deltaTime)
+               if(blend.isDone) transition = null
+            }
          }
 
          // Notify callback (for web broadcast)
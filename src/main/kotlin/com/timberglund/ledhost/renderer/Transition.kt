@@ -0,0 +1,84 @@
+package com.timberglund.ledhost.renderer
+
+import com.timberglund.ledhost.viewport.Color
+import com.timberglund.ledhost.viewport.Viewport
+import kotlinx.serialization.SerialName
+import kotlinx.serialization.Serializable
+import kotlin.math.max
+
+/** How one look gives way to the next. */
+@Serializable
+enum class TransitionType {
+   @SerialName("cut") CUT,
+   @SerialName("crossfade") CROSSFADE,
+   /** The new look sweeps in from the left. */
+   @SerialName("wipe") WIPE
+}
+
+/**
+ * A change from one look to the next.
+ *
+ * @property type How the looks are mixed
+ * @property duration Length in seconds; a cut ignores it
+ */
+@Serializable
+data class Transition(
+   val type: TransitionType = TransitionType.CUT,
+   val duration: Float = 0f
+) {
+   init {
+      require(duration in 0f..MAX_DURATION) { "duration must be between 0 and $MAX_DURATION seconds" }
+   }
+
+   /** Whether there is anything to blend, as opposed to switching at once. */
+   val isGradual: Boolean get() = type != TransitionType.CUT && duration > 0f
+
+   companion object {
+      const val MAX_DURATION = 60f
+   }
+}
+
+/**
+ * Mixes the last frame of the outgoing look into each new frame until a
+ * transition finishes. The outgoing frame is held still, so two looks that use
+ * the same pattern can still be blended.
+ *
+ * @param transition The transition to play
+ * @param viewport The viewport, still showing the outgoing look
+ */
+class TransitionBlend(private val transition: Transition, viewport: Viewport) {
+   private val width = viewport.width
+   private val height = viewport.height
+   private val from = Array(width * height) { viewport.getPixel(it % width, it / width) }
+
+   /** How far through the transition, 0..1. */
+   var progress = 0f
+      private set
+
+   val isDone: Boolean get() = !transition.isGradual || progress >= 1f
+
+   /**
+    * Advances the transition and mixes the outgoing frame into [viewport],
+    * which holds the incoming look's frame.
+    *
+    * @param viewport The rendered incoming frame, blended in place
+    * @param deltaTime Time elapsed since the last frame in seconds
+    */
+   fun apply(viewport: Viewport, deltaTime: Float) {
+      if(isDone) return
+      progress = (progress + deltaTime / transition.duration).coerceAtMost(1f)
+      // The wipe's edge is soft over a tenth of the width
+      val feather = max(1f, width / 10f)
+      val edge = progress * (width + feather)
+      for(y in 0 until height) {
+         for(x in 0 until width) {
+            val mix = when(transition.type) {
+               TransitionType.CROSSFADE -> progress
+               TransitionType.WIPE -> ((edge - x) / feather).coerceIn(0f, 1f)
+               TransitionType.CUT -> 1f
+            }
+            if(mix < 1f) viewport.setPixel(x, y, Color.blend(from[y * width + x], viewport.getPixel(x, y), mix))
+         }
+      }
+   }
+}
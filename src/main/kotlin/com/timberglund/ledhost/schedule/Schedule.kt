@@ -0,0 +1,131 @@
+package com.timberglund.ledhost.schedule
+
+import kotlinx.serialization.SerialName
+import kotlinx.serialization.Serializable
+import java.time.LocalDate
+
+/** What a time of day is measured from. */
+@Serializable
+enum class TimeAnchor {
+   @SerialName("clock") CLOCK,
+   @SerialName("sunrise") SUNRISE,
+   @SerialName("sunset") SUNSET
+}
+
+/**
+ * A time of day, either on the clock or relative to the sun.
+ *
+ * @property anchor What the time is measured from
+ * @property minutes Minutes after midnight for [TimeAnchor.CLOCK]; otherwise minutes
+ *                   after (or, when negative, before) sunrise or sunset
+ */
+@Serializable
+data class TimeOfDay(
+   val anchor: TimeAnchor = TimeAnchor.CLOCK,
+   val minutes: Int = 0
+) {
+   init {
+      if(anchor == TimeAnchor.CLOCK)
+         require(minutes in 0 until MINUTES_PER_DAY) { "clock time must be between 00:00 and 23:59" }
+      else
+         require(minutes in -MAX_SUN_OFFSET..MAX_SUN_OFFSET) { "sun offset must be within $MAX_SUN_OFFSET minutes" }
+   }
+
+   companion object {
+      const val MINUTES_PER_DAY = 24 * 60
+      const val MAX_SUN_OFFSET = 12 * 60
+   }
+}
+
+/** What a rule does while it is in effect. */
+@Serializable
+enum class ScheduleAction {
+   /** Shows a saved preset. */
+   @SerialName("preset") PRESET,
+   /** Turns the strips off. */
+   @SerialName("off") OFF
+}
+
+/**
+ * A window of time in which the schedule shows a preset or turns output off.
+ * A window whose end is not after its start runs past midnight, and one that
+ * ends when it starts lasts all day. Days and dates refer to the day a window starts.
+ *
+ * @property name Label shown on the calendar
+ * @property enabled Whether the rule takes part in the schedule
+ * @property action What the rule does
+ * @property presetId The saved preset shown, for [ScheduleAction.PRESET]
+ * @property start When the window opens
+ * @property end When the window closes
+ * @property days ISO days of the week (1 = Monday … 7 = Sunday) the window opens on; empty for every day
+ * @property from First date the rule applies, as yyyy-mm-dd, or null for no limit
+ * @property until Last date the rule applies, as yyyy-mm-dd, or null for no limit
+ */
+@Serializable
+data class ScheduleRule(
+   val name: String = "",
+   val enabled: Boolean = true,
+   val action: ScheduleAction = ScheduleAction.PRESET,
+   val presetId: Int? = null,
+   val start: TimeOfDay = TimeOfDay(),
+   val end: TimeOfDay = TimeOfDay(),
+   val days: Set<Int> = emptySet(),
+   val from: String? = null,
+   val until: String? = null
+) {
+   init {
+      require(action != ScheduleAction.PRESET || presetId != null) { "a preset rule needs a presetId" }
+      require(days.all { it in 1..7 }) { "days must be between 1 (Monday) and 7 (Sunday)" }
+      require(from == null || runCatching { LocalDate.parse(from) }.isSuccess) { "from must be a yyyy-mm-dd date" }
+      require(until == null || runCatching { LocalDate.parse(until) }.isSuccess) { "until must be a yyyy-mm-dd date" }
+   }
+
+   /** Whether the rule's window can open on [date]. */
+   fun appliesOn(date: LocalDate): Boolean =
+      (days.isEmpty() || date.dayOfWeek.value in days) &&
+      (from == null || !date.isBefore(LocalDate.parse(from))) &&
+      (until == null || !date.isAfter(LocalDate.parse(until)))
+
+   /** Whether the rule needs sunrise or sunset times. */
+   val usesSun: Boolean get() = start.anchor != TimeAnchor.CLOCK || end.anchor != TimeAnchor.CLOCK
+}
+
+/**
+ * Rules that run the strips by time of day, highest priority first: where
+ * windows overlap, the earlier rule wins.
+ *
+ * @property enabled Whether the schedule runs at all
+ * @property latitude Where the strips are, for sunrise and sunset; null if not set
+ * @property longitude Degrees east of Greenwich
+ */
+@Serializable
+data class Schedule(
+   val enabled: Boolean = true,
+   val latitude: Double? = null,
+   val longitude: Double? = null,
+   val rules: List<ScheduleRule> = emptyList()
+) {
+   init {
+      require(latitude == null || latitude in -90.0..90.0) { "latitude must be between -90 and 90" }
+      require(longitude == null || longitude in -180.0..180.0) { "longitude must be between -180 and 180" }
+      require((latitude == null) == (longitude == null)) { "latitude and longitude go together" }
+   }
+}
+
+/**
+ * A manual choice that takes over from the schedule until it expires.
+ *
+ * @property action What to do instead
+ * @property presetId The saved preset shown, for [ScheduleAction.PRESET]
+ * @property until When the schedule takes back over, in epoch milliseconds
+ */
+@Serializable
+data class ScheduleOverride(
+   val action: ScheduleAction,
+   val presetId: Int? = null,
+   val until: Long
+) {
+   init {
+      require(action != ScheduleAction.PRESET || presetId != null) { "a preset override needs a presetId" }
+   }
+}
@@ -0,0 +1,150 @@
+package com.timberglund.ledhost.schedule
+
+import kotlinx.serialization.Serializable
+import java.time.DayOfWeek
+import java.time.Duration
+import java.time.Instant
+import java.time.LocalDate
+import java.time.LocalTime
+import java.time.ZoneId
+import java.time.ZonedDateTime
+
+/**
+ * One opening of a rule's window.
+ *
+ * @property rule Index of the rule in the schedule
+ */
+data class RuleWindow(val rule: Int, val start: ZonedDateTime, val end: ZonedDateTime) {
+   fun contains(time: ZonedDateTime): Boolean = !time.isBefore(start) && time.isBefore(end)
+}
+
+/**
+ * A stretch of time through which the same rule is in effect.
+ *
+ * @property rule Index of the rule in effect, or null if none is
+ */
+data class ScheduleSegment(val start: ZonedDateTime, val end: ZonedDateTime, val rule: Int?)
+
+/**
+ * A rule's time on one day of the week calendar.
+ *
+ * @property day Day of the week, 0 = Monday
+ * @property start Minutes after midnight
+ * @property end Minutes after midnight, up to 1440
+ * @property rule Index of the rule in the schedule
+ */
+@Serializable
+data class CalendarBlock(val day: Int, val start: Int, val end: Int, val rule: Int)
+
+/**
+ * Works out which rule of a schedule is in effect when.
+ *
+ * @param schedule The schedule to read
+ * @param zone Time zone of the clock times and dates
+ */
+class ScheduleCalendar(private val schedule: Schedule, private val zone: ZoneId) {
+
+   /**
+    * Gets the windows of enabled rules that open between two dates, inclusive.
+    * Rules timed by the sun are left out when no location is set, and on days
+    * the sun doesn't rise or set.
+    */
+   fun windows(first: LocalDate, last: LocalDate): List<RuleWindow> {
+      if(!schedule.enabled) return emptyList()
+      val result = mutableListOf<RuleWindow>()
+      var date = first
+      while(!date.isAfter(last)) {
+         val sun by lazy {
+            if(schedule.latitude == null || schedule.longitude == null) null
+            else Sun.times(date, schedule.latitude, schedule.longitude)
+         }
+         schedule.rules.forEachIndexed { index, rule ->
+            if(!rule.enabled || !rule.appliesOn(date)) return@forEachIndexed
+            val sunTimes = if(rule.usesSun) sun ?: return@forEachIndexed else null
+            val start = resolve(rule.start, date, sunTimes)
+            var end = resolve(rule.end, date, sunTimes)
+            if(!end.isAfter(start)) end = end.plusDays(1)
+            result += RuleWindow(index, start, end)
+         }
+         date = date.plusDays(1)
+      }
+      return result
+   }
+
+   /**
+    * Gets the rule in effect at a time: of the rules whose window is open, the first.
+    *
+    * @return The rule's index, or null if none is in effect
+    */
+   fun ruleAt(time: ZonedDateTime): Int? {
+      val date = time.withZoneSameInstant(zone).toLocalDate()
+      return windows(date.minusDays(1), date).filter { it.contains(time) }.minOfOrNull { it.rule }
+   }
+
+   /**
+    * Splits the time between two instants into stretches that each have one rule in effect.
+    */
+   fun segments(from: ZonedDateTime, to: ZonedDateTime): List<ScheduleSegment> {
+      val windows = windows(from.withZoneSameInstant(zone).toLocalDate().minusDays(1),
+                            to.withZoneSameInstant(zone).toLocalDate())
+      val boundaries = (windows.flatMap { listOf(it.start, it.end) } + from + to)
+         .map { it.toInstant() }
+         .filter { !it.isBefore(from.toInstant()) && !it.isAfter(to.toInstant()) }
+         .distinct()
+         .sorted()
+         .map { it.atZone(zone) }
+
+      val segments = mutableListOf<ScheduleSegment>()
+      for((start, end) in boundaries.zipWithNext()) {
+         val rule = windows.filter { it.contains(start) }.minOfOrNull { it.rule }
+         val last = segments.lastOrNull()
+         if(last != null && last.rule == rule)
+            segments[segments.lastIndex] = last.copy(end = end)
+         else
+            segments += ScheduleSegment(start, end, rule)
+      }
+      return segments
+   }
+
+   /**
+    * Gets when the rule in effect next changes, looking up to a week ahead.
+    *
+    * @return The time of the change, or null if there is none within a week
+    */
+   fun nextChange(now: ZonedDateTime): ZonedDateTime? {
+      val horizon = now.plusDays(7)
+      return segments(now, horizon).firstOrNull()?.end?.takeIf { it.isBefore(horizon) }
+   }
+
+   /**
+    * Lays out the week containing [now], Monday to Sunday, as calendar blocks.
+    */
+   fun week(now: ZonedDateTime): List<CalendarBlock> {
+      val monday = weekStart(now)
+      return (0 until 7).flatMap { day ->
+         val dayStart = monday.plusDays(day.toLong()).atStartOfDay(zone)
+         val dayEnd = monday.plusDays(day + 1L).atStartOfDay(zone)
+         segments(dayStart, dayEnd).mapNotNull { segment ->
+            segment.rule?.let { rule ->
+               CalendarBlock(
+                  day = day,
+                  start = Duration.between(dayStart, segment.start).toMinutes().toInt(),
+                  end = Duration.between(dayStart, segment.end).toMinutes().toInt().coerceAtMost(TimeOfDay.MINUTES_PER_DAY),
+                  rule = rule
+               )
+            }
+         }
+      }
+   }
+
+   /** Gets the Monday of the week containing [now]. */
+   fun weekStart(now: ZonedDateTime): LocalDate =
+      now.withZoneSameInstant(zone).toLocalDate().with(DayOfWeek.MONDAY)
+
+   private fun resolve(time: TimeOfDay, date: LocalDate, sun: Pair<Instant, Instant>?): ZonedDateTime =
+      when(time.anchor) {
+         TimeAnchor.CLOCK -> date.atTime(LocalTime.of(time.minutes / 60, time.minutes % 60)).atZone(zone)
+         TimeAnchor.SUNRISE -> sun!!.first.plusSeconds(time.minutes * 60L).atZone(zone)
+         TimeAnchor.SUNSET -> sun!!.second.plusSeconds(time.minutes * 60L).atZone(zone)
+      }
+}
@@ -0,0 +1,197 @@
+package com.timberglund.ledhost.schedule
+
+import com.timberglund.ledhost.db.SavedPatternRow
+import kotlinx.coroutines.CoroutineScope
+import kotlinx.coroutines.Job
+import kotlinx.coroutines.channels.Channel
+import kotlinx.coroutines.isActive
+import kotlinx.coroutines.launch
+import kotlinx.coroutines.sync.Mutex
+import kotlinx.coroutines.sync.withLock
+import kotlinx.coroutines.withTimeoutOrNull
+import kotlinx.serialization.Serializable
+import mu.KotlinLogging
+import java.time.Instant
+import java.time.ZoneId
+
+private val logger = KotlinLogging.logger {}
+
+/**
+ * The schedule and what it is doing, for the Schedule tab.
+ *
+ * @property timeZone The host's time zone, which clock times are in
+ * @property now The host's time, in epoch milliseconds
+ * @property activeRule Index of the rule in effect, or null if none is
+ * @property override The manual override, or null if there is none
+ * @property nextChange When what is showing next changes, in epoch milliseconds; null if
+ *                      nothing changes within a week
+ * @property weekStart The Monday of the week shown, as yyyy-mm-dd
+ * @property week The rules in effect through that week
+ */
+@Serializable
+data class ScheduleState(
+   val schedule: Schedule,
+   val timeZone: String,
+   val now: Long,
+   val activeRule: Int?,
+   val override: ScheduleOverride?,
+   val nextChange: Long?,
+   val weekStart: String,
+   val week: List<CalendarBlock>
+)
+
+/**
+ * Runs the schedule on the host: when the rule in effect changes, shows its
+ * preset or turns output off. Changes are applied only as they happen, so
+ * anything picked by hand stays until the next one; where no rule is in
+ * effect, whatever is showing carries on. An override takes the place of the
+ * schedule until it expires or is cleared; if no rule is in effect then, what
+ * was showing before it comes back.
+ *
+ * @param scope Where the schedule's timer runs
+ * @param findPreset Looks up a saved preset by ID
+ * @param apply Shows a preset, or turns output off when given null
+ * @param capture Records what is showing and returns a way to bring it back
+ * @param zone Time zone of the schedule's clock times and dates
+ * @param clock Current time in milliseconds
+ */
+class Scheduler(
+   private val scope: CoroutineScope,
+   private val findPreset: suspend (Int) -> SavedPatternRow?,
+   private val apply: suspend (SavedPatternRow?) -> Unit,
+   private val capture: suspend () -> (suspend () -> Unit),
+   private val zone: ZoneId = ZoneId.systemDefault(),
+   private val clock: () -> Long = System::currentTimeMillis
+) {
+   private data class Target(val action: ScheduleAction, val presetId: Int?)
+
+   private val mutex = Mutex()
+   private var schedule = Schedule()
+   private var override: ScheduleOverride? = null
+   // What the schedule last asked for, or null where no rule was in effect
+   private var applied: Target? = null
+   // Brings back what was showing before the override, until the override has ended
+   private var restore: (suspend () -> Unit)? = null
+   private var timer: Job? = null
+   // Cuts the timer's wait short when the schedule or override changes
+   private val wakeUp = Channel<Unit>(Channel.CONFLATED)
+
+   /**
+    * Starts following the schedule, applying the rule in effect now.
+    */
+   fun start() {
+      timer?.cancel()
+      timer = scope.launch {
+         while(isActive) {
+            val wait = mutex.withLock {
+               evaluate()
+               untilNextCheck()
+            }
+            withTimeoutOrNull(wait) { wakeUp.receive() }
+         }
+      }
+   }
+
+   fun stop() {
+      timer?.cancel()
+      timer = null
+   }
+
+   /**
+    * Replaces the schedule. Once started, the rule in effect under it is applied
+    * straight away if it differs from what the old one asked for.
+    */
+   suspend fun setSchedule(schedule: Schedule) {
+      mutex.withLock { this.schedule = schedule }
+      wake()
+   }
+
+   /**
+    * Sets or clears the manual override. Clearing it hands back to the
+    * schedule, which applies the rule in effect now, or brings back what was
+    * showing before the override if no rule is.
+    *
+    * @param override The override, or null to clear it
+    */
+   suspend fun setOverride(override: ScheduleOverride?) {
+      mutex.withLock {
+         // Replacing an override keeps what was showing before the first one
+         if(override != null && restore == null) restore = capture()
+         this.override = override
+      }
+      wake()
+   }
+
+   suspend fun state(): ScheduleState = mutex.withLock {
+      val now = clock()
+      val time = Instant.ofEpochMilli(now).atZone(zone)
+      val calendar = ScheduleCalendar(schedule, zone)
+      val active = override?.takeIf { now < it.until }
+      ScheduleState(
+         schedule = schedule,
+         timeZone = zone.id,
+         now = now,
+         activeRule = calendar.ruleAt(time),
+         override = active,
+         nextChange = active?.until ?: calendar.nextChange(time)?.toInstant()?.toEpochMilli(),
+         weekStart = calendar.weekStart(time).toString(),
+         week = calendar.week(time)
+      )
+   }
+
+   /**
+    * Works out what should be showing and applies it if that has changed.
+    */
+   private suspend fun evaluate() {
+      val now = clock()
+      if(override?.let { now >= it.until } == true) override = null
+
+      val rule = ScheduleCalendar(schedule, zone).ruleAt(Instant.ofEpochMilli(now).atZone(zone))
+      val ruleTarget = rule?.let { schedule.rules[it] }?.let { Target(it.action, it.presetId) }
+
+      // The override has ended: the rule in effect takes over, or failing that what it replaced
+      val back = restore
+      if(override == null && back != null) {
+         restore = null
+         applied = ruleTarget
+         if(ruleTarget != null) show(ruleTarget) else back()
+         return
+      }
+
+      val target = override?.let { Target(it.action, it.presetId) } ?: ruleTarget
+      if(target == applied) return
+      applied = target
+      if(target != null) show(target)
+   }
+
+   private suspend fun show(target: Target) {
+      when(target.action) {
+         ScheduleAction.OFF -> apply(null)
+         ScheduleAction.PRESET -> {
+            val preset = target.presetId?.let { findPreset(it) }
+            if(preset != null) apply(preset)
+            else logger.warn { "Scheduled preset ${target.presetId} no longer exists" }
+         }
+      }
+   }
+
+   /**
+    * Gets how long to wait before looking again: until the next change, but no
+    * more than a minute so a change to the host's clock is picked up.
+    */
+   private fun untilNextCheck(): Long {
+      val now = clock()
+      val calendarChange = ScheduleCalendar(schedule, zone).nextChange(Instant.ofEpochMilli(now).atZone(zone))
+      val next = listOfNotNull(override?.until, calendarChange?.toInstant()?.toEpochMilli()).minOrNull()
+      return ((next ?: Long.MAX_VALUE) - now).coerceIn(MIN_CHECK_MS, MAX_CHECK_MS)
+   }
+
+   private fun wake() {
+      wakeUp.trySend(Unit)
+   }
+
+   companion object {
+      private const val MIN_CHECK_MS = 1_000L
+      private const val MAX_CHECK_MS = 60_000L
+   }
+}
@@ -0,0 +1,53 @@
+package com.timberglund.ledhost.schedule
+
+import java.time.Instant
+import java.time.LocalDate
+import kotlin.math.abs
+import kotlin.math.acos
+import kotlin.math.asin
+import kotlin.math.cos
+import kotlin.math.roundToLong
+import kotlin.math.sin
+
+/**
+ * Sunrise and sunset from the sunrise equation, good to a minute or two away
+ * from the poles.
+ */
+object Sun {
+   private const val J2000 = 2451545.0
+   private const val UNIX_EPOCH_JULIAN = 2440587.5
+   private const val MILLIS_PER_DAY = 86_400_000.0
+   // Allows for refraction and the size of the sun's disc
+   private const val HORIZON = -0.833
+   private const val AXIAL_TILT = 23.4397
+
+   /**
+    * Gets when the sun rises and sets on a date.
+    *
+    * @param date The local date at the given place
+    * @param latitude Degrees north
+    * @param longitude Degrees east
+    * @return Sunrise and sunset, or null if the sun stays up or down all day
+    */
+   fun times(date: LocalDate, latitude: Double, longitude: Double): Pair<Instant, Instant>? {
+      // Days from J2000 to noon UTC on the date, then to solar noon at the longitude
+      val day = date.toEpochDay() + UNIX_EPOCH_JULIAN + 0.5 - J2000
+      val meanNoon = day - longitude / 360.0
+
+      val anomaly = Math.toRadians((357.5291 + 0.98560028 * meanNoon).mod(360.0))
+      val center = 1.9148 * sin(anomaly) + 0.0200 * sin(2 * anomaly) + 0.0003 * sin(3 * anomaly)
+      val eclipticLongitude = Math.toRadians((Math.toDegrees(anomaly) + center + 180.0 + 102.9372).mod(360.0))
+      val transit = J2000 + meanNoon + 0.0053 * sin(anomaly) - 0.0069 * sin(2 * eclipticLongitude)
+
+      val declination = asin(sin(eclipticLongitude) * sin(Math.toRadians(AXIAL_TILT)))
+      val lat = Math.toRadians(latitude)
+      val cosHourAngle = (sin(Math.toRadians(HORIZON)) - sin(lat) * sin(declination)) / (cos(lat) * cos(declination))
+      if(abs(cosHourAngle) > 1.0) return null
+
+      val halfDay = Math.toDegrees(acos(cosHourAngle)) / 360.0
+      return toInstant(transit - halfDay) to toInstant(transit + halfDay)
+   }
+
+   private fun toInstant(julian: Double): Instant =
+      Instant.ofEpochMilli(((julian - UNIX_EPOCH_JULIAN) * MILLIS_PER_DAY).roundToLong())
+}
@@ -1,8 +1,10 @@
 package com.timberglund.ledhost.viewport
 
 import kotlin.math.abs
+import kotlin.math.cbrt
 import kotlin.math.max
 import kotlin.math.min
+import kotlin.math.pow
 import kotlin.math.roundToInt
 
 /**
@@ -55,6 +57,30 @@ data class Color(val r: Int, val g: Int, val b: Int, val brightness: Int = 31) {
     */
    fun toInt(): Int = (r shl 16) or (g shl 8) or b
 
+   /**
+    * Formats this color as a #RRGGBBbb hex string, the inverse of [fromHex].
+    * @return Hex string with the APA102 brightness as the bb suffix
+    */
+   fun toHexWithBrightness(): String = String.format("#%02x%02x%02x%02x", r, g, b, brightness)
+
+   /**
+    * Converts this color to OKLab, where equal distances look like equal changes.
+    * @return L, a and b
+    */
+   private fun toOklab(): FloatArray {
+      val lr = srgbToLinear(r / 255f)
+      val lg = srgbToLinear(g / 255f)
+      val lb = srgbToLinear(b / 255f)
+      val l = cbrt(0.4122214708f * lr + 0.5363325363f * lg + 0.0514459929f * lb)
+      val m = cbrt(0.2119034982f * lr + 0.6806995451f * lg + 0.1073969566f * lb)
+      val s = cbrt(0.0883024619f * lr + 0.2817188376f * lg + 0.6299787005f * lb)
+      return floatArrayOf(
+         0.2104542553f * l + 0.7936177850f * m - 0.0040720468f * s,
+         1.9779984951f * l - 2.4285922050f * m + 0.4505937099f * s,
+         0.0259040371f * l + 0.7827717662f * m - 0.8086757660f * s
+      )
+   }
+
    companion object {
       /**
       * Creates a Color from HSV color space.
@@ -89,6 +115,24 @@ data class Color(val r: Int, val g: Int, val b: Int, val brightness: Int = 31) {
          )
       }
 
+      /**
+      * Parses a #RRGGBBbb hex string. The bb suffix is the APA102 brightness
+      * field (0–31); if absent, defaults to 31.
+      * @param hex The hex string
+      * @return The parsed Color, or null if it is malformed
+      */
+      fun fromHex(hex: String): Color? {
+         if(hex.length < 7 || hex[0] != '#') return null
+         val r = hex.substring(1, 3).toIntOrNull(16) ?: return null
+         val g = hex.substring(3, 5).toIntOrNull(16) ?: return null
+         val b = hex.substring(5, 7).toIntOrNull(16) ?: return null
+         val brightness = if(hex.length >= 9)
+            (hex.substring(7, 9).toIntOrNull(16) ?: return null).coerceIn(0, 31)
+         else
+            31
+         return Color(r, g, b, brightness)
+      }
+
       /**
       * Blends two colors together.
       * @param c1 First color
@@ -106,6 +150,38 @@ data class Color(val r: Int, val g: Int, val b: Int, val brightness: Int = 31) {
          )
       }
 
+      /**
+      * Blends two colors in OKLab, so the midpoint of e.g. blue and red looks
+      * halfway between them rather than a dark purple.
+      * @param c1 First color
+      * @param c2 Second color
+      * @param ratio Blend ratio (0.0 = all c1, 1.0 = all c2)
+      * @return Blended color
+      */
+      fun blendOklab(c1: Color, c2: Color, ratio: Float): Color {
+         val t = ratio.coerceIn(0f, 1f)
+         val lab1 = c1.toOklab()
+         val lab2 = c2.toOklab()
+         val (lightness, a, b) = FloatArray(3) { lab1[it] + (lab2[it] - lab1[it]) * t }
+         val l = (lightness + 0.3963377774f * a + 0.2158037573f * b).pow(3)
+         val m = (lightness - 0.1055613458f * a - 0.0638541728f * b).pow(3)
+         val s = (lightness - 0.0894841775f * a - 1.2914855480f * b).pow(3)
+         return Color(
+               linearToSrgb(4.0767416621f * l - 3.3077115913f * m + 0.2309699292f * s),
+               linearToSrgb(-1.2684380046f * l + 2.6097574011f * m - 0.3413193965f * s),
+               linearToSrgb(-0.0041960863f * l - 0.7034186147f * m + 1.7076147010f * s),
+               (c1.brightness * (1 - t) + c2.brightness * t).roundToInt().coerceIn(0, 31)
+         )
+      }
+
+      private fun srgbToLinear(c: Float): Float =
+         if(c <= 0.04045f) c / 12.92f else ((c + 0.055f) / 1.055f).pow(2.4f)
+
+      private fun linearToSrgb(c: Float): Int {
+         val v = if(c <= 0.0031308f) 12.92f * c else 1.055f * c.pow(1f / 2.4f) - 0.055f
+         return (v.coerceIn(0f, 1f) * 255f).roundToInt()
+      }
+
       // Common color constants
       val BLACK = Color(0, 0, 0)
       val WHITE = Color(255, 255, 255)
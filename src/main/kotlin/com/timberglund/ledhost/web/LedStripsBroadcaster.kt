@@ -0,0 +1,190 @@
+package com.timberglund.ledhost.web
+
+import com.timberglund.ledhost.mapper.LEDAddress
+import com.timberglund.ledhost.mapper.PixelMapper
+import com.timberglund.ledhost.viewport.Color
+import io.ktor.websocket.*
+import kotlinx.coroutines.channels.ClosedSendChannelException
+import kotlinx.serialization.encodeToString
+import kotlinx.serialization.json.Json
+import java.util.zip.Deflater
+
+private val layoutJson = Json { encodeDefaults = true }
+
+/**
+ * Streams per-LED strip colors to /ws/led-strips clients.
+ *
+ * LED positions only change when the set of strips does, so they are sent as a JSON
+ * text frame ([LedLayoutMessage]) on connect and whenever the layout changes. Each
+ * frame after that is binary and carries nothing but colors:
+ *   Byte 0:     flags (0x01 = deflate-compressed, 0x02 = brightness included)
+ *   Bytes 1-2:  layout version (big-endian unsigned 16-bit)
+ *   Bytes 3+:   RGB for every LED of every strip, in layout order, followed by one APA102
+ *               brightness byte (0-31) per LED when flagged; optionally deflate-compressed
+ *
+ * Brightness is only sent when some LED is below full brightness (31).
+ *
+ * @property mapper Source of the LED positions; fixed for the lifetime of the process
+ */
+class LedStripsBroadcaster(private val mapper: PixelMapper) {
+   private val clients = mutableListOf<WebSocketSession>()
+   private val lock = Any()
+   private var layout: LedLayoutMessage? = null
+   private var layoutKey: List<Pair<Int, Int>> = emptyList()
+   private var layoutVersion = 0
+
+   // Inverted mapper mapping: which viewport pixel each LED sits on
+   private val ledPositions by lazy {
+      mapper.getMapping().entries.associate { (point, address) -> address to point }
+   }
+
+   companion object {
+      /** Frames smaller than this are sent uncompressed; deflate doesn't pay off on a few LEDs. */
+      const val DEFLATE_THRESHOLD = 512
+
+      const val FLAG_DEFLATE = 0x01
+      const val FLAG_BRIGHTNESS = 0x02
+   }
+
+   fun addClient(session: WebSocketSession) {
+      synchronized(lock) {
+         clients.add(session)
+      }
+   }
+
+   fun removeClient(session: WebSocketSession) {
+      synchronized(lock) {
+         clients.remove(session)
+      }
+   }
+
+   /**
+    * Sends the current layout to a newly connected client. Does nothing if no frame
+    * has been broadcast yet; the layout goes to everyone with the first frame.
+    */
+   suspend fun sendLayoutTo(session: WebSocketSession) {
+      val current = synchronized(lock) { layout } ?: return
+      try {
+         session.send(Frame.Text(layoutJson.encodeToString(current)))
+      }
+      catch(e: Exception) {
+         synchronized(lock) { clients.remove(session) }
+      }
+   }
+
+   /**
+    * Broadcasts one frame of LED colors, keyed by strip ID. If the strips or their
+    * lengths differ from the previous frame a new layout is broadcast first.
+    */
+   suspend fun broadcastFrame(leds: Map<Int, Array<Color>>) {
+      val snapshot = synchronized(lock) { clients.toList() }
+      if(snapshot.isEmpty()) return
+
+      val strips = leds.entries.sortedBy { it.key }
+      val key = strips.map { it.key to it.value.size }
+      val (version, newLayout) = synchronized(lock) {
+         if(key != layoutKey || layout == null) {
+            layoutKey = key
+            layoutVersion = (layoutVersion + 1) and 0xFFFF
+            val message = buildLayout(layoutVersion, key)
+            layout = message
+            layoutVersion to message
+         }
+         else layoutVersion to null
+      }
+
+      val failed = mutableListOf<WebSocketSession>()
+      if(newLayout != null) {
+         val text = Frame.Text(layoutJson.encodeToString(newLayout))
+         for(client in snapshot) {
+            if(!send(client, text)) failed.add(client)
+         }
+      }
+
+      val frame = Frame.Binary(true, encodeFrame(version, strips.map { it.value }))
+      for(client in snapshot) {
+         if(client !in failed && !send(client, frame)) failed.add(client)
+      }
+
+      if(failed.isNotEmpty()) {
+         synchronized(lock) { clients.removeAll(failed) }
+      }
+   }
+
+   private suspend fun send(client: WebSocketSession, frame: Frame): Boolean =
+      try {
+         client.send(frame)
+         true
+      }
+      catch(e: ClosedSendChannelException) {
+         false
+      }
+      catch(e: Exception) {
+         false
+      }
+
+   private fun buildLayout(version: Int, strips: List<Pair<Int, Int>>) = LedLayoutMessage(
+      version = version,
+      strips = strips.map { (stripId, length) ->
+         val positions = ArrayList<Int>(length * 2)
+         for(ledIndex in 0 until length) {
+            val point = ledPositions[LEDAddress(stripId, ledIndex)]
+            positions.add(point?.x ?: -1)
+            positions.add(point?.y ?: -1)
+         }
+         LedLayoutStrip(id = stripId, length = length, positions = positions)
+      }
+   )
+
+   /**
+    * Encodes the frame as [flags][version:2B][RGB...][brightness...], leaving out the
+    * brightness when every LED is at 31 and deflating the color data when it is large
+    * enough and actually gets smaller.
+    */
+   private fun encodeFrame(version: Int, strips: List<Array<Color>>): ByteArray {
+      val ledCount = strips.sumOf { it.size }
+      val withBrightness = strips.any { strip -> strip.any { it.brightness != 31 } }
+      val data = ByteArray(ledCount * (if(withBrightness) 4 else 3))
+      var offset = 0
+      var brightnessOffset = ledCount * 3
+      for(strip in strips) {
+         for(color in strip) {
+            data[offset++] = color.r.toByte()
+            data[offset++] = color.g.toByte()
+            data[offset++] = color.b.toByte()
+            if(withBrightness) data[brightnessOffset++] = color.brightness.toByte()
+         }
+      }
+
+      val compressed = if(data.size >= DEFLATE_THRESHOLD) deflate(data) else null
+      val payload = compressed ?: data
+
+      var flags = 0
+      if(compressed != null) flags = flags or FLAG_DEFLATE
+      if(withBrightness) flags = flags or FLAG_BRIGHTNESS
+
+      val buffer = ByteArray(3 + payload.size)
+      buffer[0] = flags.toByte()
+      buffer[1] = (version shr 8).toByte()
+      buffer[2] = (version and 0xFF).toByte()
+      System.arraycopy(payload, 0, buffer, 3, payload.size)
+      return buffer
+   }
+
+   /**
+    * Compresses data using deflate at BEST_SPEED level, or returns null if the
+    * result would not be smaller than the input.
+    */
+   private fun deflate(data: ByteArray): ByteArray? {
+      val deflater = Deflater(Deflater.BEST_SPEED)
+      try {
+         deflater.setInput(data)
+         deflater.finish()
+         val output = ByteArray(data.size)
+         val compressedSize = deflater.deflate(output)
+         return if(deflater.finished() && compressedSize < data.size) output.copyOf(compressedSize) else null
+      } finally {
+         deflater.end()
+      }
+   }
+}
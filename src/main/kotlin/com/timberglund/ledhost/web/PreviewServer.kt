@@ -1,17 +1,34 @@
 package com.timberglund.ledhost.web
 
+import com.timberglund.ledhost.db.PlaylistRow
+import com.timberglund.ledhost.db.PlaylistsRepository
 import com.timberglund.ledhost.db.SavedPatternRow
 import com.timberglund.ledhost.db.SavedPatternsRepository
 import com.timberglund.ledhost.db.SettingsRepository
 import com.timberglund.ledhost.mapper.PixelMapper
 import com.timberglund.ledstrip.BluetoothHost
 import com.timberglund.ledstrip.StripDiscoveryEvent
+import com.timberglund.ledhost.pattern.Modulator
 import com.timberglund.ledhost.pattern.ParameterDef
 import com.timberglund.ledhost.pattern.Pattern
 import com.timberglund.ledhost.pattern.PatternParameters
+import com.timberglund.ledhost.pattern.isModulatable
+import com.timberglund.ledhost.pattern.toParamJsonObject
+import com.timberglund.ledhost.pattern.toParamValues
+import com.timberglund.ledhost.pattern.toPatternParameters
 import com.timberglund.ledhost.pattern.PatternRegistry
+import com.timberglund.ledhost.pattern.Timeline
+import com.timberglund.ledhost.playlist.PlaylistItem
+import com.timberglund.ledhost.playlist.PlaylistPlayer
+import com.timberglund.ledhost.playlist.PlaylistStatus
 import com.timberglund.ledhost.renderer.FrameRenderer
+import com.timberglund.ledhost.schedule.Schedule
+import com.timberglund.ledhost.schedule.ScheduleAction
+import com.timberglund.ledhost.schedule.ScheduleOverride
+import com.timberglund.ledhost.schedule.Scheduler
+import com.timberglund.ledhost.schedule.TimeOfDay
 import com.timberglund.ledhost.renderer.RenderStats
+import com.timberglund.ledhost.viewport.Color
 import com.timberglund.ledhost.viewport.Viewport
 import io.ktor.http.*
 import io.ktor.http.content.*
@@ -48,8 +65,10 @@ private val logger = KotlinLogging.logger {}
  * @property port Server port (default from configuration)
  * @property viewport The viewport to broadcast
  * @property patternRegistry Registry of available patterns
- * @property renderer Frame renderer for statistics
+ * @property renderer Frame renderer for statistics and timeline position
  * @property mapper Pixel mapper for LED strip visualization
+ * @property playlistsRepository Saved playlists; the playlist API is only served when it and [playlistPlayer] are set
+ * @property playlistPlayer Plays playlists on the host
  */
 class PreviewServer(private val port: Int,
                     private val viewport: Viewport,
@@ -58,15 +77,35 @@ class PreviewServer(private val port: Int,
                     private val settingsRepository: SettingsRepository,
                     private val savedPatternsRepository: SavedPatternsRepository,
                     private val mapper: PixelMapper,
-                    private val bleManager: BluetoothHost? = null) {
+                    private val bleManager: BluetoothHost? = null,
+                    private val playlistsRepository: PlaylistsRepository? = null,
+                    private val playlistPlayer: PlaylistPlayer? = null,
+                    private val scheduler: Scheduler? = null) {
    private val broadcaster = WebSocketBroadcaster()
    private val stripsBroadcaster = StripsWsBroadcaster()
+   private val ledStripsBroadcaster = LedStripsBroadcaster(mapper)
    private var server: EmbeddedServer<*, *>? = null
    private var currentPattern: Pattern? = null
    private var currentPatternName: String = ""
    private var currentParamValues: Map<String, Any> = emptyMap()
    private var currentPresetName: String? = null
+   private var currentModulators: Map<String, Modulator> = emptyMap()
+   private var currentTimeline: Timeline? = null
    private var patternChangeListener: ((String, PatternParameters) -> Unit)? = null
+   private var modulatorsChangeListener: ((Map<String, Modulator>) -> Unit)? = null
+   private var timelineChangeListener: ((Timeline?) -> Unit)? = null
+   private var outputEnabled = true
+   private var outputChangeListener: ((Boolean) -> Unit)? = null
+   @Volatile private var calibration: CalibrationTarget? = null
+
+   companion object {
+      /** Color of LED 0 while a strip is being calibrated. */
+      val CALIBRATION_FIRST_COLOR = Color(0, 255, 0)
+      /** Color of the last LED while a strip is being calibrated. */
+      val CALIBRATION_LAST_COLOR = Color(255, 0, 0)
+      /** A calibration left running by a closed browser tab is dropped after this long. */
+      const val CALIBRATION_TIMEOUT_MS = 10 * 60 * 1000L
+   }
 
    /**
     * Sets a listener to be notified when the pattern changes via the web interface.
@@ -75,26 +114,132 @@ class PreviewServer(private val port: Int,
       patternChangeListener = listener
    }
 
+   /**
+    * Sets a listener to be notified when the active pattern's modulators change.
+    */
+   fun setModulatorsChangeListener(listener: (Map<String, Modulator>) -> Unit) {
+      modulatorsChangeListener = listener
+   }
+
+   /**
+    * Sets a listener to be notified when a timeline starts or stops playing.
+    */
+   fun setTimelineChangeListener(listener: (Timeline?) -> Unit) {
+      timelineChangeListener = listener
+   }
+
+   /**
+    * Sets a listener to be notified when output is turned on or off.
+    */
+   fun setOutputChangeListener(listener: (Boolean) -> Unit) {
+      outputChangeListener = listener
+   }
+
+   /**
+    * Turns output on or off. Setting a pattern turns it back on.
+    */
+   fun setOutputEnabled(enabled: Boolean) {
+      outputEnabled = enabled
+      outputChangeListener?.invoke(enabled)
+   }
+
    /**
     * Seeds the in-memory active-pattern state from startup restore (before server starts).
     * Does NOT call the change listener or update the renderer — Application.kt handles that.
     */
-   fun setCurrentPattern(name: String, params: Map<String, Any>, presetName: String? = null) {
+   fun setCurrentPattern(name: String,
+                         params: Map<String, Any>,
+                         presetName: String? = null,
+                         modulators: Map<String, Modulator> = emptyMap(),
+                         timeline: Timeline? = null) {
       currentPatternName = name
       currentParamValues = params
       currentPresetName = presetName
       currentPattern = patternRegistry.get(name)
+      currentModulators = modulators
+      currentTimeline = timeline
+   }
+
+   /**
+    * Returns the strip currently being calibrated, or null if calibration is off or has timed out.
+    * While this is non-null the frame callback should light only the calibration LEDs.
+    */
+   fun getCalibration(): CalibrationTarget? {
+      val target = calibration ?: return null
+      return if(System.currentTimeMillis() < target.expiresAt) target else null
    }
 
    /**
     * Loads a saved preset: applies it to the viewport and persists activePresetName.
-    * This is the ONLY code path that updates activePresetName in settings.
+    * This is the ONLY code path that updates activePresetName in settings. The preset
+    * takes over from any playlist, including as the startup item.
     */
    private suspend fun loadPreset(preset: SavedPatternRow) {
-      val params = preset.params.jsonObjectToMap()
-      setPattern(preset.patternName, params)
+      playlistPlayer?.stop()
+      showPreset(preset)
       currentPresetName = preset.presetName
       settingsRepository.setActivePresetName(preset.presetName)
+      settingsRepository.setStartupPlaylistId(null)
+   }
+
+   /**
+    * Applies a saved preset to the viewport without making it the startup default.
+    * The playlist player shows its items through here.
+    */
+   fun showPreset(preset: SavedPatternRow) {
+      setPattern(preset.patternName, preset.params.toParamValues())
+      setModulators(preset.modulators)
+      setTimeline(preset.timeline)
+   }
+
+   /**
+    * Records what is showing so it can be brought back after something else has
+    * been shown. The schedule uses this when an override ends.
+    *
+    * @return Brings back the pattern, its settings and whether output was on
+    */
+   fun captureLook(): () -> Unit {
+      val name = currentPatternName
+      val params = currentParamValues
+      val presetName = currentPresetName
+      val modulators = currentModulators
+      val timeline = currentTimeline
+      val enabled = outputEnabled
+      return {
+         setPattern(name, params)
+         setModulators(modulators)
+         setTimeline(timeline)
+         currentPresetName = presetName
+         if(!enabled) setOutputEnabled(false)
+      }
+   }
+
+   /**
+    * Starts a playlist in place of whatever is showing.
+    *
+    * @return false if the playlist has nothing to play
+    */
+   private suspend fun playPlaylist(playlist: PlaylistRow): Boolean {
+      val player = playlistPlayer ?: return false
+      if(!player.play(playlist)) return false
+      currentPresetName = null
+      return true
+   }
+
+   private suspend fun playerResponse() = PlaylistPlayerResponse(
+      status = playlistPlayer?.status(),
+      startupPlaylistId = settingsRepository.getStartupPlaylistId()
+   )
+
+   /** Returns the preset IDs in [items] that have no saved preset. */
+   private suspend fun missingPresetIds(items: List<PlaylistItem>): List<Int> =
+      missingPresetIds(items.map { it.presetId })
+
+   /** Returns the preset IDs in [ids] that have no saved preset. */
+   private suspend fun missingPresetIds(ids: Collection<Int>): List<Int> {
+      if(ids.isEmpty()) return emptyList()
+      val known = savedPatternsRepository.getAllPresets().map { it.id }.toSet()
+      return ids.filter { it !in known }
    }
 
    /**
@@ -123,8 +268,8 @@ class PreviewServer(private val port: Int,
                default("index.html")
             }
 
-            // SPA tab routes — serve index.html so the frontend can handle routing
-            for(path in listOf("/pattern", "/strips", "/settings")) {
+            // SPA routes (the tabs and the /present kiosk view) — serve index.html so the frontend can handle routing
+            for(path in listOf("/pattern", "/strips", "/schedule", "/settings", "/present")) {
                get(path) {
                   val html = this::class.java.classLoader.getResourceAsStream("web/index.html")
                      ?.readBytes()
@@ -135,14 +280,15 @@ class PreviewServer(private val port: Int,
                }
             }
 
-            // WebSocket endpoint for real-time viewport updates
+            // WebSocket endpoint for real-time viewport updates (?v=2 selects protocol v2)
             webSocket("/viewport") {
-               broadcaster.addClient(this)
+               val version = call.request.queryParameters["v"]?.toIntOrNull() ?: 1
+               broadcaster.addClient(this, version)
                try {
                   for(frame in incoming) {
                      // Handle incoming commands from client
                      when(frame) {
-                        is Frame.Text -> handleCommand(frame.readText())
+                        is Frame.Text -> handleCommand(this, frame.readText())
                         else -> {}
                      }
                   }
@@ -165,6 +311,18 @@ class PreviewServer(private val port: Int,
                }
             }
 
+            // WebSocket endpoint for streamed LED strip colors (layout once, then binary frames)
+            webSocket("/ws/led-strips") {
+               ledStripsBroadcaster.addClient(this)
+               ledStripsBroadcaster.sendLayoutTo(this)
+               try {
+                  for(frame in incoming) { /* read-only channel */ }
+               }
+               finally {
+                  ledStripsBroadcaster.removeClient(this)
+               }
+            }
+
             // REST API endpoints
             get("/api/patterns") {
                val patternInfos = patternRegistry.listPatterns().map { name ->
@@ -183,12 +341,13 @@ class PreviewServer(private val port: Int,
 
                val params = try {
                   val jsonMap = call.receive<Map<String, kotlinx.serialization.json.JsonElement>>()
-                  parseJsonParams(jsonMap)
+                  jsonMap.toParamValues()
                }
                catch (e: Exception) {
                   emptyMap()
                }
 
+               playlistPlayer?.stop()
                setPattern(name, params)
                call.respond(HttpStatusCode.OK)
             }
@@ -302,11 +461,75 @@ class PreviewServer(private val port: Int,
             get("/api/active-pattern") {
                call.respond(ActivePatternResponse(
                   patternName = currentPatternName,
-                  params = currentParamValues.mapToJsonObject(),
-                  presetName = currentPresetName
+                  params = currentParamValues.toParamJsonObject(),
+                  presetName = currentPresetName,
+                  modulators = currentModulators,
+                  timeline = currentTimeline,
+                  timelinePosition = renderer?.getTimelinePosition(),
+                  outputEnabled = outputEnabled
+               ))
+            }
+
+            put("/api/modulators") {
+               val modulators = try { call.receive<Map<String, Modulator>>() }
+               catch(e: Exception) {
+                  call.respond(HttpStatusCode.BadRequest, "Invalid modulators")
+                  return@put
+               }
+               call.respond(setModulators(modulators))
+            }
+
+            put("/api/timeline") {
+               val timeline = try { call.receive<Timeline>() }
+               catch(e: Exception) {
+                  call.respond(HttpStatusCode.BadRequest, "Invalid timeline")
+                  return@put
+               }
+               setTimeline(timeline)
+               call.respond(timeline)
+            }
+
+            delete("/api/timeline") {
+               setTimeline(null)
+               call.respond(HttpStatusCode.NoContent)
+            }
+
+            // ── Calibration ───────────────────────────────────────────────────
+
+            post("/api/calibration") {
+               val req = try { call.receive<CalibrationRequest>() }
+               catch(e: Exception) {
+                  call.respond(HttpStatusCode.BadRequest, "Invalid request body")
+                  return@post
+               }
+               val strip = settingsRepository.getAllStrips().firstOrNull { it.id == req.stripId }
+               if(strip == null) {
+                  call.respond(HttpStatusCode.NotFound, "Strip ${req.stripId} not found")
+                  return@post
+               }
+               val length = strip.length ?: 0
+               if(length <= 0) {
+                  call.respond(HttpStatusCode.BadRequest, "Strip ${req.stripId} has no length")
+                  return@post
+               }
+               calibration = CalibrationTarget(
+                  stripId = strip.id,
+                  length = length,
+                  expiresAt = System.currentTimeMillis() + CALIBRATION_TIMEOUT_MS
+               )
+               call.respond(CalibrationResponse(
+                  stripId = strip.id,
+                  length = length,
+                  firstColor = CALIBRATION_FIRST_COLOR.toHex(),
+                  lastColor = CALIBRATION_LAST_COLOR.toHex()
                ))
             }
 
+            delete("/api/calibration") {
+               calibration = null
+               call.respond(HttpStatusCode.NoContent)
+            }
+
             // ── Saved patterns API ────────────────────────────────────────────
 
             get("/api/saved-patterns") {
@@ -329,7 +552,9 @@ class PreviewServer(private val port: Int,
                   return@post
                }
                try {
-                  val row = savedPatternsRepository.createPreset(req.presetName, req.patternName, req.params)
+                  val row = savedPatternsRepository.createPreset(
+                     req.presetName, req.patternName, req.params, req.modulators, req.timeline
+                  )
                   call.respond(HttpStatusCode.Created, row.toResponse())
                }
                catch(e: IllegalArgumentException) {
@@ -353,7 +578,9 @@ class PreviewServer(private val port: Int,
                      presetId = id,
                      presetName = req.presetName,
                      patternName = req.patternName,
-                     params = req.params
+                     params = req.params,
+                     modulators = req.modulators,
+                     timeline = req.timeline
                   )
                   if(row == null)
                      call.respond(HttpStatusCode.NotFound, "Preset $id not found")
@@ -393,6 +620,183 @@ class PreviewServer(private val port: Int,
                call.respond(preset.toResponse())
             }
 
+            // ── Playlists API ─────────────────────────────────────────────────
+
+            if(playlistsRepository != null && playlistPlayer != null) {
+               get("/api/playlists") {
+                  call.respond(playlistsRepository.getAllPlaylists().map { it.toResponse() })
+               }
+
+               post("/api/playlists") {
+                  val req = try { call.receive<CreatePlaylistRequest>() }
+                  catch(e: Exception) {
+                     call.respond(HttpStatusCode.BadRequest, "Invalid request body")
+                     return@post
+                  }
+                  val missing = missingPresetIds(req.items)
+                  if(missing.isNotEmpty()) {
+                     call.respond(HttpStatusCode.BadRequest, "Preset ${missing.first()} not found")
+                     return@post
+                  }
+                  try {
+                     val row = playlistsRepository.createPlaylist(req.name, req.items)
+                     call.respond(HttpStatusCode.Created, row.toResponse())
+                  }
+                  catch(e: IllegalArgumentException) {
+                     call.respond(HttpStatusCode.Conflict, mapOf("error" to e.message))
+                  }
+               }
+
+               put("/api/playlists/{id}") {
+                  val id = call.parameters["id"]?.toIntOrNull()
+                  if(id == null) {
+                     call.respond(HttpStatusCode.BadRequest, "Invalid playlist ID")
+                     return@put
+                  }
+                  val req = try { call.receive<UpdatePlaylistRequest>() }
+                  catch(e: Exception) {
+                     call.respond(HttpStatusCode.BadRequest, "Invalid request body")
+                     return@put
+                  }
+                  val missing = missingPresetIds(req.items.orEmpty())
+                  if(missing.isNotEmpty()) {
+                     call.respond(HttpStatusCode.BadRequest, "Preset ${missing.first()} not found")
+                     return@put
+                  }
+                  try {
+                     val row = playlistsRepository.updatePlaylist(id, req.name, req.items)
+                     if(row == null) {
+                        call.respond(HttpStatusCode.NotFound, "Playlist $id not found")
+                        return@put
+                     }
+                     playlistPlayer.refresh(row)
+                     call.respond(row.toResponse())
+                  }
+                  catch(e: IllegalArgumentException) {
+                     call.respond(HttpStatusCode.Conflict, mapOf("error" to e.message))
+                  }
+               }
+
+               delete("/api/playlists/{id}") {
+                  val id = call.parameters["id"]?.toIntOrNull()
+                  if(id == null) {
+                     call.respond(HttpStatusCode.BadRequest, "Invalid playlist ID")
+                     return@delete
+                  }
+                  if(!playlistsRepository.deletePlaylist(id)) {
+                     call.respond(HttpStatusCode.NotFound, "Playlist $id not found")
+                     return@delete
+                  }
+                  playlistPlayer.remove(id)
+                  if(settingsRepository.getStartupPlaylistId() == id) settingsRepository.setStartupPlaylistId(null)
+                  call.respond(HttpStatusCode.NoContent)
+               }
+
+               post("/api/playlists/{id}/play") {
+                  val playlist = call.parameters["id"]?.toIntOrNull()?.let { playlistsRepository.getPlaylist(it) }
+                  if(playlist == null) {
+                     call.respond(HttpStatusCode.NotFound, "Playlist not found")
+                     return@post
+                  }
+                  if(!playPlaylist(playlist)) {
+                     call.respond(HttpStatusCode.BadRequest, "Playlist '${playlist.name}' has nothing to play")
+                     return@post
+                  }
+                  call.respond(playerResponse())
+               }
+
+               // Makes the playlist the startup item in place of the active preset, and plays it now
+               post("/api/playlists/{id}/startup") {
+                  val playlist = call.parameters["id"]?.toIntOrNull()?.let { playlistsRepository.getPlaylist(it) }
+                  if(playlist == null) {
+                     call.respond(HttpStatusCode.NotFound, "Playlist not found")
+                     return@post
+                  }
+                  if(!playPlaylist(playlist)) {
+                     call.respond(HttpStatusCode.BadRequest, "Playlist '${playlist.name}' has nothing to play")
+                     return@post
+                  }
+                  settingsRepository.setStartupPlaylistId(playlist.id)
+                  call.respond(playerResponse())
+               }
+
+               get("/api/playlist-player") {
+                  call.respond(playerResponse())
+               }
+
+               post("/api/playlist-player/{action}") {
+                  when(call.parameters["action"]) {
+                     "pause" -> playlistPlayer.pause()
+                     "resume" -> playlistPlayer.resume()
+                     "next" -> playlistPlayer.next()
+                     "previous" -> playlistPlayer.previous()
+                     "stop" -> playlistPlayer.stop()
+                     else -> {
+                        call.respond(HttpStatusCode.NotFound, "Unknown player action")
+                        return@post
+                     }
+                  }
+                  call.respond(playerResponse())
+               }
+
+               put("/api/playlist-player/shuffle") {
+                  val req = try { call.receive<ShuffleRequest>() }
+                  catch(e: Exception) {
+                     call.respond(HttpStatusCode.BadRequest, "Invalid request body")
+                     return@put
+                  }
+                  playlistPlayer.setShuffle(req.shuffle)
+                  call.respond(playerResponse())
+               }
+            }
+
+            // ── Schedule API ──────────────────────────────────────────────────
+
+            if(scheduler != null) {
+               get("/api/schedule") {
+                  call.respond(scheduler.state())
+               }
+
+               put("/api/schedule") {
+                  val schedule = try { call.receive<Schedule>() }
+                  catch(e: Exception) {
+                     call.respond(HttpStatusCode.BadRequest, "Invalid request body")
+                     return@put
+                  }
+                  val missing = missingPresetIds(schedule.rules.mapNotNull { it.presetId })
+                  if(missing.isNotEmpty()) {
+                     call.respond(HttpStatusCode.BadRequest, "Preset ${missing.first()} not found")
+                     return@put
+                  }
+                  settingsRepository.setSchedule(schedule)
+                  scheduler.setSchedule(schedule)
+                  call.respond(scheduler.state())
+               }
+
+               put("/api/schedule/override") {
+                  val req = try { call.receive<ScheduleOverrideRequest>() }
+                  catch(e: Exception) {
+                     call.respond(HttpStatusCode.BadRequest, "Invalid request body")
+                     return@put
+                  }
+                  if(req.action == ScheduleAction.PRESET && missingPresetIds(listOfNotNull(req.presetId)).isNotEmpty()) {
+                     call.respond(HttpStatusCode.BadRequest, "Preset ${req.presetId} not found")
+                     return@put
+                  }
+                  scheduler.setOverride(ScheduleOverride(
+                     action = req.action,
+                     presetId = req.presetId.takeIf { req.action == ScheduleAction.PRESET },
+                     until = System.currentTimeMillis() + req.minutes * 60_000L
+                  ))
+                  call.respond(scheduler.state())
+               }
+
+               delete("/api/schedule/override") {
+                  scheduler.setOverride(null)
+                  call.respond(scheduler.state())
+               }
+            }
+
             // ── Settings API ──────────────────────────────────────────────────
 
             get("/api/settings") {
@@ -404,6 +808,30 @@ class PreviewServer(private val port: Int,
                val showViewport = settingsRepository.getSetting("showViewport")?.toBooleanStrictOrNull() ?: true
                val showStrips = settingsRepository.getSetting("showStrips")?.toBooleanStrictOrNull() ?: false
                val showBackground = settingsRepository.getSetting("showBackground")?.toBooleanStrictOrNull() ?: false
+               val showAnnotations = settingsRepository.getSetting("showAnnotations")?.toBooleanStrictOrNull() ?: false
+               val annotationTickInterval = settingsRepository.getSetting("annotationTickInterval")?.toIntOrNull() ?: 10
+               val outputPreview = settingsRepository.getSetting("outputPreview")?.toBooleanStrictOrNull() ?: false
+               val outputGamma = settingsRepository.getSetting("outputGamma")?.toDoubleOrNull() ?: 2.2
+               val whiteBalanceRed = settingsRepository.getSetting("whiteBalanceRed")?.toIntOrNull() ?: 100
+               val whiteBalanceGreen = settingsRepository.getSetting("whiteBalanceGreen")?.toIntOrNull() ?: 100
+               val whiteBalanceBlue = settingsRepository.getSetting("whiteBalanceBlue")?.toIntOrNull() ?: 100
+               val ledGlow = settingsRepository.getSetting("ledGlow")?.toBooleanStrictOrNull() ?: false
+               val glowRadius = settingsRepository.getSetting("glowRadius")?.toDoubleOrNull() ?: 3.0
+               val glowIntensity = settingsRepository.getSetting("glowIntensity")?.toDoubleOrNull() ?: 1.0
+               val glowSoftness = settingsRepository.getSetting("glowSoftness")?.toDoubleOrNull() ?: 0.7
+               val backgroundScale = settingsRepository.getSetting("backgroundScale")?.toDoubleOrNull() ?: 1.0
+               val backgroundOffsetX = settingsRepository.getSetting("backgroundOffsetX")?.toDoubleOrNull() ?: 0.0
+               val backgroundOffsetY = settingsRepository.getSetting("backgroundOffsetY")?.toDoubleOrNull() ?: 0.0
+               val backgroundRotation = settingsRepository.getSetting("backgroundRotation")?.toDoubleOrNull() ?: 0.0
+               val backgroundOpacity = settingsRepository.getSetting("backgroundOpacity")?.toIntOrNull() ?: 100
+               val backgroundTopLeftX = settingsRepository.getSetting("backgroundTopLeftX")?.toDoubleOrNull() ?: 0.0
+               val backgroundTopLeftY = settingsRepository.getSetting("backgroundTopLeftY")?.toDoubleOrNull() ?: 0.0
+               val backgroundTopRightX = settingsRepository.getSetting("backgroundTopRightX")?.toDoubleOrNull() ?: 0.0
+               val backgroundTopRightY = settingsRepository.getSetting("backgroundTopRightY")?.toDoubleOrNull() ?: 0.0
+               val backgroundBottomRightX = settingsRepository.getSetting("backgroundBottomRightX")?.toDoubleOrNull() ?: 0.0
+               val backgroundBottomRightY = settingsRepository.getSetting("backgroundBottomRightY")?.toDoubleOrNull() ?: 0.0
+               val backgroundBottomLeftX = settingsRepository.getSetting("backgroundBottomLeftX")?.toDoubleOrNull() ?: 0.0
+               val backgroundBottomLeftY = settingsRepository.getSetting("backgroundBottomLeftY")?.toDoubleOrNull() ?: 0.0
                call.respond(ScalarSettingsResponse(
                   viewportWidth = w,
                   viewportHeight = h,
@@ -412,7 +840,31 @@ class PreviewServer(private val port: Int,
                   telemetryIntervalSeconds = telemetry,
                   showViewport = showViewport,
                   showStrips = showStrips,
-                  showBackground = showBackground
+                  showBackground = showBackground,
+                  showAnnotations = showAnnotations,
+                  annotationTickInterval = annotationTickInterval,
+                  outputPreview = outputPreview,
+                  outputGamma = outputGamma,
+                  whiteBalanceRed = whiteBalanceRed,
+                  whiteBalanceGreen = whiteBalanceGreen,
+                  whiteBalanceBlue = whiteBalanceBlue,
+                  ledGlow = ledGlow,
+                  glowRadius = glowRadius,
+                  glowIntensity = glowIntensity,
+                  glowSoftness = glowSoftness,
+                  backgroundScale = backgroundScale,
+                  backgroundOffsetX = backgroundOffsetX,
+                  backgroundOffsetY = backgroundOffsetY,
+                  backgroundRotation = backgroundRotation,
+                  backgroundOpacity = backgroundOpacity,
+                  backgroundTopLeftX = backgroundTopLeftX,
+                  backgroundTopLeftY = backgroundTopLeftY,
+                  backgroundTopRightX = backgroundTopRightX,
+                  backgroundTopRightY = backgroundTopRightY,
+                  backgroundBottomRightX = backgroundBottomRightX,
+                  backgroundBottomRightY = backgroundBottomRightY,
+                  backgroundBottomLeftX = backgroundBottomLeftX,
+                  backgroundBottomLeftY = backgroundBottomLeftY
                ))
             }
 
@@ -425,7 +877,8 @@ class PreviewServer(private val port: Int,
                   "viewportHeight" to body["viewportHeight"],
                   "targetFPS" to body["targetFPS"],
                   "scanIntervalSeconds" to body["scanIntervalSeconds"],
-                  "telemetryIntervalSeconds" to body["telemetryIntervalSeconds"]
+                  "telemetryIntervalSeconds" to body["telemetryIntervalSeconds"],
+                  "annotationTickInterval" to body["annotationTickInterval"]
                )
 
                for((key, element) in intFieldMap) {
@@ -438,10 +891,59 @@ class PreviewServer(private val port: Int,
                   }
                }
 
+               val floatFieldRanges = mapOf(
+                  "outputGamma" to 1.0..3.0,
+                  "glowRadius" to 0.5..10.0,
+                  "glowIntensity" to 0.2..3.0,
+                  "glowSoftness" to 0.0..1.0,
+                  "backgroundScale" to 0.1..10.0,
+                  "backgroundOffsetX" to -10000.0..10000.0,
+                  "backgroundOffsetY" to -10000.0..10000.0,
+                  "backgroundRotation" to -180.0..180.0,
+                  "backgroundTopLeftX" to -10000.0..10000.0,
+                  "backgroundTopLeftY" to -10000.0..10000.0,
+                  "backgroundTopRightX" to -10000.0..10000.0,
+                  "backgroundTopRightY" to -10000.0..10000.0,
+                  "backgroundBottomRightX" to -10000.0..10000.0,
+                  "backgroundBottomRightY" to -10000.0..10000.0,
+                  "backgroundBottomLeftX" to -10000.0..10000.0,
+                  "backgroundBottomLeftY" to -10000.0..10000.0
+               )
+
+               for((key, range) in floatFieldRanges) {
+                  val element = body[key] ?: continue
+                  val v = (element as? JsonPrimitive)?.doubleOrNull
+                  if(v == null || v !in range) {
+                     errors += "$key must be a number between ${range.start} and ${range.endInclusive}"
+                  } else {
+                     settingsRepository.setSetting(key, v.toString())
+                  }
+               }
+
+               val percentFieldMap = mapOf(
+                  "whiteBalanceRed" to body["whiteBalanceRed"],
+                  "whiteBalanceGreen" to body["whiteBalanceGreen"],
+                  "whiteBalanceBlue" to body["whiteBalanceBlue"],
+                  "backgroundOpacity" to body["backgroundOpacity"]
+               )
+
+               for((key, element) in percentFieldMap) {
+                  if(element == null) continue
+                  val v = (element as? JsonPrimitive)?.intOrNull
+                  if(v == null || v !in 0..100) {
+                     errors += "$key must be an integer between 0 and 100"
+                  } else {
+                     settingsRepository.setSetting(key, v.toString())
+                  }
+               }
+
                val boolFieldMap = mapOf(
                   "showViewport" to body["showViewport"],
                   "showStrips" to body["showStrips"],
-                  "showBackground" to body["showBackground"]
+                  "showBackground" to body["showBackground"],
+                  "showAnnotations" to body["showAnnotations"],
+                  "outputPreview" to body["outputPreview"],
+                  "ledGlow" to body["ledGlow"]
                )
 
                for((key, element) in boolFieldMap) {
@@ -627,6 +1129,13 @@ class PreviewServer(private val port: Int,
       }
    }
 
+   /**
+    * Broadcasts one frame of per-LED colors, keyed by strip ID, to all /ws/led-strips clients.
+    */
+   suspend fun broadcastLedFrame(leds: Map<Int, Array<Color>>) {
+      ledStripsBroadcaster.broadcastFrame(leds)
+   }
+
    /**
     * Broadcasts a telemetry reading to all connected /ws/strips clients.
     */
@@ -644,26 +1153,31 @@ class PreviewServer(private val port: Int,
 
    /**
     * Broadcasts the current viewport to all connected clients.
+    *
+    * @param renderedAt When the frame was rendered (ms since the epoch)
     */
-   suspend fun broadcastViewport() {
-      broadcaster.broadcastViewport(viewport)
+   suspend fun broadcastViewport(renderedAt: Long = System.currentTimeMillis()) {
+      broadcaster.broadcastViewport(viewport, renderedAt)
    }
 
    /**
     * Handles commands received from web clients.
     */
-   private fun handleCommand(commandText: String) {
+   private suspend fun handleCommand(session: WebSocketSession, commandText: String) {
       try {
          val command = Json.decodeFromString<Command>(commandText)
          when(command.type) {
             "setPattern" -> {
                if (command.pattern.isNotEmpty()) {
+                  playlistPlayer?.stop()
                   setPattern(command.pattern, command.params)
                }
             }
             "setFPS" -> {
                // Could implement FPS adjustment here
             }
+            "keyframe" -> broadcaster.requestKeyframe(session)
+            "quality" -> broadcaster.setQuality(session, command.maxFps, command.scale, command.paused)
             else -> {}
          }
       }
@@ -672,69 +1186,59 @@ class PreviewServer(private val port: Int,
       }
    }
 
-   /**
-    * Converts a JSON map into a Map<String, Any> with native types.
-    */
-   private fun parseJsonParams(jsonMap: Map<String, kotlinx.serialization.json.JsonElement>): Map<String, Any> {
-      val result = mutableMapOf<String, Any>()
-      for ((key, element) in jsonMap) {
-         if (element is kotlinx.serialization.json.JsonPrimitive) {
-            val content = element.content
-            if (element.isString) {
-               result[key] = content
-            } else if (content == "true") {
-               result[key] = true
-            } else if (content == "false") {
-               result[key] = false
-            } else {
-               // Try to parse as number (double covers all numeric JSON values)
-               content.toDoubleOrNull()?.let { result[key] = it }
-            }
-         }
-      }
-      return result
-   }
-
    /**
     * Sets the active pattern with parameters (live apply — does NOT update activePresetName).
+    * Switching to another pattern drops its modulators and timeline.
     */
    private fun setPattern(name: String, params: Map<String, Any>) {
       val pattern = patternRegistry.get(name)
       if(pattern != null) {
+         if(name != currentPatternName) {
+            currentModulators = emptyMap()
+            currentTimeline = null
+         }
          currentPattern = pattern
          currentPatternName = name
          currentParamValues = params
-
-         val patternParams = PatternParameters()
-         params.forEach { (key, value) ->
-            when(value) {
-               is Number -> {
-                  when {
-                     value is Double || value is Float ->
-                        patternParams.set(key, value.toFloat())
-                     else ->
-                        patternParams.set(key, value.toInt())
-                  }
-               }
-               is String -> patternParams.set(key, value)
-               is Boolean -> patternParams.set(key, value)
-            }
-         }
+         if(!outputEnabled) setOutputEnabled(true)
 
          // Notify listener if set
-         patternChangeListener?.invoke(name, patternParams)
+         patternChangeListener?.invoke(name, params.toPatternParameters())
       }
    }
+
+   /**
+    * Binds modulators to the active pattern, keeping only those on its numeric parameters.
+    *
+    * @return The modulators now running
+    */
+   private fun setModulators(modulators: Map<String, Modulator>): Map<String, Modulator> {
+      val numeric = currentPattern?.parameters.orEmpty().filter { it.isModulatable() }.map { it.name }.toSet()
+      currentModulators = modulators.filterKeys { it in numeric }
+      modulatorsChangeListener?.invoke(currentModulators)
+      return currentModulators
+   }
+
+   /**
+    * Plays a timeline on the active pattern from its start, or stops playback when null.
+    */
+   private fun setTimeline(timeline: Timeline?) {
+      currentTimeline = timeline
+      timelineChangeListener?.invoke(timeline)
+   }
 }
 
 /**
  * WebSocket message pushed to /ws/strips clients: per-LED color data for a single strip.
+ * [brightness] holds the APA102 brightness as two hex digits per LED, or null when
+ * every LED is at full brightness.
  */
 @Serializable
 data class StripLedsMessage(
    val type: String = "strip_leds",
    val stripId: Int,
-   val rgb: String
+   val rgb: String,
+   val brightness: String? = null
 )
 
 /**
@@ -806,7 +1310,44 @@ data class Command(
    val type: String,
    val pattern: String = "",
    val params: Map<String, String> = emptyMap(),
-   val fps: Int = 60
+   val fps: Int = 60,
+   val maxFps: Int = 0,
+   val scale: Int = 1,
+   val paused: Boolean = false
+)
+
+/**
+ * Sent on /viewport in reply to a "quality" command: the preview quality in effect for
+ * that client. maxFps 0 means every broadcast frame.
+ */
+@Serializable
+data class ViewportQualityMessage(
+   val type: String = "quality",
+   val maxFps: Int,
+   val scale: Int,
+   val paused: Boolean
+)
+
+/**
+ * Text message sent to /ws/led-strips clients when the strip layout changes.
+ * Binary frames that follow carry the same [version].
+ */
+@Serializable
+data class LedLayoutMessage(
+   val type: String = "layout",
+   val version: Int,
+   val strips: List<LedLayoutStrip>
+)
+
+/**
+ * One strip in a [LedLayoutMessage]. [positions] holds x,y pairs for LED 0 through
+ * [length] - 1; LEDs that fall outside the viewport are -1,-1.
+ */
+@Serializable
+data class LedLayoutStrip(
+   val id: Int,
+   val length: Int,
+   val positions: List<Int>
 )
 
 /**
@@ -841,7 +1382,31 @@ data class ScalarSettingsResponse(
    val telemetryIntervalSeconds: Int,
    val showViewport: Boolean = true,
    val showStrips: Boolean = false,
-   val showBackground: Boolean = false
+   val showBackground: Boolean = false,
+   val showAnnotations: Boolean = false,
+   val annotationTickInterval: Int = 10,
+   val outputPreview: Boolean = false,
+   val outputGamma: Double = 2.2,
+   val whiteBalanceRed: Int = 100,
+   val whiteBalanceGreen: Int = 100,
+   val whiteBalanceBlue: Int = 100,
+   val ledGlow: Boolean = false,
+   val glowRadius: Double = 3.0,
+   val glowIntensity: Double = 1.0,
+   val glowSoftness: Double = 0.7,
+   val backgroundScale: Double = 1.0,
+   val backgroundOffsetX: Double = 0.0,
+   val backgroundOffsetY: Double = 0.0,
+   val backgroundRotation: Double = 0.0,
+   val backgroundOpacity: Int = 100,
+   val backgroundTopLeftX: Double = 0.0,
+   val backgroundTopLeftY: Double = 0.0,
+   val backgroundTopRightX: Double = 0.0,
+   val backgroundTopRightY: Double = 0.0,
+   val backgroundBottomRightX: Double = 0.0,
+   val backgroundBottomRightY: Double = 0.0,
+   val backgroundBottomLeftX: Double = 0.0,
+   val backgroundBottomLeftY: Double = 0.0
 )
 
 @Serializable
@@ -878,13 +1443,45 @@ data class UpdateStripRequest(
    val reverse: Boolean? = null
 )
 
+// ── Calibration data classes ──────────────────────────────────────────────────
+
+/**
+ * Strip being calibrated: all LEDs dark except LED 0 and LED [length] - 1.
+ */
+data class CalibrationTarget(
+   val stripId: Int,
+   val length: Int,
+   val expiresAt: Long
+)
+
+@Serializable
+data class CalibrationRequest(
+   val stripId: Int
+)
+
+@Serializable
+data class CalibrationResponse(
+   val stripId: Int,
+   val length: Int,
+   val firstColor: String,
+   val lastColor: String
+)
+
+private fun Color.toHex() = String.format("#%02x%02x%02x", r, g, b)
+
 // ── Saved Patterns API data classes ───────────────────────────────────────────
 
 @Serializable
 data class ActivePatternResponse(
    val patternName: String,
    val params: kotlinx.serialization.json.JsonObject,
-   val presetName: String? = null
+   val presetName: String? = null,
+   val modulators: Map<String, Modulator> = emptyMap(),
+   val timeline: Timeline? = null,
+   /** Seconds into [timeline], when one is playing. */
+   val timelinePosition: Float? = null,
+   /** False while the schedule has turned the strips off. */
+   val outputEnabled: Boolean = true
 )
 
 @Serializable
@@ -893,6 +1490,8 @@ data class SavedPatternResponse(
    val presetName: String,
    val patternName: String,
    val params: kotlinx.serialization.json.JsonObject,
+   val modulators: Map<String, Modulator> = emptyMap(),
+   val timeline: Timeline? = null,
    val updatedAt: Long
 )
 
@@ -900,14 +1499,19 @@ data class SavedPatternResponse(
 data class CreatePresetRequest(
    val presetName: String = "",
    val patternName: String = "",
-   val params: kotlinx.serialization.json.JsonObject = kotlinx.serialization.json.buildJsonObject {}
+   val params: kotlinx.serialization.json.JsonObject = kotlinx.serialization.json.buildJsonObject {},
+   val modulators: Map<String, Modulator> = emptyMap(),
+   val timeline: Timeline? = null
 )
 
 @Serializable
 data class UpdatePresetRequest(
    val presetName: String? = null,
    val patternName: String? = null,
-   val params: kotlinx.serialization.json.JsonObject? = null
+   val params: kotlinx.serialization.json.JsonObject? = null,
+   val modulators: Map<String, Modulator>? = null,
+   /** A timeline with no keyframes removes the preset's timeline. */
+   val timeline: Timeline? = null
 )
 
 private fun SavedPatternRow.toResponse() = SavedPatternResponse(
@@ -915,39 +1519,11 @@ private fun SavedPatternRow.toResponse() = SavedPatternResponse(
    presetName = presetName,
    patternName = patternName,
    params = params,
+   modulators = modulators,
+   timeline = timeline,
    updatedAt = updatedAt
 )
 
-private fun Map<String, Any>.mapToJsonObject(): kotlinx.serialization.json.JsonObject =
-   kotlinx.serialization.json.buildJsonObject {
-      forEach { (k, v) ->
-         when(v) {
-            is String -> put(k, v)
-            is Boolean -> put(k, v)
-            is Int -> put(k, v)
-            is Float -> put(k, v.toDouble())
-            is Double -> put(k, v)
-            else -> put(k, v.toString())
-         }
-      }
-   }
-
-private fun kotlinx.serialization.json.JsonObject.jsonObjectToMap(): Map<String, Any> {
-   val result = mutableMapOf<String, Any>()
-   forEach { (k, v) ->
-      if(v is kotlinx.serialization.json.JsonPrimitive) {
-         result[k] = when {
-            v.isString -> v.content
-            v.content == "true" -> true
-            v.content == "false" -> false
-            else -> v.doubleOrNull ?: v.content
-         }
-      }
-   }
-   return result
-}
-
-
 private fun com.timberglund.ledhost.db.StripRow.toResponse() = StripSettingResponse(
    id = id,
    btName = btName,
@@ -958,3 +1534,57 @@ private fun com.timberglund.ledhost.db.StripRow.toResponse() = StripSettingRespo
    endY = endY,
    reverse = reverse
 )
+
+// ── Playlists API data classes ────────────────────────────────────────────────
+
+@Serializable
+data class PlaylistResponse(
+   val id: Int,
+   val name: String,
+   val items: List<PlaylistItem>,
+   val updatedAt: Long
+)
+
+@Serializable
+data class CreatePlaylistRequest(
+   val name: String = "",
+   val items: List<PlaylistItem> = emptyList()
+)
+
+@Serializable
+data class UpdatePlaylistRequest(
+   val name: String? = null,
+   val items: List<PlaylistItem>? = null
+)
+
+@Serializable
+data class PlaylistPlayerResponse(
+   /** Null when no playlist is playing. */
+   val status: PlaylistStatus? = null,
+   val startupPlaylistId: Int? = null
+)
+
+@Serializable
+data class ShuffleRequest(
+   val shuffle: Boolean
+)
+
+@Serializable
+data class ScheduleOverrideRequest(
+   val action: ScheduleAction,
+   val presetId: Int? = null,
+   /** How long the override lasts, 1 minute to 24 hours. */
+   val minutes: Int
+) {
+   init {
+      require(minutes in 1..TimeOfDay.MINUTES_PER_DAY) { "minutes must be between 1 and ${TimeOfDay.MINUTES_PER_DAY}" }
+      require(action != ScheduleAction.PRESET || presetId != null) { "a preset override needs a presetId" }
+   }
+}
+
+private fun PlaylistRow.toResponse() = PlaylistResponse(
+   id = id,
+   name = name,
+   items = items,
+   updatedAt = updatedAt
+)
@@ -3,27 +3,83 @@ package com.timberglund.ledhost.web
 import com.timberglund.ledhost.viewport.Viewport
 import io.ktor.websocket.*
 import kotlinx.coroutines.channels.ClosedSendChannelException
+import kotlinx.serialization.encodeToString
+import kotlinx.serialization.json.Json
 import java.util.zip.Deflater
 
+private val qualityJson = Json { encodeDefaults = true }
+
 /**
  * Manages WebSocket connections and broadcasts viewport updates to all connected clients.
  *
- * Wire format (binary frame):
+ * Clients choose the wire format when they connect (/viewport?v=2); anything else gets v1.
+ *
+ * v1 (binary frame):
  *   Byte 0:     flags (0x00 = uncompressed, 0x01 = deflate-compressed)
  *   Bytes 1-2:  width  (big-endian unsigned 16-bit)
  *   Bytes 3-4:  height (big-endian unsigned 16-bit)
  *   Bytes 5+:   RGB pixel data (3 bytes per pixel, row-major), optionally deflate-compressed
+ *
+ * v2 (binary frame):
+ *   Byte 0:     flags, any of
+ *                 0x01 = payload is deflate-compressed
+ *                 0x02 = keyframe: payload is the full RGB frame, as in v1
+ *                 0x04 = delta: payload lists the pixel runs changed since the previous frame
+ *                 0x08 = scaled keyframe: payload is [scale:1B] then the frame downsampled by
+ *                        that factor (each pixel averages a scale x scale block)
+ *                 0x80 = extended header (always set in v2, never in v1)
+ *   Byte 1:     protocol version (2)
+ *   Bytes 2-3:  width  (big-endian unsigned 16-bit)
+ *   Bytes 4-5:  height (big-endian unsigned 16-bit)
+ *   Bytes 6-9:  frame sequence number (big-endian unsigned 32-bit, +1 per broadcast)
+ *   Bytes 10-17: render timestamp (big-endian 64-bit, ms since the epoch)
+ *   Bytes 18+:  payload, optionally deflate-compressed
+ *
+ * A delta payload is a sequence of runs, each [pixel offset:4B][pixel count:2B][RGB...].
+ * Deltas apply to the frame with the previous sequence number; a client that misses one
+ * (or has just connected) is sent a keyframe, and can ask for one with {"type":"keyframe"}.
+ *
+ * Clients can also ask for less: {"type":"quality","maxFps":10,"scale":2,"paused":false}
+ * caps their frame rate, downscales their frames (v2 only) or stops them altogether; the
+ * reply is a [ViewportQualityMessage]. Throttled and scaled clients are sent keyframes only.
  */
 class WebSocketBroadcaster {
-   private val clients = mutableListOf<WebSocketSession>()
+   private val clients = mutableListOf<ViewportClient>()
    private val lock = Any()
+   private var previousFrame: ByteArray? = null
+   private var previousWidth = 0
+   private var previousHeight = 0
+   private var sequence = 0L
+   private var framesSinceKeyframe = 0
+
+   companion object {
+      const val FLAG_DEFLATE = 0x01
+      const val FLAG_KEYFRAME = 0x02
+      const val FLAG_DELTA = 0x04
+      const val FLAG_SCALED = 0x08
+      const val FLAG_EXTENDED = 0x80
+      const val V2_HEADER_SIZE = 18
+      /** Every client gets a keyframe at least this often, even when deltas would do. */
+      const val KEYFRAME_INTERVAL = 100
+      const val MAX_SCALE = 8
+      /** Unchanged pixels shorter than this don't split a delta run; the run header costs 6 bytes. */
+      private const val RUN_MERGE_GAP = 2
+   }
+
+   private class ViewportClient(val session: WebSocketSession, val version: Int) {
+      @Volatile var needsKeyframe = true
+      @Volatile var maxFps = 0
+      @Volatile var scale = 1
+      @Volatile var paused = false
+      var lastSentAt = 0L
+   }
 
    /**
-    * Registers a new WebSocket client.
+    * Registers a new WebSocket client speaking the given protocol version (1 or 2).
     */
-   fun addClient(session: WebSocketSession) {
+   fun addClient(session: WebSocketSession, version: Int = 1) {
       synchronized(lock) {
-         clients.add(session)
+         clients.add(ViewportClient(session, if(version >= 2) 2 else 1))
       }
    }
 
@@ -32,7 +88,7 @@ class WebSocketBroadcaster {
     */
    fun removeClient(session: WebSocketSession) {
       synchronized(lock) {
-         clients.remove(session)
+         clients.removeAll { it.session == session }
       }
    }
 
@@ -46,22 +102,97 @@ class WebSocketBroadcaster {
    }
 
    /**
-    * Broadcasts the current viewport state to all connected clients.
+    * Makes the next frame sent to this client a keyframe (v2 clients only).
     */
-   suspend fun broadcastViewport(viewport: Viewport) {
-      val data = encodeViewport(viewport)
-      val message = Frame.Binary(true, data)
+   fun requestKeyframe(session: WebSocketSession) {
+      synchronized(lock) {
+         clients.firstOrNull { it.session == session }?.needsKeyframe = true
+      }
+   }
 
+   /**
+    * Applies a client's quality preferences and replies with what is actually in effect:
+    * maxFps 0 means every frame, and v1 clients can't be downscaled.
+    */
+   suspend fun setQuality(session: WebSocketSession, maxFps: Int, scale: Int, paused: Boolean) {
+      val applied = synchronized(lock) {
+         val client = clients.firstOrNull { it.session == session } ?: return
+         val effectiveScale = if(client.version < 2) 1 else scale.coerceIn(1, MAX_SCALE)
+         if(effectiveScale != client.scale) client.needsKeyframe = true
+         client.maxFps = maxFps.coerceAtLeast(0)
+         client.scale = effectiveScale
+         client.paused = paused
+         ViewportQualityMessage(maxFps = client.maxFps, scale = client.scale, paused = client.paused)
+      }
+      try {
+         session.send(Frame.Text(qualityJson.encodeToString(applied)))
+      }
+      catch(e: Exception) {
+         // Client disconnected; the next broadcast removes it
+      }
+   }
+
+   /**
+    * Broadcasts the current viewport state to all connected clients.
+    *
+    * @param renderedAt When the frame was rendered, carried in the v2 header
+    */
+   suspend fun broadcastViewport(viewport: Viewport, renderedAt: Long = System.currentTimeMillis()) {
       // Get snapshot of clients to avoid holding lock during broadcast
       val clientsSnapshot = synchronized(lock) {
          clients.toList()
       }
+      if(clientsSnapshot.isEmpty()) return
+
+      val rgbData = captureRgb(viewport)
+
+      // Work out the v2 frame against the previous broadcast, then make this one the new base
+      val (seq, delta, forceKeyframe) = synchronized(lock) {
+         val previous = previousFrame
+         val sameSize = previous != null && previousWidth == viewport.width && previousHeight == viewport.height
+         val delta = if(sameSize) encodeDelta(previous!!, rgbData) else null
+         sequence = (sequence + 1) and 0xFFFFFFFFL
+         framesSinceKeyframe++
+         val forceKeyframe = framesSinceKeyframe >= KEYFRAME_INTERVAL
+         if(forceKeyframe) framesSinceKeyframe = 0
+         previousFrame = rgbData
+         previousWidth = viewport.width
+         previousHeight = viewport.height
+         Triple(sequence, delta, forceKeyframe)
+      }
+
+      val v1Frame by lazy { Frame.Binary(true, encodeV1(viewport.width, viewport.height, rgbData)) }
+      val keyframeBytes by lazy { encodeV2(FLAG_KEYFRAME, viewport.width, viewport.height, seq, renderedAt, rgbData) }
+      val keyframe by lazy { Frame.Binary(true, keyframeBytes) }
+      // Fall back to a keyframe when the delta wouldn't be any smaller on the wire
+      val deltaFrame by lazy {
+         delta?.let { encodeV2(FLAG_DELTA, viewport.width, viewport.height, seq, renderedAt, it) }
+            ?.takeIf { it.size < keyframeBytes.size }
+            ?.let { Frame.Binary(true, it) }
+      }
+      val scaledFrames = mutableMapOf<Int, Frame>()
 
       // Broadcast to all clients, removing any that fail
-      val failedClients = mutableListOf<WebSocketSession>()
+      val failedClients = mutableListOf<ViewportClient>()
       for(client in clientsSnapshot) {
+         if(client.paused || tooSoon(client, renderedAt)) {
+            // The client won't have the previous frame for the next delta
+            client.needsKeyframe = true
+            continue
+         }
+         val message = when {
+            client.version < 2 -> v1Frame
+            client.scale > 1 -> scaledFrames.getOrPut(client.scale) {
+               Frame.Binary(true, encodeV2(FLAG_KEYFRAME or FLAG_SCALED, viewport.width, viewport.height, seq, renderedAt,
+                  downscale(rgbData, viewport.width, viewport.height, client.scale)))
+            }
+            client.needsKeyframe || client.maxFps > 0 || forceKeyframe -> keyframe
+            else -> deltaFrame ?: keyframe
+         }
          try {
-            client.send(message)
+            client.session.send(message)
+            client.lastSentAt = renderedAt
+            if(message === keyframe) client.needsKeyframe = false
          }
          catch(e: ClosedSendChannelException) {
             // Client disconnected
@@ -82,14 +213,53 @@ class WebSocketBroadcaster {
    }
 
    /**
-    * Encodes the viewport as a deflate-compressed binary frame.
-    * Format: [0x01][width:2B][height:2B][deflated RGB data...]
+    * Whether a frame-rate-capped client was sent a frame too recently. Allows 10% slack
+    * so that a cap at half the broadcast rate doesn't lose frames to timing jitter.
+    */
+   private fun tooSoon(client: ViewportClient, renderedAt: Long): Boolean {
+      if(client.maxFps <= 0) return false
+      val interval = 1000L / client.maxFps
+      return renderedAt - client.lastSentAt < interval - interval / 10
+   }
+
+   /**
+    * Builds a scaled keyframe payload: [scale:1B] followed by the frame reduced by [scale]
+    * in each direction, every output pixel the average of its block (clipped at the edges).
     */
-   private fun encodeViewport(viewport: Viewport): ByteArray {
-      val pixelCount = viewport.width * viewport.height
-      val rgbData = ByteArray(pixelCount * 3)
+   private fun downscale(rgbData: ByteArray, width: Int, height: Int, scale: Int): ByteArray {
+      val outWidth = (width + scale - 1) / scale
+      val outHeight = (height + scale - 1) / scale
+      val out = ByteArray(1 + outWidth * outHeight * 3)
+      out[0] = scale.toByte()
+      var offset = 1
+      for(oy in 0 until outHeight) {
+         for(ox in 0 until outWidth) {
+            var r = 0
+            var g = 0
+            var b = 0
+            var count = 0
+            for(y in oy * scale until minOf(height, (oy + 1) * scale)) {
+               for(x in ox * scale until minOf(width, (ox + 1) * scale)) {
+                  val i = (y * width + x) * 3
+                  r += rgbData[i].toInt() and 0xFF
+                  g += rgbData[i + 1].toInt() and 0xFF
+                  b += rgbData[i + 2].toInt() and 0xFF
+                  count++
+               }
+            }
+            out[offset++] = (r / count).toByte()
+            out[offset++] = (g / count).toByte()
+            out[offset++] = (b / count).toByte()
+         }
+      }
+      return out
+   }
 
-      // Build raw RGB pixel data
+   /**
+    * Copies the viewport into raw row-major RGB bytes.
+    */
+   private fun captureRgb(viewport: Viewport): ByteArray {
+      val rgbData = ByteArray(viewport.width * viewport.height * 3)
       var offset = 0
       for(y in 0 until viewport.height) {
          for(x in 0 until viewport.width) {
@@ -99,22 +269,97 @@ class WebSocketBroadcaster {
             rgbData[offset++] = color.b.toByte()
          }
       }
+      return rgbData
+   }
 
+   /**
+    * Encodes a v1 frame.
+    * Format: [0x01][width:2B][height:2B][deflated RGB data...]
+    */
+   private fun encodeV1(width: Int, height: Int, rgbData: ByteArray): ByteArray {
       // Compress with deflate (BEST_SPEED for minimal latency)
       val compressed = deflate(rgbData)
 
       // Assemble frame: header + compressed data
       val buffer = ByteArray(5 + compressed.size)
       buffer[0] = 0x01 // flags: deflate-compressed
-      buffer[1] = (viewport.width shr 8).toByte()
-      buffer[2] = (viewport.width and 0xFF).toByte()
-      buffer[3] = (viewport.height shr 8).toByte()
-      buffer[4] = (viewport.height and 0xFF).toByte()
+      buffer[1] = (width shr 8).toByte()
+      buffer[2] = (width and 0xFF).toByte()
+      buffer[3] = (height shr 8).toByte()
+      buffer[4] = (height and 0xFF).toByte()
       System.arraycopy(compressed, 0, buffer, 5, compressed.size)
 
       return buffer
    }
 
+   /**
+    * Encodes a v2 frame with the given kind (keyframe or delta); the payload is
+    * deflated unless that would make it bigger.
+    */
+   private fun encodeV2(kind: Int, width: Int, height: Int, seq: Long, renderedAt: Long, payload: ByteArray): ByteArray {
+      val compressed = deflate(payload)
+      val useDeflate = compressed.size < payload.size
+      val body = if(useDeflate) compressed else payload
+
+      val buffer = ByteArray(V2_HEADER_SIZE + body.size)
+      buffer[0] = (FLAG_EXTENDED or kind or (if(useDeflate) FLAG_DEFLATE else 0)).toByte()
+      buffer[1] = 2
+      buffer[2] = (width shr 8).toByte()
+      buffer[3] = (width and 0xFF).toByte()
+      buffer[4] = (height shr 8).toByte()
+      buffer[5] = (height and 0xFF).toByte()
+      for(i in 0 until 4) buffer[6 + i] = (seq shr (24 - i * 8)).toByte()
+      for(i in 0 until 8) buffer[10 + i] = (renderedAt shr (56 - i * 8)).toByte()
+      System.arraycopy(body, 0, buffer, V2_HEADER_SIZE, body.size)
+
+      return buffer
+   }
+
+   /**
+    * Builds the delta payload from [previous] to [current]: runs of changed pixels as
+    * [offset:4B][count:2B][RGB...]. Returns an empty array when nothing changed.
+    */
+   private fun encodeDelta(previous: ByteArray, current: ByteArray): ByteArray {
+      val pixelCount = current.size / 3
+      val out = java.io.ByteArrayOutputStream()
+
+      fun changed(pixel: Int): Boolean {
+         val i = pixel * 3
+         return previous[i] != current[i] || previous[i + 1] != current[i + 1] || previous[i + 2] != current[i + 2]
+      }
+
+      var pixel = 0
+      while(pixel < pixelCount) {
+         if(!changed(pixel)) {
+            pixel++
+            continue
+         }
+         // Extend the run over changed pixels and short unchanged gaps
+         val start = pixel
+         var end = pixel + 1
+         while(end < pixelCount && end - start < 0xFFFF) {
+            if(changed(end)) {
+               end++
+               continue
+            }
+            var gap = end
+            while(gap < pixelCount && gap - end < RUN_MERGE_GAP && !changed(gap)) gap++
+            if(gap < pixelCount && gap - end < RUN_MERGE_GAP && gap - start < 0xFFFF) end = gap
+            else break
+         }
+         val count = end - start
+         out.write(start shr 24)
+         out.write(start shr 16)
+         out.write(start shr 8)
+         out.write(start)
+         out.write(count shr 8)
+         out.write(count)
+         out.write(current, start * 3, count * 3)
+         pixel = end
+      }
+      return out.toByteArray()
+   }
+
    /**
     * Compresses data using deflate at BEST_SPEED level.
     */
@@ -123,7 +368,8 @@ class WebSocketBroadcaster {
       try {
          deflater.setInput(data)
          deflater.finish()
-         val output = ByteArray(data.size)
+         // Room for incompressible input: deflate can grow data by a few bytes per 16K block
+         val output = ByteArray(data.size + data.size / 1000 + 64)
          val compressedSize = deflater.deflate(output)
          return output.copyOf(compressedSize)
       } finally {
@@ -0,0 +1,116 @@
+package com.timberglund.ledhost.pattern
+
+import kotlin.random.Random
+import kotlin.test.Test
+import kotlin.test.assertEquals
+import kotlin.test.assertFailsWith
+import kotlin.test.assertFalse
+import kotlin.test.assertTrue
+
+class ModulatorTest {
+
+   private val speed = ParameterDef.FloatParam("speed", "Speed", 0f, 10f, 0.5f, 5f)
+   private val count = ParameterDef.IntParam("count", "Count", 1, 9, 2, 5)
+   private val angle = ParameterDef.AngleParam("angle", "Angle", 15f, 0f)
+   private val mode = ParameterDef.SelectParam("mode", "Mode", listOf("a", "b"), "a")
+
+   private fun modulation(vararg modulators: Pair<String, Modulator>) =
+      ParameterModulation(Random(42)).apply {
+         configure(listOf(speed, count, angle, mode), mapOf(*modulators))
+      }
+
+   @Test
+   fun `sine swings around center`() {
+      val modulation = modulation("speed" to Modulator(ModulatorShape.SINE, 1f, 2f, 5f))
+      val base = PatternParameters()
+
+      assertEquals(7f, modulation.advance(0.25f, base).get("speed", 0f))
+      assertEquals(5f, modulation.advance(0.25f, base).get("speed", 0f))
+      assertEquals(3f, modulation.advance(0.25f, base).get("speed", 0f))
+   }
+
+   @Test
+   fun `triangle and square follow their phase`() {
+      val triangle = modulation("speed" to Modulator(ModulatorShape.TRIANGLE, 1f, 4f, 5f))
+      val square = modulation("speed" to Modulator(ModulatorShape.SQUARE, 1f, 4f, 5f))
+      val base = PatternParameters()
+
+      assertEquals(7f, triangle.advance(0.125f, base).get("speed", 0f))
+      assertEquals(9f, square.advance(0.125f, base).get("speed", 0f))
+      assertEquals(1f, square.advance(0.5f, base).get("speed", 0f))
+   }
+
+   @Test
+   fun `values are clamped and snapped to the parameter`() {
+      val modulation = modulation(
+         "speed" to Modulator(ModulatorShape.SQUARE, 1f, 8f, 5f),
+         "count" to Modulator(ModulatorShape.SINE, 1f, 2.6f, 4f),
+      )
+
+      val params = modulation.advance(0.25f, PatternParameters())
+
+      assertEquals(10f, params.get("speed", 0f))
+      assertEquals(7, params.get("count", 0))
+   }
+
+   @Test
+   fun `angles wrap instead of clamping`() {
+      val modulation = modulation("angle" to Modulator(ModulatorShape.SQUARE, 1f, 40f, 340f))
+
+      assertEquals(15f, modulation.advance(0.1f, PatternParameters()).get("angle", 0f))
+   }
+
+   @Test
+   fun `random shapes stay within depth`() {
+      val modulation = modulation(
+         "speed" to Modulator(ModulatorShape.RANDOM_WALK, 5f, 2f, 5f),
+         "count" to Modulator(ModulatorShape.SAMPLE_AND_HOLD, 5f, 4f, 5f),
+      )
+
+      repeat(500) {
+         val params = modulation.advance(1f / 60f, PatternParameters())
+         assertTrue(params.get("speed", 0f) in 3f..7f)
+         assertTrue(params.get("count", 0) in 1..9)
+      }
+   }
+
+   @Test
+   fun `unmodulated parameters keep their values`() {
+      val modulation = modulation("speed" to Modulator(ModulatorShape.SINE, 1f, 1f, 5f))
+      val base = PatternParameters().apply {
+         set("speed", 2f)
+         set("count", 3)
+      }
+
+      val params = modulation.advance(0.1f, base)
+
+      assertEquals(3, params.get("count", 0))
+      assertEquals(2f, base.get("speed", 0f))
+   }
+
+   @Test
+   fun `ignores non-numeric and unknown parameters`() {
+      val modulation = modulation(
+         "mode" to Modulator(ModulatorShape.SINE, 1f, 1f, 0f),
+         "missing" to Modulator(ModulatorShape.SINE, 1f, 1f, 0f),
+      )
+
+      assertFalse(modulation.isActive)
+   }
+
+   @Test
+   fun `retuning a modulator keeps its phase`() {
+      val modulation = modulation("speed" to Modulator(ModulatorShape.SQUARE, 1f, 1f, 5f))
+      modulation.advance(0.6f, PatternParameters())
+
+      modulation.configure(listOf(speed), mapOf("speed" to Modulator(ModulatorShape.SQUARE, 1f, 2f, 5f)))
+
+      assertEquals(3f, modulation.advance(0.1f, PatternParameters()).get("speed", 0f))
+   }
+
+   @Test
+   fun `rejects out of range rate and negative depth`() {
+      assertFailsWith<IllegalArgumentException> { Modulator(ModulatorShape.SINE, 0f, 1f, 0f) }
+      assertFailsWith<IllegalArgumentException> { Modulator(ModulatorShape.SINE, 1f, -1f, 0f) }
+   }
+}
@@ -0,0 +1,54 @@
+package com.timberglund.ledhost.pattern
+
+import com.timberglund.ledhost.viewport.Color
+import kotlin.test.Test
+import kotlin.test.assertEquals
+import kotlin.test.assertNull
+
+class PaletteTest {
+
+   @Test
+   fun `blends between neighbouring stops`() {
+      val palette = Palette.fromStops(listOf(
+         PaletteStop(0f, "#000000"),
+         PaletteStop(0.5f, "#ff0000"),
+         PaletteStop(1f, "#ff00ff"),
+      ))!!
+
+      assertEquals(Color(128, 0, 0), palette.colorAt(0.25f))
+      assertEquals(Color(255, 0, 0), palette.colorAt(0.5f))
+      assertEquals(Color(255, 0, 128), palette.colorAt(0.75f))
+   }
+
+   @Test
+   fun `holds end colors outside the stops`() {
+      val palette = Palette.fromStops(listOf(
+         PaletteStop(0.8f, "#0000ff"),
+         PaletteStop(0.2f, "#ff0000"),
+      ))!!
+
+      assertEquals(Color.RED, palette.colorAt(0f))
+      assertEquals(Color.BLUE, palette.colorAt(1f))
+   }
+
+   @Test
+   fun `skips stops with malformed colors`() {
+      val palette = Palette.fromStops(listOf(
+         PaletteStop(0f, "red"),
+         PaletteStop(1f, "#00ff00"),
+      ))!!
+
+      assertEquals(Color.GREEN, palette.colorAt(0f))
+      assertNull(Palette.fromStops(listOf(PaletteStop(0f, "red"))))
+   }
+
+   @Test
+   fun `reads palette parameter with default fallback`() {
+      val fallback = Palette.twoColor(Color.BLACK, Color.WHITE)
+      val params = PatternParameters()
+      params.set("palette", listOf(PaletteStop(0f, "#ff0000"), PaletteStop(1f, "#0000ff")))
+
+      assertEquals(Color.RED, params.getPalette("palette", fallback).colorAt(0f))
+      assertEquals(Color.BLACK, params.getPalette("missing", fallback).colorAt(0f))
+   }
+}
@@ -0,0 +1,63 @@
+package com.timberglund.ledhost.pattern
+
+import kotlinx.serialization.json.Json
+import kotlinx.serialization.json.JsonObject
+import kotlin.test.Test
+import kotlin.test.assertEquals
+import kotlin.test.assertFalse
+
+class ParamJsonTest {
+
+   private fun parse(json: String): Map<String, Any> =
+      (Json.parseToJsonElement(json) as JsonObject).toParamValues()
+
+   @Test
+   fun `converts scalar and range values`() {
+      val values = parse("""{"color":"#ff00001f","on":true,"speed":1.5,"hue":[30,90]}""")
+
+      assertEquals("#ff00001f", values["color"])
+      assertEquals(true, values["on"])
+      assertEquals(1.5, values["speed"])
+      assertEquals(listOf(30.0, 90.0), values["hue"])
+   }
+
+   @Test
+   fun `drops unsupported values`() {
+      val values = parse("""{"nested":{"a":1},"mixed":[1,"two"],"nothing":null}""")
+
+      assertFalse(values.containsKey("nested"))
+      assertFalse(values.containsKey("mixed"))
+      assertFalse(values.containsKey("nothing"))
+   }
+
+   @Test
+   fun `round trips through json`() {
+      val values = parse("""{"color":"#00ff001f","on":false,"angle":270,"hue":[0.5,2.5]}""")
+
+      assertEquals(values, values.toParamJsonObject().toParamValues())
+   }
+
+   @Test
+   fun `builds pattern parameters with native types`() {
+      val params = parse("""{"on":true,"angle":-90,"hue":[300,60]}""").toPatternParameters()
+
+      assertEquals(true, params.get("on", false))
+      assertEquals(270f, params.getAngle("angle", 0f))
+      assertEquals(60f to 300f, params.getRange("hue", 0f to 360f))
+   }
+
+   @Test
+   fun `converts palette stops and round trips them`() {
+      val values = parse("""{"palette":[{"position":0,"color":"#0000ff1f"},{"position":0.5,"color":"#ff00001f"}]}""")
+
+      assertEquals(listOf(PaletteStop(0f, "#0000ff1f"), PaletteStop(0.5f, "#ff00001f")), values["palette"])
+      assertEquals(values, values.toParamJsonObject().toParamValues())
+   }
+
+   @Test
+   fun `drops palettes with malformed stops`() {
+      val values = parse("""{"palette":[{"position":0,"color":"#0000ff1f"},{"position":"half","color":"#ff00001f"}]}""")
+
+      assertFalse(values.containsKey("palette"))
+   }
+}
@@ -115,4 +115,40 @@ class PatternParametersTest {
 
       assertTrue(params.keys().isEmpty())
    }
+
+   @Test
+   fun `gets range parameter low end first`() {
+      val params = PatternParameters()
+      params.set("hue", listOf(300f, 60f))
+
+      assertEquals(60f to 300f, params.getRange("hue", 0f to 360f))
+   }
+
+   @Test
+   fun `returns default for malformed range`() {
+      val params = PatternParameters()
+      params.set("hue", listOf(1f, 2f, 3f))
+
+      assertEquals(0f to 360f, params.getRange("hue", 0f to 360f))
+      assertEquals(0f to 360f, params.getRange("missing", 0f to 360f))
+   }
+
+   @Test
+   fun `wraps angle parameter into a full turn`() {
+      val params = PatternParameters()
+      params.set("angle", -90f)
+      assertEquals(270f, params.getAngle("angle", 0f))
+
+      params.set("angle", 450f)
+      assertEquals(90f, params.getAngle("angle", 0f))
+   }
+
+   @Test
+   fun `gets point parameter in stored order`() {
+      val params = PatternParameters()
+      params.set("center", listOf(40f, 12f))
+
+      assertEquals(40f to 12f, params.getPoint("center", 0f to 0f))
+      assertEquals(8f to 4f, params.getPoint("missing", 8f to 4f))
+   }
 }
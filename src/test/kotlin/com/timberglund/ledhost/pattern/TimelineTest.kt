@@ -0,0 +1,131 @@
+package com.timberglund.ledhost.pattern
+
+import kotlinx.serialization.json.JsonPrimitive
+import kotlinx.serialization.json.buildJsonArray
+import kotlinx.serialization.json.add
+import kotlin.test.Test
+import kotlin.test.assertEquals
+import kotlin.test.assertFailsWith
+
+class TimelineTest {
+
+   private val speed = ParameterDef.FloatParam("speed", "Speed", 0f, 10f, 0.5f, 5f)
+   private val count = ParameterDef.IntParam("count", "Count", 1, 9, 1, 5)
+   private val angle = ParameterDef.AngleParam("angle", "Angle", 1f, 0f)
+   private val color = ParameterDef.ColorParam("color", "Color", "#ff0000")
+   private val mode = ParameterDef.SelectParam("mode", "Mode", listOf("a", "b"), "a")
+   private val span = ParameterDef.RangeParam("span", "Span", 0f, 10f, 1f, listOf(2f, 8f))
+
+   private val parameters = listOf(speed, count, angle, color, mode, span)
+
+   private fun key(time: Float, value: Number, easing: Easing = Easing.LINEAR) =
+      Keyframe(time, JsonPrimitive(value), easing)
+
+   private fun key(time: Float, value: String) = Keyframe(time, JsonPrimitive(value))
+
+   private fun playback(vararg lanes: Pair<String, List<Keyframe>>, duration: Float = 4f, loop: Boolean = true) =
+      TimelinePlayback(Timeline(duration, loop, mapOf(*lanes)), parameters)
+
+   @Test
+   fun `easings start at zero and end at one`() {
+      Easing.entries.filter { it != Easing.STEP }.forEach { easing ->
+         assertEquals(0f, easing.apply(0f), "$easing at 0")
+         assertEquals(1f, easing.apply(1f), "$easing at 1")
+      }
+      assertEquals(0f, Easing.STEP.apply(0.99f))
+   }
+
+   @Test
+   fun `numbers move linearly between keyframes and hold outside them`() {
+      val playback = playback("speed" to listOf(key(1f, 2), key(3f, 6)))
+      val base = PatternParameters()
+
+      assertEquals(2f, playback.valuesAt(0f, base).get("speed", 0f))
+      assertEquals(4f, playback.valuesAt(2f, base).get("speed", 0f))
+      assertEquals(6f, playback.valuesAt(3.5f, base).get("speed", 0f))
+   }
+
+   @Test
+   fun `values are clamped and ints rounded`() {
+      val playback = playback(
+         "speed" to listOf(key(0f, 20)),
+         "count" to listOf(key(0f, 1), key(4f, 4)),
+      )
+
+      val params = playback.valuesAt(1f, PatternParameters())
+
+      assertEquals(10f, params.get("speed", 0f))
+      assertEquals(2, params.get("count", 0))
+   }
+
+   @Test
+   fun `easing shapes the segment it starts`() {
+      val playback = playback("speed" to listOf(key(0f, 0, Easing.EASE_IN), key(2f, 8)))
+
+      assertEquals(1f, playback.valuesAt(1f, PatternParameters()).get("speed", 0f))
+   }
+
+   @Test
+   fun `angles turn the short way round`() {
+      val playback = playback("angle" to listOf(key(0f, 350), key(2f, 10)))
+
+      assertEquals(0f, playback.valuesAt(1f, PatternParameters()).get("angle", -1f))
+   }
+
+   @Test
+   fun `colors blend and selects step`() {
+      val playback = playback(
+         "color" to listOf(key(0f, "#ff000010"), key(2f, "#0000ff10")),
+         "mode" to listOf(key(0f, "a"), key(2f, "b")),
+      )
+      val base = PatternParameters()
+
+      assertEquals("#ff000010", playback.valuesAt(0f, base).get("color", ""))
+      assertEquals("#0000ff10", playback.valuesAt(2f, base).get("color", ""))
+      assertEquals("a", playback.valuesAt(1.9f, base).get("mode", ""))
+      assertEquals("b", playback.valuesAt(2f, base).get("mode", ""))
+   }
+
+   @Test
+   fun `ranges move both ends`() {
+      val low = buildJsonArray { add(0); add(4) }
+      val high = buildJsonArray { add(4); add(10) }
+      val playback = playback("span" to listOf(Keyframe(0f, low), Keyframe(2f, high)))
+
+      assertEquals(2f to 7f, playback.valuesAt(1f, PatternParameters()).getRange("span", 0f to 0f))
+   }
+
+   @Test
+   fun `looping starts over and one-shot holds the end`() {
+      val lane = "speed" to listOf(key(0f, 0), key(4f, 8))
+      val looping = playback(lane)
+      val oneShot = playback(lane, loop = false)
+      val base = PatternParameters()
+
+      assertEquals(2f, looping.advance(5f, base).get("speed", -1f))
+      assertEquals(1f, looping.position)
+      assertEquals(8f, oneShot.advance(5f, base).get("speed", -1f))
+      assertEquals(4f, oneShot.position)
+   }
+
+   @Test
+   fun `ignores unknown parameters and values of the wrong type`() {
+      val playback = playback(
+         "missing" to listOf(key(0f, 1)),
+         "speed" to listOf(key(0f, "fast")),
+      )
+      val base = PatternParameters().apply { set("speed", 3f) }
+
+      val params = playback.valuesAt(1f, base)
+
+      assertEquals(3f, params.get("speed", 0f))
+      assertEquals(setOf("speed"), params.keys())
+   }
+
+   @Test
+   fun `rejects bad durations and keyframes outside the timeline`() {
+      assertFailsWith<IllegalArgumentException> { Timeline(0f) }
+      assertFailsWith<IllegalArgumentException> { Timeline(Timeline.MAX_DURATION + 1f) }
+      assertFailsWith<IllegalArgumentException> { Timeline(2f, lanes = mapOf("speed" to listOf(key(3f, 1)))) }
+   }
+}
@@ -0,0 +1,146 @@
+package com.timberglund.ledhost.playlist
+
+import com.timberglund.ledhost.db.PlaylistRow
+import com.timberglund.ledhost.db.SavedPatternRow
+import com.timberglund.ledhost.renderer.Transition
+import com.timberglund.ledhost.renderer.TransitionType
+import kotlinx.coroutines.ExperimentalCoroutinesApi
+import kotlinx.coroutines.test.TestScope
+import kotlinx.coroutines.test.advanceTimeBy
+import kotlinx.coroutines.test.runCurrent
+import kotlinx.coroutines.test.runTest
+import kotlinx.serialization.json.buildJsonObject
+import kotlin.random.Random
+import kotlin.test.Test
+import kotlin.test.assertEquals
+import kotlin.test.assertFalse
+import kotlin.test.assertNotEquals
+import kotlin.test.assertNull
+
+@OptIn(ExperimentalCoroutinesApi::class)
+class PlaylistPlayerTest {
+
+   private val presets = mutableMapOf(
+      1 to preset(1, "Dawn"),
+      2 to preset(2, "Noon"),
+      3 to preset(3, "Dusk")
+   )
+
+   private val shown = mutableListOf<Pair<String, Transition>>()
+
+   private fun preset(id: Int, name: String) =
+      SavedPatternRow(id = id, presetName = name, patternName = "Rainbow", params = buildJsonObject {}, updatedAt = 0L)
+
+   private fun playlist(vararg items: PlaylistItem) = PlaylistRow(id = 7, name = "Day", items = items.toList(), updatedAt = 0L)
+
+   private fun TestScope.player(random: Random = Random(1)) = PlaylistPlayer(
+      scope = backgroundScope,
+      findPreset = { presets[it] },
+      show = { preset, transition -> shown += preset.presetName to transition },
+      clock = { testScheduler.currentTime },
+      random = random
+   )
+
+   private fun TestScope.advanceSeconds(seconds: Int) {
+      advanceTimeBy(seconds * 1000L)
+      runCurrent()
+   }
+
+   private val names get() = shown.map { it.first }
+
+   @Test
+   fun `items play in order for their duration and loop`() = runTest {
+      val player = player()
+      player.play(playlist(PlaylistItem(1, 10f), PlaylistItem(2, 5f)))
+
+      assertEquals(listOf("Dawn"), names)
+      advanceSeconds(10)
+      assertEquals(listOf("Dawn", "Noon"), names)
+      advanceSeconds(5)
+      assertEquals(listOf("Dawn", "Noon", "Dawn"), names)
+   }
+
+   @Test
+   fun `each item comes in with its own transition`() = runTest {
+      val fade = Transition(TransitionType.CROSSFADE, 2f)
+      val player = player()
+      player.play(playlist(PlaylistItem(1, 10f), PlaylistItem(2, 10f, fade)))
+      advanceSeconds(10)
+
+      assertEquals(Transition(), shown[0].second)
+      assertEquals(fade, shown[1].second)
+   }
+
+   @Test
+   fun `pause holds the countdown until resumed`() = runTest {
+      val player = player()
+      player.play(playlist(PlaylistItem(1, 10f), PlaylistItem(2, 10f)))
+      advanceSeconds(4)
+      player.pause()
+      advanceSeconds(60)
+
+      assertEquals(listOf("Dawn"), names)
+      assertEquals(6f, player.status()?.remaining)
+
+      player.resume()
+      advanceSeconds(6)
+      assertEquals(listOf("Dawn", "Noon"), names)
+   }
+
+   @Test
+   fun `next and previous step through the playlist`() = runTest {
+      val player = player()
+      player.play(playlist(PlaylistItem(1, 10f), PlaylistItem(2, 10f), PlaylistItem(3, 10f)))
+
+      player.next()
+      player.next()
+      player.previous()
+
+      assertEquals(listOf("Dawn", "Noon", "Dusk", "Noon"), names)
+      val status = player.status()!!
+      assertEquals(1, status.index)
+      assertEquals("Dusk", status.next)
+      assertEquals(10f, status.remaining)
+   }
+
+   @Test
+   fun `items whose preset is gone are skipped`() = runTest {
+      presets.remove(2)
+      val player = player()
+      player.play(playlist(PlaylistItem(1, 10f), PlaylistItem(2, 10f), PlaylistItem(3, 10f)))
+      advanceSeconds(10)
+
+      assertEquals(listOf("Dawn", "Dusk"), names)
+   }
+
+   @Test
+   fun `a playlist with nothing to show does not play`() = runTest {
+      presets.clear()
+      val player = player()
+
+      assertFalse(player.play(playlist(PlaylistItem(1, 10f))))
+      assertFalse(player.play(playlist()))
+      assertNull(player.status())
+   }
+
+   @Test
+   fun `shuffle never repeats the showing item`() = runTest {
+      val player = player(Random(42))
+      player.setShuffle(true)
+      player.play(playlist(PlaylistItem(1, 1f), PlaylistItem(2, 1f), PlaylistItem(3, 1f)))
+      advanceSeconds(20)
+
+      names.zipWithNext().forEach { (a, b) -> assertNotEquals(a, b) }
+   }
+
+   @Test
+   fun `removing the playing playlist stops it`() = runTest {
+      val player = player()
+      player.play(playlist(PlaylistItem(1, 10f), PlaylistItem(2, 10f)))
+      player.remove(7)
+      advanceSeconds(30)
+
+      assertEquals(listOf("Dawn"), names)
+      assertNull(player.status())
+   }
+}
@@ -0,0 +1,69 @@
+package com.timberglund.ledhost.renderer
+
+import com.timberglund.ledhost.viewport.ArrayViewport
+import com.timberglund.ledhost.viewport.Color
+import kotlin.test.Test
+import kotlin.test.assertEquals
+import kotlin.test.assertFailsWith
+import kotlin.test.assertFalse
+import kotlin.test.assertTrue
+
+class TransitionTest {
+
+   private val black = Color(0, 0, 0)
+   private val white = Color(255, 255, 255)
+
+   /** A viewport showing the outgoing look, all black, and a blend started from it. */
+   private fun blendFromBlack(transition: Transition): Pair<ArrayViewport, TransitionBlend> {
+      val viewport = ArrayViewport(20, 2)
+      viewport.fill(black)
+      return viewport to TransitionBlend(transition, viewport)
+   }
+
+   @Test
+   fun `only fades and wipes with a length are gradual`() {
+      assertFalse(Transition().isGradual)
+      assertFalse(Transition(TransitionType.CUT, 2f).isGradual)
+      assertFalse(Transition(TransitionType.CROSSFADE, 0f).isGradual)
+      assertTrue(Transition(TransitionType.WIPE, 1f).isGradual)
+      assertFailsWith<IllegalArgumentException> { Transition(TransitionType.CROSSFADE, -1f) }
+   }
+
+   @Test
+   fun `crossfade mixes the whole frame evenly`() {
+      val (viewport, blend) = blendFromBlack(Transition(TransitionType.CROSSFADE, 2f))
+
+      viewport.fill(white)
+      blend.apply(viewport, 1f)
+
+      assertEquals(0.5f, blend.progress)
+      assertEquals(Color.blend(black, white, 0.5f), viewport.getPixel(0, 0))
+      assertEquals(Color.blend(black, white, 0.5f), viewport.getPixel(19, 1))
+      assertFalse(blend.isDone)
+   }
+
+   @Test
+   fun `wipe brings the new look in from the left`() {
+      val (viewport, blend) = blendFromBlack(Transition(TransitionType.WIPE, 2f))
+
+      viewport.fill(white)
+      blend.apply(viewport, 1f)
+
+      assertEquals(white, viewport.getPixel(0, 0))
+      assertEquals(black, viewport.getPixel(19, 0))
+   }
+
+   @Test
+   fun `blend is done once the transition has run its length`() {
+      val (viewport, blend) = blendFromBlack(Transition(TransitionType.CROSSFADE, 1f))
+
+      viewport.fill(white)
+      blend.apply(viewport, 0.6f)
+      viewport.fill(white)
+      blend.apply(viewport, 0.6f)
+
+      assertTrue(blend.isDone)
+      assertEquals(1f, blend.progress)
+      assertEquals(white, viewport.getPixel(5, 1))
+   }
+}
@@ -0,0 +1,121 @@
+package com.timberglund.ledhost.schedule
+
+import java.time.LocalDate
+import java.time.LocalTime
+import java.time.ZoneOffset
+import java.time.ZonedDateTime
+import kotlin.test.Test
+import kotlin.test.assertEquals
+import kotlin.test.assertFailsWith
+import kotlin.test.assertNull
+
+class ScheduleCalendarTest {
+
+   private val zone = ZoneOffset.UTC
+
+   // 2024-06-03 is a Monday
+   private fun at(date: String, time: String) = ZonedDateTime.of(LocalDate.parse(date), LocalTime.parse(time), zone)
+
+   private fun clock(hours: Int, minutes: Int = 0) = TimeOfDay(TimeAnchor.CLOCK, hours * 60 + minutes)
+
+   private fun rule(start: TimeOfDay, end: TimeOfDay,
+                    days: Set<Int> = emptySet(),
+                    from: String? = null,
+                    until: String? = null,
+                    enabled: Boolean = true) =
+      ScheduleRule(presetId = 1, start = start, end = end, days = days, from = from, until = until, enabled = enabled)
+
+   private fun calendar(vararg rules: ScheduleRule, latitude: Double? = null, longitude: Double? = null) =
+      ScheduleCalendar(Schedule(latitude = latitude, longitude = longitude, rules = rules.toList()), zone)
+
+   @Test
+   fun `the first rule wins where windows overlap`() {
+      val calendar = calendar(rule(clock(12), clock(13)), rule(clock(9), clock(17)))
+
+      assertEquals(0, calendar.ruleAt(at("2024-06-03", "12:30")))
+      assertEquals(1, calendar.ruleAt(at("2024-06-03", "10:00")))
+      assertEquals(1, calendar.ruleAt(at("2024-06-03", "13:00")))
+      assertNull(calendar.ruleAt(at("2024-06-03", "17:00")))
+   }
+
+   @Test
+   fun `a window that ends before it starts runs past midnight`() {
+      val calendar = calendar(rule(clock(22), clock(6), days = setOf(1)))
+
+      assertEquals(0, calendar.ruleAt(at("2024-06-03", "23:00")))
+      assertEquals(0, calendar.ruleAt(at("2024-06-04", "02:00")))
+      assertNull(calendar.ruleAt(at("2024-06-04", "23:00")))
+   }
+
+   @Test
+   fun `a window that ends when it starts lasts all day`() {
+      val calendar = calendar(rule(clock(8), clock(8), days = setOf(1)))
+
+      assertEquals(0, calendar.ruleAt(at("2024-06-03", "08:00")))
+      assertEquals(0, calendar.ruleAt(at("2024-06-04", "07:59")))
+      assertNull(calendar.ruleAt(at("2024-06-04", "08:00")))
+   }
+
+   @Test
+   fun `date limits are inclusive`() {
+      val calendar = calendar(rule(clock(9), clock(17), from = "2024-06-04", until = "2024-06-05"))
+
+      assertNull(calendar.ruleAt(at("2024-06-03", "10:00")))
+      assertEquals(0, calendar.ruleAt(at("2024-06-04", "10:00")))
+      assertEquals(0, calendar.ruleAt(at("2024-06-05", "10:00")))
+      assertNull(calendar.ruleAt(at("2024-06-06", "10:00")))
+   }
+
+   @Test
+   fun `disabled rules and schedules are left out`() {
+      val disabledRule = calendar(rule(clock(9), clock(17), enabled = false), rule(clock(9), clock(17)))
+      assertEquals(1, disabledRule.ruleAt(at("2024-06-03", "10:00")))
+
+      val disabled = ScheduleCalendar(Schedule(enabled = false, rules = listOf(rule(clock(9), clock(17)))), zone)
+      assertNull(disabled.ruleAt(at("2024-06-03", "10:00")))
+   }
+
+   @Test
+   fun `sun times need a location`() {
+      val evening = rule(TimeOfDay(TimeAnchor.SUNSET, -30), clock(23))
+
+      assertNull(calendar(evening).ruleAt(at("2024-06-03", "21:00")))
+
+      // Sunset in London on 2024-06-03 is about 20:10 UTC
+      val london = calendar(evening, latitude = 51.5074, longitude = -0.1278)
+      assertNull(london.ruleAt(at("2024-06-03", "19:30")))
+      assertEquals(0, london.ruleAt(at("2024-06-03", "19:50")))
+   }
+
+   @Test
+   fun `next change is when the rule in effect changes`() {
+      val calendar = calendar(rule(clock(9), clock(12)), rule(clock(9), clock(17)))
+
+      assertEquals(at("2024-06-03", "12:00"), calendar.nextChange(at("2024-06-03", "10:00")))
+      assertEquals(at("2024-06-03", "17:00"), calendar.nextChange(at("2024-06-03", "12:00")))
+      assertEquals(at("2024-06-04", "09:00"), calendar.nextChange(at("2024-06-03", "18:00")))
+      assertNull(calendar().nextChange(at("2024-06-03", "18:00")))
+   }
+
+   @Test
+   fun `the week view splits windows at midnight`() {
+      val calendar = calendar(rule(clock(22), clock(6), days = setOf(7)))
+
+      // The window opening on the Sunday before runs into this Monday
+      assertEquals(
+         listOf(CalendarBlock(day = 0, start = 0, end = 360, rule = 0),
+                CalendarBlock(day = 6, start = 1320, end = 1440, rule = 0)),
+         calendar.week(at("2024-06-05", "12:00"))
+      )
+      assertEquals(LocalDate.parse("2024-06-03"), calendar.weekStart(at("2024-06-09", "23:00")))
+   }
+
+   @Test
+   fun `rules are checked when made`() {
+      assertFailsWith<IllegalArgumentException> { ScheduleRule(action = ScheduleAction.PRESET) }
+      assertFailsWith<IllegalArgumentException> { ScheduleRule(action = ScheduleAction.OFF, days = setOf(8)) }
+      assertFailsWith<IllegalArgumentException> { ScheduleRule(action = ScheduleAction.OFF, from = "June") }
+      assertFailsWith<IllegalArgumentException> { TimeOfDay(TimeAnchor.CLOCK, 1440) }
+      assertFailsWith<IllegalArgumentException> { Schedule(latitude = 51.5) }
+   }
+}
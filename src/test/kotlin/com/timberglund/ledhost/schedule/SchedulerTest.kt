@@ -0,0 +1,189 @@
+package com.timberglund.ledhost.schedule
+
+import com.timberglund.ledhost.db.SavedPatternRow
+import kotlinx.coroutines.ExperimentalCoroutinesApi
+import kotlinx.coroutines.test.TestScope
+import kotlinx.coroutines.test.advanceTimeBy
+import kotlinx.coroutines.test.runCurrent
+import kotlinx.coroutines.test.runTest
+import kotlinx.serialization.json.buildJsonObject
+import java.time.LocalDate
+import java.time.ZoneOffset
+import kotlin.test.Test
+import kotlin.test.assertEquals
+import kotlin.test.assertNull
+
+@OptIn(ExperimentalCoroutinesApi::class)
+class SchedulerTest {
+
+   private val presets = mapOf(
+      1 to preset(1, "Warm"),
+      2 to preset(2, "Lively")
+   )
+
+   // Names of the presets applied, with "off" for turning output off and "restored"
+   // for bringing back what an override replaced
+   private val applied = mutableListOf<String>()
+
+   // Midnight at the start of Monday 2024-06-03
+   private val monday = LocalDate.of(2024, 6, 3).atStartOfDay(ZoneOffset.UTC).toInstant().toEpochMilli()
+
+   private fun preset(id: Int, name: String) =
+      SavedPatternRow(id = id, presetName = name, patternName = "Rainbow", params = buildJsonObject {}, updatedAt = 0L)
+
+   private fun clock(hours: Int) = TimeOfDay(TimeAnchor.CLOCK, hours * 60)
+
+   private val officeDay = Schedule(rules = listOf(
+      ScheduleRule(name = "Lunch", presetId = 2, start = clock(12), end = clock(13)),
+      ScheduleRule(name = "Morning", presetId = 1, start = clock(7), end = clock(17)),
+      ScheduleRule(name = "Night", action = ScheduleAction.OFF, start = clock(22), end = clock(7))
+   ))
+
+   private fun TestScope.scheduler(startHour: Int) = Scheduler(
+      scope = backgroundScope,
+      findPreset = { presets[it] },
+      apply = { applied += it?.presetName ?: "off" },
+      capture = { { applied += "restored" } },
+      zone = ZoneOffset.UTC,
+      clock = { monday + startHour * HOUR + testScheduler.currentTime }
+   )
+
+   private fun TestScope.advanceHours(hours: Int) {
+      advanceTimeBy(hours * HOUR)
+      runCurrent()
+   }
+
+   @Test
+   fun `each rule is applied as it comes into effect`() = runTest {
+      val scheduler = scheduler(startHour = 0)
+      scheduler.setSchedule(officeDay)
+      scheduler.start()
+      runCurrent()
+      assertEquals(listOf("off"), applied)
+
+      advanceHours(7)
+      assertEquals(listOf("off", "Warm"), applied)
+      advanceHours(5)
+      assertEquals(listOf("off", "Warm", "Lively"), applied)
+      advanceHours(1)
+      assertEquals(listOf("off", "Warm", "Lively", "Warm"), applied)
+      // Nothing is in effect from 17:00 until 22:00, so the look is left alone
+      advanceHours(4)
+      assertEquals(listOf("off", "Warm", "Lively", "Warm"), applied)
+      advanceHours(5)
+      assertEquals(listOf("off", "Warm", "Lively", "Warm", "off"), applied)
+   }
+
+   @Test
+   fun `nothing is applied before the scheduler starts`() = runTest {
+      val scheduler = scheduler(startHour = 8)
+      scheduler.setSchedule(officeDay)
+      advanceHours(1)
+
+      assertEquals(emptyList<String>(), applied)
+   }
+
+   @Test
+   fun `a new schedule only applies what has changed`() = runTest {
+      val scheduler = scheduler(startHour = 8)
+      scheduler.setSchedule(officeDay)
+      scheduler.start()
+      runCurrent()
+
+      scheduler.setSchedule(officeDay.copy(rules = officeDay.rules.map { it.copy(name = it.name.uppercase()) }))
+      runCurrent()
+      assertEquals(listOf("Warm"), applied)
+
+      scheduler.setSchedule(officeDay.copy(rules = listOf(officeDay.rules[1].copy(presetId = 2))))
+      runCurrent()
+      assertEquals(listOf("Warm", "Lively"), applied)
+   }
+
+   @Test
+   fun `an override wins until it expires`() = runTest {
+      val scheduler = scheduler(startHour = 8)
+      scheduler.setSchedule(officeDay)
+      scheduler.start()
+      runCurrent()
+
+      scheduler.setOverride(ScheduleOverride(ScheduleAction.OFF, until = monday + 8 * HOUR + HOUR / 2))
+      runCurrent()
+      assertEquals(listOf("Warm", "off"), applied)
+      assertEquals(monday + 8 * HOUR + HOUR / 2, scheduler.state().nextChange)
+
+      advanceTimeBy(HOUR / 2)
+      runCurrent()
+      assertEquals(listOf("Warm", "off", "Warm"), applied)
+      assertNull(scheduler.state().override)
+   }
+
+   @Test
+   fun `clearing the override hands back to the schedule`() = runTest {
+      val scheduler = scheduler(startHour = 8)
+      scheduler.setSchedule(officeDay)
+      scheduler.start()
+      scheduler.setOverride(ScheduleOverride(ScheduleAction.PRESET, presetId = 2, until = monday + 10 * HOUR))
+      runCurrent()
+      assertEquals(listOf("Lively"), applied)
+
+      scheduler.setOverride(null)
+      runCurrent()
+      assertEquals(listOf("Lively", "Warm"), applied)
+   }
+
+   @Test
+   fun `an override expiring outside every rule brings back what it replaced`() = runTest {
+      val scheduler = scheduler(startHour = 18)
+      scheduler.setSchedule(officeDay)
+      scheduler.start()
+      runCurrent()
+      assertEquals(emptyList<String>(), applied)
+
+      scheduler.setOverride(ScheduleOverride(ScheduleAction.OFF, until = monday + 18 * HOUR + HOUR / 2))
+      runCurrent()
+      assertEquals(listOf("off"), applied)
+
+      advanceTimeBy(HOUR / 2)
+      runCurrent()
+      assertEquals(listOf("off", "restored"), applied)
+      assertNull(scheduler.state().override)
+
+      // Nothing more happens until the next rule comes into effect
+      advanceHours(3)
+      assertEquals(listOf("off", "restored"), applied)
+      advanceHours(1)
+      assertEquals(listOf("off", "restored", "off"), applied)
+   }
+
+   @Test
+   fun `clearing an override outside every rule brings back what was showing before the first one`() = runTest {
+      val scheduler = scheduler(startHour = 18)
+      scheduler.setSchedule(officeDay)
+      scheduler.start()
+      scheduler.setOverride(ScheduleOverride(ScheduleAction.PRESET, presetId = 2, until = monday + 20 * HOUR))
+      runCurrent()
+      scheduler.setOverride(ScheduleOverride(ScheduleAction.PRESET, presetId = 1, until = monday + 20 * HOUR))
+      runCurrent()
+      assertEquals(listOf("Lively", "Warm"), applied)
+
+      scheduler.setOverride(null)
+      runCurrent()
+      assertEquals(listOf("Lively", "Warm", "restored"), applied)
+   }
+
+   @Test
+   fun `state reports the rule in effect and the next change`() = runTest {
+      val scheduler = scheduler(startHour = 8)
+      scheduler.setSchedule(officeDay)
+
+      val state = scheduler.state()
+      assertEquals(1, state.activeRule)
+      assertEquals(monday + 12 * HOUR, state.nextChange)
+      assertEquals("2024-06-03", state.weekStart)
+      assertEquals("Z", state.timeZone)
+   }
+
+   companion object {
+      private const val HOUR = 3_600_000L
+   }
+}
@@ -0,0 +1,37 @@
+package com.timberglund.ledhost.schedule
+
+import java.time.Duration
+import java.time.Instant
+import java.time.LocalDate
+import kotlin.test.Test
+import kotlin.test.assertNotNull
+import kotlin.test.assertNull
+import kotlin.test.assertTrue
+
+class SunTest {
+
+   private fun assertNear(expected: String, actual: Instant) {
+      val off = Duration.between(Instant.parse(expected), actual).abs()
+      assertTrue(off <= Duration.ofMinutes(3), "expected about $expected, got $actual")
+   }
+
+   @Test
+   fun `midsummer in London`() {
+      val (sunrise, sunset) = assertNotNull(Sun.times(LocalDate.of(2024, 6, 21), 51.5074, -0.1278))
+      assertNear("2024-06-21T03:43:00Z", sunrise)
+      assertNear("2024-06-21T20:21:00Z", sunset)
+   }
+
+   @Test
+   fun `midwinter in New York`() {
+      val (sunrise, sunset) = assertNotNull(Sun.times(LocalDate.of(2024, 12, 21), 40.7128, -74.0060))
+      assertNear("2024-12-21T12:17:00Z", sunrise)
+      assertNear("2024-12-21T21:32:00Z", sunset)
+   }
+
+   @Test
+   fun `no times while the sun stays up or down`() {
+      assertNull(Sun.times(LocalDate.of(2024, 6, 21), 80.0, 0.0))
+      assertNull(Sun.times(LocalDate.of(2024, 12, 21), 80.0, 0.0))
+   }
+}
@@ -205,4 +205,34 @@ class ColorTest {
       assertTrue(rgb.g in 0..255)
       assertTrue(rgb.b in 0..255)
    }
+
+   @Test
+   fun `parses hex colors with and without brightness`() {
+      assertEquals(Color(255, 128, 0, 31), Color.fromHex("#ff8000"))
+      assertEquals(Color(0, 0, 255, 16), Color.fromHex("#0000ff10"))
+      assertEquals(Color(0, 0, 255, 31), Color.fromHex("#0000ffff"))
+   }
+
+   @Test
+   fun `rejects malformed hex colors`() {
+      assertEquals(null, Color.fromHex("ff8000"))
+      assertEquals(null, Color.fromHex("#ff80"))
+      assertEquals(null, Color.fromHex("#gg8000"))
+   }
+
+   @Test
+   fun `formats hex with brightness`() {
+      assertEquals("#ff80001f", Color(255, 128, 0).toHexWithBrightness())
+      assertEquals(Color(12, 34, 56, 7), Color.fromHex(Color(12, 34, 56, 7).toHexWithBrightness()))
+   }
+
+   @Test
+   fun `OKLab blend keeps its ends and brightens the midpoint`() {
+      assertEquals(Color.BLUE, Color.blendOklab(Color.BLUE, Color.RED, 0f))
+      assertEquals(Color.RED, Color.blendOklab(Color.BLUE, Color.RED, 1f))
+
+      val perceptual = Color.blendOklab(Color.BLUE, Color.RED, 0.5f)
+      val linear = Color.blend(Color.BLUE, Color.RED, 0.5f)
+      assertTrue(perceptual.r + perceptual.g + perceptual.b > linear.r + linear.g + linear.b)
+   }
 }
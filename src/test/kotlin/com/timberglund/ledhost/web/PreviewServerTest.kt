@@ -1,13 +1,17 @@
 package com.timberglund.ledhost.web
 
 import com.timberglund.ledhost.config.*
+import com.timberglund.ledhost.db.PlaylistsRepository
 import com.timberglund.ledhost.db.SavedPatternsRepository
 import com.timberglund.ledhost.db.SettingsRepository
 import com.timberglund.ledhost.db.StripRow
 import com.timberglund.ledhost.mapper.LinearMapper
 import com.timberglund.ledhost.pattern.DefaultPatternRegistry
 import com.timberglund.ledhost.pattern.patterns.RainbowPattern
+import com.timberglund.ledhost.playlist.PlaylistPlayer
+import com.timberglund.ledhost.schedule.Scheduler
 import com.timberglund.ledhost.viewport.ArrayViewport
+import com.timberglund.ledhost.viewport.Color
 import io.ktor.client.*
 import io.ktor.client.engine.cio.*
 import io.ktor.client.plugins.websocket.*
@@ -18,6 +22,8 @@ import io.ktor.websocket.*
 import io.mockk.coEvery
 import io.mockk.every
 import io.mockk.mockk
+import kotlinx.coroutines.delay
+import kotlinx.coroutines.launch
 import kotlinx.coroutines.runBlocking
 import kotlin.test.*
 
@@ -28,6 +34,7 @@ class PreviewServerTest {
     private lateinit var registry: DefaultPatternRegistry
     private lateinit var settingsRepository: SettingsRepository
     private lateinit var savedPatternsRepository: SavedPatternsRepository
+    private lateinit var mapper: LinearMapper
 
     @BeforeTest
     fun setup() {
@@ -50,7 +57,7 @@ class PreviewServerTest {
         savedPatternsRepository = mockk(relaxed = true)
         coEvery { savedPatternsRepository.getAllPresets() } returns emptyList()
 
-        val mapper = LinearMapper(listOf(
+        mapper = LinearMapper(listOf(
             StripLayout(0, 50, StripPosition(PointConfig(0, 0), PointConfig(9, 4)))
         ))
 
@@ -191,6 +198,197 @@ class PreviewServerTest {
         }
     }
 
+    @Test
+    fun `modulators apply only to numeric parameters of the active pattern`() = runBlocking {
+        server.setCurrentPattern("Rainbow", emptyMap())
+        server.start()
+        Thread.sleep(100)
+
+        var applied: Set<String>? = null
+        server.setModulatorsChangeListener { applied = it.keys }
+
+        val client = HttpClient(CIO)
+        try {
+            val response = client.put("http://localhost:8081/api/modulators") {
+                contentType(ContentType.Application.Json)
+                setBody(
+                    "{\"speed\":{\"shape\":\"sine\",\"rate\":0.5,\"depth\":1.0,\"center\":2.0}," +
+                    "\"direction\":{\"shape\":\"square\",\"rate\":1.0,\"depth\":1.0,\"center\":0.0}}"
+                )
+            }
+            assertEquals(HttpStatusCode.OK, response.status)
+            assertEquals(setOf("speed"), applied)
+
+            val active = client.get("http://localhost:8081/api/active-pattern").bodyAsText()
+            assertTrue(active.contains("\"shape\":\"sine\""), "Active pattern should report its modulators")
+
+            val invalid = client.put("http://localhost:8081/api/modulators") {
+                contentType(ContentType.Application.Json)
+                setBody("{\"speed\":{\"shape\":\"sine\",\"rate\":0.0,\"depth\":1.0,\"center\":2.0}}")
+            }
+            assertEquals(HttpStatusCode.BadRequest, invalid.status)
+        } finally {
+            client.close()
+        }
+    }
+
+    @Test
+    fun `timeline plays until stopped or the pattern changes`() = runBlocking {
+        server.setCurrentPattern("Rainbow", emptyMap())
+        server.start()
+        Thread.sleep(100)
+
+        val played = mutableListOf<Boolean>()
+        server.setTimelineChangeListener { played.add(it != null) }
+
+        val client = HttpClient(CIO)
+        try {
+            val response = client.put("http://localhost:8081/api/timeline") {
+                contentType(ContentType.Application.Json)
+                setBody("{\"duration\":4.0,\"loop\":false,\"lanes\":{\"speed\":[{\"time\":0.0,\"value\":1.0},{\"time\":4.0,\"value\":3.0}]}}")
+            }
+            assertEquals(HttpStatusCode.OK, response.status)
+            val active = client.get("http://localhost:8081/api/active-pattern").bodyAsText()
+            assertTrue(active.contains("\"duration\":4.0"), "Active pattern should report its timeline")
+
+            val stopped = client.delete("http://localhost:8081/api/timeline")
+            assertEquals(HttpStatusCode.NoContent, stopped.status)
+            assertEquals(listOf(true, false), played)
+
+            val invalid = client.put("http://localhost:8081/api/timeline") {
+                contentType(ContentType.Application.Json)
+                setBody("{\"duration\":2.0,\"lanes\":{\"speed\":[{\"time\":5.0,\"value\":1.0}]}}")
+            }
+            assertEquals(HttpStatusCode.BadRequest, invalid.status)
+        } finally {
+            client.close()
+        }
+    }
+
+    @Test
+    fun `playlists must refer to saved presets`() = runBlocking {
+        val playlistsRepository = mockk<PlaylistsRepository>(relaxed = true)
+        server = PreviewServer(
+            port = 8081,
+            viewport = viewport,
+            patternRegistry = registry,
+            renderer = null,
+            settingsRepository = settingsRepository,
+            savedPatternsRepository = savedPatternsRepository,
+            mapper = mapper,
+            playlistsRepository = playlistsRepository,
+            playlistPlayer = PlaylistPlayer(this, findPreset = { null }, show = { _, _ -> })
+        )
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO)
+        try {
+            val unknown = client.post("http://localhost:8081/api/playlists") {
+                contentType(ContentType.Application.Json)
+                setBody("{\"name\":\"Day\",\"items\":[{\"presetId\":3,\"duration\":10.0}]}")
+            }
+            assertEquals(HttpStatusCode.BadRequest, unknown.status)
+
+            val tooShort = client.post("http://localhost:8081/api/playlists") {
+                contentType(ContentType.Application.Json)
+                setBody("{\"name\":\"Day\",\"items\":[{\"presetId\":3,\"duration\":0.5}]}")
+            }
+            assertEquals(HttpStatusCode.BadRequest, tooShort.status)
+
+            val player = client.get("http://localhost:8081/api/playlist-player")
+            assertEquals(HttpStatusCode.OK, player.status)
+            assertFalse(player.bodyAsText().contains("playlistId"), "Nothing should be playing")
+        } finally {
+            client.close()
+        }
+    }
+
+    @Test
+    fun `schedules must refer to saved presets`() = runBlocking {
+        val scheduler = Scheduler(this, findPreset = { null }, apply = { }, capture = { {} })
+        server = PreviewServer(
+            port = 8081,
+            viewport = viewport,
+            patternRegistry = registry,
+            renderer = null,
+            settingsRepository = settingsRepository,
+            savedPatternsRepository = savedPatternsRepository,
+            mapper = mapper,
+            scheduler = scheduler
+        )
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO)
+        try {
+            val unknown = client.put("http://localhost:8081/api/schedule") {
+                contentType(ContentType.Application.Json)
+                setBody("{\"rules\":[{\"presetId\":3,\"start\":{\"minutes\":420},\"end\":{\"minutes\":540}}]}")
+            }
+            assertEquals(HttpStatusCode.BadRequest, unknown.status)
+
+            val tooLong = client.put("http://localhost:8081/api/schedule/override") {
+                contentType(ContentType.Application.Json)
+                setBody("{\"action\":\"off\",\"minutes\":100000}")
+            }
+            assertEquals(HttpStatusCode.BadRequest, tooLong.status)
+
+            val state = client.get("http://localhost:8081/api/schedule")
+            assertEquals(HttpStatusCode.OK, state.status)
+            assertTrue(state.bodyAsText().contains("\"rules\": []"), "The schedule should be unchanged")
+        } finally {
+            client.close()
+        }
+    }
+
+    @Test
+    fun `calibration targets a configured strip until cleared`() = runBlocking {
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO)
+        try {
+            assertNull(server.getCalibration(), "No calibration before the wizard starts")
+
+            val response = client.post("http://localhost:8081/api/calibration") {
+                contentType(ContentType.Application.Json)
+                setBody("{\"stripId\":0}")
+            }
+            assertEquals(HttpStatusCode.OK, response.status)
+            assertTrue(response.bodyAsText().contains("\"length\""), "Response should include strip length")
+
+            val target = server.getCalibration()
+            assertNotNull(target)
+            assertEquals(0, target.stripId)
+            assertEquals(50, target.length)
+
+            val cleared = client.delete("http://localhost:8081/api/calibration")
+            assertEquals(HttpStatusCode.NoContent, cleared.status)
+            assertNull(server.getCalibration(), "Calibration should be cleared")
+        } finally {
+            client.close()
+        }
+    }
+
+    @Test
+    fun `calibration of unknown strip returns 404`() = runBlocking {
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO)
+        try {
+            val response = client.post("http://localhost:8081/api/calibration") {
+                contentType(ContentType.Application.Json)
+                setBody("{\"stripId\":7}")
+            }
+            assertEquals(HttpStatusCode.NotFound, response.status)
+            assertNull(server.getCalibration())
+        } finally {
+            client.close()
+        }
+    }
+
     @Test
     fun `WebSocket connection works`() = runBlocking {
         server.start()
@@ -214,6 +412,169 @@ class PreviewServerTest {
         }
     }
 
+    @Test
+    fun `LED strip stream sends layout then binary colors`() = runBlocking {
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO) {
+            install(io.ktor.client.plugins.websocket.WebSockets)
+        }
+
+        try {
+            client.webSocket("ws://localhost:8081/ws/led-strips") {
+                launch {
+                    delay(100)
+                    server.broadcastLedFrame(mapOf(0 to Array(50) { Color(1, 2, 3) }))
+                }
+
+                val layout = incoming.receive() as Frame.Text
+                val text = layout.readText()
+                assertTrue(text.contains("\"type\":\"layout\""), "First frame should be the layout: $text")
+                assertTrue(text.contains("\"length\":50"), "Layout should include the strip length: $text")
+
+                val frame = (incoming.receive() as Frame.Binary).readBytes()
+                assertEquals(3 + 50 * 3, frame.size, "Small frames are sent uncompressed")
+                assertEquals(0x00, frame[0].toInt())
+                assertEquals(1, (frame[1].toInt() shl 8) or frame[2].toInt())
+                assertEquals(listOf<Byte>(1, 2, 3), frame.slice(3..5))
+
+                close()
+            }
+        } finally {
+            client.close()
+        }
+    }
+
+    @Test
+    fun `LED strip stream includes brightness when an LED is dimmed`() = runBlocking {
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO) {
+            install(io.ktor.client.plugins.websocket.WebSockets)
+        }
+
+        try {
+            client.webSocket("ws://localhost:8081/ws/led-strips") {
+                launch {
+                    delay(100)
+                    server.broadcastLedFrame(mapOf(0 to Array(10) { i -> Color(1, 2, 3, if(i == 0) 8 else 31) }))
+                }
+
+                assertTrue(incoming.receive() is Frame.Text, "First frame should be the layout")
+
+                val frame = (incoming.receive() as Frame.Binary).readBytes()
+                assertEquals(3 + 10 * 4, frame.size, "Each LED should carry RGB plus brightness")
+                assertEquals(0x02, frame[0].toInt())
+                assertEquals(listOf<Byte>(1, 2, 3), frame.slice(3..5))
+                assertEquals(8, frame[3 + 10 * 3].toInt(), "Brightness follows the RGB block")
+                assertEquals(31, frame[3 + 10 * 3 + 1].toInt())
+
+                close()
+            }
+        } finally {
+            client.close()
+        }
+    }
+
+    @Test
+    fun `viewport v2 clients get a keyframe then deltas`() = runBlocking {
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO) {
+            install(io.ktor.client.plugins.websocket.WebSockets)
+        }
+
+        try {
+            client.webSocket("ws://localhost:8081/viewport?v=2") {
+                launch {
+                    delay(100)
+                    server.broadcastViewport(1234L)
+                    viewport.setPixel(3, 0, Color(9, 8, 7))
+                    server.broadcastViewport(1284L)
+                }
+
+                val keyframe = (incoming.receive() as Frame.Binary).readBytes()
+                val flags = keyframe[0].toInt() and 0xFF
+                assertEquals(0x82, flags and 0x86, "First frame should be a v2 keyframe")
+                assertEquals(2, keyframe[1].toInt())
+                assertEquals(10, (keyframe[2].toInt() shl 8) or keyframe[3].toInt())
+                assertEquals(5, (keyframe[4].toInt() shl 8) or keyframe[5].toInt())
+                val timestamp = keyframe.sliceArray(10..17).fold(0L) { acc, b -> (acc shl 8) or (b.toLong() and 0xFF) }
+                assertEquals(1234L, timestamp)
+
+                val delta = (incoming.receive() as Frame.Binary).readBytes()
+                assertEquals(0x84, delta[0].toInt() and 0xFF, "Second frame should be an uncompressed delta")
+                assertEquals(keyframe[9] + 1, delta[9].toInt(), "Sequence number should advance by one")
+                assertEquals(listOf<Byte>(0, 0, 0, 3, 0, 1, 9, 8, 7), delta.drop(18),
+                    "Delta should carry only the changed pixel")
+
+                close()
+            }
+        } finally {
+            client.close()
+        }
+    }
+
+    @Test
+    fun `viewport quality command downscales frames`() = runBlocking {
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO) {
+            install(io.ktor.client.plugins.websocket.WebSockets)
+        }
+
+        try {
+            client.webSocket("ws://localhost:8081/viewport?v=2") {
+                send(Frame.Text("""{"type":"quality","maxFps":0,"scale":2,"paused":false}"""))
+
+                val reply = (incoming.receive() as Frame.Text).readText()
+                assertTrue(reply.contains("\"type\":\"quality\""), "Reply should be a quality message: $reply")
+                assertTrue(reply.contains("\"scale\":2"), "Reply should confirm the scale: $reply")
+
+                server.broadcastViewport()
+                val frame = (incoming.receive() as Frame.Binary).readBytes()
+                assertEquals(0x0A, frame[0].toInt() and 0x0E, "Frame should be a scaled keyframe")
+                assertEquals(10, (frame[2].toInt() shl 8) or frame[3].toInt(), "Header keeps the full width")
+
+                close()
+            }
+        } finally {
+            client.close()
+        }
+    }
+
+    @Test
+    fun `viewport clients without a version get v1 frames`() = runBlocking {
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO) {
+            install(io.ktor.client.plugins.websocket.WebSockets)
+        }
+
+        try {
+            client.webSocket("ws://localhost:8081/viewport") {
+                launch {
+                    delay(100)
+                    server.broadcastViewport()
+                }
+
+                val frame = (incoming.receive() as Frame.Binary).readBytes()
+                assertEquals(0x01, frame[0].toInt(), "v1 frames are always deflated")
+                assertEquals(10, (frame[1].toInt() shl 8) or frame[2].toInt())
+                assertEquals(5, (frame[3].toInt() shl 8) or frame[4].toInt())
+
+                close()
+            }
+        } finally {
+            client.close()
+        }
+    }
+
     @Test
     fun `broadcaster tracks client count`() = runBlocking {
         server.start()
@@ -269,4 +630,21 @@ class PreviewServerTest {
             client.close()
         }
     }
+
+    @Test
+    fun `serves index html for the present route`() = runBlocking {
+        server.start()
+        Thread.sleep(100)
+
+        val client = HttpClient(CIO)
+        try {
+            val response = client.get("http://localhost:8081/present")
+            assertEquals(HttpStatusCode.OK, response.status)
+
+            val body = response.bodyAsText()
+            assertTrue(body.contains("LED Strip Host"), "Should serve index.html")
+        } finally {
+            client.close()
+        }
+    }
 }